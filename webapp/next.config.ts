@@ -32,6 +32,16 @@ const nextConfig: NextConfig = {
         },
       ],
     },
+    {
+      // Browsers look for service worker updates on every visit
+      source: '/sw.js',
+      headers: [
+        {
+          key: 'Cache-Control',
+          value: 'no-cache',
+        },
+      ],
+    },
   ],
 
   // Webpack optimizations for WebRTC
@@ -0,0 +1,164 @@
+/**
+ * Camera Suite service worker
+ * - Offline app shell: pages are fetched from the network first and served from the cache when the server
+ *   cannot be reached (offline.html for pages never opened); build assets are cached once, they never change
+ * - Shows push notifications sent by the server (see src/lib/push) and opens their link when clicked
+ * API requests and streams are never cached; signing out clears the cached pages
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `camsuite-shell-${CACHE_VERSION}`;
+const PAGE_CACHE = `camsuite-pages-${CACHE_VERSION}`;
+const OFFLINE_PAGE = '/offline.html';
+
+// Cached when the worker is installed
+const SHELL_FILES = [
+  OFFLINE_PAGE,
+  '/manifest.json',
+  '/favicon.svg',
+  '/icon-192x192.png',
+  '/icon-512x512.png',
+  '/icon-maskable-512x512.png',
+  '/apple-touch-icon.png',
+];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_FILES)).then(() => self.skipWaiting())
+  );
+});
+
+// Drop caches of older versions
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('camsuite-') && key !== SHELL_CACHE && key !== PAGE_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Pages: network first, then the cached copy of the page or the offline page
+ */
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    // Redirects (e.g., to the login page) are not the page that was asked for
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(PAGE_CACHE);
+      await cache.put(request.url, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cache = await caches.open(PAGE_CACHE);
+    return (
+      (await cache.match(request.url, { ignoreSearch: true })) ||
+      (await caches.match(OFFLINE_PAGE)) ||
+      Promise.reject(error)
+    );
+  }
+}
+
+/**
+ * Build assets: cache first; only production builds mark them immutable (dev builds change them in place)
+ */
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok && (response.headers.get('Cache-Control') || '').includes('immutable')) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * Icons and the manifest: network first, the copy cached at install when offline
+ */
+async function handleShellFile(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    return (await caches.match(request)) || Promise.reject(error);
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === '/api/auth/logout') {
+    event.waitUntil(caches.delete(PAGE_CACHE));
+    return;
+  }
+  if (request.method !== 'GET' || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(handleAsset(request));
+  } else if (SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(handleShellFile(request));
+  }
+});
+
+// The page that registered the worker was loaded before it could be cached
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'cache-page' || typeof event.data.url !== 'string') return;
+  const url = new URL(event.data.url, self.location.origin);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  event.waitUntil(
+    fetch(url.href, { credentials: 'same-origin' })
+      .then(response => {
+        if (!response.ok || response.redirected) return;
+        return caches.open(PAGE_CACHE).then(cache => cache.put(url.href, response));
+      })
+      .catch(() => undefined)
+  );
+});
+
+self.addEventListener('push', event => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Camera Suite', {
+      body: message.body || '',
+      tag: message.tag,
+      renotify: Boolean(message.tag),
+      icon: '/icon-192x192.png',
+      badge: '/favicon.svg',
+      data: { url: message.url || '/' },
+    })
+  );
+});
+
+// Focus a window already showing the link, reuse another one of ours, or open a new one
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const open = windows.find(client => client.url === url);
+      if (open) return open.focus();
+
+      const other = windows.find(client => new URL(client.url).origin === self.location.origin);
+      if (other) return other.navigate(url).then(client => (client || other).focus());
+
+      return self.clients.openWindow(url);
+    })
+  );
+});
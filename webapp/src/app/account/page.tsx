@@ -0,0 +1,33 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { AccountSecurityForm } from '@/components/forms/account-security-form';
+import { TwoFactorSettings } from '@/components/two-factor-settings';
+import { PushNotificationSettings } from '@/components/push-notification-settings';
+
+/**
+ * Account page component
+ * Lets any signed-in user change their own website credentials, two-factor and push notification settings
+ */
+export default function AccountPage() {
+  return (
+    <AuthGate>
+      <MainLayout title="Account">
+        <div className="max-w-2xl mx-auto space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Account</h1>
+            <p className="text-gray-600">
+              Manage the credentials you use to sign in to Camera Suite
+            </p>
+          </div>
+
+          <AccountSecurityForm />
+
+          <TwoFactorSettings />
+
+          <PushNotificationSettings />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
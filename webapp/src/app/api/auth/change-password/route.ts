@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { changeSiteCredentials, validateNewSiteCredentials } from '@/lib/site-auth/user-store';
+import { createSessionData, readSession, setSessionCookies } from '@/lib/site-auth/session';
+
+/**
+ * Change the website credentials
+ * Requires an active session and the current password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await readSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const currentPassword = typeof body.currentPassword === 'string' ? body.currentPassword : '';
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!currentPassword) {
+      return NextResponse.json(
+        { success: false, message: 'Current password is required' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateNewSiteCredentials({ username, password });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: errors[0], errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await changeSiteCredentials(session.userId, currentPassword, { username, password });
+    if (!result.success || !result.user) {
+      const status = result.reason === 'conflict' ? 409 : result.reason === 'not_found' ? 401 : 403;
+      return NextResponse.json(
+        { success: false, message: result.message || 'Current password is incorrect' },
+        { status }
+      );
+    }
+
+    // Re-issue the session under the (possibly renamed) user
+    const sessionData = createSessionData(result.user);
+    const response = NextResponse.json({
+      success: true,
+      message: 'Website credentials updated',
+      username: result.user.username,
+    });
+
+    await setSessionCookies(response, sessionData);
+
+    return response;
+  } catch (error) {
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
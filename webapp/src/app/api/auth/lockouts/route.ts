@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockedOutSources, unlockSource } from '@/lib/site-auth/rate-limit';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+
+/**
+ * List login sources (IPs and usernames) that are currently locked out (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const lockouts = await getLockedOutSources();
+    return NextResponse.json({ success: true, lockouts });
+  } catch (error) {
+    console.error('Lockouts error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Lift the lockout for a single source (?key=ip:1.2.3.4 or ?key=username:admin)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const key = request.nextUrl.searchParams.get('key');
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: 'Lockout key is required' },
+        { status: 400 }
+      );
+    }
+
+    const unlocked = await unlockSource(key);
+    if (!unlocked) {
+      return NextResponse.json(
+        { success: false, message: 'Lockout not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Lockout cleared' });
+  } catch (error) {
+    console.error('Clear lockout error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
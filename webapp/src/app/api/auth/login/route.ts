@@ -1,135 +1,205 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { recordFailedLogin, checkLoginLockout, resetRateLimit } from '@/lib/site-auth/rate-limit';
-import { cookies } from 'next/headers';
+import {
+  recordFailedLogin,
+  checkLoginLockout,
+  resetRateLimit,
+  getClientIp,
+  shouldLogFailedLogin,
+} from '@/lib/site-auth/rate-limit';
+import { getUserById, verifySiteCredentials } from '@/lib/site-auth/user-store';
+import {
+  claimLoginChallenge,
+  completeLoginChallenge,
+  createLoginChallenge,
+  verifySecondFactor,
+} from '@/lib/site-auth/two-factor';
+import { createSessionData, setSessionCookies } from '@/lib/site-auth/session';
+import { readDeviceId, rememberDevice, setDeviceCookie } from '@/lib/site-auth/known-devices';
+import { recordEvent } from '@/lib/events/event-store';
+import type { SiteUser } from '@/lib/site-auth/permissions';
 
-const SESSION_DURATION = 30 * 60 * 1000; // 30 minutes
+/**
+ * Build a 429 response with a Retry-After header (seconds)
+ */
+function lockedOutResponse(remainingTime: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      message: 'Too many failed attempts. Please try again later.',
+      isLocked: true,
+      remainingTime,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(remainingTime / 1000)) },
+    }
+  );
+}
+
+/**
+ * Record a failed attempt and build the matching 401/429 response
+ * Only some failures are logged as events (see shouldLogFailedLogin)
+ */
+async function failedAttemptResponse(clientIp: string, username: string, message: string) {
+  const rateLimitResult = await recordFailedLogin(clientIp, username);
+  if (shouldLogFailedLogin(clientIp, username, rateLimitResult)) {
+    await recordEvent({
+      type: 'login-failed',
+      username,
+      message: rateLimitResult.isLocked
+        ? `Sign-in as ${username} from ${clientIp} locked out after repeated failures`
+        : `Failed sign-in as ${username} from ${clientIp}`,
+    });
+  }
 
-// Server-side credential storage key
-const STORAGE_KEY = 'webcam_site_auth';
-const DEFAULT_USERNAME = 'admin';
-const DEFAULT_PASSWORD = 'changeme';
+  if (rateLimitResult.isLocked) {
+    return lockedOutResponse(rateLimitResult.remainingTime || 0);
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      message,
+      attempts: rateLimitResult.attempts,
+      remainingAttempts: rateLimitResult.remainingAttempts,
+      isLocked: false,
+    },
+    { status: 401 }
+  );
+}
+
+/**
+ * Sign the user in and reset their rate limit counters
+ * Sign-ins from a device the user has not used before are logged as such
+ */
+async function sessionResponse(
+  request: NextRequest,
+  clientIp: string,
+  user: SiteUser,
+  extra: Record<string, unknown> = {}
+) {
+  // Success - reset rate limit
+  await resetRateLimit(clientIp, user.username);
+  const device = await rememberDevice(user.id, readDeviceId(request));
+  await recordEvent({
+    type: device.isNew ? 'login-new-device' : 'login',
+    username: user.username,
+    message: device.isNew
+      ? `${user.username} signed in from a new device (${clientIp})`
+      : `${user.username} signed in from ${clientIp}`,
+  });
+
+  // Create session
+  const sessionData = createSessionData(user);
+
+  // Create response with cookies
+  const response = NextResponse.json({
+    success: true,
+    message: 'Login successful',
+    role: user.role,
+    expiresAt: sessionData.expiresAt,
+    ...extra,
+  });
+
+  // Set HTTP-only cookies for security
+  await setSessionCookies(response, sessionData);
+  setDeviceCookie(response, device.deviceId);
+
+  return response;
+}
 
 /**
- * Get stored credentials from cookies (server-side)
- * On first launch, returns default credentials
+ * Second login step: exchange a challenge token and authenticator/recovery code for a session
  */
-async function getStoredCredentials() {
-  const cookieStore = await cookies();
-  const storedCreds = cookieStore.get(STORAGE_KEY)?.value;
-  
-  if (!storedCreds) {
-    // First launch - use default credentials
-    return {
-      username: DEFAULT_USERNAME,
-      password: DEFAULT_PASSWORD,
-      isDefault: true,
-    };
+async function verifyTwoFactorStep(request: NextRequest, challengeToken: string, code: string) {
+  const clientIp = getClientIp(request.headers);
+
+  const userId = claimLoginChallenge(challengeToken);
+  const user = userId ? await getUserById(userId) : null;
+  if (!user) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Your sign-in expired. Please enter your password again.',
+        challengeExpired: true,
+      },
+      { status: 401 }
+    );
   }
 
-  try {
-    const parsed = JSON.parse(decodeURIComponent(storedCreds));
-    return {
-      username: parsed.credentials?.username || DEFAULT_USERNAME,
-      password: parsed.credentials?.password || DEFAULT_PASSWORD,
-      isDefault: false,
-    };
-  } catch {
-    // Fallback to defaults if parsing fails
-    return {
-      username: DEFAULT_USERNAME,
-      password: DEFAULT_PASSWORD,
-      isDefault: true,
-    };
+  const lockout = await checkLoginLockout(clientIp, user.username);
+  if (lockout.isLocked) {
+    completeLoginChallenge(challengeToken);
+    return lockedOutResponse(lockout.remainingTime || 0);
+  }
+
+  const result = await verifySecondFactor(user.id, code);
+  if (!result.valid) {
+    return failedAttemptResponse(clientIp, user.username, 'Invalid authentication code');
   }
+
+  completeLoginChallenge(challengeToken);
+  return sessionResponse(request, clientIp, user, {
+    isDefaultCredentials: false,
+    usedRecoveryCode: result.method === 'recovery',
+    recoveryCodesRemaining: result.recoveryCodesRemaining,
+  });
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { username, password } = body;
+
+    // Second step of a two-factor login
+    if (typeof body?.challengeToken === 'string') {
+      const code = typeof body.code === 'string' ? body.code.trim() : '';
+      if (!code) {
+        return NextResponse.json(
+          { success: false, message: 'Authentication code is required' },
+          { status: 400 }
+        );
+      }
+      return verifyTwoFactorStep(request, body.challengeToken, code);
+    }
+
+    const username = typeof body?.username === 'string' ? body.username : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
 
     // Validate input
-    if (!username || !password) {
+    if (!username.trim() || !password) {
       return NextResponse.json(
         { success: false, message: 'Username and password are required' },
         { status: 400 }
       );
     }
 
-    // Check for rate limiting
-    const lockout = checkLoginLockout();
+    // Check for rate limiting (per client IP and per username)
+    const clientIp = getClientIp(request.headers);
+    const lockout = await checkLoginLockout(clientIp, username);
     if (lockout.isLocked) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Too many failed attempts. Please try again later.',
-          isLocked: true,
-          remainingTime: lockout.remainingTime,
-        },
-        { status: 429 }
-      );
+      return lockedOutResponse(lockout.remainingTime || 0);
     }
 
-    // Get stored credentials (server-side)
-    const storedCreds = await getStoredCredentials();
-
-    // Validate credentials
-    const isValid = username === storedCreds.username && password === storedCreds.password;
-    const isDefaultCredentials = username === DEFAULT_USERNAME && password === DEFAULT_PASSWORD;
+    // Validate credentials against the server-side store
+    const { valid, isDefaultCredentials, user } = await verifySiteCredentials(username, password);
 
-    if (!isValid) {
-      // Record failed attempt
-      const rateLimitResult = recordFailedLogin();
-      
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Invalid username or password',
-          attempts: rateLimitResult.attempts,
-          isLocked: rateLimitResult.isLocked,
-          remainingTime: rateLimitResult.remainingTime,
-        },
-        { status: 401 }
-      );
+    if (!valid || !user) {
+      return failedAttemptResponse(clientIp, username, 'Invalid username or password');
     }
 
-    // Success - reset rate limit
-    resetRateLimit();
-
-    // Create session
-    const expiresAt = Date.now() + SESSION_DURATION;
-    const sessionData = {
-      username,
-      expiresAt,
-      createdAt: Date.now(),
-    };
-
-    // Create response with cookies
-    const response = NextResponse.json({
-      success: true,
-      message: 'Login successful',
-      isDefaultCredentials,
-      expiresAt,
-    });
-
-    // Set HTTP-only cookies for security
-    response.cookies.set('site_session', 'authenticated', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: SESSION_DURATION / 1000, // Convert to seconds
-      path: '/',
-    });
-
-    response.cookies.set('site_session_data', encodeURIComponent(JSON.stringify(sessionData)), {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: SESSION_DURATION / 1000,
-      path: '/',
-    });
+    // Password is correct but the account also needs its second factor
+    if (user.twoFactorEnabled) {
+      const challenge = createLoginChallenge(user.id);
+      return NextResponse.json({
+        success: false,
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+        challengeToken: challenge.challengeToken,
+        challengeExpiresAt: challenge.expiresAt,
+      });
+    }
 
-    return response;
+    return sessionResponse(request, clientIp, user, { isDefaultCredentials });
   } catch (error) {
     console.error('Login error:', error);
     return NextResponse.json(
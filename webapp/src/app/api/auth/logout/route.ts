@@ -1,7 +1,19 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookies, readSession } from '@/lib/site-auth/session';
+import { recordEvent } from '@/lib/events/event-store';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // Sessions that already expired sign out silently
+    const session = await readSession(request);
+    if (session) {
+      await recordEvent({
+        type: 'logout',
+        username: session.username,
+        message: `${session.username} signed out`,
+      });
+    }
+
     // Create response
     const response = NextResponse.json({
       success: true,
@@ -9,8 +21,7 @@ export async function POST() {
     });
 
     // Clear session cookies
-    response.cookies.delete('site_session');
-    response.cookies.delete('site_session_data');
+    clearSessionCookies(response);
 
     return response;
   } catch (error) {
@@ -1,75 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE,
+  readSession,
+  extendSessionData,
+  setSessionCookies,
+  clearSessionCookies,
+} from '@/lib/site-auth/session';
+import { getUserById } from '@/lib/site-auth/user-store';
 
-const SESSION_DURATION = 30 * 60 * 1000; // 30 minutes
-
+/**
+ * Check the session and extend it - this counts as activity
+ * `?renew=false` only checks it (e.g., connectivity probes), so an idle tab still times out
+ */
 export async function GET(request: NextRequest) {
   try {
-    const sessionToken = request.cookies.get('site_session')?.value;
-    const sessionData = request.cookies.get('site_session_data')?.value;
-
-    if (!sessionToken || !sessionData || sessionToken !== 'authenticated') {
+    if (!request.cookies.get(SESSION_COOKIE)?.value) {
       return NextResponse.json({
         authenticated: false,
         message: 'No active session',
       });
     }
 
-    try {
-      const data = JSON.parse(decodeURIComponent(sessionData));
-      const now = Date.now();
-
-      // Check if session has expired
-      if (data.expiresAt && now > data.expiresAt) {
-        // Session expired
-        const response = NextResponse.json({
-          authenticated: false,
-          message: 'Session expired',
-        });
+    const data = await readSession(request);
+    const user = data ? await getUserById(data.userId) : null;
 
-        // Clear expired cookies
-        response.cookies.delete('site_session');
-        response.cookies.delete('site_session_data');
+    if (!data || !user) {
+      // Session expired, invalid, tampered with, or the user was deleted
+      const response = NextResponse.json({
+        authenticated: false,
+        message: 'Session expired',
+      });
 
-        return response;
-      }
+      // Clear stale cookies
+      clearSessionCookies(response);
 
-      // Session is valid - extend it
-      const newExpiresAt = now + SESSION_DURATION;
-      const updatedSessionData = {
-        ...data,
-        expiresAt: newExpiresAt,
-      };
+      return response;
+    }
 
-      const response = NextResponse.json({
+    if (request.nextUrl.searchParams.get('renew') === 'false') {
+      return NextResponse.json({
         authenticated: true,
         username: data.username,
-        expiresAt: newExpiresAt,
+        expiresAt: data.expiresAt,
+        user,
       });
+    }
 
-      // Update cookies with extended expiration
-      response.cookies.set('site_session', 'authenticated', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: SESSION_DURATION / 1000,
-        path: '/',
-      });
+    // Session is valid - extend it with the user's current role
+    const extended = extendSessionData(data, user);
 
-      response.cookies.set('site_session_data', encodeURIComponent(JSON.stringify(updatedSessionData)), {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: SESSION_DURATION / 1000,
-        path: '/',
-      });
+    const response = NextResponse.json({
+      authenticated: true,
+      username: extended.username,
+      expiresAt: extended.expiresAt,
+      user,
+    });
 
-      return response;
-    } catch {
-      return NextResponse.json({
-        authenticated: false,
-        message: 'Invalid session data',
-      });
-    }
+    // Re-sign the cookie with the extended expiration
+    await setSessionCookies(response, extended);
+
+    return response;
   } catch (error) {
     console.error('Session check error:', error);
     return NextResponse.json(
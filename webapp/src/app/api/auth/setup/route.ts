@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCredentialStoreStatus,
+  setupSiteCredentials,
+  validateNewSiteCredentials,
+} from '@/lib/site-auth/user-store';
+import { createSessionData, setSessionCookies } from '@/lib/site-auth/session';
+
+/**
+ * First-launch status (public - used by the login page)
+ */
+export async function GET() {
+  try {
+    const status = await getCredentialStoreStatus();
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Setup status error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create the first site credentials and sign in
+ * Only allowed while no credentials have been stored yet
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const username = typeof body.username === 'string' ? body.username.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    const errors = validateNewSiteCredentials({ username, password });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: errors[0], errors },
+        { status: 400 }
+      );
+    }
+
+    const admin = await setupSiteCredentials({ username, password });
+    if (!admin) {
+      return NextResponse.json(
+        { success: false, message: 'Site credentials have already been set up' },
+        { status: 409 }
+      );
+    }
+
+    const sessionData = createSessionData(admin);
+    const response = NextResponse.json({
+      success: true,
+      message: 'Site credentials created',
+      expiresAt: sessionData.expiresAt,
+    });
+
+    await setSessionCookies(response, sessionData);
+
+    return response;
+  } catch (error) {
+    console.error('Setup error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
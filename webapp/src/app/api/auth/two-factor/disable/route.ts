@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { disableTwoFactor } from '@/lib/site-auth/two-factor';
+
+/**
+ * Turn off two-factor authentication for the signed-in user
+ * Requires the current password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const password = typeof body.password === 'string' ? body.password : '';
+    if (!password) {
+      return NextResponse.json(
+        { success: false, message: 'Current password is required' },
+        { status: 400 }
+      );
+    }
+
+    const disabled = await disableTwoFactor(auth.user.id, password);
+    if (!disabled) {
+      return NextResponse.json(
+        { success: false, message: 'Current password is incorrect' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { confirmTwoFactorEnrollment } from '@/lib/site-auth/two-factor';
+
+/**
+ * Finish two-factor enrollment with a code from the authenticator app
+ * Returns the recovery codes - they are only shown this once
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    if (!code) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication code is required' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(auth.user.id, code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { regenerateRecoveryCodes } from '@/lib/site-auth/two-factor';
+
+/**
+ * Replace the signed-in user's recovery codes
+ * Requires a current authenticator code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    if (!code) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication code is required' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(auth.user.id, code);
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid authentication code' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Recovery codes regenerated', recoveryCodes });
+  } catch (error) {
+    console.error('Recovery codes error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
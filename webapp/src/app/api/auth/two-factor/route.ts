@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getTwoFactorStatus } from '@/lib/site-auth/two-factor';
+
+/**
+ * Two-factor status of the signed-in user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const status = await getTwoFactorStatus(auth.user.id);
+    return NextResponse.json({ success: true, ...status });
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
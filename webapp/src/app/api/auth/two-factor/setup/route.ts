@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { beginTwoFactorEnrollment } from '@/lib/site-auth/two-factor';
+
+/**
+ * Start two-factor enrollment for the signed-in user
+ * Returns the secret, provisioning URI and a locally rendered QR code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    if (auth.user.twoFactorEnabled) {
+      return NextResponse.json(
+        { success: false, message: 'Two-factor authentication is already enabled' },
+        { status: 409 }
+      );
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(auth.user.id);
+    if (!enrollment) {
+      return NextResponse.json(
+        { success: false, message: 'Create your own account before enabling two-factor authentication' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...enrollment });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
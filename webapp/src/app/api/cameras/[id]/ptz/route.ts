@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getCameraForUser } from '@/config/config-store';
+import { hasPtz, normalizePtzSpeed, PTZ_PRESET_NAME_MAX_LENGTH } from '@/lib/onvif';
+import { getPtzPresets, gotoPtzPreset, movePtz, savePtzPreset, stopPtz } from '@/lib/onvif/onvif-client';
+import { Camera } from '@/types';
+
+interface PtzRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+type PtzCameraResult = { camera: Camera; error?: undefined } | { camera?: undefined; error: NextResponse };
+
+/**
+ * Authorize an operator and find a camera of theirs that has ONVIF set up
+ */
+async function findPtzCamera(request: NextRequest, params: PtzRouteContext['params']): Promise<PtzCameraResult> {
+  const auth = await authorizeRequest(request, 'operator');
+  if (auth.error) return { error: auth.error };
+
+  const { id } = await params;
+  const found = await getCameraForUser(id, auth.user);
+  if (!found) {
+    return {
+      error: NextResponse.json(
+        { success: false, message: 'Camera not found' },
+        { status: 404 }
+      ),
+    };
+  }
+  if (!hasPtz(found.camera)) {
+    return {
+      error: NextResponse.json(
+        { success: false, message: `${found.camera.name} has no ONVIF service set up - ask an admin to add it in Settings` },
+        { status: 400 }
+      ),
+    };
+  }
+  return { camera: found.camera };
+}
+
+function cameraError(message: string) {
+  return NextResponse.json(
+    { success: false, message },
+    { status: 502 }
+  );
+}
+
+function invalidRequest(message: string) {
+  return NextResponse.json(
+    { success: false, message },
+    { status: 400 }
+  );
+}
+
+/**
+ * List the camera's PTZ presets (operators and admins who may view it)
+ */
+export async function GET(request: NextRequest, { params }: PtzRouteContext) {
+  try {
+    const found = await findPtzCamera(request, params);
+    if (found.error) return found.error;
+
+    const result = await getPtzPresets(found.camera);
+    if (result.error) return cameraError(result.error.message);
+
+    return NextResponse.json({ success: true, presets: result.data });
+  } catch (error) {
+    console.error('List PTZ presets error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Move the camera (operators and admins who may view it)
+ * Body: { action: 'move', pan, tilt, zoom } with speeds from -1 to 1, { action: 'stop' },
+ * { action: 'goto', preset } or { action: 'save-preset', name }
+ */
+export async function POST(request: NextRequest, { params }: PtzRouteContext) {
+  try {
+    const found = await findPtzCamera(request, params);
+    if (found.error) return found.error;
+
+    const { camera } = found;
+    const body = await request.json().catch(() => null);
+
+    switch (body?.action) {
+      case 'move': {
+        const result = await movePtz(camera, {
+          pan: normalizePtzSpeed(body.pan),
+          tilt: normalizePtzSpeed(body.tilt),
+          zoom: normalizePtzSpeed(body.zoom),
+        });
+        if (result.error) return cameraError(result.error.message);
+        return NextResponse.json({ success: true });
+      }
+
+      case 'stop': {
+        const result = await stopPtz(camera);
+        if (result.error) return cameraError(result.error.message);
+        return NextResponse.json({ success: true });
+      }
+
+      case 'goto': {
+        if (typeof body.preset !== 'string' || !body.preset) {
+          return invalidRequest('`preset` is required');
+        }
+        const result = await gotoPtzPreset(camera, body.preset);
+        if (result.error) return cameraError(result.error.message);
+        return NextResponse.json({ success: true });
+      }
+
+      case 'save-preset': {
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name) {
+          return invalidRequest('Preset name is required');
+        }
+        if (name.length > PTZ_PRESET_NAME_MAX_LENGTH) {
+          return invalidRequest(`Preset name must be at most ${PTZ_PRESET_NAME_MAX_LENGTH} characters`);
+        }
+        const result = await savePtzPreset(camera, name);
+        if (result.error) return cameraError(result.error.message);
+        return NextResponse.json({ success: true, message: `Saved preset "${name}"`, preset: result.data });
+      }
+
+      default:
+        return invalidRequest('`action` must be move, stop, goto or save-preset');
+    }
+  } catch (error) {
+    console.error('PTZ control error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getCameraForUser } from '@/config/config-store';
+import { recheckCameraHealth } from '@/lib/camera-health/health-service';
+import { getRecordMode, RECORD_MODE_LABELS } from '@/lib/recordings';
+import { setCameraRecording } from '@/lib/recordings/record-control';
+
+interface RecordRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Start or stop recording a camera (operators and admins who may view it)
+ * Only cameras on schedule can be switched by hand; the next scheduled change takes over again
+ */
+export async function POST(request: NextRequest, { params }: RecordRouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'operator');
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const found = await getCameraForUser(id, auth.user);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, message: 'Camera not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.record !== 'boolean') {
+      return NextResponse.json(
+        { success: false, message: '`record` must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const { camera, config } = found;
+    const mode = getRecordMode(camera);
+    if (mode !== 'schedule') {
+      return NextResponse.json(
+        { success: false, message: `${camera.name} is set to "${RECORD_MODE_LABELS[mode]}" in Settings` },
+        { status: 409 }
+      );
+    }
+    if (!config.mediamtxApi?.url) {
+      return NextResponse.json(
+        { success: false, message: 'Recording control needs the MediaMTX API - ask an admin to set it up' },
+        { status: 400 }
+      );
+    }
+
+    const result = await setCameraRecording(config.mediamtxApi, camera, body.record);
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error.message },
+        { status: 502 }
+      );
+    }
+
+    // Push the new recording state to every open viewer
+    await recheckCameraHealth([camera.id]);
+
+    return NextResponse.json({
+      success: true,
+      message: body.record ? 'Recording started' : 'Recording stopped',
+      record: body.record,
+    });
+  } catch (error) {
+    console.error('Record camera error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getStreamPath } from '@/config';
+import { getCameraForUser } from '@/config/config-store';
+import { exceedsContentLength, readBodyWithLimit } from '@/lib/http/read-body';
+import {
+  getCameraSnapshot,
+  getSnapshotTtl,
+  MAX_SNAPSHOT_SIZE,
+  SNAPSHOT_CONTENT_TYPES,
+  storeSnapshot,
+} from '@/lib/thumbnails/thumbnail-cache';
+
+interface SnapshotRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function snapshotTooLarge() {
+  return NextResponse.json(
+    { success: false, message: 'Snapshot is empty or too large' },
+    { status: 413 }
+  );
+}
+
+function cameraNotFound() {
+  return NextResponse.json(
+    { success: false, message: 'Camera not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Get a recent still frame of a camera (any user who may view it)
+ */
+export async function GET(request: NextRequest, { params }: SnapshotRouteContext) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const found = await getCameraForUser(id, auth.user);
+    if (!found) return cameraNotFound();
+
+    const { camera, config } = found;
+    // Thumbnails are small - grab them from the sub-stream when there is one
+    const snapshot = await getCameraSnapshot(
+      { ...camera, path: getStreamPath(camera, 'sub') },
+      config.serverUrl,
+      camera.credentials || config.defaultCredentials
+    );
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, message: 'No snapshot available yet' },
+        { status: 404 }
+      );
+    }
+
+    const maxAge = Math.max(0, Math.floor((snapshot.capturedAt + getSnapshotTtl() - Date.now()) / 1000));
+    return new NextResponse(new Uint8Array(snapshot.data), {
+      headers: {
+        'Content-Type': snapshot.contentType,
+        'Content-Length': String(snapshot.data.length),
+        'Cache-Control': `private, max-age=${maxAge}`,
+        'Last-Modified': new Date(snapshot.capturedAt).toUTCString(),
+      },
+    });
+  } catch (error) {
+    console.error('Get snapshot error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Store a frame captured by a browser playing the camera (operators and admins)
+ * Every user who can see the camera is shown this frame, so viewers cannot replace it
+ * The body is the image itself (JPEG, PNG or WebP)
+ */
+export async function POST(request: NextRequest, { params }: SnapshotRouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'operator');
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const found = await getCameraForUser(id, auth.user);
+    if (!found) return cameraNotFound();
+
+    const contentType = request.headers.get('content-type')?.split(';')[0].trim() || '';
+    if (!SNAPSHOT_CONTENT_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { success: false, message: 'Snapshot must be a JPEG, PNG or WebP image' },
+        { status: 415 }
+      );
+    }
+
+    if (exceedsContentLength(request, MAX_SNAPSHOT_SIZE)) {
+      return snapshotTooLarge();
+    }
+
+    const data = await readBodyWithLimit(request, MAX_SNAPSHOT_SIZE);
+    if (!data) return snapshotTooLarge();
+
+    storeSnapshot(found.camera.id, data, contentType, 'player');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Store snapshot error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { canViewCamera } from '@/lib/site-auth/permissions';
+import { getCameraHealth, pollCameraHealth } from '@/lib/camera-health/health-service';
+
+/**
+ * Get the status and last-seen time of the cameras the user may view
+ * Cameras that are due are probed first, so the answer is never older than the poll interval
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    await pollCameraHealth();
+    const cameras = getCameraHealth().filter(health => canViewCamera(auth.user, health.cameraId));
+
+    return NextResponse.json(
+      { success: true, cameras },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Camera status error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
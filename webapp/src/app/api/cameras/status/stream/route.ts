@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { canViewCamera } from '@/lib/site-auth/permissions';
+import { CameraHealth } from '@/lib/camera-health';
+import {
+  getCameraHealth,
+  pollCameraHealth,
+  subscribeCameraHealth,
+} from '@/lib/camera-health/health-service';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 25 * 1000; // keeps proxies from closing an idle stream
+
+/**
+ * Stream camera status changes as Server-Sent Events (`status` events with a JSON array)
+ * The first event holds every camera the user may view, later ones only the changes
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request);
+  if (auth.error) return auth.error;
+
+  const user = auth.user;
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendStatus = (updates: CameraHealth[]) => {
+        const visible = updates.filter(health => canViewCamera(user, health.cameraId));
+        if (visible.length > 0) {
+          send(`event: status\ndata: ${JSON.stringify(visible)}\n\n`);
+        }
+      };
+
+      const unsubscribe = subscribeCameraHealth(sendStatus);
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      // Tell the browser how long to wait before reconnecting, then send the current state
+      send('retry: 5000\n\n');
+      try {
+        await pollCameraHealth();
+      } catch (error) {
+        console.error('Camera health poll error:', error);
+      }
+      sendStatus(getCameraHealth());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { filterCamerasForUser, hasRole, SiteUser } from '@/lib/site-auth/permissions';
+import {
+  getConfigETag,
+  getStoredConfig,
+  parseAppConfig,
+  parseIfMatchVersion,
+  saveStoredConfig,
+  StoredConfig,
+} from '@/config/config-store';
+import { applyRecordModes } from '@/lib/recordings/record-control';
+
+/**
+ * Build the JSON body for a stored config as seen by a user
+ * Non-admins only get the cameras they may view and never the default camera credentials,
+ * the MediaMTX API settings or ONVIF credentials
+ */
+function configPayload(stored: StoredConfig, user: SiteUser) {
+  let config = stored.config;
+  if (!hasRole(user.role, 'admin')) {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { defaultCredentials, mediamtxApi, ...rest } = config;
+    const cameras = filterCamerasForUser(config.cameras, user).map(camera => {
+      if (!camera.onvif?.credentials) return camera;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { credentials, ...onvif } = camera.onvif;
+      return { ...camera, onvif };
+    });
+    config = { ...rest, cameras };
+  }
+
+  return {
+    config,
+    version: stored.version,
+    updatedAt: stored.updatedAt,
+    updatedBy: stored.updatedBy,
+  };
+}
+
+function configHeaders(version: number) {
+  return {
+    ETag: getConfigETag(version),
+    'Cache-Control': 'no-store',
+  };
+}
+
+/**
+ * Get the shared configuration (any signed-in user)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const stored = await getStoredConfig();
+    return NextResponse.json(
+      { success: true, ...configPayload(stored, auth.user) },
+      { headers: configHeaders(stored.version) }
+    );
+  } catch (error) {
+    console.error('Get config error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the shared configuration (admin only)
+ * Requires If-Match with the version the edit started from (`*` overwrites)
+ * Changed recording modes are applied to MediaMTX; failures come back as `warnings`
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const expectedVersion = parseIfMatchVersion(request.headers.get('if-match'));
+    if (expectedVersion === undefined) {
+      return NextResponse.json(
+        { success: false, message: 'If-Match header with the configuration version is required' },
+        { status: 428 }
+      );
+    }
+
+    const body = await request.json();
+    const { config, error } = parseAppConfig(body);
+    if (!config) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 400 }
+      );
+    }
+
+    // The version check and the config it replaced come from inside the config lock
+    const result = await saveStoredConfig(config, expectedVersion, auth.user.username);
+    if (!result.success) {
+      const changedBy = result.stored.updatedBy ? ` by ${result.stored.updatedBy}` : '';
+      return NextResponse.json(
+        {
+          success: false,
+          conflict: true,
+          message: `Settings were changed${changedBy} since you loaded them`,
+          ...configPayload(result.stored, auth.user),
+        },
+        { status: 412, headers: configHeaders(result.stored.version) }
+      );
+    }
+
+    const warnings = await applyRecordModes(result.previous.config.cameras, config.cameras, config.mediamtxApi);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Configuration saved',
+        ...(warnings.length > 0 && { warnings }),
+        ...configPayload(result.stored, auth.user),
+      },
+      { headers: configHeaders(result.stored.version) }
+    );
+  } catch (error) {
+    console.error('Save config error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
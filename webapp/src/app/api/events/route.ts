@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { canViewCamera, hasRole } from '@/lib/site-auth';
+import { getCameraForUser } from '@/config/config-store';
+import { appendEvent, queryEvents } from '@/lib/events/event-store';
+import { CLIENT_EVENT_TYPES, EventType, isEventType } from '@/lib/events';
+
+// Several players showing the same camera report the same motion or outage once
+const CLIENT_EVENT_QUIET_PERIOD = 30 * 1000;
+// Details come from the browser - kept short before they reach the log and the notification channels
+const MAX_DETAIL_LENGTH = 120;
+
+function badRequest(message: string) {
+  return NextResponse.json({ success: false, message }, { status: 400 });
+}
+
+function parseDateParam(value: string | null): string | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * One page of the event log, newest first
+ * Camera events of the cameras the user may view; sign-in events for admins only
+ * Optional query: `cameraId`, `type` (comma-separated), `from` and `to` (ISO dates),
+ * `limit` and `cursor` (the `nextCursor` of the previous page)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const types = (searchParams.get('type') || '').split(',').filter(Boolean);
+    if (!types.every(isEventType)) {
+      return badRequest('Unknown event type');
+    }
+
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    if (from === null || to === null) {
+      return badRequest('Invalid date');
+    }
+
+    const limit = Number(searchParams.get('limit') || undefined);
+    const { user } = auth;
+    const page = await queryEvents(
+      {
+        cameraId: searchParams.get('cameraId') || undefined,
+        types: types as EventType[],
+        from,
+        to,
+        limit: Number.isInteger(limit) ? limit : undefined,
+        cursor: searchParams.get('cursor') || undefined,
+      },
+      event => (event.cameraId ? canViewCamera(user, event.cameraId) : hasRole(user.role, 'admin'))
+    );
+
+    return NextResponse.json(
+      { success: true, ...page },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('List events error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Log an event seen by a player (any user who may view the camera)
+ * Body: `type` ("motion" or "stream-failed"), `cameraId` and an optional `message` with details
+ * (at most MAX_DETAIL_LENGTH characters are kept)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return badRequest('Request body must be JSON');
+    }
+    if (!isEventType(body?.type) || !CLIENT_EVENT_TYPES.includes(body.type)) {
+      return badRequest('Players can only report motion and stream failures');
+    }
+
+    const found = await getCameraForUser(typeof body.cameraId === 'string' ? body.cameraId : '', auth.user);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, message: 'Camera not found' },
+        { status: 404 }
+      );
+    }
+
+    const { camera } = found;
+    const detail = typeof body.message === 'string' ? body.message.trim().slice(0, MAX_DETAIL_LENGTH).trim() : '';
+    const message = body.type === 'motion'
+      ? `Motion on ${camera.name}`
+      : `${camera.name} stream failed${detail ? `: ${detail}` : ''}`;
+
+    const event = await appendEvent({
+      type: body.type,
+      cameraId: camera.id,
+      cameraName: camera.name,
+      username: auth.user.username,
+      message,
+    }, CLIENT_EVENT_QUIET_PERIOD);
+
+    return NextResponse.json(
+      { success: true, message: event ? 'Event logged' : 'Already logged', event },
+      { status: event ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error('Log event error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { discoverPaths, getMediaMtxApiConfig } from '@/lib/mediamtx/api-client';
+import { validateServerUrl } from '@/config';
+import { MediaMtxApiConfig } from '@/types';
+
+/**
+ * API settings to use: the ones sent by the settings form, or the saved ones
+ */
+async function resolveApiConfig(body: unknown): Promise<MediaMtxApiConfig | null> {
+  const requested = (body as { mediamtxApi?: MediaMtxApiConfig } | null)?.mediamtxApi;
+  if (requested && typeof requested.url === 'string' && validateServerUrl(requested.url)) {
+    const { username, password } = requested.credentials || {};
+    return {
+      url: requested.url,
+      ...(typeof username === 'string' && username && {
+        credentials: { username, password: typeof password === 'string' ? password : '' },
+      }),
+    };
+  }
+  return getMediaMtxApiConfig();
+}
+
+/**
+ * List MediaMTX paths that can be imported as cameras (admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const api = await resolveApiConfig(body);
+    if (!api) {
+      return NextResponse.json(
+        { success: false, message: 'Configure the MediaMTX API URL first' },
+        { status: 400 }
+      );
+    }
+
+    const result = await discoverPaths(api);
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, paths: result.data });
+  } catch (error) {
+    console.error('Camera discovery error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
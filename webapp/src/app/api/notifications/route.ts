@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import {
+  getStoredNotificationSettings,
+  parseNotificationChannels,
+  saveStoredNotificationChannels,
+} from '@/lib/notifications/notification-store';
+import { syncHealthPolling } from '@/lib/notifications/notifier';
+
+/**
+ * Get the notification channels (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const settings = await getStoredNotificationSettings();
+    return NextResponse.json(
+      { success: true, settings },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the notification channels (admin only)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const { channels, error } = parseNotificationChannels(body?.channels);
+    if (!channels) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 400 }
+      );
+    }
+
+    const settings = await saveStoredNotificationChannels(channels, auth.user.username);
+    await syncHealthPolling();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notifications saved',
+      settings,
+    });
+  } catch (error) {
+    console.error('Save notifications error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { parseNotificationChannel } from '@/lib/notifications/notification-store';
+import { createTestEvent, sendNotification } from '@/lib/notifications/notifier';
+
+/**
+ * Send a test event through a channel (admin only)
+ * Body: `{ "channel": ... }` - the channel as edited, so it can be checked before saving
+ * Tried once, without retries, so the answer comes back right away
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const { channel, error } = parseNotificationChannel(body?.channel);
+    if (!channel) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 400 }
+      );
+    }
+
+    const result = await sendNotification(channel, createTestEvent(channel), { test: true, retryDelays: [] });
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: `Test notification failed: ${result.error}` },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: `Test notification sent to ${channel.name}` });
+  } catch (error) {
+    console.error('Test notification error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { PushSettings } from '@/lib/push';
+import {
+  getStoredPushEventTypes,
+  getVapidKeys,
+  listStoredPushSubscriptions,
+  parsePushEventTypes,
+  saveStoredPushEventTypes,
+} from '@/lib/push/push-store';
+import { syncHealthPolling } from '@/lib/notifications/notifier';
+
+async function getPushSettings(userId: string): Promise<PushSettings> {
+  const [keys, eventTypes, subscriptions] = await Promise.all([
+    getVapidKeys(),
+    getStoredPushEventTypes(userId),
+    listStoredPushSubscriptions(),
+  ]);
+  return {
+    publicKey: keys.publicKey,
+    eventTypes,
+    devices: subscriptions.filter(subscription => subscription.userId === userId).length,
+  };
+}
+
+/**
+ * Get the VAPID public key and the signed-in user's push preferences
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    return NextResponse.json(
+      { success: true, settings: await getPushSettings(auth.user.id) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Get push settings error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Pick the event types the signed-in user is told about
+ * Body: `{ "eventTypes": [...] }`
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const eventTypes = parsePushEventTypes(body?.eventTypes);
+    if (!eventTypes) {
+      return NextResponse.json(
+        { success: false, message: 'Event types are required' },
+        { status: 400 }
+      );
+    }
+
+    await saveStoredPushEventTypes(auth.user.id, eventTypes);
+    await syncHealthPolling();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Push preferences saved',
+      settings: await getPushSettings(auth.user.id),
+    });
+  } catch (error) {
+    console.error('Save push settings error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import {
+  addStoredPushSubscription,
+  parsePushSubscription,
+  removeStoredPushSubscriptions,
+} from '@/lib/push/push-store';
+import { syncHealthPolling } from '@/lib/notifications/notifier';
+
+/**
+ * Register this browser's push subscription for the signed-in user
+ * Body: `{ "subscription": PushSubscription.toJSON() }`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const { subscription, error } = parsePushSubscription(body?.subscription);
+    if (!subscription) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 400 }
+      );
+    }
+
+    await addStoredPushSubscription(auth.user.id, subscription, request.headers.get('user-agent') || '');
+    await syncHealthPolling();
+
+    return NextResponse.json(
+      { success: true, message: 'Push notifications enabled on this device' },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Push subscribe error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Forget one of the signed-in user's subscriptions
+ * Body: `{ "endpoint": "..." }`
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.endpoint !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'Endpoint is required' },
+        { status: 400 }
+      );
+    }
+
+    await removeStoredPushSubscriptions([body.endpoint], auth.user.id);
+    await syncHealthPolling();
+
+    return NextResponse.json({ success: true, message: 'Push notifications turned off on this device' });
+  } catch (error) {
+    console.error('Push unsubscribe error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
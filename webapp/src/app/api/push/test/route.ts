@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { pushTestMessage } from '@/lib/push/push-sender';
+
+/**
+ * Send a test notification to every device of the signed-in user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { sent, error } = await pushTestMessage(auth.user.id);
+    if (sent === 0) {
+      return NextResponse.json(
+        { success: false, message: error ? `Test notification failed: ${error}` : 'Push notifications are not enabled on any device' },
+        { status: error ? 502 : 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: `Test notification sent to ${sent} device(s)` });
+  } catch (error) {
+    console.error('Test push error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getCameraForUser } from '@/config/config-store';
+import { getPlaybackUrl, listRecordings } from '@/lib/recordings/playback-client';
+
+const MAX_LIST_RANGE = 8 * 24 * 60 * 60 * 1000; // a week, with room for time zones
+
+/**
+ * List recorded segments of a camera between `start` and `end` (ISO dates)
+ * Any user who may view the camera
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const start = new Date(searchParams.get('start') || '');
+    const end = new Date(searchParams.get('end') || '');
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start || end.getTime() - start.getTime() > MAX_LIST_RANGE) {
+      return NextResponse.json(
+        { success: false, message: 'A valid start and end (at most a week apart) are required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getCameraForUser(searchParams.get('cameraId') || '', auth.user);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, message: 'Camera not found' },
+        { status: 404 }
+      );
+    }
+
+    const { camera, config } = found;
+    const result = await listRecordings(
+      getPlaybackUrl(config.serverUrl),
+      camera.path,
+      { start, end },
+      camera.credentials || config.defaultCredentials
+    );
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error.message },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, segments: result.data },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('List recordings error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
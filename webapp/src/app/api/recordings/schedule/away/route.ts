@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { setAwayMode } from '@/lib/recordings/schedule-store';
+import { getScheduleStatus, runRecordingSchedule } from '@/lib/recordings/scheduler';
+
+/**
+ * Switch away mode on or off (operators and admins)
+ * Rules that record "while everyone is away" start or stop right away
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'operator');
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.away !== 'boolean') {
+      return NextResponse.json(
+        { success: false, message: '`away` must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await setAwayMode(body.away, auth.user.username);
+    const run = await runRecordingSchedule();
+
+    return NextResponse.json({
+      success: true,
+      message: body.away ? 'Away mode on' : 'Away mode off',
+      ...getScheduleStatus(schedule, run),
+    });
+  } catch (error) {
+    console.error('Set away mode error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
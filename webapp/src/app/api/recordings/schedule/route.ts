@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getRecordingSchedule, parseRecordingRules, saveRecordingRules } from '@/lib/recordings/schedule-store';
+import { getScheduleStatus, runRecordingSchedule } from '@/lib/recordings/scheduler';
+
+/**
+ * Get the recording rules and away mode (operators and admins)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'operator');
+    if (auth.error) return auth.error;
+
+    const schedule = await getRecordingSchedule();
+    return NextResponse.json({ success: true, ...getScheduleStatus(schedule) });
+  } catch (error) {
+    console.error('Get recording schedule error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replace the recording rules (admin only) and apply them right away
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => null);
+    const { rules, error } = parseRecordingRules(body?.rules);
+    if (!rules) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await saveRecordingRules(rules, auth.user.username);
+    const run = await runRecordingSchedule(new Date(), { reapply: true });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recording schedule saved',
+      ...getScheduleStatus(schedule, run),
+    });
+  } catch (error) {
+    console.error('Save recording schedule error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { getCameraForUser } from '@/config/config-store';
+import { fetchRecording, getPlaybackUrl } from '@/lib/recordings/playback-client';
+
+const MAX_DURATION = 24 * 60 * 60; // seconds
+
+/**
+ * Play a range of a camera's recordings as MP4 (`start` ISO date, `duration` in seconds)
+ * Any user who may view the camera; add `download=1` to save it as a file
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const start = new Date(searchParams.get('start') || '');
+    const duration = Number(searchParams.get('duration'));
+    if (isNaN(start.getTime()) || !(duration > 0) || duration > MAX_DURATION) {
+      return NextResponse.json(
+        { success: false, message: 'A valid start and duration (up to 24 hours) are required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getCameraForUser(searchParams.get('cameraId') || '', auth.user);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, message: 'Camera not found' },
+        { status: 404 }
+      );
+    }
+
+    const { camera, config } = found;
+    const result = await fetchRecording(
+      getPlaybackUrl(config.serverUrl),
+      camera.path,
+      start,
+      duration,
+      camera.credentials || config.defaultCredentials,
+      request.signal
+    );
+    if (result.error) {
+      return NextResponse.json(
+        { success: false, message: result.error.message },
+        { status: result.error.status === 404 ? 404 : 502 }
+      );
+    }
+
+    const fileName = `${camera.path.replace(/[^\w-]+/g, '_')}-${start.toISOString().replace(/[:.]/g, '-')}.mp4`;
+    const disposition = searchParams.get('download') === '1' ? 'attachment' : 'inline';
+    return new Response(result.data.body, {
+      headers: {
+        'Content-Type': result.data.headers.get('content-type') || 'video/mp4',
+        ...(result.data.headers.get('content-length') && {
+          'Content-Length': result.data.headers.get('content-length')!,
+        }),
+        'Content-Disposition': `${disposition}; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Recording playback error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
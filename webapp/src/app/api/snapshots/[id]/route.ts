@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { canViewCamera, hasRole } from '@/lib/site-auth';
+import { getSnapshotFileName, getSnapshotFormat } from '@/lib/snapshots';
+import { deleteStoredSnapshot, getStoredSnapshot } from '@/lib/snapshots/snapshot-store';
+
+interface SnapshotRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+function snapshotNotFound() {
+  return NextResponse.json(
+    { success: false, message: 'Snapshot not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Get a gallery still (any user who may view its camera)
+ * `download=1` sends it as an attachment
+ */
+export async function GET(request: NextRequest, { params }: SnapshotRouteContext) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const stored = await getStoredSnapshot(id);
+    if (!stored || !canViewCamera(auth.user, stored.snapshot.cameraId)) return snapshotNotFound();
+
+    const { snapshot, data } = stored;
+    const headers: Record<string, string> = {
+      'Content-Type': snapshot.contentType,
+      'Content-Length': String(data.length),
+      'Cache-Control': 'private, max-age=86400', // stills never change
+    };
+    if (request.nextUrl.searchParams.get('download') === '1') {
+      const fileName = getSnapshotFileName(snapshot.cameraName, new Date(snapshot.takenAt), getSnapshotFormat(snapshot.contentType));
+      headers['Content-Disposition'] = `attachment; filename="${fileName}"`;
+    }
+
+    return new NextResponse(new Uint8Array(data), { headers });
+  } catch (error) {
+    console.error('Get snapshot image error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a gallery still (operators, admins and the user who took it)
+ */
+export async function DELETE(request: NextRequest, { params }: SnapshotRouteContext) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const stored = await getStoredSnapshot(id);
+    if (!stored || !canViewCamera(auth.user, stored.snapshot.cameraId)) return snapshotNotFound();
+
+    if (!hasRole(auth.user.role, 'operator') && stored.snapshot.createdBy !== auth.user.username) {
+      return NextResponse.json(
+        { success: false, message: 'You can only delete your own snapshots' },
+        { status: 403 }
+      );
+    }
+
+    await deleteStoredSnapshot(id);
+    return NextResponse.json({ success: true, message: 'Snapshot deleted' });
+  } catch (error) {
+    console.error('Delete snapshot error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { canViewCamera } from '@/lib/site-auth';
+import { getCameraForUser } from '@/config/config-store';
+import { exceedsContentLength, readBodyWithLimit } from '@/lib/http/read-body';
+import {
+  addSnapshot,
+  listStoredSnapshots,
+  MAX_STILL_SIZE,
+  STILL_CONTENT_TYPES,
+} from '@/lib/snapshots/snapshot-store';
+
+function snapshotTooLarge() {
+  return NextResponse.json(
+    { success: false, message: 'Snapshot is empty or too large' },
+    { status: 413 }
+  );
+}
+
+/**
+ * List gallery stills of the cameras the user may view, newest first
+ * Optional query: `cameraId` for one camera
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const cameraId = request.nextUrl.searchParams.get('cameraId');
+    const snapshots = (await listStoredSnapshots()).filter(snapshot =>
+      canViewCamera(auth.user, snapshot.cameraId) && (!cameraId || snapshot.cameraId === cameraId)
+    );
+
+    return NextResponse.json(
+      { success: true, snapshots },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('List snapshots error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save a still to the gallery (any user who may view the camera)
+ * Query: `cameraId` and `takenAt` (ISO date); the body is the PNG or JPEG image
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request);
+    if (auth.error) return auth.error;
+
+    const { searchParams } = request.nextUrl;
+    const found = await getCameraForUser(searchParams.get('cameraId') || '', auth.user);
+    if (!found) {
+      return NextResponse.json(
+        { success: false, message: 'Camera not found' },
+        { status: 404 }
+      );
+    }
+
+    const contentType = request.headers.get('content-type')?.split(';')[0].trim() || '';
+    if (!STILL_CONTENT_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { success: false, message: 'Snapshot must be a PNG or JPEG image' },
+        { status: 415 }
+      );
+    }
+
+    if (exceedsContentLength(request, MAX_STILL_SIZE)) {
+      return snapshotTooLarge();
+    }
+
+    const data = await readBodyWithLimit(request, MAX_STILL_SIZE);
+    if (!data) return snapshotTooLarge();
+
+    const takenAt = new Date(searchParams.get('takenAt') || '');
+    const { snapshot, error } = await addSnapshot({
+      cameraId: found.camera.id,
+      cameraName: found.camera.name,
+      takenAt: (isNaN(takenAt.getTime()) ? new Date() : takenAt).toISOString(),
+      contentType,
+      createdBy: auth.user.username,
+    }, data);
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, message: error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Snapshot saved to the gallery', snapshot },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Save snapshot error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import {
+  deleteUser,
+  getUserById,
+  parseUserInput,
+  updateUser,
+  UserMutationResult,
+} from '@/lib/site-auth/user-store';
+
+interface UserRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Map a failed user mutation to an error response
+ */
+function mutationErrorResponse(result: UserMutationResult) {
+  const status = result.reason === 'not_found' ? 404 : result.reason === 'conflict' ? 409 : 400;
+  return NextResponse.json({ success: false, message: result.message }, { status });
+}
+
+/**
+ * Get a site user (admin only)
+ */
+export async function GET(request: NextRequest, { params }: UserRouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const user = await getUserById(id);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, user });
+  } catch (error) {
+    console.error('Get user error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Update a site user's username, password, role or camera permissions (admin only)
+ */
+export async function PATCH(request: NextRequest, { params }: UserRouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const body = await request.json();
+    const { input, errors } = parseUserInput(body, { partial: true });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: errors[0], errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateUser(id, input);
+    if (!result.success) {
+      return mutationErrorResponse(result);
+    }
+
+    return NextResponse.json({ success: true, message: 'User updated', user: result.user });
+  } catch (error) {
+    console.error('Update user error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a site user (admin only)
+ */
+export async function DELETE(request: NextRequest, { params }: UserRouteContext) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const { id } = await params;
+    const result = await deleteUser(id);
+    if (!result.success) {
+      return mutationErrorResponse(result);
+    }
+
+    return NextResponse.json({ success: true, message: 'User deleted' });
+  } catch (error) {
+    console.error('Delete user error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
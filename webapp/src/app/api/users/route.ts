@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/site-auth/authorize';
+import { createUser, listUsers, parseUserInput, UserInput } from '@/lib/site-auth/user-store';
+
+/**
+ * List site users (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const users = await listUsers();
+    return NextResponse.json({ success: true, users });
+  } catch (error) {
+    console.error('List users error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a site user (admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'admin');
+    if (auth.error) return auth.error;
+
+    const body = await request.json();
+    const { input, errors } = parseUserInput(body, { partial: false });
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, message: errors[0], errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await createUser(input as UserInput);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: result.reason === 'conflict' ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'User created', user: result.user },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Create user error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { EventTimeline } from '@/components/events/event-timeline';
+
+/**
+ * Events page component
+ * Timeline of camera outages, recording, motion and sign-ins logged by the server
+ */
+export default function EventsPage() {
+  return (
+    <AuthGate>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Events</h1>
+            <p className="text-gray-600">
+              What happened when: cameras going offline, recording, motion and sign-ins.
+            </p>
+          </div>
+
+          <EventTimeline />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
+
+/**
+ * Generate metadata for the page
+ */
+export async function generateMetadata() {
+  return {
+    title: 'Events - Camera Suite',
+    description: 'Camera event timeline',
+  };
+}
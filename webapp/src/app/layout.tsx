@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Toaster } from "@/components/ui/sonner";
+import { ServiceWorkerRegistration } from "@/components/layout/service-worker-registration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -20,7 +21,10 @@ export const metadata: Metadata = {
   authors: [{ name: "Camera Suite Team" }],
   manifest: "/manifest.json",
   icons: {
-    icon: "/favicon.ico",
+    icon: [
+      { url: "/favicon.ico", sizes: "any" },
+      { url: "/favicon.svg", type: "image/svg+xml" },
+    ],
     apple: "/apple-touch-icon.png",
   },
   openGraph: {
@@ -50,12 +54,14 @@ export default function RootLayout({
         <meta name="mobile-web-app-capable" content="yes" />
         <meta name="apple-mobile-web-app-capable" content="yes" />
         <meta name="apple-mobile-web-app-status-bar-style" content="default" />
+        <meta name="apple-mobile-web-app-title" content="CamSuite" />
       </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased min-h-full bg-gray-50`}
       >
         {children}
         <Toaster position="top-right" />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -3,7 +3,8 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { LoginForm } from '@/components/forms/login-form';
-import { getSiteAuthConfig, hasSiteSession } from '@/lib/site-auth';
+import { SetupForm } from '@/components/forms/setup-form';
+import { clearLegacySiteCredentials, getSiteAuthStatus, hasSiteSession } from '@/lib/site-auth';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Shield, Info } from 'lucide-react';
 
@@ -14,6 +15,7 @@ import { Shield, Info } from 'lucide-react';
 export default function LoginPage() {
   const router = useRouter();
   const [showDefaultCredsNotice, setShowDefaultCredsNotice] = useState(false);
+  const [showSetup, setShowSetup] = useState(false);
 
   useEffect(() => {
     const checkSession = async () => {
@@ -24,9 +26,13 @@ export default function LoginPage() {
         return;
       }
 
-      // Show notice about default credentials on first launch
-      const config = getSiteAuthConfig();
-      if (config.isFirstLaunch) {
+      // Older versions kept plaintext site credentials in localStorage
+      clearLegacySiteCredentials();
+
+      // Offer account setup and show default credentials on first launch
+      const status = await getSiteAuthStatus();
+      if (status.isFirstLaunch) {
+        setShowSetup(true);
         setShowDefaultCredsNotice(true);
       }
     };
@@ -60,14 +66,18 @@ export default function LoginPage() {
               Default credentials: <code className="bg-blue-100 px-2 py-1 rounded">admin</code> / <code className="bg-blue-100 px-2 py-1 rounded">changeme</code>
               <br />
               <span className="text-xs mt-2 block">
-                You can change these in Settings after logging in.
+                Create your own login below, or change these in Settings after logging in.
               </span>
             </AlertDescription>
           </Alert>
         )}
 
-        {/* Login Form */}
-        <LoginForm />
+        {/* Setup Form (first launch) or Login Form */}
+        {showSetup ? (
+          <SetupForm onUseDefaults={() => setShowSetup(false)} />
+        ) : (
+          <LoginForm />
+        )}
 
         {/* Explanation Card */}
         <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
@@ -0,0 +1,37 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { CameraPublisher } from '@/components/publish/camera-publisher';
+
+/**
+ * Publish page component
+ * Turns this device's camera (e.g., an old phone) into a camera of the suite - admins only
+ */
+export default function PublishPage() {
+  return (
+    <AuthGate requiredRole="admin">
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Publish</h1>
+            <p className="text-gray-600">
+              Use this device&apos;s camera as a camera: nothing to install, just keep the page open.
+            </p>
+          </div>
+
+          <CameraPublisher />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
+
+/**
+ * Generate metadata for the page
+ */
+export async function generateMetadata() {
+  return {
+    title: 'Publish - Camera Suite',
+    description: 'Publish this device\'s camera',
+  };
+}
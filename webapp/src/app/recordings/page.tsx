@@ -0,0 +1,37 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { RecordingsBrowser } from '@/components/recordings/recordings-browser';
+
+/**
+ * Recordings page component
+ * Browses and plays back what MediaMTX recorded
+ */
+export default function RecordingsPage() {
+  return (
+    <AuthGate>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Recordings</h1>
+            <p className="text-gray-600">
+              Find recorded footage on the timeline and play it back or download it.
+            </p>
+          </div>
+
+          <RecordingsBrowser />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
+
+/**
+ * Generate metadata for the page
+ */
+export async function generateMetadata() {
+  return {
+    title: 'Recordings - Camera Suite',
+    description: 'Play back recorded camera footage',
+  };
+}
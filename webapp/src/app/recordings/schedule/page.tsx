@@ -0,0 +1,37 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { ScheduleEditor } from '@/components/recordings/schedule-editor';
+
+/**
+ * Recording schedule page component
+ * Rules for when cameras on schedule record (operators and admins)
+ */
+export default function RecordingSchedulePage() {
+  return (
+    <AuthGate>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Recording Schedule</h1>
+            <p className="text-gray-600">
+              Record cameras at set times of the week or while everyone is away.
+            </p>
+          </div>
+
+          <ScheduleEditor />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
+
+/**
+ * Generate metadata for the page
+ */
+export async function generateMetadata() {
+  return {
+    title: 'Recording Schedule - Camera Suite',
+    description: 'Schedule camera recording',
+  };
+}
@@ -4,9 +4,6 @@ import { Suspense } from 'react';
 import { AuthGate } from '@/components/layout/auth-gate';
 import { MainLayout } from '@/components/layout/main-layout';
 import { SettingsForm } from '@/components/forms/settings-form';
-import { saveConfig } from '@/config';
-import { AppConfig } from '@/types';
-import { toast } from 'sonner';
 
 /**
  * Settings page component
@@ -14,7 +11,7 @@ import { toast } from 'sonner';
  */
 export default function SettingsPage() {
   return (
-    <AuthGate>
+    <AuthGate requiredRole="admin">
       <MainLayout title="Settings">
         <div className="max-w-4xl mx-auto">
           <div className="space-y-6">
@@ -53,23 +50,12 @@ export default function SettingsPage() {
  * Separated to allow for Suspense boundary
  */
 function SettingsContent() {
-  const handleSaveSettings = async (config: AppConfig) => {
-    try {
-      await saveConfig(config);
-      toast.success('Settings saved successfully!');
-    } catch (error) {
-      console.error('Failed to save settings:', error);
-      toast.error('Failed to save settings. Please try again.');
-    }
-  };
-
   const handleCancel = () => {
     window.history.back();
   };
 
   return (
     <SettingsForm
-      onSave={handleSaveSettings}
       onCancel={handleCancel}
     />
   );
@@ -0,0 +1,37 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { SnapshotGallery } from '@/components/snapshots/snapshot-gallery';
+
+/**
+ * Snapshots page component
+ * Gallery of stills saved from the camera viewer
+ */
+export default function SnapshotsPage() {
+  return (
+    <AuthGate>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Snapshots</h1>
+            <p className="text-gray-600">
+              Stills saved from the viewer, stamped with the camera name and time.
+            </p>
+          </div>
+
+          <SnapshotGallery />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
+
+/**
+ * Generate metadata for the page
+ */
+export async function generateMetadata() {
+  return {
+    title: 'Snapshots - Camera Suite',
+    description: 'Camera snapshot gallery',
+  };
+}
@@ -0,0 +1,37 @@
+import { AuthGate } from '@/components/layout/auth-gate';
+import { MainLayout } from '@/components/layout/main-layout';
+import { CameraWall } from '@/components/wall/camera-wall';
+
+/**
+ * Live wall page component
+ * Plays several camera streams at once
+ */
+export default function WallPage() {
+  return (
+    <AuthGate>
+      <MainLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Live Wall</h1>
+            <p className="text-gray-600">
+              Watch several cameras at once. Click a tile to hear it, drag tiles to rearrange them.
+            </p>
+          </div>
+
+          <CameraWall />
+        </div>
+      </MainLayout>
+    </AuthGate>
+  );
+}
+
+/**
+ * Generate metadata for the page
+ */
+export async function generateMetadata() {
+  return {
+    title: 'Live Wall - Camera Suite',
+    description: 'Several live camera streams side by side',
+  };
+}
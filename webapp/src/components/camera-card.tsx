@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { motion } from 'framer-motion';
@@ -10,6 +10,7 @@ import {
   WifiOff,
   Clock,
   Eye,
+  Activity,
   AlertCircle,
   Loader2,
   Key
@@ -19,12 +20,16 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useCameraMotion } from '@/components/player/motion-controls';
 
 import { Camera as CameraType, CameraStatus } from '@/types';
+import { getThumbnailUrl, THUMBNAIL_REFRESH_INTERVAL } from '@/lib/thumbnails';
 
 /**
  * CameraCard component displays individual camera information
  * Shows status, last seen time, and provides navigation to viewer
+ * The thumbnail is a recent frame from the server, refreshed periodically (unless a fixed URL is set)
+ * A motion badge shows while a player in this browser sees motion on the camera
  */
 interface CameraCardProps {
   camera: CameraType;
@@ -82,6 +87,21 @@ function formatLastSeen(date: Date | undefined): string {
 export function CameraCard({ camera, className = '' }: CameraCardProps) {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
+  const [thumbnailVersion, setThumbnailVersion] = useState(() => Date.now());
+  const inMotion = useCameraMotion(camera.id);
+
+  // Fetch a newer frame now and then; offline cameras have nothing new to show
+  useEffect(() => {
+    if (camera.thumbnail || camera.status === 'offline') return;
+
+    const interval = setInterval(() => {
+      setThumbnailVersion(Date.now());
+      setImageError(false);
+    }, THUMBNAIL_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [camera.thumbnail, camera.status]);
+
+  const thumbnailUrl = camera.thumbnail || getThumbnailUrl(camera.id, thumbnailVersion);
 
   const statusInfo = statusConfig[camera.status];
   const StatusIcon = statusInfo.icon;
@@ -97,12 +117,14 @@ export function CameraCard({ camera, className = '' }: CameraCardProps) {
       <Card className="overflow-hidden hover:shadow-lg transition-shadow duration-200">
         {/* Camera thumbnail */}
         <div className="relative aspect-video bg-gray-100">
-          {camera.thumbnail && !imageError ? (
+          {!imageError ? (
             <>
               <Image
-                src={camera.thumbnail}
+                src={thumbnailUrl}
                 alt={`${camera.name} camera view`}
                 fill
+                // Frames need the session cookie, which the image optimizer doesn't send
+                unoptimized={!camera.thumbnail}
                 className={`object-cover transition-opacity duration-200 ${
                   imageLoading ? 'opacity-0' : 'opacity-100'
                 }`}
@@ -134,6 +156,24 @@ export function CameraCard({ camera, className = '' }: CameraCardProps) {
               {statusInfo.label}
             </Badge>
           </div>
+
+          {/* Motion and recording badge overlay */}
+          {(inMotion || camera.recording) && (
+            <div className="absolute top-2 right-2 flex gap-1">
+              {inMotion && (
+                <Badge className="flex items-center gap-1 border-0 bg-amber-500 text-white" data-testid="motion-badge">
+                  <Activity className="h-3 w-3" />
+                  MOTION
+                </Badge>
+              )}
+              {camera.recording && (
+                <Badge className="flex items-center gap-1 border-0 bg-red-600 text-white">
+                  <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-white" />
+                  REC
+                </Badge>
+              )}
+            </div>
+          )}
         </div>
 
         <CardHeader className="pb-2">
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Radar, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+import { Camera, MediaMtxApiConfig } from '@/types';
+import { createCamerasFromPaths, discoverCameras, DiscoveredPath } from '@/lib/mediamtx';
+
+/**
+ * CameraDiscovery lists the paths known to the MediaMTX Control API
+ * and imports the selected ones as cameras (added to the form, saved with the settings)
+ */
+interface CameraDiscoveryProps {
+  api?: MediaMtxApiConfig;
+  cameras: Camera[];
+  onImport: (cameras: Camera[]) => void;
+}
+
+export function CameraDiscovery({ api, cameras, onImport }: CameraDiscoveryProps) {
+  const [open, setOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [paths, setPaths] = useState<DiscoveredPath[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const existingPaths = new Set(cameras.map(camera => camera.path));
+  const newPaths = paths.filter(path => !existingPaths.has(path.name));
+
+  const discover = async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await discoverCameras(api);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setPaths([]);
+      setError(result.message || 'Camera discovery failed');
+      return;
+    }
+
+    setPaths(result.paths);
+    // Preselect everything that is not a camera yet
+    setSelected(new Set(result.paths.filter(path => !existingPaths.has(path.name)).map(path => path.name)));
+  };
+
+  const openDialog = () => {
+    setOpen(true);
+    discover();
+  };
+
+  const togglePath = (name: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(name);
+      } else {
+        next.delete(name);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    const imported = createCamerasFromPaths(
+      newPaths.filter(path => selected.has(path.name)),
+      cameras
+    );
+    onImport(imported);
+    toast.success(`${imported.length} ${imported.length === 1 ? 'camera' : 'cameras'} added - save settings to keep them`);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button onClick={openDialog} size="sm" variant="outline">
+        <Radar className="h-4 w-4 mr-2" />
+        Discover Cameras
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Discover Cameras</DialogTitle>
+            <DialogDescription>
+              Paths found through the MediaMTX API{api?.url ? ` at ${api.url}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Asking MediaMTX for its paths...
+            </div>
+          ) : paths.length === 0 && !error ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              MediaMTX has no paths configured yet.
+            </p>
+          ) : (
+            <ul className="space-y-2 max-h-96 overflow-y-auto" id="discovered-paths">
+              {paths.map(path => {
+                const alreadyAdded = existingPaths.has(path.name);
+                return (
+                  <li key={path.name} className="flex items-start gap-3 rounded-lg border p-3">
+                    <Checkbox
+                      checked={alreadyAdded || selected.has(path.name)}
+                      disabled={alreadyAdded}
+                      onCheckedChange={(checked) => togglePath(path.name, checked === true)}
+                      aria-label={`Import ${path.name}`}
+                    />
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono text-sm">{path.name}</span>
+                        <Badge variant={path.ready ? 'default' : 'secondary'}>
+                          {path.ready ? 'Ready' : 'Not ready'}
+                        </Badge>
+                        {alreadyAdded && <Badge variant="outline">Already added</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {path.sourceType || 'No source'}
+                        {path.sourceUrl && ` · ${path.sourceUrl}`}
+                      </p>
+                      {path.tracks.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Tracks: {path.tracks.join(', ')}
+                          {path.readers > 0 && ` · ${path.readers} ${path.readers === 1 ? 'viewer' : 'viewers'}`}
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <DialogFooter className="sm:justify-between">
+            <Button variant="ghost" onClick={discover} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={isLoading || newPaths.every(path => !selected.has(path.name))}
+              >
+                Import {newPaths.filter(path => selected.has(path.name)).length || ''} Selected
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
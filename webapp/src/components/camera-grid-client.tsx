@@ -2,22 +2,57 @@
 
 import { useEffect, useState } from 'react';
 import { CameraGrid } from './camera-grid';
-import { loadConfig } from '@/config';
+import { useCurrentUser } from './layout/auth-gate';
+import { fetchSharedConfig, loadConfig } from '@/config';
+import { filterCamerasForUser } from '@/lib/site-auth';
+import {
+  applyCameraHealth,
+  CameraHealthMap,
+  loadCachedCameraHealth,
+  mergeCameraHealth,
+  saveCachedCameraHealth,
+  watchCameraHealth,
+} from '@/lib/camera-health';
 import { Camera } from '@/types';
 
 /**
- * Client-side wrapper for CameraGrid that loads config from localStorage
+ * Client-side wrapper for CameraGrid that loads the shared config from the server
+ * (showing the localStorage cache until it arrives, or for good while the server cannot be reached)
+ * Only shows the cameras the signed-in user is allowed to view, with live status pushed by the server
+ * (the last known status until the first update arrives)
  */
 export function CameraGridClient() {
+  const user = useCurrentUser();
   const [cameras, setCameras] = useState<Camera[]>([]);
+  const [health, setHealth] = useState<CameraHealthMap>({});
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Load config from localStorage on client side
-    const config = loadConfig();
-    setCameras(config.cameras);
-    setIsLoading(false);
+    let cancelled = false;
+
+    // Show cached cameras right away, then replace them with the shared config
+    setCameras(filterCamerasForUser(loadConfig().cameras, user));
+    fetchSharedConfig().then(({ config }) => {
+      if (cancelled) return;
+      setCameras(filterCamerasForUser(config.cameras, user));
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    setHealth(loadCachedCameraHealth());
+    return watchCameraHealth(updates => setHealth(prev => mergeCameraHealth(prev, updates)));
   }, []);
 
-  return <CameraGrid cameras={cameras} isLoading={isLoading} />;
+  useEffect(() => {
+    if (Object.keys(health).length > 0) {
+      saveCachedCameraHealth(health);
+    }
+  }, [health]);
+
+  return <CameraGrid cameras={applyCameraHealth(cameras, health)} isLoading={isLoading} />;
 }
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
 import { CameraCard, CameraCardSkeleton } from './camera-card';
+import { useCurrentUser } from './layout/auth-gate';
+import { hasRole } from '@/lib/site-auth';
 import { Camera as CameraType } from '@/types';
 
 /**
@@ -21,8 +23,34 @@ interface CameraGridProps {
 
 /**
  * Empty state component when no cameras are configured
+ * Non-admins cannot configure cameras, so they are asked to contact an admin
  */
 function EmptyState() {
+  const user = useCurrentUser();
+
+  if (user && !hasRole(user.role, 'admin')) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="col-span-full"
+      >
+        <Card className="text-center py-12">
+          <CardHeader>
+            <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gray-100">
+              <Camera className="h-8 w-8 text-gray-400" />
+            </div>
+            <CardTitle className="text-xl">No Cameras Available</CardTitle>
+            <CardDescription>
+              No cameras have been shared with your account yet. Ask an admin to give you access.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </motion.div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,101 @@
+'use client';
+
+import { Clapperboard, Download, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Clip,
+  CLIP_PRE_ROLL_OPTIONS,
+  formatClipDuration,
+  formatFileSize,
+  getClipFileName,
+} from '@/lib/clips';
+
+/**
+ * Clips recorded in the viewer, newest first, with the pre-roll setting
+ * Clips only live in this tab - download the ones worth keeping
+ */
+interface ClipListProps {
+  clips: Clip[];
+  preRollSeconds: number;
+  onPreRollChange: (seconds: number) => void;
+  onRemove: (clip: Clip) => void;
+}
+
+export function ClipList({ clips, preRollSeconds, onPreRollChange, onRemove }: ClipListProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Clips</CardTitle>
+            <CardDescription>
+              Record what the player shows with the clip button. Clips are kept in this tab until you leave it.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="clip-pre-roll" className="text-sm">Pre-roll</Label>
+            <Select value={String(preRollSeconds)} onValueChange={value => onPreRollChange(Number(value))}>
+              <SelectTrigger id="clip-pre-roll" className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLIP_PRE_ROLL_OPTIONS.map(seconds => (
+                  <SelectItem key={seconds} value={String(seconds)}>
+                    {seconds === 0 ? 'Off' : `${seconds} s`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {clips.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-600">
+            <Clapperboard className="mx-auto mb-2 h-6 w-6 text-gray-400" />
+            No clips yet.
+          </div>
+        ) : (
+          <ul className="divide-y" id="clip-list">
+            {clips.map(clip => (
+              <li key={clip.id} className="flex items-center gap-4 py-3">
+                <video
+                  src={clip.url}
+                  className="aspect-video w-40 rounded bg-black"
+                  controls
+                  muted
+                  playsInline
+                  preload="metadata"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">{clip.cameraName}</p>
+                  <p className="text-sm text-gray-600">
+                    {clip.startedAt.toLocaleString()} · {formatClipDuration(clip.duration)} · {formatFileSize(clip.size)}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" asChild>
+                  <a href={clip.url} download={getClipFileName(clip)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download
+                  </a>
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRemove(clip)}
+                  aria-label={`Remove clip of ${clip.cameraName}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  Activity,
+  AlertTriangle,
+  Circle,
+  History,
+  Loader2,
+  LogIn,
+  LogOut,
+  RefreshCw,
+  ShieldAlert,
+  Smartphone,
+  Square,
+  Wifi,
+  WifiOff,
+} from 'lucide-react';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+
+import { fetchSharedConfig } from '@/config';
+import { EVENT_TYPE_LABELS, EVENT_TYPES, EventQuery, EventType, fetchEvents, LoggedEvent } from '@/lib/events';
+import { filterCamerasForUser } from '@/lib/site-auth';
+import { Camera } from '@/types';
+
+const ALL = 'all';
+
+const EVENT_ICONS: Record<EventType, { icon: typeof Activity; color: string }> = {
+  'camera-online': { icon: Wifi, color: 'text-green-600' },
+  'camera-offline': { icon: WifiOff, color: 'text-red-600' },
+  'recording-started': { icon: Circle, color: 'text-red-600' },
+  'recording-stopped': { icon: Square, color: 'text-gray-500' },
+  motion: { icon: Activity, color: 'text-amber-500' },
+  'stream-failed': { icon: AlertTriangle, color: 'text-red-600' },
+  login: { icon: LogIn, color: 'text-blue-600' },
+  'login-new-device': { icon: Smartphone, color: 'text-amber-500' },
+  'login-failed': { icon: ShieldAlert, color: 'text-red-600' },
+  logout: { icon: LogOut, color: 'text-gray-500' },
+};
+
+/**
+ * Start of a day picked in a date input (local time), as an ISO date
+ * `nextDay` gives the end of the day instead
+ */
+function getDayStart(day: string, nextDay: boolean = false): string | undefined {
+  if (!day) return undefined;
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date + (nextDay ? 1 : 0)).toISOString();
+}
+
+/**
+ * Event timeline - the server's event log, newest first, grouped by day
+ * Filter by camera, type and days; older events load page by page
+ */
+export function EventTimeline() {
+  const user = useCurrentUser();
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [events, setEvents] = useState<LoggedEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [cameraId, setCameraId] = useState(ALL);
+  const [type, setType] = useState(ALL);
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSharedConfig().then(({ config }) => setCameras(filterCamerasForUser(config.cameras, user)));
+  }, [user]);
+
+  const getQuery = useCallback((): EventQuery => ({
+    cameraId: cameraId === ALL ? undefined : cameraId,
+    types: type === ALL ? undefined : [type as EventType],
+    from: getDayStart(fromDay),
+    to: getDayStart(toDay, true),
+  }), [cameraId, type, fromDay, toDay]);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    const page = await fetchEvents(getQuery());
+    setEvents(page.events);
+    setNextCursor(page.nextCursor);
+    setError(page.error || null);
+    setIsLoading(false);
+  }, [getQuery]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    const page = await fetchEvents({ ...getQuery(), cursor: nextCursor });
+    setEvents(prev => [...prev, ...page.events]);
+    setNextCursor(page.nextCursor);
+    setError(page.error || null);
+    setIsLoadingMore(false);
+  };
+
+  // One section per day, in the order the events came
+  const days: { day: string; events: LoggedEvent[] }[] = [];
+  for (const event of events) {
+    const day = new Date(event.time).toLocaleDateString(undefined, {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+    if (days[days.length - 1]?.day !== day) {
+      days.push({ day, events: [] });
+    }
+    days[days.length - 1].events.push(event);
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>Camera</Label>
+          <Select value={cameraId} onValueChange={setCameraId}>
+            <SelectTrigger className="w-48" aria-label="Camera">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All cameras</SelectItem>
+              {cameras.map(camera => (
+                <SelectItem key={camera.id} value={camera.id}>
+                  {camera.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="w-48" aria-label="Event type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All events</SelectItem>
+              {EVENT_TYPES.map(eventType => (
+                <SelectItem key={eventType} value={eventType}>
+                  {EVENT_TYPE_LABELS[eventType]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="events-from">From</Label>
+          <Input
+            id="events-from"
+            type="date"
+            value={fromDay}
+            max={toDay || undefined}
+            onChange={event => setFromDay(event.target.value)}
+            className="w-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="events-to">To</Label>
+          <Input
+            id="events-to"
+            type="date"
+            value={toDay}
+            min={fromDay || undefined}
+            onChange={event => setToDay(event.target.value)}
+            className="w-40"
+          />
+        </div>
+        <Button variant="outline" onClick={load} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin" />
+          <span className="ml-2">Loading events...</span>
+        </div>
+      ) : events.length === 0 && !error ? (
+        <div className="rounded-lg border bg-white py-12 text-center text-gray-600">
+          <History className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+          No events match these filters.
+        </div>
+      ) : (
+        <div className="space-y-6" id="event-timeline">
+          {days.map(({ day, events: dayEvents }) => (
+            <section key={day} className="space-y-3">
+              <h2 className="text-lg font-semibold text-gray-900">{day}</h2>
+              <ol className="relative ml-3 space-y-4 border-l border-gray-200 pl-6">
+                {dayEvents.map(event => {
+                  const { icon: Icon, color } = EVENT_ICONS[event.type];
+                  return (
+                    <li key={event.id} className="relative" data-testid="event">
+                      <span className="absolute -left-[2.1rem] flex h-5 w-5 items-center justify-center rounded-full border bg-white">
+                        <Icon className={`h-3 w-3 ${color}`} />
+                      </span>
+                      <p className="text-sm text-gray-500">
+                        {new Date(event.time).toLocaleTimeString()} · {EVENT_TYPE_LABELS[event.type]}
+                      </p>
+                      <p className="font-medium">{event.message}</p>
+                      {(event.cameraId || event.username) && (
+                        <p className="text-sm text-gray-600">
+                          {event.cameraId && cameras.some(camera => camera.id === event.cameraId) ? (
+                            <Link href={`/viewer/${event.cameraId}`} className="text-blue-600 hover:underline">
+                              {event.cameraName}
+                            </Link>
+                          ) : (
+                            event.cameraName
+                          )}
+                          {event.cameraName && event.username && ' · '}
+                          {event.username}
+                        </p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </section>
+          ))}
+
+          {nextCursor && (
+            <div className="text-center">
+              <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, Lock, Shield } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Separator } from '@/components/ui/separator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { getSiteAuthStatus, getSiteSession, updateSiteCredentials } from '@/lib/site-auth';
+
+/**
+ * AccountSecurityForm lets the signed-in user change their own website login
+ * Note: This is for WEBSITE access, not camera credentials
+ */
+export function AccountSecurityForm() {
+  const [currentUsername, setCurrentUsername] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [usingDefaultCredentials, setUsingDefaultCredentials] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+
+  // Load site account info from the server
+  useEffect(() => {
+    const loadAccount = async () => {
+      const [session, status] = await Promise.all([getSiteSession(), getSiteAuthStatus()]);
+      if (session.username) {
+        setCurrentUsername(session.username);
+        setNewUsername(session.username);
+      }
+      setUsingDefaultCredentials(status.usingDefaultCredentials);
+    };
+
+    loadAccount();
+  }, []);
+
+  // Handle password change
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newUsername || !newPassword) {
+      toast.error('Please fill in all fields');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    if (newPassword.length < 8) {
+      toast.error('Password must be at least 8 characters');
+      return;
+    }
+
+    // Save new credentials on the server
+    setIsChangingPassword(true);
+    const result = await updateSiteCredentials(currentPassword, {
+      username: newUsername,
+      password: newPassword
+    });
+    setIsChangingPassword(false);
+
+    if (!result.success) {
+      toast.error(result.message || 'Failed to update website credentials');
+      return;
+    }
+
+    setCurrentUsername(newUsername);
+    setUsingDefaultCredentials(false);
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+
+    toast.success('Website credentials updated successfully!');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Account Security
+        </CardTitle>
+        <CardDescription>
+          Change your website login credentials
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {usingDefaultCredentials && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <strong>Action Required:</strong> You are using the default credentials (admin/changeme).
+              Please change your password immediately to secure your installation.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Current Username</Label>
+            <Input
+              value={currentUsername}
+              disabled
+              className="bg-gray-50"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current Password</Label>
+            <Input
+              id="current-password"
+              type="password"
+              placeholder="Enter current password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="new-username">New Username</Label>
+            <Input
+              id="new-username"
+              placeholder="Enter new username"
+              value={newUsername}
+              onChange={(e) => setNewUsername(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              placeholder="Enter new password (min 8 characters)"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm Password</Label>
+            <Input
+              id="confirm-password"
+              type="password"
+              placeholder="Re-enter new password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+
+          <Button
+            onClick={handleChangePassword}
+            className="w-full"
+            disabled={
+              isChangingPassword ||
+              !currentPassword ||
+              !newUsername ||
+              !newPassword ||
+              newPassword !== confirmPassword
+            }
+          >
+            {isChangingPassword ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Lock className="h-4 w-4 mr-2" />
+            )}
+            Update Website Credentials
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-2 text-sm">
+          <p className="font-medium text-yellow-900">⚠️ Important</p>
+          <ul className="list-disc ml-5 space-y-1 text-yellow-800">
+            <li>Your current password is required to make changes</li>
+            <li>Make sure to remember your new credentials</li>
+            <li>Passwords are stored as salted hashes on the server, never in your browser</li>
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
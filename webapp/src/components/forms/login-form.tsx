@@ -3,7 +3,8 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { Eye, EyeOff, Lock, User, AlertCircle, Loader2, Shield } from 'lucide-react';
+import { Eye, EyeOff, Lock, User, AlertCircle, Loader2, Shield, KeyRound, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,7 +12,7 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
-import { formatRemainingTime } from '@/lib/site-auth/rate-limit';
+import { formatRemainingTime } from '@/lib/site-auth';
 
 /**
  * LoginForm component for site authentication
@@ -33,17 +34,12 @@ export function LoginForm({ onSuccess, redirectTo = '/' }: LoginFormProps) {
   const [showDefaultWarning, setShowDefaultWarning] = useState(false);
   const [lockoutInfo, setLockoutInfo] = useState<{ isLocked: boolean; remainingTime?: number } | null>(null);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError(null);
-    setShowDefaultWarning(false);
-    setLockoutInfo(null);
-
-    if (!username.trim() || !password.trim()) {
-      setError('Please enter both username and password');
-      return;
-    }
+  // Second login step (two-factor authentication)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
+  const sendLoginRequest = async (body: Record<string, string>) => {
     setIsLoading(true);
 
     try {
@@ -54,18 +50,32 @@ export function LoginForm({ onSuccess, redirectTo = '/' }: LoginFormProps) {
           'Content-Type': 'application/json',
         },
         credentials: 'include', // Important: include cookies
-        body: JSON.stringify({ username, password }),
+        body: JSON.stringify(body),
       });
 
       const result = await response.json();
 
+      // Password accepted - ask for the authenticator code
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        setCode('');
+        setUseRecoveryCode(false);
+        setIsLoading(false);
+        return;
+      }
+
       if (!result.success) {
         // Handle failed login
-        if (result.isLocked) {
+        if (result.challengeExpired) {
+          setChallengeToken(null);
+          setPassword('');
+          setError(result.message || 'Your sign-in expired. Please enter your password again.');
+        } else if (result.isLocked) {
+          setChallengeToken(null);
           setLockoutInfo({ isLocked: true, remainingTime: result.remainingTime });
-          setError(`Too many failed attempts (${result.attempts}/${5}). Account locked for ${formatRemainingTime(result.remainingTime || 0)}.`);
-        } else if (result.attempts !== undefined) {
-          const remainingAttempts = 5 - result.attempts;
+          setError(`Too many failed attempts. Login locked for ${formatRemainingTime(result.remainingTime || 0)}.`);
+        } else if (result.remainingAttempts !== undefined) {
+          const remainingAttempts = result.remainingAttempts;
           setError(`${result.message || 'Invalid credentials'}. ${remainingAttempts} attempt${remainingAttempts !== 1 ? 's' : ''} remaining.`);
         } else {
           setError(result.message || 'Invalid credentials');
@@ -80,6 +90,13 @@ export function LoginForm({ onSuccess, redirectTo = '/' }: LoginFormProps) {
         setShowDefaultWarning(true);
       }
 
+      // Remind the user to replace their recovery codes when they run low
+      if (result.usedRecoveryCode) {
+        toast.warning(
+          `Recovery code used. ${result.recoveryCodesRemaining} recovery code${result.recoveryCodesRemaining !== 1 ? 's' : ''} left.`
+        );
+      }
+
       // Redirect after brief delay to show warning if needed
       setTimeout(() => {
         if (onSuccess) {
@@ -96,6 +113,41 @@ export function LoginForm({ onSuccess, redirectTo = '/' }: LoginFormProps) {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setShowDefaultWarning(false);
+    setLockoutInfo(null);
+
+    if (!username.trim() || !password.trim()) {
+      setError('Please enter both username and password');
+      return;
+    }
+
+    await sendLoginRequest({ username, password });
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!challengeToken) return;
+
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Please enter a recovery code' : 'Please enter the authentication code');
+      return;
+    }
+
+    await sendLoginRequest({ challengeToken, code: code.trim() });
+  };
+
+  const handleBackToPassword = () => {
+    setChallengeToken(null);
+    setCode('');
+    setPassword('');
+    setError(null);
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -118,96 +170,175 @@ export function LoginForm({ onSuccess, redirectTo = '/' }: LoginFormProps) {
         </CardHeader>
 
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {/* Username */}
-            <div className="space-y-2">
-              <Label htmlFor="username">
-                <User className="h-4 w-4 inline mr-2" />
-                Username
-              </Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="Enter username"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                disabled={isLoading}
-                autoComplete="username"
-                required
-              />
-            </div>
-
-            {/* Password */}
-            <div className="space-y-2">
-              <Label htmlFor="password">
-                <Lock className="h-4 w-4 inline mr-2" />
-                Password
-              </Label>
-              <div className="relative">
+          {challengeToken ? (
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              {/* Authentication / recovery code */}
+              <div className="space-y-2">
+                <Label htmlFor="totp-code">
+                  <KeyRound className="h-4 w-4 inline mr-2" />
+                  {useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+                </Label>
                 <Input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  placeholder="Enter password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  id="totp-code"
+                  type="text"
+                  placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
                   disabled={isLoading}
-                  className="pr-10"
-                  autoComplete="current-password"
+                  inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                  autoComplete="one-time-code"
+                  autoFocus
                   required
                 />
+                <p className="text-xs text-gray-500">
+                  {useRecoveryCode
+                    ? 'Each recovery code can only be used once.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </p>
+              </div>
+
+              {/* Error Alert */}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || lockoutInfo?.isLocked}
+                size="lg"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+
+              <div className="flex items-center justify-between text-sm">
                 <Button
                   type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-0 top-0 h-full"
-                  onClick={() => setShowPassword(!showPassword)}
+                  variant="link"
+                  className="px-0"
+                  onClick={handleBackToPassword}
                   disabled={isLoading}
                 >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4" />
-                  ) : (
-                    <Eye className="h-4 w-4" />
-                  )}
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  Back
+                </Button>
+                <Button
+                  type="button"
+                  variant="link"
+                  className="px-0"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                    setError(null);
+                  }}
+                  disabled={isLoading}
+                >
+                  {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
                 </Button>
               </div>
-            </div>
-
-            {/* Error Alert */}
-            {error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
-
-            {/* Default Credentials Warning */}
-            {showDefaultWarning && (
-              <Alert className="bg-yellow-50 border-yellow-200">
-                <AlertCircle className="h-4 w-4 text-yellow-600" />
-                <AlertDescription className="text-yellow-900">
-                  <strong>Security Warning:</strong> You&apos;re using default credentials.
-                  Please change your password in Settings → Account Security.
-                </AlertDescription>
-              </Alert>
-            )}
-
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading || lockoutInfo?.isLocked}
-              size="lg"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                'Sign In to Website'
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {/* Username */}
+              <div className="space-y-2">
+                <Label htmlFor="username">
+                  <User className="h-4 w-4 inline mr-2" />
+                  Username
+                </Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="Enter username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  disabled={isLoading}
+                  autoComplete="username"
+                  required
+                />
+              </div>
+
+              {/* Password */}
+              <div className="space-y-2">
+                <Label htmlFor="password">
+                  <Lock className="h-4 w-4 inline mr-2" />
+                  Password
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Enter password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isLoading}
+                    className="pr-10"
+                    autoComplete="current-password"
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full"
+                    onClick={() => setShowPassword(!showPassword)}
+                    disabled={isLoading}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+
+              {/* Error Alert */}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
               )}
-            </Button>
-          </form>
+
+              {/* Default Credentials Warning */}
+              {showDefaultWarning && (
+                <Alert className="bg-yellow-50 border-yellow-200">
+                  <AlertCircle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-yellow-900">
+                    <strong>Security Warning:</strong> You&apos;re using default credentials.
+                    Please change your password in Settings → Account Security.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Submit Button */}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || lockoutInfo?.isLocked}
+                size="lg"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  'Sign In to Website'
+                )}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </motion.div>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { motion } from 'framer-motion';
 import {
   Server,
@@ -16,8 +17,6 @@ import {
   RotateCcw,
   AlertCircle,
   Key,
-  Shield,
-  Lock,
   Info,
   ChevronDown,
   ChevronRight,
@@ -30,6 +29,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -39,20 +39,32 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Badge } from '@/components/ui/badge';
 
-import { AppConfig, Camera as CameraType, ValidationResult, Credentials, StreamingProtocol } from '@/types';
-import { loadConfig, saveConfig, testServerConnection, validateServerUrl } from '@/config';
+import {
+  AppConfig,
+  Camera as CameraType,
+  ValidationResult,
+  Credentials,
+  MotionSettings,
+  RecordMode,
+  StreamingProtocol,
+} from '@/types';
+import { fetchSharedConfig, loadConfig, saveSharedConfig, testServerConnection, validateServerUrl } from '@/config';
 import { 
   getDefaultCameraCredentials, 
   setDefaultCameraCredentials, 
   validateCameraCredentials 
 } from '@/lib/camera-auth';
-import { 
-  getSiteAuthConfig, 
-  setSiteCredentials, 
-  shouldPromptPasswordChange 
-} from '@/lib/site-auth';
+import { getRecordMode, RECORD_MODE_LABELS } from '@/lib/recordings';
+import { getMotionSettings, MAX_MOTION_SENSITIVITY, MIN_MOTION_SENSITIVITY, validateMotionZones } from '@/lib/motion';
 import { toast } from 'sonner';
 import { CredentialSecurityWarning } from '@/components/credential-security-warning';
+import { LoginLockouts } from '@/components/login-lockouts';
+import { UserManagement } from '@/components/user-management';
+import { NotificationChannels } from '@/components/notifications/notification-channels';
+import { TwoFactorSettings } from '@/components/two-factor-settings';
+import { PushNotificationSettings } from '@/components/push-notification-settings';
+import { CameraDiscovery } from '@/components/camera-discovery';
+import { AccountSecurityForm } from '@/components/forms/account-security-form';
 
 /**
  * SettingsForm provides comprehensive configuration management
@@ -71,6 +83,10 @@ export function SettingsForm({
 }: SettingsFormProps) {
   // Form state
   const [config, setConfig] = useState<AppConfig | null>(null);
+  // Shared config version this edit started from (for conflict detection)
+  const [configVersion, setConfigVersion] = useState(0);
+  // Loaded from the offline cache, which has no secrets - saving it would erase them on the server
+  const [loadedOffline, setLoadedOffline] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [connectionTest, setConnectionTest] = useState<{
@@ -84,15 +100,9 @@ export function SettingsForm({
   const [defaultCameraPassword, setDefaultCameraPassword] = useState('');
   const [cameraTestResult, setCameraTestResult] = useState<{ success: boolean; message: string } | null>(null);
 
-  // Account security state
-  const [currentUsername, setCurrentUsername] = useState('');
-  const [newUsername, setNewUsername] = useState('');
-  const [newPassword, setNewPassword] = useState('');
-  const [confirmPassword, setConfirmPassword] = useState('');
-  const [usingDefaultCredentials, setUsingDefaultCredentials] = useState(false);
-
   // Camera advanced sections state
   const [expandedCameras, setExpandedCameras] = useState<Set<string>>(new Set());
+  const [expandedOnvif, setExpandedOnvif] = useState<Set<string>>(new Set());
 
   // Helper function to count cameras using default credentials
   const camerasUsingDefaults = config?.cameras.filter(cam => 
@@ -112,6 +122,19 @@ export function SettingsForm({
     });
   };
 
+  // Helper to toggle camera PTZ (ONVIF) section
+  const toggleCameraOnvif = (cameraId: string) => {
+    setExpandedOnvif(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(cameraId)) {
+        newSet.delete(cameraId);
+      } else {
+        newSet.add(cameraId);
+      }
+      return newSet;
+    });
+  };
+
   // Helper to copy default credentials to camera
   const copyDefaultsToCamera = (cameraId: string) => {
     if (defaultCameraUsername && defaultCameraPassword) {
@@ -130,11 +153,8 @@ export function SettingsForm({
     toast.success('Camera credentials cleared - will use defaults');
   };
 
-  // Load initial config and auth state
+  // Load initial config and camera credentials
   useEffect(() => {
-    const loadedConfig = loadConfig();
-    setConfig(loadedConfig);
-
     // Load camera credentials
     const camCreds = getDefaultCameraCredentials();
     if (camCreds) {
@@ -142,15 +162,15 @@ export function SettingsForm({
       setDefaultCameraPassword(camCreds.password);
     }
 
-    // Load site credentials info
-    const siteConfig = getSiteAuthConfig();
-    if (siteConfig.credentials) {
-      setCurrentUsername(siteConfig.credentials.username);
-      setNewUsername(siteConfig.credentials.username);
-    }
-    setUsingDefaultCredentials(shouldPromptPasswordChange());
-
-    setIsLoading(false);
+    fetchSharedConfig().then(shared => {
+      setConfig(shared.config);
+      setConfigVersion(shared.version);
+      setLoadedOffline(!!shared.offline);
+      if (shared.offline) {
+        toast.warning('Server unreachable - showing cached settings');
+      }
+      setIsLoading(false);
+    });
   }, []);
 
   // Update config field
@@ -169,6 +189,11 @@ export function SettingsForm({
     setConfig({ ...config, cameras: updatedCameras });
   };
 
+  // Update motion detection settings of a camera
+  const updateCameraMotion = (camera: CameraType, changes: Partial<MotionSettings>) => {
+    updateCamera(camera.id, 'motion', { ...getMotionSettings(camera.motion), ...changes });
+  };
+
   // Update camera-specific credentials
   const updateCameraCredentials = (cameraId: string, field: 'username' | 'password', value: string) => {
     if (!config) return;
@@ -191,6 +216,26 @@ export function SettingsForm({
     setConfig({ ...config, cameras: updatedCameras });
   };
 
+  // Update ONVIF settings of a camera (removed once every field is empty)
+  const updateCameraOnvif = (
+    camera: CameraType,
+    field: 'url' | 'username' | 'password' | 'profileToken',
+    value: string
+  ) => {
+    const current = camera.onvif || { url: '' };
+    const credentials = field === 'username' || field === 'password'
+      ? { username: '', password: '', ...current.credentials, [field]: value }
+      : current.credentials;
+    const onvif = {
+      url: field === 'url' ? value : current.url,
+      ...((credentials?.username || credentials?.password) && { credentials }),
+      ...((field === 'profileToken' ? value : current.profileToken) && {
+        profileToken: field === 'profileToken' ? value : current.profileToken,
+      }),
+    };
+    updateCamera(camera.id, 'onvif', onvif.url || onvif.credentials || onvif.profileToken ? onvif : undefined);
+  };
+
   // Add new camera
   const addCamera = () => {
     if (!config) return;
@@ -206,6 +251,31 @@ export function SettingsForm({
     });
   };
 
+  // Add cameras imported from MediaMTX discovery
+  const importCameras = (cameras: CameraType[]) => {
+    if (!config || cameras.length === 0) return;
+    setConfig({
+      ...config,
+      cameras: [...config.cameras, ...cameras]
+    });
+  };
+
+  // Update MediaMTX API settings
+  const updateMediaMtxApi = (field: 'url' | 'username' | 'password', value: string) => {
+    if (!config) return;
+    const current = config.mediamtxApi || { url: '' };
+    if (field === 'url') {
+      updateConfig('mediamtxApi', { ...current, url: value });
+      return;
+    }
+
+    const credentials = { username: '', password: '', ...current.credentials, [field]: value };
+    updateConfig('mediamtxApi', {
+      url: current.url,
+      ...((credentials.username || credentials.password) && { credentials }),
+    });
+  };
+
   // Remove camera
   const removeCamera = (cameraId: string) => {
     if (!config) return;
@@ -260,6 +330,10 @@ export function SettingsForm({
       errors.push('Invalid server URL format');
     }
 
+    if (config.mediamtxApi?.url && !validateServerUrl(config.mediamtxApi.url)) {
+      errors.push('Invalid MediaMTX API URL format');
+    }
+
     // Camera validation
     if (config.cameras.length === 0) {
       warnings.push('No cameras configured');
@@ -279,6 +353,19 @@ export function SettingsForm({
         if (duplicatePath) {
           errors.push(`Camera ${index + 1}: Duplicate path "${cam.path}"`);
         }
+        if (cam.subPath?.trim() && cam.subPath.trim().replace(/^\//, '') === cam.path.trim().replace(/^\//, '')) {
+          errors.push(`Camera ${index + 1}: Sub-stream path must differ from the stream path`);
+        }
+        const talkbackPath = cam.talkbackPath?.trim().replace(/^\//, '');
+        if (talkbackPath && [cam.path, cam.subPath].some(other => other?.trim().replace(/^\//, '') === talkbackPath)) {
+          errors.push(`Camera ${index + 1}: Talkback path must differ from the stream paths`);
+        }
+        if (cam.onvif?.url.trim() && !validateServerUrl(cam.onvif.url.trim())) {
+          errors.push(`Camera ${index + 1}: Invalid ONVIF URL format`);
+        }
+        validateMotionZones(cam.motion?.zones || []).forEach(error => {
+          errors.push(`Camera ${index + 1}: ${error}`);
+        });
       });
     }
 
@@ -339,40 +426,13 @@ export function SettingsForm({
     }
   };
 
-  // Handle password change
-  const handleChangePassword = () => {
-    if (!newUsername || !newPassword) {
-      toast.error('Please fill in all fields');
-      return;
-    }
-
-    if (newPassword !== confirmPassword) {
-      toast.error('Passwords do not match');
-      return;
-    }
-
-    if (newPassword.length < 8) {
-      toast.error('Password must be at least 8 characters');
-      return;
-    }
-
-    // Save new credentials
-    setSiteCredentials({
-      username: newUsername,
-      password: newPassword
-    });
-
-    setCurrentUsername(newUsername);
-    setUsingDefaultCredentials(false);
-    setNewPassword('');
-    setConfirmPassword('');
-
-    toast.success('Website credentials updated successfully!');
-  };
-
   // Save configuration
   const handleSave = async () => {
     if (!config) return;
+    if (loadedOffline) {
+      toast.error('These are cached settings - reload the page once the server is reachable to change them');
+      return;
+    }
 
     const validation = validateForm();
     if (!validation.isValid) {
@@ -390,9 +450,31 @@ export function SettingsForm({
         });
       }
 
-      await saveConfig(config);
+      const result = await saveSharedConfig(config, configVersion);
+      if (result.conflict && result.shared) {
+        // Someone else saved first - let the user choose to load their version
+        const latest = result.shared;
+        setValidationErrors([result.message || 'Settings were changed since you loaded them']);
+        toast.error('Settings were changed in another browser', {
+          action: {
+            label: 'Load latest',
+            onClick: () => {
+              setConfig(latest.config);
+              setConfigVersion(latest.version);
+              setValidationErrors([]);
+            },
+          },
+        });
+        return;
+      }
+      if (!result.success || !result.shared) {
+        throw new Error(result.message);
+      }
+
+      setConfigVersion(result.shared.version);
       onSave?.(config);
       toast.success('Settings saved successfully!');
+      result.warnings?.forEach(warning => toast.warning(warning));
     } catch (err) {
       console.error('Failed to save configuration:', err);
       setValidationErrors(['Failed to save configuration']);
@@ -459,9 +541,10 @@ export function SettingsForm({
         )}
 
         <Tabs defaultValue="server" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="server">Server</TabsTrigger>
             <TabsTrigger value="cameras">Cameras</TabsTrigger>
+            <TabsTrigger value="notifications">Notifications</TabsTrigger>
             <TabsTrigger value="account">Account</TabsTrigger>
             <TabsTrigger value="playback">Playback</TabsTrigger>
           </TabsList>
@@ -538,6 +621,54 @@ export function SettingsForm({
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Server className="h-5 w-5" />
+                  MediaMTX Control API
+                </CardTitle>
+                <CardDescription>
+                  Used by this web server to discover camera paths (<code>api: true</code> in mediamtx.yml)
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="mediamtxApiUrl">API URL</Label>
+                  <Input
+                    id="mediamtxApiUrl"
+                    placeholder="http://192.168.1.100:9997"
+                    value={config.mediamtxApi?.url || ''}
+                    onChange={(e) => updateMediaMtxApi('url', e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Requested by the web server, so use an address it can reach (localhost if both run on the Pi).
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="mediamtxApiUsername">API Username (Optional)</Label>
+                    <Input
+                      id="mediamtxApiUsername"
+                      value={config.mediamtxApi?.credentials?.username || ''}
+                      onChange={(e) => updateMediaMtxApi('username', e.target.value)}
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="mediamtxApiPassword">API Password (Optional)</Label>
+                    <Input
+                      id="mediamtxApiPassword"
+                      type="password"
+                      value={config.mediamtxApi?.credentials?.password || ''}
+                      onChange={(e) => updateMediaMtxApi('password', e.target.value)}
+                      autoComplete="new-password"
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Camera Management */}
@@ -664,10 +795,17 @@ export function SettingsForm({
                       Manage your camera streams and settings
                     </CardDescription>
                   </div>
-                  <Button onClick={addCamera} size="sm">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Camera
-                  </Button>
+                  <div className="flex gap-2">
+                    <CameraDiscovery
+                      api={config.mediamtxApi}
+                      cameras={config.cameras}
+                      onImport={importCameras}
+                    />
+                    <Button onClick={addCamera} size="sm">
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Camera
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -682,6 +820,8 @@ export function SettingsForm({
                     {config.cameras.map((camera, index) => {
                       const hasCustomCreds = camera.credentials?.username && camera.credentials?.password;
                       const isExpanded = expandedCameras.has(camera.id);
+                      const isOnvifExpanded = expandedOnvif.has(camera.id);
+                      const motionSettings = getMotionSettings(camera.motion);
                       
                       return (
                         <div key={camera.id} className="border rounded-lg p-4">
@@ -762,6 +902,167 @@ export function SettingsForm({
                           </div>
                         </div>
 
+                        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor={`camera-sub-path-${camera.id}`}>Sub-stream Path (optional)</Label>
+                            <Input
+                              id={`camera-sub-path-${camera.id}`}
+                              placeholder={`e.g., ${camera.path || 'camera1'}_sub`}
+                              value={camera.subPath || ''}
+                              onChange={(e) => updateCamera(camera.id, 'subPath', e.target.value)}
+                            />
+                            <p className="text-xs text-gray-500">
+                              Low-resolution stream for the live wall and thumbnails. Full screen and the viewer use the main path.
+                            </p>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor={`camera-talkback-path-${camera.id}`}>Talkback Path (optional)</Label>
+                            <Input
+                              id={`camera-talkback-path-${camera.id}`}
+                              placeholder={`e.g., ${camera.path || 'camera1'}_talk`}
+                              value={camera.talkbackPath || ''}
+                              onChange={(e) => updateCamera(camera.id, 'talkbackPath', e.target.value)}
+                            />
+                            <p className="text-xs text-gray-500">
+                              For cameras with a speaker: operators and admins hold the microphone button in the player to talk; the audio is published to this path.
+                            </p>
+                          </div>
+
+                          <div className="space-y-2">
+                            <Label htmlFor={`camera-record-mode-${camera.id}`}>Recording</Label>
+                            <Select
+                              value={getRecordMode(camera)}
+                              onValueChange={(value) => updateCamera(camera.id, 'recordMode', value as RecordMode)}
+                            >
+                              <SelectTrigger id={`camera-record-mode-${camera.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(RECORD_MODE_LABELS) as RecordMode[]).map(mode => (
+                                  <SelectItem key={mode} value={mode}>
+                                    {RECORD_MODE_LABELS[mode]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs text-gray-500">
+                              {getRecordMode(camera) === 'schedule'
+                                ? 'Follows the rules under Recordings → Schedule; operators and admins can also start and stop it from the viewer.'
+                                : 'Applied to MediaMTX when you save (needs the MediaMTX API under Server).'}
+                            </p>
+                          </div>
+
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor={`camera-motion-${camera.id}`}>Motion Detection</Label>
+                              <Switch
+                                id={`camera-motion-${camera.id}`}
+                                checked={motionSettings.enabled}
+                                onCheckedChange={(checked) => updateCameraMotion(camera, { enabled: checked })}
+                              />
+                            </div>
+                            {motionSettings.enabled && (
+                              <>
+                                <div className="flex items-center gap-3">
+                                  <Slider
+                                    value={[motionSettings.sensitivity]}
+                                    onValueChange={([value]) => updateCameraMotion(camera, { sensitivity: value })}
+                                    min={MIN_MOTION_SENSITIVITY}
+                                    max={MAX_MOTION_SENSITIVITY}
+                                    step={1}
+                                    className="flex-1"
+                                    aria-label="Motion sensitivity"
+                                  />
+                                  <span className="w-8 text-right text-sm text-gray-600">{motionSettings.sensitivity}</span>
+                                </div>
+                                <p className="text-sm text-gray-600">
+                                  {motionSettings.zones.length === 1 ? '1 zone' : `${motionSettings.zones.length} zones`} ·{' '}
+                                  <Link href={`/viewer/${camera.id}`} className="text-blue-600 hover:underline">
+                                    Draw zones in the viewer
+                                  </Link>
+                                </p>
+                              </>
+                            )}
+                            <p className="text-xs text-gray-500">
+                              Browsers playing the camera compare its frames and show a motion badge; higher sensitivity reacts to smaller changes.
+                            </p>
+                          </div>
+                        </div>
+
+                        {/* PTZ Control (ONVIF) */}
+                        <Collapsible
+                          open={isOnvifExpanded}
+                          onOpenChange={() => toggleCameraOnvif(camera.id)}
+                          className="mt-4"
+                        >
+                          <div className="flex items-center justify-between">
+                            <CollapsibleTrigger asChild>
+                              <Button variant="ghost" size="sm" className="p-0 h-auto font-normal">
+                                {isOnvifExpanded ? (
+                                  <ChevronDown className="h-4 w-4 mr-2" />
+                                ) : (
+                                  <ChevronRight className="h-4 w-4 mr-2" />
+                                )}
+                                <span className="text-sm font-medium">PTZ Control (ONVIF)</span>
+                              </Button>
+                            </CollapsibleTrigger>
+                            {camera.onvif?.url && !isOnvifExpanded && (
+                              <span className="text-xs text-blue-600">Configured</span>
+                            )}
+                          </div>
+
+                          <CollapsibleContent className="mt-3">
+                            <div className="space-y-4 border-l-2 border-gray-200 pl-4">
+                              <p className="text-xs text-gray-500">
+                                Pan, tilt and zoom the camera from the viewer. The web server talks to the camera&apos;s ONVIF
+                                service, so it must be able to reach it; the ONVIF user is never sent to viewers or operators.
+                              </p>
+
+                              <div className="space-y-2">
+                                <Label htmlFor={`camera-onvif-url-${camera.id}`} className="text-sm">ONVIF Device Service URL</Label>
+                                <Input
+                                  id={`camera-onvif-url-${camera.id}`}
+                                  placeholder="http://192.168.1.101/onvif/device_service"
+                                  value={camera.onvif?.url || ''}
+                                  onChange={(e) => updateCameraOnvif(camera, 'url', e.target.value)}
+                                />
+                              </div>
+
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                  <Label className="text-sm">ONVIF Username</Label>
+                                  <Input
+                                    placeholder="ONVIF username"
+                                    value={camera.onvif?.credentials?.username || ''}
+                                    onChange={(e) => updateCameraOnvif(camera, 'username', e.target.value)}
+                                  />
+                                </div>
+
+                                <div className="space-y-2">
+                                  <Label className="text-sm">ONVIF Password</Label>
+                                  <Input
+                                    type="password"
+                                    placeholder="ONVIF password"
+                                    value={camera.onvif?.credentials?.password || ''}
+                                    onChange={(e) => updateCameraOnvif(camera, 'password', e.target.value)}
+                                  />
+                                </div>
+                              </div>
+
+                              <div className="space-y-2">
+                                <Label htmlFor={`camera-onvif-profile-${camera.id}`} className="text-sm">Media Profile Token (optional)</Label>
+                                <Input
+                                  id={`camera-onvif-profile-${camera.id}`}
+                                  placeholder="First profile with PTZ"
+                                  value={camera.onvif?.profileToken || ''}
+                                  onChange={(e) => updateCameraOnvif(camera, 'profileToken', e.target.value)}
+                                />
+                              </div>
+                            </div>
+                          </CollapsibleContent>
+                        </Collapsible>
+
                         {/* Advanced: Custom Credentials */}
                         <Collapsible 
                           open={isExpanded}
@@ -844,6 +1145,12 @@ export function SettingsForm({
                         <div className="text-xs text-gray-500 space-y-1">
                           <p><strong>WebRTC URL:</strong> {config.serverUrl.replace(/\/$/, '')}/{camera.path}/whep</p>
                           <p><strong>HLS URL:</strong> {config.serverUrl.replace(':8889', ':8888').replace(/\/$/, '')}/{camera.path}/index.m3u8</p>
+                          {camera.subPath?.trim() && (
+                            <p><strong>Sub-stream WebRTC URL:</strong> {config.serverUrl.replace(/\/$/, '')}/{camera.subPath.trim()}/whep</p>
+                          )}
+                          {camera.talkbackPath?.trim() && (
+                            <p><strong>Talkback WHIP URL:</strong> {config.serverUrl.replace(/\/$/, '')}/{camera.talkbackPath.trim()}/whip</p>
+                          )}
                           <p className="text-blue-600 mt-2">
                             💡 <strong>Auto mode</strong> tries WebRTC first for low latency, falls back to HLS if WebRTC fails
                           </p>
@@ -858,95 +1165,22 @@ export function SettingsForm({
           </TabsContent>
 
 
+          {/* Notifications Tab - saved on their own, not with Save Settings */}
+          <TabsContent value="notifications" className="space-y-4">
+            <NotificationChannels cameras={config.cameras} />
+          </TabsContent>
+
           {/* Account Security Tab */}
           <TabsContent value="account" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Shield className="h-5 w-5" />
-                  Account Security
-                </CardTitle>
-                <CardDescription>
-                  Change your website login credentials
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {usingDefaultCredentials && (
-                  <Alert variant="destructive">
-                    <AlertCircle className="h-4 w-4" />
-                    <AlertDescription>
-                      <strong>Action Required:</strong> You are using the default credentials (admin/changeme).
-                      Please change your password immediately to secure your installation.
-                    </AlertDescription>
-                  </Alert>
-                )}
-
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label>Current Username</Label>
-                    <Input
-                      value={currentUsername}
-                      disabled
-                      className="bg-gray-50"
-                    />
-                  </div>
+            <AccountSecurityForm />
 
-                  <Separator />
+            <TwoFactorSettings />
 
-                  <div className="space-y-2">
-                    <Label htmlFor="new-username">New Username</Label>
-                    <Input
-                      id="new-username"
-                      placeholder="Enter new username"
-                      value={newUsername}
-                      onChange={(e) => setNewUsername(e.target.value)}
-                    />
-                  </div>
+            <PushNotificationSettings />
 
-                  <div className="space-y-2">
-                    <Label htmlFor="new-password">New Password</Label>
-                    <Input
-                      id="new-password"
-                      type="password"
-                      placeholder="Enter new password (min 8 characters)"
-                      value={newPassword}
-                      onChange={(e) => setNewPassword(e.target.value)}
-                    />
-                  </div>
+            <UserManagement cameras={config.cameras} />
 
-                  <div className="space-y-2">
-                    <Label htmlFor="confirm-password">Confirm Password</Label>
-                    <Input
-                      id="confirm-password"
-                      type="password"
-                      placeholder="Re-enter new password"
-                      value={confirmPassword}
-                      onChange={(e) => setConfirmPassword(e.target.value)}
-                    />
-                  </div>
-
-                  <Button
-                    onClick={handleChangePassword}
-                    className="w-full"
-                    disabled={!newUsername || !newPassword || newPassword !== confirmPassword}
-                  >
-                    <Lock className="h-4 w-4 mr-2" />
-                    Update Website Credentials
-                  </Button>
-                </div>
-
-                <Separator />
-
-                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-2 text-sm">
-                  <p className="font-medium text-yellow-900">⚠️ Important</p>
-                  <ul className="list-disc ml-5 space-y-1 text-yellow-800">
-                    <li>Changing these credentials will log you out</li>
-                    <li>Make sure to remember your new credentials</li>
-                    <li>These credentials are stored locally in your browser</li>
-                  </ul>
-                </div>
-              </CardContent>
-            </Card>
+            <LoginLockouts />
           </TabsContent>
 
           {/* Playback Settings */}
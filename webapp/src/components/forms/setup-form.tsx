@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Lock, User, AlertCircle, Loader2, KeyRound } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { completeSiteSetup } from '@/lib/site-auth';
+
+/**
+ * SetupForm component for first-launch site credential setup
+ * Creates the website login on the server and signs in
+ */
+interface SetupFormProps {
+  onSuccess?: () => void;
+  onUseDefaults?: () => void;
+  redirectTo?: string;
+}
+
+export function SetupForm({ onSuccess, onUseDefaults, redirectTo = '/' }: SetupFormProps) {
+  const router = useRouter();
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!username.trim() || !password) {
+      setError('Please enter a username and password');
+      return;
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    const result = await completeSiteSetup({ username: username.trim(), password });
+
+    if (!result.success) {
+      setError(result.message || 'Setup failed. Please try again.');
+      setIsLoading(false);
+      return;
+    }
+
+    if (onSuccess) {
+      onSuccess();
+    } else {
+      router.push(redirectTo);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <KeyRound className="h-5 w-5 text-blue-600" />
+            Create Website Login
+          </CardTitle>
+          <CardDescription>
+            Choose the username and password that will protect this web interface
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="setup-username">
+                <User className="h-4 w-4 inline mr-2" />
+                Username
+              </Label>
+              <Input
+                id="setup-username"
+                type="text"
+                placeholder="Choose a username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={isLoading}
+                autoComplete="username"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="setup-password">
+                <Lock className="h-4 w-4 inline mr-2" />
+                Password
+              </Label>
+              <Input
+                id="setup-password"
+                type="password"
+                placeholder="At least 8 characters"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="setup-confirm-password">Confirm Password</Label>
+              <Input
+                id="setup-confirm-password"
+                type="password"
+                placeholder="Re-enter password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                disabled={isLoading}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isLoading} size="lg">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating login...
+                </>
+              ) : (
+                'Create Login & Sign In'
+              )}
+            </Button>
+
+            {onUseDefaults && (
+              <Button
+                type="button"
+                variant="link"
+                className="w-full text-sm"
+                onClick={onUseDefaults}
+                disabled={isLoading}
+              >
+                Sign in with the default credentials instead
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -1,10 +1,13 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { createContext, useContext, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { hasSiteSession } from '@/lib/site-auth';
+import { getSiteSession, hasRole, loadLastSiteUser, SiteUser, UserRole } from '@/lib/site-auth';
 import { Loader2 } from 'lucide-react';
 
+// Current site user, provided by AuthGate to everything it renders
+const CurrentUserContext = createContext<SiteUser | null>(null);
+
 /**
  * AuthGate - protects routes requiring website authentication
  * Note: This checks SITE authentication, not camera credentials
@@ -13,28 +16,40 @@ interface AuthGateProps {
   children: React.ReactNode;
   redirectTo?: string;
   fallback?: React.ReactNode;
+  requiredRole?: UserRole;
+  forbiddenRedirectTo?: string;
 }
 
 export function AuthGate({
   children,
   redirectTo = '/login',
-  fallback
+  fallback,
+  requiredRole,
+  forbiddenRedirectTo = '/'
 }: AuthGateProps) {
   const router = useRouter();
   const [isChecking, setIsChecking] = useState(true);
   const [isAuthed, setIsAuthed] = useState(false);
+  const [user, setUser] = useState<SiteUser | null>(null);
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
         // Check if user has authenticated with the website
-        const authenticated = await hasSiteSession();
+        // While the server cannot be reached, keep showing the app shell to whoever was signed in last
+        const session = await getSiteSession();
+        const sessionUser = session.offline ? loadLastSiteUser() : session.user;
+        const authenticated = (session.authenticated || !!session.offline) && !!sessionUser;
+        const permitted = authenticated && (!requiredRole || hasRole(sessionUser?.role, requiredRole));
         
-        setIsAuthed(authenticated);
+        setUser(sessionUser || null);
+        setIsAuthed(permitted);
         setIsChecking(false);
 
         if (!authenticated) {
           router.push(redirectTo);
+        } else if (!permitted) {
+          router.push(forbiddenRedirectTo);
         }
       } catch (error) {
         console.error('Auth check error:', error);
@@ -45,7 +60,7 @@ export function AuthGate({
     };
 
     checkAuth();
-  }, [router, redirectTo]);
+  }, [router, redirectTo, requiredRole, forbiddenRedirectTo]);
 
   if (isChecking) {
     return fallback || (
@@ -62,7 +77,18 @@ export function AuthGate({
     return null;
   }
 
-  return <>{children}</>;
+  return (
+    <CurrentUserContext.Provider value={user}>
+      {children}
+    </CurrentUserContext.Provider>
+  );
+}
+
+/**
+ * Get the signed-in site user inside an AuthGate (null outside of one)
+ */
+export function useCurrentUser(): SiteUser | null {
+  return useContext(CurrentUserContext);
 }
 
 /**
@@ -70,10 +96,11 @@ export function AuthGate({
  */
 export function withAuth<P extends object>(
   Component: React.ComponentType<P>,
-  redirectTo?: string
+  redirectTo?: string,
+  requiredRole?: UserRole
 ) {
   const WrappedComponent = (props: P) => (
-    <AuthGate redirectTo={redirectTo}>
+    <AuthGate redirectTo={redirectTo} requiredRole={requiredRole}>
       <Component {...props} />
     </AuthGate>
   );
@@ -89,12 +116,14 @@ export function withAuth<P extends object>(
 export function useAuth() {
   const [isAuthed, setIsAuthed] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [user, setUser] = useState<SiteUser | null>(null);
 
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const authenticated = await hasSiteSession();
-        setIsAuthed(authenticated);
+        const session = await getSiteSession();
+        setIsAuthed(session.authenticated);
+        setUser(session.user || null);
         setIsLoading(false);
       } catch (error) {
         console.error('Auth check error:', error);
@@ -106,5 +135,5 @@ export function useAuth() {
     checkAuth();
   }, []);
 
-  return { isAuthenticated: isAuthed, isLoading };
+  return { isAuthenticated: isAuthed, isLoading, user };
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { motion } from 'framer-motion';
@@ -10,16 +10,26 @@ import {
   Shield,
   LogOut,
   Camera,
-  ChevronLeft
+  ChevronLeft,
+  UserCog,
+  LayoutGrid,
+  Film,
+  Images,
+  History,
+  RefreshCw,
+  WifiOff,
+  Smartphone
 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { clearSiteAuth } from '@/lib/site-auth';
+import { clearSiteAuth, UserRole } from '@/lib/site-auth';
+import { watchServerConnection } from '@/lib/pwa';
+import { useCurrentUser } from './auth-gate';
 
 /**
  * Main layout component for authenticated pages
- * Provides navigation and consistent structure
+ * Provides navigation and consistent structure, and says so when the server cannot be reached
  */
 interface MainLayoutProps {
   children: ReactNode;
@@ -28,16 +38,56 @@ interface MainLayoutProps {
   backHref?: string;
 }
 
-const navigationItems = [
+// Items with `roles` are only shown to those roles
+const navigationItems: {
+  href: string;
+  label: string;
+  icon: typeof Home;
+  roles?: UserRole[];
+}[] = [
   {
     href: '/',
     label: 'Cameras',
     icon: Home,
   },
+  {
+    href: '/wall',
+    label: 'Wall',
+    icon: LayoutGrid,
+  },
+  {
+    href: '/recordings',
+    label: 'Recordings',
+    icon: Film,
+  },
+  {
+    href: '/snapshots',
+    label: 'Snapshots',
+    icon: Images,
+  },
+  {
+    href: '/events',
+    label: 'Events',
+    icon: History,
+  },
+  {
+    href: '/publish',
+    label: 'Publish',
+    icon: Smartphone,
+    roles: ['admin'],
+  },
   {
     href: '/settings',
     label: 'Settings',
     icon: Settings,
+    roles: ['admin'],
+  },
+  {
+    // Admins manage their account from Settings
+    href: '/account',
+    label: 'Account',
+    icon: UserCog,
+    roles: ['operator', 'viewer'],
   },
   {
     href: '/privacy',
@@ -53,6 +103,14 @@ export function MainLayout({
   backHref = '/'
 }: MainLayoutProps) {
   const pathname = usePathname();
+  const user = useCurrentUser();
+  const [serverReachable, setServerReachable] = useState(true);
+
+  useEffect(() => watchServerConnection(setServerReachable), []);
+
+  const visibleNavigationItems = navigationItems.filter(
+    item => !item.roles || (user !== null && item.roles.includes(user.role))
+  );
 
   const handleLogout = async () => {
     await clearSiteAuth();
@@ -114,7 +172,7 @@ export function MainLayout({
         <nav className="bg-gray-50 border-t border-gray-200">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="flex items-center justify-center space-x-8 py-2">
-              {navigationItems.map((item) => {
+              {visibleNavigationItems.map((item) => {
                 const Icon = item.icon;
                 const isActive = pathname === item.href;
 
@@ -136,6 +194,28 @@ export function MainLayout({
             </div>
           </div>
         </nav>
+
+        {/* Offline banner */}
+        {!serverReachable && (
+          <div role="status" className="bg-amber-50 border-t border-amber-200 text-amber-900">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-3 text-sm">
+              <WifiOff className="h-4 w-4 shrink-0" />
+              <p className="flex-1">
+                <strong>Offline</strong> - the server can&apos;t be reached. Cameras and statuses are shown as they
+                were last known; live video and changes are unavailable until the connection is back.
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.location.reload()}
+                className="bg-white"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Retry
+              </Button>
+            </div>
+          </div>
+        )}
       </header>
 
       {/* Main content */}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+import { registerServiceWorker } from '@/lib/pwa';
+
+/**
+ * ServiceWorkerRegistration - registers the service worker that makes the app installable,
+ * keeps the offline app shell and shows push notifications
+ * Included once in the root layout
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return null; // This component doesn't render anything
+}
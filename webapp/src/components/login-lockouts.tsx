@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Globe, Loader2, RefreshCw, ShieldAlert, Unlock, User } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { clearLoginLockout, formatRemainingTime, getLoginLockouts, LoginLockout } from '@/lib/site-auth';
+
+/**
+ * LoginLockouts lists IPs and usernames currently locked out by the login rate limiter
+ * Lets an admin lift a lockout early
+ */
+export function LoginLockouts() {
+  const [lockouts, setLockouts] = useState<LoginLockout[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unlockingKey, setUnlockingKey] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setLockouts(await getLoginLockouts());
+    } catch (error) {
+      console.error('Failed to load login lockouts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleUnlock = async (lockout: LoginLockout) => {
+    setUnlockingKey(lockout.key);
+    const cleared = await clearLoginLockout(lockout.key);
+    setUnlockingKey(null);
+
+    if (cleared) {
+      toast.success(`Lockout cleared for ${lockout.value}`);
+      setLockouts(prev => prev.filter(item => item.key !== lockout.key));
+    } else {
+      toast.error('Failed to clear lockout');
+      refresh();
+    }
+  };
+
+  return (
+    <Card id="login-lockouts">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Login Lockouts
+            </CardTitle>
+            <CardDescription>
+              Sources temporarily blocked after repeated failed sign-in attempts
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={refresh} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span className="sr-only">Refresh</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {lockouts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : 'No IPs or usernames are currently locked out.'}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {lockouts.map(lockout => (
+              <li
+                key={lockout.key}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {lockout.type === 'ip' ? (
+                    <Globe className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <User className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm truncate">{lockout.value}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Locked for {formatRemainingTime(lockout.remainingTime)}
+                      {lockout.lockouts > 1 && ` · lockout #${lockout.lockouts}`}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">{lockout.type === 'ip' ? 'IP' : 'Username'}</Badge>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleUnlock(lockout)}
+                  disabled={unlockingKey === lockout.key}
+                >
+                  {unlockingKey === lockout.key ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Unlock className="h-4 w-4 mr-2" />
+                  )}
+                  Unlock
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
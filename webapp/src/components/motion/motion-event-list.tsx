@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Activity, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatClipDuration } from '@/lib/clips';
+import {
+  clearMotionEvents,
+  getMotionEvents,
+  isMotionEventActive,
+  MotionEvent,
+  watchMotionEvents,
+} from '@/lib/motion';
+
+const LIST_REFRESH = 5 * 1000; // ongoing events update their duration
+
+/**
+ * Motion events seen by the players in this browser, newest first
+ * Pass a camera ID to only list that camera's events
+ */
+interface MotionEventListProps {
+  cameraId?: string;
+  enabled: boolean; // motion detection is on for the camera(s) listed
+}
+
+export function MotionEventList({ cameraId, enabled }: MotionEventListProps) {
+  const [events, setEvents] = useState<MotionEvent[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setEvents(getMotionEvents());
+    const stopWatching = watchMotionEvents(setEvents);
+    const interval = setInterval(() => {
+      setEvents(getMotionEvents());
+      setNow(Date.now());
+    }, LIST_REFRESH);
+    return () => {
+      stopWatching();
+      clearInterval(interval);
+    };
+  }, []);
+
+  const visible = events.filter(event => !cameraId || event.cameraId === cameraId);
+
+  const getDuration = (event: MotionEvent) => {
+    const end = isMotionEventActive(event, now) ? now : Date.parse(event.endedAt || event.lastMotionAt);
+    return (end - Date.parse(event.startedAt)) / 1000;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle>Motion Events</CardTitle>
+            <CardDescription>
+              {enabled
+                ? 'Detected in this browser while the live stream plays.'
+                : 'Motion detection is off for this camera. An admin can turn it on under Settings → Cameras.'}
+            </CardDescription>
+          </div>
+          {visible.length > 0 && (
+            <Button size="sm" variant="outline" onClick={() => clearMotionEvents(cameraId)}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-600">
+            <Activity className="mx-auto mb-2 h-6 w-6 text-gray-400" />
+            No motion yet.
+          </div>
+        ) : (
+          <ul className="divide-y" id="motion-event-list">
+            {visible.map(event => (
+              <li key={event.id} className="flex items-center gap-4 py-3">
+                <Activity className="h-4 w-4 shrink-0 text-amber-500" />
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium">
+                    {cameraId ? new Date(event.startedAt).toLocaleString() : event.cameraName}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {!cameraId && `${new Date(event.startedAt).toLocaleString()} · `}
+                    {formatClipDuration(getDuration(event))} · up to {Math.round(event.peak * 100)}% of the watched area
+                  </p>
+                </div>
+                {isMotionEventActive(event, now) && (
+                  <Badge className="border-0 bg-amber-500 text-white">Ongoing</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,341 @@
+'use client';
+
+import { MouseEvent, useEffect, useRef, useState } from 'react';
+import { Check, Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import {
+  getMotionSettings,
+  MAX_MOTION_SENSITIVITY,
+  MAX_MOTION_ZONES,
+  MAX_ZONE_POINTS,
+  MIN_MOTION_SENSITIVITY,
+  MIN_ZONE_POINTS,
+  MOTION_ZONE_MODE_LABELS,
+  saveMotionZones,
+  validateMotionZones,
+} from '@/lib/motion';
+import { Camera, MotionPoint, MotionSettings, MotionZone, MotionZoneMode } from '@/types';
+
+export interface FrozenFrame {
+  url: string;
+  aspectRatio: number; // width / height of the video
+}
+
+/**
+ * Motion zones editor - polygons drawn point by point over a frozen frame of the live stream
+ * "Watch" zones limit detection to where they are, each with its own sensitivity;
+ * "Ignore" zones cut out trees, roads and the like
+ */
+interface MotionZoneEditorProps {
+  camera: Camera;
+  frame: FrozenFrame | null; // the dialog is open while there is a frame
+  onClose: () => void;
+  onSaved: (motion: MotionSettings) => void;
+}
+
+const CLOSE_DISTANCE = 0.03; // clicking this close to the first point closes the polygon
+
+const ZONE_COLORS: Record<MotionZoneMode, { fill: string; stroke: string; swatch: string }> = {
+  include: { fill: 'rgba(34, 197, 94, 0.25)', stroke: '#22c55e', swatch: 'bg-green-500' },
+  exclude: { fill: 'rgba(239, 68, 68, 0.3)', stroke: '#ef4444', swatch: 'bg-red-500' },
+};
+
+function toPoints(points: MotionPoint[]): string {
+  return points.map(point => `${point.x},${point.y}`).join(' ');
+}
+
+export function MotionZoneEditor({ camera, frame, onClose, onSaved }: MotionZoneEditorProps) {
+  const settings = getMotionSettings(camera.motion);
+  const [zones, setZones] = useState<MotionZone[]>(settings.zones);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drawing, setDrawing] = useState<MotionPoint[] | null>(null);
+  const [cursor, setCursor] = useState<MotionPoint | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  // Start from the saved zones every time the editor opens
+  useEffect(() => {
+    if (!frame) return;
+    setZones(getMotionSettings(camera.motion).zones);
+    setSelectedId(null);
+    setDrawing(null);
+  }, [frame, camera.motion]);
+
+  const errors = validateMotionZones(zones);
+
+  // Pointer position relative to the picture, 0-1
+  const getPoint = (event: MouseEvent): MotionPoint => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const updateZone = (id: string, changes: Partial<MotionZone>) => {
+    setZones(prev => prev.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  const finishDrawing = (points: MotionPoint[]) => {
+    const zone: MotionZone = {
+      id: crypto.randomUUID(),
+      name: `Zone ${zones.length + 1}`,
+      mode: 'exclude',
+      points,
+    };
+    setZones(prev => [...prev, zone]);
+    setSelectedId(zone.id);
+    setDrawing(null);
+    setCursor(null);
+  };
+
+  const handleAreaClick = (event: MouseEvent) => {
+    if (!drawing) {
+      setSelectedId(null);
+      return;
+    }
+
+    const point = getPoint(event);
+    const [first] = drawing;
+    if (first && drawing.length >= MIN_ZONE_POINTS && Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_DISTANCE) {
+      finishDrawing(drawing);
+      return;
+    }
+    if (drawing.length < MAX_ZONE_POINTS) {
+      setDrawing([...drawing, point]);
+    }
+  };
+
+  const handleModeChange = (zone: MotionZone, mode: MotionZoneMode) => {
+    // Only watched zones have a sensitivity; they start from the camera's
+    updateZone(zone.id, { mode, sensitivity: mode === 'include' ? zone.sensitivity ?? settings.sensitivity : undefined });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await saveMotionZones(camera.id, zones);
+    setIsSaving(false);
+
+    if (result.success && result.motion) {
+      toast.success(result.message || 'Motion zones saved');
+      onSaved(result.motion);
+      onClose();
+    } else {
+      toast.error(result.message || 'Failed to save motion zones');
+    }
+  };
+
+  return (
+    <Dialog open={frame !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Motion Zones - {camera.name}</DialogTitle>
+          <DialogDescription>
+            {drawing
+              ? `Click to add points; click the first point or Finish to close the zone (at least ${MIN_ZONE_POINTS} points).`
+              : 'Watch zones limit motion detection to where they are; ignore zones are left out. Without watch zones the whole picture is watched.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!settings.enabled && (
+          <Alert>
+            <AlertDescription>
+              Motion detection is off for this camera. Zones are saved, but only used once it is turned on under Settings → Cameras.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-[1fr_18rem]">
+          <div
+            ref={areaRef}
+            className={`relative w-full select-none overflow-hidden rounded-lg bg-black ${drawing ? 'cursor-crosshair' : ''}`}
+            style={{ aspectRatio: frame?.aspectRatio }}
+            onClick={handleAreaClick}
+            onMouseMove={event => drawing && setCursor(getPoint(event))}
+            onMouseLeave={() => setCursor(null)}
+            id="motion-zone-area"
+          >
+            {frame && (
+              // eslint-disable-next-line @next/next/no-img-element -- blob: URL of the frozen frame
+              <img
+                src={frame.url}
+                alt={`Frozen frame of ${camera.name}`}
+                className="pointer-events-none h-full w-full"
+                draggable={false}
+              />
+            )}
+
+            <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 h-full w-full">
+              {zones.map(zone => (
+                <polygon
+                  key={zone.id}
+                  points={toPoints(zone.points)}
+                  fill={ZONE_COLORS[zone.mode].fill}
+                  stroke={ZONE_COLORS[zone.mode].stroke}
+                  strokeWidth={zone.id === selectedId ? 3 : 1.5}
+                  vectorEffect="non-scaling-stroke"
+                  className={drawing ? '' : 'cursor-pointer'}
+                  onClick={event => {
+                    if (drawing) return;
+                    event.stopPropagation();
+                    setSelectedId(zone.id);
+                  }}
+                />
+              ))}
+              {drawing && (
+                <polyline
+                  points={toPoints(cursor ? [...drawing, cursor] : drawing)}
+                  fill="none"
+                  stroke="#ffffff"
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+
+            {drawing?.map((point, index) => (
+              <span
+                key={index}
+                className={`pointer-events-none absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full border border-black ${
+                  index === 0 ? 'bg-yellow-300' : 'bg-white'
+                }`}
+                style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {drawing ? (
+              <div className="flex gap-2">
+                <Button
+                  className="flex-1"
+                  onClick={() => finishDrawing(drawing)}
+                  disabled={drawing.length < MIN_ZONE_POINTS}
+                >
+                  <Check className="mr-2 h-4 w-4" />
+                  Finish ({drawing.length})
+                </Button>
+                <Button variant="outline" onClick={() => setDrawing(null)} aria-label="Cancel drawing">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => {
+                  setSelectedId(null);
+                  setDrawing([]);
+                }}
+                disabled={zones.length >= MAX_MOTION_ZONES}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Draw Zone
+              </Button>
+            )}
+
+            {zones.length === 0 && !drawing && (
+              <p className="text-sm text-gray-600">No zones yet - the whole picture is watched.</p>
+            )}
+
+            <ul className="max-h-96 space-y-2 overflow-y-auto" id="motion-zone-list">
+              {zones.map(zone => (
+                <li
+                  key={zone.id}
+                  className={`space-y-2 rounded-lg border p-3 ${zone.id === selectedId ? 'border-blue-500 bg-blue-50' : ''}`}
+                  onClick={() => setSelectedId(zone.id)}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`h-3 w-3 shrink-0 rounded-sm ${ZONE_COLORS[zone.mode].swatch}`} />
+                    <Input
+                      value={zone.name}
+                      onChange={event => updateZone(zone.id, { name: event.target.value })}
+                      className="h-8"
+                      aria-label="Zone name"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={event => {
+                        event.stopPropagation();
+                        setZones(prev => prev.filter(item => item.id !== zone.id));
+                      }}
+                      aria-label={`Delete ${zone.name || 'zone'}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Select value={zone.mode} onValueChange={value => handleModeChange(zone, value as MotionZoneMode)}>
+                    <SelectTrigger className="h-8" aria-label="Zone type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MOTION_ZONE_MODE_LABELS) as MotionZoneMode[]).map(mode => (
+                        <SelectItem key={mode} value={mode}>
+                          {MOTION_ZONE_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {zone.mode === 'include' && (
+                    <div className="space-y-1">
+                      <Label className="text-xs text-gray-600">
+                        Sensitivity: {zone.sensitivity ?? settings.sensitivity}
+                      </Label>
+                      <Slider
+                        value={[zone.sensitivity ?? settings.sensitivity]}
+                        onValueChange={([value]) => updateZone(zone.id, { sensitivity: value })}
+                        min={MIN_MOTION_SENSITIVITY}
+                        max={MAX_MOTION_SENSITIVITY}
+                        step={1}
+                        aria-label={`Sensitivity of ${zone.name || 'zone'}`}
+                      />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {errors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || errors.length > 0 || drawing !== null}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Zones
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,433 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, Loader2, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+import { EVENT_TYPE_LABELS, EVENT_TYPES, EventType } from '@/lib/events';
+import {
+  createNotificationChannel,
+  getNotificationSettings,
+  MAX_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NotificationChannel,
+  NotificationChannelType,
+  saveNotificationChannels,
+  sendTestNotification,
+} from '@/lib/notifications';
+import { Camera } from '@/types';
+
+/**
+ * Notification channels - webhooks and MQTT brokers told about camera events (admins)
+ * Each channel picks its events and cameras and can be tested before it is saved
+ */
+interface NotificationChannelsProps {
+  cameras: Camera[];
+}
+
+export function NotificationChannels({ cameras }: NotificationChannelsProps) {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // null = closed; `isNew` tells adding from editing
+  const [editing, setEditing] = useState<{ channel: NotificationChannel; isNew: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<NotificationChannel | null>(null);
+
+  const refresh = useCallback(async () => {
+    const result = await getNotificationSettings();
+    if (result.settings) {
+      setChannels(result.settings.channels);
+    } else {
+      toast.error(result.message || 'Failed to load notifications');
+    }
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = async (updated: NotificationChannel[]) => {
+    setIsSaving(true);
+    const result = await saveNotificationChannels(updated);
+    setIsSaving(false);
+
+    if (!result.success || !result.settings) {
+      toast.error(result.message || 'Failed to save notifications');
+      return false;
+    }
+    setChannels(result.settings.channels);
+    toast.success(result.message || 'Notifications saved');
+    return true;
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { channel, isNew } = editing;
+    const updated = isNew ? [...channels, channel] : channels.map(item => (item.id === channel.id ? channel : item));
+    if (await save(updated)) {
+      setEditing(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    await save(channels.filter(channel => channel.id !== deleting.id));
+    setDeleting(null);
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setTestingId(channel.id);
+    const result = await sendTestNotification(channel);
+    setTestingId(null);
+
+    if (result.success) {
+      toast.success(result.message || 'Test notification sent');
+    } else {
+      toast.error(result.message || 'Test notification failed');
+    }
+  };
+
+  const update = (changes: Partial<NotificationChannel>) => {
+    setEditing(prev => prev && { ...prev, channel: { ...prev.channel, ...changes } as NotificationChannel });
+  };
+
+  const toggleEventType = (type: EventType, checked: boolean) => {
+    if (!editing) return;
+    const { eventTypes } = editing.channel;
+    update({ eventTypes: checked ? [...eventTypes, type] : eventTypes.filter(item => item !== type) });
+  };
+
+  const toggleCamera = (cameraId: string, checked: boolean) => {
+    if (!editing) return;
+    const { cameraIds } = editing.channel;
+    update({ cameraIds: checked ? [...cameraIds, cameraId] : cameraIds.filter(id => id !== cameraId) });
+  };
+
+  const describe = (channel: NotificationChannel) => {
+    const events = channel.eventTypes.map(type => EVENT_TYPE_LABELS[type]).join(', ');
+    const cameraNames = channel.cameraIds.map(id => cameras.find(camera => camera.id === id)?.name || id);
+    return `${events} · ${cameraNames.length > 0 ? cameraNames.join(', ') : 'All cameras'}`;
+  };
+
+  const channel = editing?.channel;
+
+  return (
+    <Card id="notification-channels">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Notifications
+            </CardTitle>
+            <CardDescription>
+              Tell webhooks and MQTT brokers when cameras go offline, see motion and more
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => setEditing({ channel: createNotificationChannel('webhook', crypto.randomUUID()), isNew: true })}
+            disabled={isLoading || channels.length >= MAX_NOTIFICATION_CHANNELS}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Channel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No channels yet. Add a webhook or an MQTT broker to be told about events as they are logged.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {channels.map(item => (
+              <li key={item.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{item.name}</span>
+                    <Badge variant="secondary">{NOTIFICATION_CHANNEL_LABELS[item.type]}</Badge>
+                    {!item.enabled && <Badge variant="outline">Off</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{describe(item)}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleTest(item)} disabled={testingId !== null}>
+                    {testingId === item.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                    <span className="sr-only">Send a test to {item.name}</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditing({ channel: item, isNew: false })}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit {item.name}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleting(item)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete {item.name}</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Add / edit dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing?.isNew ? 'Add Channel' : 'Edit Channel'}</DialogTitle>
+            <DialogDescription>
+              {channel?.type === 'mqtt'
+                ? 'Events are published as JSON to <topic>/<camera ID or "site">/<event type>.'
+                : 'Events are POSTed as JSON. With a secret, requests carry an HMAC-SHA256 signature.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {channel && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="channel-name">Name</Label>
+                  <Input
+                    id="channel-name"
+                    value={channel.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder="Home Assistant"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={channel.type}
+                    onValueChange={(value) => setEditing(prev => prev && {
+                      ...prev,
+                      channel: {
+                        ...createNotificationChannel(value as NotificationChannelType, channel.id),
+                        name: channel.name,
+                        enabled: channel.enabled,
+                        eventTypes: channel.eventTypes,
+                        cameraIds: channel.cameraIds,
+                      },
+                    })}
+                    disabled={!editing.isNew}
+                  >
+                    <SelectTrigger aria-label="Channel type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannelType[]).map(type => (
+                        <SelectItem key={type} value={type}>
+                          {NOTIFICATION_CHANNEL_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {channel.type === 'webhook' ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="channel-url">URL</Label>
+                    <Input
+                      id="channel-url"
+                      value={channel.url}
+                      onChange={(e) => update({ url: e.target.value })}
+                      placeholder="https://example.com/hooks/cameras"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="channel-secret">Signing secret</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="channel-secret"
+                        value={channel.secret}
+                        onChange={(e) => update({ secret: e.target.value })}
+                        placeholder="Leave empty to send unsigned requests"
+                        autoComplete="off"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => update({ secret: crypto.randomUUID().replace(/-/g, '') })}
+                      >
+                        Generate
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="channel-url">Broker URL</Label>
+                      <Input
+                        id="channel-url"
+                        value={channel.url}
+                        onChange={(e) => update({ url: e.target.value })}
+                        placeholder="mqtt://192.168.1.20:1883"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="channel-topic">Topic</Label>
+                      <Input
+                        id="channel-topic"
+                        value={channel.topic}
+                        onChange={(e) => update({ topic: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="channel-username">Username</Label>
+                      <Input
+                        id="channel-username"
+                        value={channel.username}
+                        onChange={(e) => update({ username: e.target.value })}
+                        autoComplete="off"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="channel-password">Password</Label>
+                      <Input
+                        id="channel-password"
+                        type="password"
+                        value={channel.password}
+                        onChange={(e) => update({ password: e.target.value })}
+                        autoComplete="new-password"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Delivery</Label>
+                    <Select value={String(channel.qos)} onValueChange={(value) => update({ qos: value === '1' ? 1 : 0 })}>
+                      <SelectTrigger aria-label="Quality of service">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">At most once (QoS 0)</SelectItem>
+                        <SelectItem value="1">At least once (QoS 1)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+                  {EVENT_TYPES.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={channel.eventTypes.includes(type)}
+                        onCheckedChange={(checked) => toggleEventType(type, checked === true)}
+                      />
+                      {EVENT_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Cameras</Label>
+                <p className="text-xs text-muted-foreground">Leave all unticked for every camera</p>
+                {cameras.length > 0 && (
+                  <div className="space-y-2 rounded-lg border p-3 max-h-40 overflow-y-auto">
+                    {cameras.map(camera => (
+                      <label key={camera.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={channel.cameraIds.includes(camera.id)}
+                          onCheckedChange={(checked) => toggleCamera(camera.id, checked === true)}
+                        />
+                        {camera.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="channel-enabled">Enabled</Label>
+                <Switch
+                  id="channel-enabled"
+                  checked={channel.enabled}
+                  onCheckedChange={(checked) => update({ enabled: checked })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => channel && handleTest(channel)}
+              disabled={testingId !== null}
+              className="sm:mr-auto"
+            >
+              {testingId === channel?.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send Test
+            </Button>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !channel?.name.trim() || !channel?.url.trim()}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing?.isNew ? 'Add Channel' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will no longer be told about events.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { Clapperboard, Square } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Clip,
+  ClipRecorder,
+  createClipRecorder,
+  formatClipDuration,
+  getVideoStream,
+  isClipCaptureSupported,
+  MAX_CLIP_SECONDS,
+  pickClipMimeType,
+} from '@/lib/clips';
+import { Camera } from '@/types';
+
+/**
+ * "Record clip" button for the player controls
+ * Records what the player shows in this browser; with pre-roll the clip starts that many seconds before the click
+ */
+interface ClipButtonProps {
+  camera: Camera;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  stream?: MediaStream | null; // recorded directly when given (WebRTC), otherwise captured from the video element
+  active: boolean; // the stream is playing
+  preRollSeconds?: number;
+  onClip: (clip: Clip) => void;
+  className?: string;
+}
+
+export function ClipButton({
+  camera,
+  videoRef,
+  stream,
+  active,
+  preRollSeconds = 0,
+  onClip,
+  className = 'text-white hover:bg-white/20',
+}: ClipButtonProps) {
+  const recorderRef = useRef<ClipRecorder | null>(null);
+  const onClipRef = useRef(onClip);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    onClipRef.current = onClip;
+  }, [onClip]);
+
+  const finishClip = useCallback((recorder: ClipRecorder) => {
+    recorder.stopClip().then(({ blob, startedAt: clipStart, duration }) => {
+      if (blob.size === 0) {
+        toast.error('Nothing was recorded');
+        return;
+      }
+      onClipRef.current({
+        id: crypto.randomUUID(),
+        cameraId: camera.id,
+        cameraName: camera.name,
+        startedAt: new Date(clipStart),
+        duration,
+        size: blob.size,
+        mimeType: blob.type,
+        url: URL.createObjectURL(blob),
+      });
+      toast.success(`Clip saved (${formatClipDuration(duration)})`);
+    });
+    setStartedAt(null);
+  }, [camera.id, camera.name]);
+
+  // Keep a recorder on the stream while it plays (it records pre-roll in the background)
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!active || !video || !isClipCaptureSupported()) return;
+
+    const source = stream || getVideoStream(video);
+    if (!source) return;
+
+    let recorder: ClipRecorder;
+    try {
+      recorder = createClipRecorder(source, { preRollSeconds, mimeType: pickClipMimeType() });
+    } catch (error) {
+      console.warn('Clip recording is not available:', error);
+      return;
+    }
+    recorderRef.current = recorder;
+
+    return () => {
+      recorderRef.current = null;
+      // A clip in progress is kept when the stream goes away
+      if (recorder.isRecording) {
+        finishClip(recorder);
+      }
+      recorder.dispose();
+    };
+  }, [active, stream, preRollSeconds, videoRef, finishClip]);
+
+  // Clip length while recording; long clips stop by themselves
+  useEffect(() => {
+    if (startedAt === null) return;
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_CLIP_SECONDS && recorderRef.current?.isRecording) {
+        finishClip(recorderRef.current);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [startedAt, finishClip]);
+
+  const handleClick = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) {
+      toast.error('This stream cannot be recorded in this browser');
+      return;
+    }
+    if (recorder.isRecording) {
+      finishClip(recorder);
+    } else {
+      recorder.startClip();
+      setElapsed(0);
+      setStartedAt(Date.now());
+    }
+  };
+
+  const isRecording = startedAt !== null;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleClick}
+      disabled={!active}
+      className={className}
+      aria-label={isRecording ? 'Stop clip' : 'Record clip'}
+      aria-pressed={isRecording}
+      title={preRollSeconds > 0 && !isRecording ? `Record clip (with ${preRollSeconds} s or more of pre-roll)` : undefined}
+    >
+      {isRecording ? (
+        <>
+          <Square className="h-4 w-4 fill-current" />
+          <span className="ml-1 text-xs tabular-nums">{formatClipDuration(elapsed)}</span>
+        </>
+      ) : (
+        <Clapperboard className="h-4 w-4" />
+      )}
+    </Button>
+  );
+}
@@ -5,8 +5,16 @@ import Hls from 'hls.js';
 import { AlertCircle, Loader2 } from 'lucide-react';
 
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Camera } from '@/types';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+import { Camera, MotionSettings } from '@/types';
+import { Clip } from '@/lib/clips';
 import { getCameraCredentials } from '@/lib/camera-auth';
+import { hasRole } from '@/lib/site-auth';
+import { startThumbnailCapture } from '@/lib/thumbnails';
+import { ClipButton } from './clip-controls';
+import { MotionIndicator, MotionZonesButton, useCameraMotion, useMotionDetection } from './motion-controls';
+import { RecordingIndicator } from './recording-controls';
+import { SnapshotButton } from './snapshot-controls';
 import { 
   buildHlsUrl, 
   initializeHlsPlayer, 
@@ -25,8 +33,12 @@ interface HlsPlayerProps {
   serverUrl: string;
   autoPlay?: boolean;
   muted?: boolean;
+  recording?: boolean;
+  clipPreRoll?: number;
   className?: string;
   onError?: (error: string) => void;
+  onClipCaptured?: (clip: Clip) => void; // shows the "record clip" button
+  onMotionZonesSaved?: (motion: MotionSettings) => void; // shows the motion zones button
 }
 
 export function HlsPlayer({
@@ -34,11 +46,19 @@ export function HlsPlayer({
   serverUrl,
   autoPlay = true,
   muted = true,
+  recording = false,
+  clipPreRoll = 0,
   className = '',
   onError,
+  onClipCaptured,
+  onMotionZonesSaved,
 }: HlsPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const hlsRef = useRef<Hls | null>(null);
+
+  // Only operators and admins replace the frame everyone sees on the grid
+  const user = useCurrentUser();
+  const sharesThumbnails = hasRole(user?.role, 'operator');
   
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -140,6 +160,23 @@ export function HlsPlayer({
     };
   }, [camera, serverUrl, autoPlay, handleError]);
 
+  // Share frames with the camera grid once the stream plays
+  useEffect(() => {
+    if (!sharesThumbnails || isLoading || error || !videoRef.current) return;
+    return startThumbnailCapture(videoRef.current, camera.id);
+  }, [sharesThumbnails, isLoading, error, camera.id]);
+
+  // Look for motion while playing (cameras with motion detection enabled)
+  useMotionDetection(videoRef, camera, isPlaying);
+  const inMotion = useCameraMotion(camera.id);
+
+  // The muted attribute only applies on mount - keep the element in sync afterwards
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.muted = muted;
+    }
+  }, [muted]);
+
   // Track play/pause state
   useEffect(() => {
     const video = videoRef.current;
@@ -182,8 +219,39 @@ export function HlsPlayer({
         </div>
       )}
 
-      {/* HLS Badge */}
-      <div className="absolute top-4 right-4 z-20">
+      {/* Snapshot, clip and motion zone buttons (the native controls take the bottom) */}
+      <div className="absolute top-4 left-4 z-20 flex rounded-full bg-black/50 backdrop-blur-sm">
+        <SnapshotButton
+          camera={camera}
+          videoRef={videoRef}
+          active={!isLoading}
+          className="rounded-full text-white hover:bg-white/20"
+        />
+        {onClipCaptured && (
+          <ClipButton
+            camera={camera}
+            videoRef={videoRef}
+            active={isPlaying}
+            preRollSeconds={clipPreRoll}
+            onClip={onClipCaptured}
+            className="rounded-full text-white hover:bg-white/20"
+          />
+        )}
+        {onMotionZonesSaved && (
+          <MotionZonesButton
+            camera={camera}
+            videoRef={videoRef}
+            active={isPlaying}
+            onSaved={onMotionZonesSaved}
+            className="rounded-full text-white hover:bg-white/20"
+          />
+        )}
+      </div>
+
+      {/* HLS, recording and motion badges */}
+      <div className="absolute top-4 right-4 z-20 flex gap-2">
+        {inMotion && <MotionIndicator />}
+        {recording && <RecordingIndicator />}
         <div className="bg-orange-500/90 backdrop-blur-sm text-white px-3 py-1 rounded-full text-xs font-semibold">
           HLS
         </div>
@@ -0,0 +1,139 @@
+'use client';
+
+import { RefObject, useEffect, useState } from 'react';
+import { Activity, Shapes } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { FrozenFrame, MotionZoneEditor } from '@/components/motion/motion-zone-editor';
+import {
+  getMotionEvents,
+  getMotionSettings,
+  isCameraInMotion,
+  reportMotion,
+  startMotionDetection,
+  watchMotionEvents,
+} from '@/lib/motion';
+import { reportEvent } from '@/lib/events';
+import { captureVideoFrame } from '@/lib/thumbnails';
+import { Camera, MotionSettings } from '@/types';
+
+const MOTION_BADGE_REFRESH = 1000; // badges go away once the hold time after the last motion has passed
+const ZONE_FRAME_WIDTH = 1280;
+
+/**
+ * Amber "MOTION" badge shown while a camera sees motion
+ */
+export function MotionIndicator({ className = '' }: { className?: string }) {
+  return (
+    <div
+      className={`flex items-center gap-1.5 rounded-full bg-amber-500/90 px-3 py-1 text-xs font-semibold text-white backdrop-blur-sm ${className}`}
+      data-testid="motion-indicator"
+    >
+      <Activity className="h-3 w-3" />
+      MOTION
+    </div>
+  );
+}
+
+/**
+ * Run motion detection on a player's video while it plays, if the camera has it enabled
+ * Results go to the shared motion events, so every tab sees them; new events are also logged on the server
+ */
+export function useMotionDetection(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  camera: Camera,
+  active: boolean
+): void {
+  useEffect(() => {
+    const video = videoRef.current;
+    const settings = getMotionSettings(camera.motion);
+    if (!active || !video || !settings.enabled) return;
+
+    const source = { id: camera.id, name: camera.name };
+    return startMotionDetection(video, settings, result => {
+      if (reportMotion(source, result)) {
+        reportEvent({ type: 'motion', cameraId: source.id });
+      }
+    });
+  }, [videoRef, active, camera.id, camera.name, camera.motion]);
+}
+
+/**
+ * Whether a camera sees motion right now, according to any player in this browser
+ */
+export function useCameraMotion(cameraId: string): boolean {
+  const [inMotion, setInMotion] = useState(false);
+
+  useEffect(() => {
+    const update = () => setInMotion(isCameraInMotion(getMotionEvents(), cameraId, Date.now()));
+
+    update();
+    const stopWatching = watchMotionEvents(update);
+    const interval = setInterval(update, MOTION_BADGE_REFRESH);
+    return () => {
+      stopWatching();
+      clearInterval(interval);
+    };
+  }, [cameraId]);
+
+  return inMotion;
+}
+
+/**
+ * Motion zones button for the player controls (admins)
+ * Freezes the current frame and opens the zones editor on top of it
+ */
+interface MotionZonesButtonProps {
+  camera: Camera;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  active: boolean; // the stream is playing
+  onSaved: (motion: MotionSettings) => void;
+  className?: string;
+}
+
+export function MotionZonesButton({
+  camera,
+  videoRef,
+  active,
+  onSaved,
+  className = 'text-white hover:bg-white/20',
+}: MotionZonesButtonProps) {
+  const [frame, setFrame] = useState<FrozenFrame | null>(null);
+
+  const handleOpen = async () => {
+    const video = videoRef.current;
+    const still = video && await captureVideoFrame(video, ZONE_FRAME_WIDTH);
+    if (!video || !still) {
+      toast.error('No picture to draw zones on yet');
+      return;
+    }
+
+    // The dialog cannot show on top of a fullscreen video
+    if (document.fullscreenElement) {
+      await document.exitFullscreen().catch(() => undefined);
+    }
+    setFrame({ url: URL.createObjectURL(still), aspectRatio: video.videoWidth / video.videoHeight });
+  };
+
+  const handleClose = () => {
+    if (frame) URL.revokeObjectURL(frame.url);
+    setFrame(null);
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleOpen}
+        disabled={!active}
+        className={className}
+        aria-label="Edit motion zones"
+      >
+        <Shapes className="h-4 w-4" />
+      </Button>
+      <MotionZoneEditor camera={camera} frame={frame} onClose={handleClose} onSaved={onSaved} />
+    </>
+  );
+}
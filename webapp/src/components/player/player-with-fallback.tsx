@@ -1,7 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Camera, StreamingProtocol } from '@/types';
+import { useState, useEffect, useMemo } from 'react';
+import { Camera, MotionSettings, StreamingProtocol, StreamQuality } from '@/types';
+import { Clip } from '@/lib/clips';
+import { reportEvent } from '@/lib/events';
+import { getStreamPath } from '@/config';
 import { Player } from './player';
 import { HlsPlayer } from './hls-player';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -11,14 +14,21 @@ import { Button } from '@/components/ui/button';
 /**
  * Player with automatic fallback support
  * Tries WebRTC first, falls back to HLS on failure
+ * `quality="sub"` plays the camera's low-resolution sub-stream when it has one
  */
 interface PlayerWithFallbackProps {
   camera: Camera;
   serverUrl: string;
   autoPlay?: boolean;
   startMuted?: boolean;
+  muted?: boolean; // controlled mute state, overrides startMuted
+  quality?: StreamQuality;
+  recording?: boolean; // MediaMTX is recording the camera
+  clipPreRoll?: number;
   showStats?: boolean;
   className?: string;
+  onClipCaptured?: (clip: Clip) => void; // enables recording clips in the browser
+  onMotionZonesSaved?: (motion: MotionSettings) => void; // enables the motion zones editor
 }
 
 export function PlayerWithFallback({
@@ -26,13 +36,22 @@ export function PlayerWithFallback({
   serverUrl,
   autoPlay = true,
   startMuted = true,
+  muted,
+  quality = 'main',
+  recording = false,
+  clipPreRoll = 0,
   showStats = true,
   className = '',
+  onClipCaptured,
+  onMotionZonesSaved,
 }: PlayerWithFallbackProps) {
   const [currentProtocol, setCurrentProtocol] = useState<StreamingProtocol | null>(null);
   const [hasWebRTCFailed, setHasWebRTCFailed] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const streamPath = getStreamPath(camera, quality);
+  const streamCamera = useMemo(() => ({ ...camera, path: streamPath }), [camera, streamPath]);
+
   // Determine initial protocol based on camera preference
   useEffect(() => {
     const protocol = camera.protocol || 'auto';
@@ -47,6 +66,13 @@ export function PlayerWithFallback({
     }
   }, [camera.protocol]);
 
+  // Log the outage once every protocol has given up
+  useEffect(() => {
+    if (error) {
+      reportEvent({ type: 'stream-failed', cameraId: camera.id, message: error });
+    }
+  }, [error, camera.id]);
+
   const handleWebRTCError = (errorMsg: string) => {
     if (process.env.NODE_ENV === 'development') {
       console.log('[PlayerFallback] WebRTC error, attempting HLS fallback:', errorMsg);
@@ -133,21 +159,32 @@ export function PlayerWithFallback({
       {/* Render appropriate player */}
       {currentProtocol === 'webrtc' ? (
         <Player
-          camera={camera}
+          key={streamPath} // switching streams needs a new connection
+          camera={streamCamera}
           autoPlay={autoPlay}
           startMuted={startMuted}
+          muted={muted}
+          recording={recording}
+          clipPreRoll={clipPreRoll}
           showStats={showStats}
           className="w-full h-full"
           onError={handleWebRTCError}
+          onClipCaptured={onClipCaptured}
+          onMotionZonesSaved={onMotionZonesSaved}
         />
       ) : (
         <HlsPlayer
-          camera={camera}
+          key={streamPath}
+          camera={streamCamera}
           serverUrl={serverUrl}
           autoPlay={autoPlay}
-          muted={startMuted}
+          muted={muted ?? startMuted}
+          recording={recording}
+          clipPreRoll={clipPreRoll}
           className="w-full h-full"
           onError={handleHlsError}
+          onClipCaptured={onClipCaptured}
+          onMotionZonesSaved={onMotionZonesSaved}
         />
       )}
     </div>
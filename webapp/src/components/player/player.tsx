@@ -18,8 +18,10 @@ import {
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Card } from '@/components/ui/card';
+import { useCurrentUser } from '@/components/layout/auth-gate';
 
-import { PlayerState, StreamStats, WhepSession, Camera } from '@/types';
+import { PlayerState, StreamStats, WhepSession, Camera, MotionSettings } from '@/types';
+import { Clip } from '@/lib/clips';
 import {
   createWhepSession,
   closeWhepSession,
@@ -28,10 +30,18 @@ import {
   isWebRTCSupported
 } from '@/lib/whep';
 import { getCameraCredentials } from '@/lib/camera-auth';
+import { hasRole } from '@/lib/site-auth';
+import { startThumbnailCapture } from '@/lib/thumbnails';
 import { loadConfig } from '@/config';
 
+import { ClipButton } from './clip-controls';
+import { MotionIndicator, MotionZonesButton, useCameraMotion, useMotionDetection } from './motion-controls';
 import { PlayerStatsHUD } from './player-stats-hud';
+import { PtzButton, PtzOverlay } from './ptz-controls';
 import { ReconnectBanner } from './reconnect-banner';
+import { RecordButton, RecordingIndicator } from './recording-controls';
+import { SnapshotButton } from './snapshot-controls';
+import { TalkbackButton } from './talkback-controls';
 
 /**
  * Player component for WebRTC WHEP streaming
@@ -42,9 +52,14 @@ interface PlayerProps {
   className?: string;
   autoPlay?: boolean;
   startMuted?: boolean;
+  muted?: boolean; // controlled by the parent when set (e.g., audio only from the focused wall tile)
+  recording?: boolean; // MediaMTX is recording the camera (shows REC and the stop button)
+  clipPreRoll?: number; // seconds of footage from before "record clip" is clicked
   showStats?: boolean;
   onError?: (error: string) => void;
   onStatsUpdate?: (stats: StreamStats) => void;
+  onClipCaptured?: (clip: Clip) => void; // shows the "record clip" button
+  onMotionZonesSaved?: (motion: MotionSettings) => void; // shows the motion zones button
 }
 
 export function Player({
@@ -52,25 +67,42 @@ export function Player({
   className = '',
   autoPlay = true,
   startMuted = true,
+  muted,
+  recording = false,
+  clipPreRoll = 0,
   showStats = true,
   onError,
   onStatsUpdate,
+  onClipCaptured,
+  onMotionZonesSaved,
 }: PlayerProps) {
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
   const statsIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Only operators and admins replace the frame everyone sees on the grid
+  const user = useCurrentUser();
+  const sharesThumbnails = hasRole(user?.role, 'operator');
+
   // State
   const [playerState, setPlayerState] = useState<PlayerState>('idle');
   const [whepSession, setWhepSession] = useState<WhepSession | null>(null);
   const [streamStats, setStreamStats] = useState<StreamStats>({});
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isMuted, setIsMuted] = useState(startMuted);
+  const [isMuted, setIsMuted] = useState(muted ?? startMuted);
   const [volume, setVolume] = useState(1);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isPiP, setIsPiP] = useState(false);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [showPtz, setShowPtz] = useState(false);
+
+  // Follow the parent's mute state
+  useEffect(() => {
+    if (muted !== undefined) {
+      setIsMuted(muted);
+    }
+  }, [muted]);
 
   // Check WebRTC support
   useEffect(() => {
@@ -131,6 +163,16 @@ export function Player({
     }
   }, [whepSession?.stream, isMuted, volume, autoPlay]);
 
+  // Share frames with the camera grid while connected
+  useEffect(() => {
+    if (!sharesThumbnails || playerState !== 'connected' || !videoRef.current) return;
+    return startThumbnailCapture(videoRef.current, camera.id);
+  }, [sharesThumbnails, playerState, camera.id]);
+
+  // Look for motion while connected (cameras with motion detection enabled)
+  useMotionDetection(videoRef, camera, playerState === 'connected');
+  const inMotion = useCameraMotion(camera.id);
+
   // Handle fullscreen changes
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -392,6 +434,19 @@ export function Player({
         />
       )}
 
+      {/* Recording and motion indicators */}
+      {(recording || inMotion) && (
+        <div className="absolute top-4 right-4 flex gap-2">
+          {inMotion && <MotionIndicator />}
+          {recording && <RecordingIndicator />}
+        </div>
+      )}
+
+      {/* PTZ joystick and presets */}
+      {showPtz && playerState === 'connected' && (
+        <PtzOverlay camera={camera} onClose={() => setShowPtz(false)} />
+      )}
+
       {/* Control bar */}
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-4 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
         <div className="flex items-center justify-between">
@@ -438,6 +493,34 @@ export function Player({
 
           {/* Right controls */}
           <div className="flex items-center space-x-2">
+            <SnapshotButton camera={camera} videoRef={videoRef} active={playerState === 'connected'} />
+
+            {onClipCaptured && (
+              <ClipButton
+                camera={camera}
+                videoRef={videoRef}
+                stream={whepSession?.stream}
+                active={playerState === 'connected'}
+                preRollSeconds={clipPreRoll}
+                onClip={onClipCaptured}
+              />
+            )}
+
+            {onMotionZonesSaved && (
+              <MotionZonesButton
+                camera={camera}
+                videoRef={videoRef}
+                active={playerState === 'connected'}
+                onSaved={onMotionZonesSaved}
+              />
+            )}
+
+            <TalkbackButton camera={camera} active={playerState === 'connected'} />
+
+            <PtzButton camera={camera} open={showPtz} onToggle={() => setShowPtz(open => !open)} />
+
+            <RecordButton camera={camera} recording={recording} />
+
             {document.pictureInPictureEnabled && (
               <Button
                 variant="ghost"
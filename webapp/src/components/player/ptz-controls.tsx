@@ -0,0 +1,390 @@
+'use client';
+
+import { FormEvent, KeyboardEvent, PointerEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { Bookmark, Loader2, Move, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+import {
+  hasPtz,
+  isPtzStopped,
+  listPtzPresets,
+  normalizePtzSpeed,
+  PTZ_MOVE_REPEAT_INTERVAL,
+  PTZ_PRESET_NAME_MAX_LENGTH,
+  PtzPreset,
+  PtzVelocity,
+  sendPtzAction,
+} from '@/lib/onvif';
+import { hasRole, UserRole } from '@/lib/site-auth';
+import { Camera } from '@/types';
+
+const STOPPED: PtzVelocity = { pan: 0, tilt: 0, zoom: 0 };
+const ZOOM_SPEED = 0.5;
+const KEY_SPEED = 0.5;
+
+const ARROW_KEYS: Record<string, Pick<PtzVelocity, 'pan' | 'tilt'>> = {
+  ArrowLeft: { pan: -KEY_SPEED, tilt: 0 },
+  ArrowRight: { pan: KEY_SPEED, tilt: 0 },
+  ArrowUp: { pan: 0, tilt: KEY_SPEED },
+  ArrowDown: { pan: 0, tilt: -KEY_SPEED },
+};
+
+const sameVelocity = (a: PtzVelocity | null, b: PtzVelocity) =>
+  !!a && a.pan === b.pan && a.tilt === b.tilt && a.zoom === b.zoom;
+
+const canUsePtz = (role: UserRole | undefined, camera: Camera) => hasRole(role, 'operator') && hasPtz(camera);
+
+/**
+ * Send the wanted velocity to the camera, one request at a time
+ * Moves that change faster than the camera answers are merged; a held move is sent again before the
+ * camera's own timeout stops it, and the camera is stopped when the controls go away
+ */
+function usePtzMovement(cameraId: string) {
+  const wantedRef = useRef<PtzVelocity>(STOPPED);
+  const sentRef = useRef<PtzVelocity | null>(STOPPED); // null = send again
+  const sendingRef = useRef(false);
+
+  const flush = useCallback(async () => {
+    if (sendingRef.current) return;
+    sendingRef.current = true;
+    try {
+      while (!sameVelocity(sentRef.current, wantedRef.current)) {
+        const velocity = wantedRef.current;
+        const result = await sendPtzAction(
+          cameraId,
+          isPtzStopped(velocity) ? { action: 'stop' } : { action: 'move', ...velocity }
+        );
+        sentRef.current = velocity;
+        if (!result.success) {
+          toast.error(result.message || 'Could not move the camera', { id: 'ptz-error' });
+          break;
+        }
+      }
+    } finally {
+      sendingRef.current = false;
+    }
+  }, [cameraId]);
+
+  const move = useCallback((axes: Partial<PtzVelocity>) => {
+    const next = { ...wantedRef.current, ...axes };
+    wantedRef.current = {
+      pan: normalizePtzSpeed(next.pan),
+      tilt: normalizePtzSpeed(next.tilt),
+      zoom: normalizePtzSpeed(next.zoom),
+    };
+    flush();
+  }, [flush]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (!isPtzStopped(wantedRef.current) && sameVelocity(sentRef.current, wantedRef.current)) {
+        sentRef.current = null;
+        flush();
+      }
+    }, PTZ_MOVE_REPEAT_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      const moving = !isPtzStopped(wantedRef.current) || !sameVelocity(sentRef.current, STOPPED);
+      wantedRef.current = STOPPED;
+      sentRef.current = STOPPED;
+      if (moving) {
+        sendPtzAction(cameraId, { action: 'stop' });
+      }
+    };
+  }, [cameraId, flush]);
+
+  return move;
+}
+
+/**
+ * Button for the player controls that shows or hides the PTZ overlay
+ * Only shown to operators and admins, for cameras with an ONVIF service
+ */
+interface PtzButtonProps {
+  camera: Camera;
+  open: boolean;
+  onToggle: () => void;
+  className?: string;
+}
+
+export function PtzButton({ camera, open, onToggle, className = 'text-white hover:bg-white/20' }: PtzButtonProps) {
+  const user = useCurrentUser();
+  if (!canUsePtz(user?.role, camera)) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={onToggle}
+      className={`${open ? 'bg-white/20 ' : ''}${className}`}
+      aria-label={open ? 'Hide PTZ controls' : 'Show PTZ controls'}
+      aria-pressed={open}
+      title="Pan, tilt and zoom"
+      data-testid="ptz-button"
+    >
+      <Move className="h-4 w-4" />
+    </Button>
+  );
+}
+
+/**
+ * Joystick, zoom and presets over the video
+ * The further the knob is pulled from the centre, the faster the camera turns; letting go stops it
+ */
+interface PtzOverlayProps {
+  camera: Camera;
+  onClose: () => void;
+  className?: string;
+}
+
+export function PtzOverlay({ camera, onClose, className = 'absolute bottom-20 right-4' }: PtzOverlayProps) {
+  const user = useCurrentUser();
+  const move = usePtzMovement(camera.id);
+  const padRef = useRef<HTMLDivElement>(null);
+  const [knob, setKnob] = useState({ x: 0, y: 0 }); // -1..1, y down
+  const [presets, setPresets] = useState<PtzPreset[]>([]);
+  const [presetsLoading, setPresetsLoading] = useState(true);
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const allowed = canUsePtz(user?.role, camera);
+
+  useEffect(() => {
+    if (!allowed) return;
+    let cancelled = false;
+    setPresetsLoading(true);
+    listPtzPresets(camera.id).then(result => {
+      if (cancelled) return;
+      setPresetsLoading(false);
+      setPresets(result.presets);
+      if (!result.success) {
+        toast.error(result.message || 'Could not load the presets', { id: 'ptz-error' });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [allowed, camera.id]);
+
+  if (!allowed) {
+    return null;
+  }
+
+  const steer = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = padRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const radius = rect.width / 2;
+    let x = (event.clientX - rect.left - radius) / radius;
+    let y = (event.clientY - rect.top - radius) / radius;
+    const distance = Math.hypot(x, y);
+    if (distance > 1) {
+      x /= distance;
+      y /= distance;
+    }
+    setKnob({ x, y });
+    move({ pan: x, tilt: -y });
+  };
+
+  const release = () => {
+    setKnob({ x: 0, y: 0 });
+    move({ pan: 0, tilt: 0 });
+  };
+
+  const handlePadPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    // Keep steering when the finger or mouse leaves the pad
+    event.currentTarget.setPointerCapture(event.pointerId);
+    steer(event);
+  };
+
+  const handlePadPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      steer(event);
+    }
+  };
+
+  const handlePadKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const axes = ARROW_KEYS[event.key];
+    if (!axes) return;
+    event.preventDefault();
+    if (event.repeat) return;
+    setKnob({ x: axes.pan / KEY_SPEED, y: -axes.tilt / KEY_SPEED });
+    move(axes);
+  };
+
+  const handlePadKeyUp = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (ARROW_KEYS[event.key]) {
+      event.preventDefault();
+      release();
+    }
+  };
+
+  const zoomProps = (direction: 1 | -1) => ({
+    onPointerDown: (event: PointerEvent<HTMLButtonElement>) => {
+      if (event.button !== 0) return;
+      event.currentTarget.setPointerCapture(event.pointerId);
+      move({ zoom: direction * ZOOM_SPEED });
+    },
+    onPointerUp: () => move({ zoom: 0 }),
+    onPointerCancel: () => move({ zoom: 0 }),
+    onLostPointerCapture: () => move({ zoom: 0 }),
+    onKeyDown: (event: KeyboardEvent<HTMLButtonElement>) => {
+      if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+        event.preventDefault();
+        move({ zoom: direction * ZOOM_SPEED });
+      }
+    },
+    onKeyUp: (event: KeyboardEvent<HTMLButtonElement>) => {
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault();
+        move({ zoom: 0 });
+      }
+    },
+    onBlur: () => move({ zoom: 0 }),
+    onContextMenu: (event: { preventDefault: () => void }) => event.preventDefault(),
+  });
+
+  const handleGotoPreset = async (preset: PtzPreset) => {
+    const result = await sendPtzAction(camera.id, { action: 'goto', preset: preset.token });
+    if (!result.success) {
+      toast.error(result.message || 'Could not go to the preset');
+    }
+  };
+
+  const handleSavePreset = async (event: FormEvent) => {
+    event.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    const result = await sendPtzAction(camera.id, { action: 'save-preset', name });
+    setIsSaving(false);
+    if (result.success && result.preset) {
+      const saved = result.preset;
+      setPresets(current => [...current.filter(preset => preset.token !== saved.token), saved]);
+      setPresetName('');
+      toast.success(result.message);
+    } else {
+      toast.error(result.message || 'Could not save the preset');
+    }
+  };
+
+  return (
+    <div
+      className={`z-10 w-56 rounded-lg bg-black/70 p-3 text-white backdrop-blur-sm ${className}`}
+      data-testid="ptz-overlay"
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-300">PTZ</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="h-6 w-6 p-0 text-white hover:bg-white/20"
+          aria-label="Hide PTZ controls"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div
+          ref={padRef}
+          role="application"
+          tabIndex={0}
+          aria-label="Pan and tilt - drag, or hold the arrow keys"
+          onPointerDown={handlePadPointerDown}
+          onPointerMove={handlePadPointerMove}
+          onPointerUp={release}
+          onPointerCancel={release}
+          onLostPointerCapture={release}
+          onKeyDown={handlePadKeyDown}
+          onKeyUp={handlePadKeyUp}
+          onBlur={release}
+          className="relative h-28 w-28 shrink-0 touch-none select-none rounded-full border border-white/30 bg-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60"
+          data-testid="ptz-joystick"
+        >
+          <span
+            className="pointer-events-none absolute left-1/2 top-1/2 h-10 w-10 rounded-full bg-white/80 shadow"
+            style={{ transform: `translate(calc(-50% + ${knob.x * 36}px), calc(-50% + ${knob.y * 36}px))` }}
+          />
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="touch-none select-none text-white hover:bg-white/20"
+            aria-label="Zoom in (hold)"
+            data-testid="ptz-zoom-in"
+            {...zoomProps(1)}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="touch-none select-none text-white hover:bg-white/20"
+            aria-label="Zoom out (hold)"
+            data-testid="ptz-zoom-out"
+            {...zoomProps(-1)}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-3 border-t border-white/20 pt-2">
+        <p className="mb-1 text-xs text-gray-300">Presets</p>
+        {presetsLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-gray-300" />
+        ) : presets.length === 0 ? (
+          <p className="text-xs text-gray-400">No presets saved</p>
+        ) : (
+          <div className="flex max-h-24 flex-wrap gap-1 overflow-y-auto" data-testid="ptz-presets">
+            {presets.map(preset => (
+              <Button
+                key={preset.token}
+                variant="ghost"
+                size="sm"
+                onClick={() => handleGotoPreset(preset)}
+                className="h-7 px-2 text-xs text-white hover:bg-white/20"
+                title={`Go to "${preset.name}"`}
+              >
+                {preset.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSavePreset} className="mt-2 flex gap-1">
+          <Input
+            value={presetName}
+            onChange={(event) => setPresetName(event.target.value)}
+            maxLength={PTZ_PRESET_NAME_MAX_LENGTH}
+            placeholder="New preset"
+            className="h-7 border-white/30 bg-transparent text-xs text-white placeholder:text-gray-400"
+            aria-label="Preset name"
+          />
+          <Button
+            type="submit"
+            variant="ghost"
+            size="sm"
+            disabled={isSaving || !presetName.trim()}
+            className="h-7 w-7 shrink-0 p-0 text-white hover:bg-white/20"
+            aria-label="Save the current position as a preset"
+            title="Save the current position as a preset"
+          >
+            {isSaving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Bookmark className="h-3 w-3" />}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
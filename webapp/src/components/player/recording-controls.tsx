@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Circle, Loader2, Square } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+import { getRecordMode, setCameraRecording } from '@/lib/recordings';
+import { hasRole } from '@/lib/site-auth';
+import { Camera } from '@/types';
+
+/**
+ * Red "REC" badge shown while MediaMTX records the camera
+ */
+export function RecordingIndicator({ className = '' }: { className?: string }) {
+  return (
+    <div
+      className={`flex items-center gap-1.5 rounded-full bg-red-600/90 px-3 py-1 text-xs font-semibold text-white backdrop-blur-sm ${className}`}
+      data-testid="recording-indicator"
+    >
+      <span className="h-2 w-2 animate-pulse rounded-full bg-white" />
+      REC
+    </div>
+  );
+}
+
+/**
+ * Start/stop recording button for the player controls
+ * Only shown to operators and admins, for cameras whose recording mode is "On schedule"
+ */
+interface RecordButtonProps {
+  camera: Camera;
+  recording: boolean;
+}
+
+export function RecordButton({ camera, recording }: RecordButtonProps) {
+  const user = useCurrentUser();
+  const [requested, setRequested] = useState<boolean | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  // The server's state wins once it reports a change
+  useEffect(() => {
+    setRequested(null);
+  }, [recording]);
+
+  if (!user || !hasRole(user.role, 'operator') || getRecordMode(camera) !== 'schedule') {
+    return null;
+  }
+
+  const isRecording = requested ?? recording;
+
+  const handleClick = async () => {
+    setIsPending(true);
+    const result = await setCameraRecording(camera.id, !isRecording);
+    setIsPending(false);
+    if (result.success) {
+      setRequested(!isRecording);
+      toast.success(result.message);
+    } else {
+      toast.error(result.message || 'Failed to change recording');
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleClick}
+      disabled={isPending}
+      className="text-white hover:bg-white/20"
+      aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+      aria-pressed={isRecording}
+    >
+      {isPending ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : isRecording ? (
+        <Square className="h-4 w-4 fill-red-500 text-red-500" />
+      ) : (
+        <Circle className="h-4 w-4 fill-red-500 text-red-500" />
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { RefObject, useState } from 'react';
+import { Camera as CameraIcon, Download, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  captureStill,
+  getSnapshotFileName,
+  getSnapshotStamp,
+  saveSnapshot,
+  SNAPSHOT_FORMATS,
+  SnapshotFormat,
+  stillToBlob,
+} from '@/lib/snapshots';
+import { Camera } from '@/types';
+
+/**
+ * Snapshot button for the player controls
+ * Grabs the current frame at full resolution, stamped with the camera name and time,
+ * then offers a PNG/JPEG download or saving it to the gallery
+ */
+interface SnapshotButtonProps {
+  camera: Camera;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  active: boolean; // the stream is playing
+  className?: string;
+}
+
+interface Still {
+  canvas: HTMLCanvasElement;
+  previewUrl: string;
+  takenAt: Date;
+}
+
+export function SnapshotButton({
+  camera,
+  videoRef,
+  active,
+  className = 'text-white hover:bg-white/20',
+}: SnapshotButtonProps) {
+  const [still, setStill] = useState<Still | null>(null);
+  const [format, setFormat] = useState<SnapshotFormat>('png');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCapture = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const takenAt = new Date();
+    const canvas = captureStill(video, getSnapshotStamp(camera.name, takenAt));
+    const preview = canvas && await stillToBlob(canvas, 'jpeg');
+    if (!canvas || !preview) {
+      toast.error('No picture to capture yet');
+      return;
+    }
+
+    // The dialog cannot show on top of a fullscreen video
+    if (document.fullscreenElement) {
+      await document.exitFullscreen().catch(() => undefined);
+    }
+    setStill({ canvas, previewUrl: URL.createObjectURL(preview), takenAt });
+  };
+
+  const handleClose = () => {
+    if (still) URL.revokeObjectURL(still.previewUrl);
+    setStill(null);
+  };
+
+  const handleDownload = async () => {
+    if (!still) return;
+    const blob = await stillToBlob(still.canvas, format);
+    if (!blob) {
+      toast.error('Failed to create the image');
+      return;
+    }
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = getSnapshotFileName(camera.name, still.takenAt, format);
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+  };
+
+  const handleSave = async () => {
+    if (!still) return;
+    setIsSaving(true);
+    const blob = await stillToBlob(still.canvas, format);
+    const result = blob
+      ? await saveSnapshot(camera.id, blob, still.takenAt)
+      : { success: false, message: 'Failed to create the image' };
+    setIsSaving(false);
+
+    if (result.success) {
+      toast.success(result.message || 'Snapshot saved');
+      handleClose();
+    } else {
+      toast.error(result.message || 'Failed to save the snapshot');
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleCapture}
+        disabled={!active}
+        className={className}
+        aria-label="Take snapshot"
+      >
+        <CameraIcon className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={still !== null} onOpenChange={open => !open && handleClose()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Snapshot</DialogTitle>
+            <DialogDescription>
+              {still && getSnapshotStamp(camera.name, still.takenAt)}
+            </DialogDescription>
+          </DialogHeader>
+
+          {still && (
+            // eslint-disable-next-line @next/next/no-img-element -- blob: URL of a local capture
+            <img
+              src={still.previewUrl}
+              alt={`Snapshot of ${camera.name}`}
+              className="w-full rounded-lg bg-black"
+              id="snapshot-preview"
+            />
+          )}
+
+          <DialogFooter className="flex-wrap gap-2 sm:justify-between">
+            <div className="flex rounded-md border p-1" role="group" aria-label="Image format">
+              {(Object.keys(SNAPSHOT_FORMATS) as SnapshotFormat[]).map(item => (
+                <Button
+                  key={item}
+                  size="sm"
+                  variant={item === format ? 'default' : 'ghost'}
+                  onClick={() => setFormat(item)}
+                  aria-pressed={item === format}
+                >
+                  {SNAPSHOT_FORMATS[item].label}
+                </Button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleDownload}>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save to Gallery
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { KeyboardEvent, PointerEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, Mic } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+import { loadConfig } from '@/config';
+import { getCameraCredentials } from '@/lib/camera-auth';
+import { hasRole } from '@/lib/site-auth';
+import {
+  closeWhipSession,
+  createWhipSession,
+  getMediaErrorMessage,
+  getMicrophoneStream,
+  getWhipErrorMessage,
+  isMediaCaptureSupported,
+} from '@/lib/whip';
+import { Camera, Credentials, WhipSession } from '@/types';
+
+type TalkbackState = 'idle' | 'connecting' | 'talking';
+
+/**
+ * Push-to-talk button for the player controls
+ * While held, the microphone is published to the camera's talkback path (WHIP) and MediaMTX passes it on to
+ * the camera's speaker; letting go ends the session and releases the microphone
+ * Only shown to operators and admins, for cameras with a talkback path
+ */
+interface TalkbackButtonProps {
+  camera: Camera;
+  active: boolean; // the stream is playing
+  className?: string;
+}
+
+export function TalkbackButton({ camera, active, className = 'text-white hover:bg-white/20' }: TalkbackButtonProps) {
+  const user = useCurrentUser();
+  const [state, setState] = useState<TalkbackState>('idle');
+  const stateRef = useRef<TalkbackState>('idle');
+  const heldRef = useRef(false);
+  const talkRef = useRef<{ stream: MediaStream; session?: WhipSession; credentials?: Credentials } | null>(null);
+
+  const changeState = useCallback((next: TalkbackState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const teardown = useCallback(() => {
+    const talk = talkRef.current;
+    talkRef.current = null;
+    if (talk) {
+      talk.stream.getTracks().forEach(track => track.stop());
+      if (talk.session) {
+        closeWhipSession(talk.session, talk.credentials);
+      }
+    }
+    changeState('idle');
+  }, [changeState]);
+
+  const startTalking = useCallback(async () => {
+    heldRef.current = true;
+    if (stateRef.current !== 'idle' || !camera.talkbackPath) return;
+
+    const credentials = getCameraCredentials(camera);
+    if (!credentials) {
+      toast.error('No camera credentials available. Please configure in Settings → Cameras');
+      return;
+    }
+    if (!isMediaCaptureSupported()) {
+      toast.error(getMediaErrorMessage(null));
+      return;
+    }
+
+    changeState('connecting');
+    let stream: MediaStream;
+    try {
+      // Prompts for permission the first time
+      stream = await getMicrophoneStream();
+    } catch (error) {
+      toast.error(getMediaErrorMessage(error));
+      changeState('idle');
+      return;
+    }
+    if ((stateRef.current as TalkbackState) !== 'connecting') {
+      // Torn down while the browser asked (e.g., the player closed)
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    talkRef.current = { stream, credentials };
+
+    // Let go while the browser asked for permission
+    if (!heldRef.current) {
+      teardown();
+      toast.info('Hold the button while you talk');
+      return;
+    }
+
+    const config = loadConfig();
+    const session = await createWhipSession(config.serverUrl, camera.talkbackPath, stream, credentials, config.iceServers);
+    if (talkRef.current?.stream !== stream) {
+      closeWhipSession(session, credentials);
+      return;
+    }
+    talkRef.current.session = session;
+
+    if (!session.isActive) {
+      teardown();
+      toast.error(getWhipErrorMessage(session.lastError || ''));
+      return;
+    }
+    if (!heldRef.current) {
+      teardown();
+      return;
+    }
+
+    session.peerConnection.addEventListener('connectionstatechange', () => {
+      if (session.peerConnection.connectionState === 'failed' && talkRef.current?.session === session) {
+        teardown();
+        toast.error('Talkback connection lost');
+      }
+    });
+    changeState('talking');
+  }, [camera, changeState, teardown]);
+
+  const stopTalking = useCallback(() => {
+    heldRef.current = false;
+    // A session still connecting is ended once it is ready
+    if (stateRef.current === 'talking') {
+      teardown();
+    }
+  }, [teardown]);
+
+  // End the session when the stream stops, the camera changes or the player closes
+  useEffect(() => {
+    if (!active) return;
+    return () => {
+      heldRef.current = false;
+      teardown();
+    };
+  }, [active, camera.id, camera.talkbackPath, teardown]);
+
+  if (!user || !hasRole(user.role, 'operator') || !camera.talkbackPath) {
+    return null;
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLButtonElement>) => {
+    if (event.button !== 0) return;
+    // Keep receiving pointerup when the finger or mouse slides off the button
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startTalking();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+      event.preventDefault();
+      startTalking();
+    }
+  };
+
+  const handleKeyUp = (event: KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === ' ' || event.key === 'Enter') {
+      event.preventDefault();
+      stopTalking();
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      disabled={!active}
+      onPointerDown={handlePointerDown}
+      onPointerUp={stopTalking}
+      onPointerCancel={stopTalking}
+      onLostPointerCapture={stopTalking}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onBlur={stopTalking}
+      onContextMenu={(event) => event.preventDefault()}
+      className={`touch-none select-none ${state === 'talking' ? 'bg-red-600/80 hover:bg-red-600/80 ' : ''}${className}`}
+      aria-label="Hold to talk"
+      aria-pressed={state === 'talking'}
+      title="Hold to talk through the camera's speaker"
+      data-testid="talkback-button"
+    >
+      {state === 'connecting' ? (
+        <Loader2 className="h-4 w-4 animate-spin" />
+      ) : (
+        <Mic className={`h-4 w-4 ${state === 'talking' ? 'animate-pulse' : ''}`} />
+      )}
+    </Button>
+  );
+}
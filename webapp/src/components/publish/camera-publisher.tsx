@@ -0,0 +1,465 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Info, Loader2, Radio, Square, Video, VideoOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { fetchSharedConfig } from '@/config';
+import { getCameraCredentials, getDefaultCameraCredentials } from '@/lib/camera-auth';
+import {
+  DEFAULT_PUBLISH_SETTINGS,
+  getPublishConstraints,
+  loadPublishSettings,
+  normalizePublishPath,
+  PUBLISH_BITRATES,
+  PUBLISH_RESOLUTIONS,
+  PUBLISH_VIDEO_CODEC,
+  PublishSettings,
+  registerPublishedCamera,
+  savePublishSettings,
+  validatePublishPath,
+} from '@/lib/publish';
+import {
+  closeWhipSession,
+  createWhipSession,
+  getMediaErrorMessage,
+  getWhipErrorMessage,
+  isMediaCaptureSupported,
+  listVideoInputs,
+} from '@/lib/whip';
+import { Camera, Credentials, WhipSession } from '@/types';
+
+type PublishState = 'idle' | 'starting-camera' | 'preview' | 'connecting' | 'live' | 'reconnecting';
+
+// Radix selects cannot use '' as a value
+const DEFAULT_DEVICE = 'default';
+const RECONNECT_DELAY = 5 * 1000;
+
+/**
+ * CameraPublisher sends this device's camera to MediaMTX and adds the path as a camera
+ * Settings are remembered in this browser so an old phone can be set up once and left running
+ */
+export function CameraPublisher() {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const liveRef = useRef<{ session: WhipSession; credentials: Credentials } | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const wakeLockRef = useRef<WakeLockSentinel | null>(null);
+  const [settings, setSettings] = useState<PublishSettings>(DEFAULT_PUBLISH_SETTINGS);
+  const [state, setState] = useState<PublishState>('idle');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [captureSize, setCaptureSize] = useState<string | null>(null);
+  const [camera, setCamera] = useState<Camera | null>(null);
+  const [supported, setSupported] = useState(true);
+
+  const stateRef = useRef(state);
+
+  const changeState = useCallback((next: PublishState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  useEffect(() => {
+    setSupported(isMediaCaptureSupported());
+    setSettings(loadPublishSettings());
+  }, []);
+
+  const updateSettings = (changes: Partial<PublishSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...changes };
+      savePublishSettings(next);
+      return next;
+    });
+  };
+
+  const stopCapture = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setCaptureSize(null);
+  }, []);
+
+  const endSession = useCallback(() => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    const live = liveRef.current;
+    liveRef.current = null;
+    if (live) {
+      closeWhipSession(live.session, live.credentials);
+    }
+    wakeLockRef.current?.release().catch(() => undefined);
+    wakeLockRef.current = null;
+  }, []);
+
+  const startCapture = useCallback(async (captureSettings: PublishSettings): Promise<boolean> => {
+    changeState('starting-camera');
+    stopCapture();
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(getPublishConstraints(captureSettings));
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+      }
+      const videoSettings = stream.getVideoTracks()[0]?.getSettings();
+      setCaptureSize(videoSettings?.width ? `${videoSettings.width} × ${videoSettings.height}` : null);
+      // Camera names are only listed once the user has allowed a camera
+      setDevices(await listVideoInputs());
+      changeState('preview');
+      return true;
+    } catch (error) {
+      toast.error(getMediaErrorMessage(error, 'camera'));
+      changeState('idle');
+      return false;
+    }
+  }, [stopCapture, changeState]);
+
+  // Keep the screen on while live (phones otherwise lock and stop the camera)
+  const requestWakeLock = useCallback(async () => {
+    if (!('wakeLock' in navigator) || wakeLockRef.current) return;
+    try {
+      wakeLockRef.current = await navigator.wakeLock.request('screen');
+      wakeLockRef.current.addEventListener('release', () => {
+        wakeLockRef.current = null;
+      });
+    } catch (error) {
+      console.warn('Screen wake lock is not available:', error);
+    }
+  }, []);
+
+  /**
+   * Publish the captured stream; `error` says why it could not be published
+   */
+  const publish = useCallback(async (): Promise<{ published: boolean; error?: string }> => {
+    const stream = streamRef.current;
+    if (!stream) return { published: false };
+
+    const path = normalizePublishPath(settings.path);
+    const shared = await fetchSharedConfig();
+    const existing = shared.config.cameras.find(cam => normalizePublishPath(cam.path) === path);
+    const credentials = existing ? getCameraCredentials(existing) : getDefaultCameraCredentials();
+    if (!credentials) {
+      return { published: false, error: 'No camera credentials available. Please configure in Settings → Cameras' };
+    }
+
+    const session = await createWhipSession(shared.config.serverUrl, path, stream, credentials, shared.config.iceServers, {
+      videoCodec: PUBLISH_VIDEO_CODEC,
+      videoBitrate: settings.bitrate,
+    });
+    if (!session.isActive) {
+      return { published: false, error: getWhipErrorMessage(session.lastError || '') };
+    }
+    if (streamRef.current !== stream || (stateRef.current !== 'connecting' && stateRef.current !== 'reconnecting')) {
+      // Stopped while connecting
+      closeWhipSession(session, credentials);
+      return { published: false };
+    }
+
+    liveRef.current = { session, credentials };
+    session.peerConnection.addEventListener('connectionstatechange', () => {
+      if (session.peerConnection.connectionState !== 'failed' || liveRef.current?.session !== session) return;
+      closeWhipSession(session, credentials);
+      liveRef.current = null;
+      changeState('reconnecting');
+      toast.error('Connection lost - reconnecting');
+    });
+    return { published: true };
+  }, [settings.path, settings.bitrate, changeState]);
+
+  // Try again every few seconds after the connection was lost, until it is back or stopped
+  useEffect(() => {
+    if (state !== 'reconnecting') return;
+    let cancelled = false;
+    reconnectTimerRef.current = setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      const { published } = await publish();
+      if (cancelled) return;
+      if (published) {
+        changeState('live');
+        toast.success('Reconnected');
+      } else {
+        setReconnectAttempt(attempt => attempt + 1);
+      }
+    }, RECONNECT_DELAY);
+    return () => {
+      cancelled = true;
+      if (reconnectTimerRef.current) {
+        clearTimeout(reconnectTimerRef.current);
+        reconnectTimerRef.current = null;
+      }
+    };
+  }, [state, reconnectAttempt, publish, changeState]);
+
+  const handleGoLive = async () => {
+    const pathError = validatePublishPath(settings.path);
+    if (pathError) {
+      toast.error(pathError);
+      return;
+    }
+
+    changeState('connecting');
+    const { published, error } = await publish();
+    if (!published) {
+      if (error) {
+        toast.error(error);
+      }
+      changeState(streamRef.current ? 'preview' : 'idle');
+      return;
+    }
+    changeState('live');
+    requestWakeLock();
+
+    const result = await registerPublishedCamera(settings.path, settings.name);
+    if (result.success && result.camera) {
+      setCamera(result.camera);
+      if (result.created) {
+        toast.success(result.message);
+      }
+    } else {
+      toast.error(result.message || 'Could not add the camera');
+    }
+  };
+
+  const handleStop = () => {
+    endSession();
+    changeState(streamRef.current ? 'preview' : 'idle');
+  };
+
+  const handleCameraOff = () => {
+    endSession();
+    stopCapture();
+    changeState('idle');
+  };
+
+  // Restart the camera when the capture settings change during the preview
+  const changeCapture = (changes: Partial<PublishSettings>) => {
+    updateSettings(changes);
+    if (state === 'preview') {
+      startCapture({ ...settings, ...changes });
+    }
+  };
+
+  // The wake lock is dropped whenever the page is hidden
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible' && liveRef.current) {
+        requestWakeLock();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [requestWakeLock]);
+
+  // Release the camera and end the session when leaving the page
+  useEffect(() => {
+    return () => {
+      endSession();
+      stopCapture();
+    };
+  }, [endSession, stopCapture]);
+
+  const isLive = state === 'live' || state === 'reconnecting';
+  const isBusy = state === 'starting-camera' || state === 'connecting';
+  const locked = isLive || isBusy;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="relative aspect-video overflow-hidden rounded-lg bg-black">
+            <video ref={videoRef} className="h-full w-full object-contain" autoPlay muted playsInline data-testid="publish-preview" />
+            {state === 'idle' && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-400">
+                <VideoOff className="h-10 w-10 mb-2" />
+                <p className="text-sm">Camera is off</p>
+              </div>
+            )}
+            {(isLive || captureSize) && (
+              <div className="absolute top-3 left-3 flex gap-2">
+                {isLive && (
+                  <Badge className={state === 'live' ? 'bg-red-600 hover:bg-red-600' : 'bg-amber-500 hover:bg-amber-500'}>
+                    {state === 'live' ? 'LIVE' : 'Reconnecting...'}
+                  </Badge>
+                )}
+                {captureSize && <Badge variant="secondary">{captureSize}</Badge>}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {state === 'idle' || state === 'starting-camera' ? (
+              <Button onClick={() => startCapture(settings)} disabled={!supported || isBusy}>
+                {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Video className="h-4 w-4 mr-2" />}
+                Start Camera
+              </Button>
+            ) : isLive ? (
+              <Button variant="destructive" onClick={handleStop}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop Publishing
+              </Button>
+            ) : (
+              <>
+                <Button onClick={handleGoLive} disabled={isBusy}>
+                  {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Radio className="h-4 w-4 mr-2" />}
+                  Go Live
+                </Button>
+                <Button variant="outline" onClick={handleCameraOff} disabled={isBusy}>
+                  <VideoOff className="h-4 w-4 mr-2" />
+                  Turn Off Camera
+                </Button>
+              </>
+            )}
+          </div>
+
+          {camera && isLive && (
+            <p className="text-sm text-gray-600">
+              Watch it as{' '}
+              <Link href={`/viewer/${camera.id}`} className="text-blue-600 hover:underline">
+                {camera.name}
+              </Link>{' '}
+              on any device. Keep this page open and the screen on.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Publish Settings</CardTitle>
+          <CardDescription>Where the stream goes and how it is captured</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!supported && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                This browser cannot use the camera here. Open Camera Suite over HTTPS (or on localhost).
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="publish-path">MediaMTX Path</Label>
+            <Input
+              id="publish-path"
+              value={settings.path}
+              onChange={(e) => updateSettings({ path: e.target.value })}
+              placeholder="e.g., phone_kitchen"
+              disabled={locked}
+            />
+            <p className="text-xs text-gray-500">
+              Must be allowed for publishing in mediamtx.yml (the sample config accepts any path starting with
+              &quot;phone&quot;).
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="publish-name">Camera Name</Label>
+            <Input
+              id="publish-name"
+              value={settings.name}
+              onChange={(e) => updateSettings({ name: e.target.value })}
+              placeholder="e.g., Kitchen"
+              disabled={locked}
+            />
+            <p className="text-xs text-gray-500">
+              Added to the cameras the first time the path goes live.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="publish-device">Camera</Label>
+            <Select
+              value={settings.deviceId || DEFAULT_DEVICE}
+              onValueChange={(value) => changeCapture({ deviceId: value === DEFAULT_DEVICE ? '' : value })}
+              disabled={locked}
+            >
+              <SelectTrigger id="publish-device">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>Default (back camera on phones)</SelectItem>
+                {devices.filter(device => device.deviceId).map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label || `Camera ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="publish-resolution">Resolution</Label>
+              <Select
+                value={settings.resolution}
+                onValueChange={(value) => changeCapture({ resolution: value as PublishSettings['resolution'] })}
+                disabled={locked}
+              >
+                <SelectTrigger id="publish-resolution">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PUBLISH_RESOLUTIONS.map(resolution => (
+                    <SelectItem key={resolution.id} value={resolution.id}>
+                      {resolution.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="publish-bitrate">Bitrate</Label>
+              <Select
+                value={String(settings.bitrate)}
+                onValueChange={(value) => updateSettings({ bitrate: Number(value) })}
+                disabled={locked}
+              >
+                <SelectTrigger id="publish-bitrate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PUBLISH_BITRATES.map(bitrate => (
+                    <SelectItem key={bitrate} value={String(bitrate)}>
+                      {bitrate >= 1000 ? `${bitrate / 1000} Mbit/s` : `${bitrate} kbit/s`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="publish-audio">Send audio</Label>
+            <Switch
+              id="publish-audio"
+              checked={settings.audio}
+              onCheckedChange={(checked) => changeCapture({ audio: checked })}
+              disabled={locked}
+            />
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Publishing uses the camera credentials from Settings → Cameras. The camera may deliver a lower
+            resolution than asked for; the preview shows what it sends.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
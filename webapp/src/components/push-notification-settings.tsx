@@ -0,0 +1,190 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, BellOff, Info, Loader2, Send } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { EVENT_TYPE_LABELS, EventType } from '@/lib/events';
+import {
+  disablePush,
+  enablePush,
+  getPushSettings,
+  getPushSubscription,
+  isPushSupported,
+  PUSH_EVENT_TYPES,
+  PushSettings,
+  savePushEventTypes,
+  sendTestPush,
+} from '@/lib/push';
+
+/**
+ * PushNotificationSettings turns push notifications on or off for this browser
+ * and picks the events the signed-in user is told about on all their devices
+ */
+export function PushNotificationSettings() {
+  const [settings, setSettings] = useState<PushSettings | null>(null);
+  const [supported, setSupported] = useState(true);
+  const [subscribed, setSubscribed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSupported(isPushSupported());
+    const result = await getPushSettings();
+    if (result.settings) {
+      setSettings(result.settings);
+    }
+    try {
+      setSubscribed(!!(await getPushSubscription()));
+    } catch (error) {
+      console.error('Failed to read push subscription:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleEnable = async () => {
+    if (!settings) return;
+    setIsBusy(true);
+    const result = await enablePush(settings.publicKey);
+    setIsBusy(false);
+
+    if (result.success) {
+      toast.success(result.message || 'Push notifications enabled');
+    } else {
+      toast.error(result.message || 'Failed to enable push notifications');
+    }
+    refresh();
+  };
+
+  const handleDisable = async () => {
+    setIsBusy(true);
+    const result = await disablePush();
+    setIsBusy(false);
+
+    if (result.success) {
+      toast.success('Push notifications turned off on this device');
+    } else {
+      toast.error(result.message || 'Failed to turn off push notifications');
+    }
+    refresh();
+  };
+
+  const handleTest = async () => {
+    setIsBusy(true);
+    const result = await sendTestPush();
+    setIsBusy(false);
+
+    if (result.success) {
+      toast.success(result.message || 'Test notification sent');
+    } else {
+      toast.error(result.message || 'Failed to send test notification');
+    }
+  };
+
+  const toggleEventType = async (type: EventType, checked: boolean) => {
+    if (!settings) return;
+    const eventTypes = checked
+      ? PUSH_EVENT_TYPES.filter(item => item === type || settings.eventTypes.includes(item))
+      : settings.eventTypes.filter(item => item !== type);
+
+    setSettings({ ...settings, eventTypes });
+    const result = await savePushEventTypes(eventTypes);
+    if (result.settings) {
+      setSettings(result.settings);
+    } else {
+      toast.error(result.message || 'Failed to save push preferences');
+      refresh();
+    }
+  };
+
+  return (
+    <Card id="push-notifications">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Push Notifications
+            </CardTitle>
+            <CardDescription>
+              Get alerts on this device, even when Camera Suite is closed
+            </CardDescription>
+          </div>
+          {settings && (
+            <Badge variant={subscribed ? 'default' : 'secondary'}>
+              {subscribed ? 'On for this device' : 'Off for this device'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!supported && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>
+              This browser does not support push notifications. They need HTTPS; on iPhone and iPad, add
+              Camera Suite to the home screen first and open it from there.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!settings ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Notify me about</Label>
+              <div className="space-y-2 rounded-lg border p-3">
+                {PUSH_EVENT_TYPES.map(type => (
+                  <label key={type} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={settings.eventTypes.includes(type)}
+                      onCheckedChange={(checked) => toggleEventType(type, checked === true)}
+                    />
+                    {EVENT_TYPE_LABELS[type]}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Applies to all your devices, for the cameras you can view.
+                {settings.devices > 0 &&
+                  ` Push notifications are on for ${settings.devices} device${settings.devices !== 1 ? 's' : ''}.`}
+              </p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {subscribed ? (
+                <Button variant="outline" onClick={handleDisable} disabled={isBusy}>
+                  <BellOff className="h-4 w-4 mr-2" />
+                  Turn Off on This Device
+                </Button>
+              ) : (
+                <Button onClick={handleEnable} disabled={isBusy || !supported}>
+                  {isBusy ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Bell className="h-4 w-4 mr-2" />
+                  )}
+                  Turn On for This Device
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleTest} disabled={isBusy || settings.devices === 0}>
+                <Send className="h-4 w-4 mr-2" />
+                Send Test
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
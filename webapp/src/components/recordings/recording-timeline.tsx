@@ -0,0 +1,138 @@
+'use client';
+
+import { PointerEvent, useRef, useState } from 'react';
+
+import {
+  getSegmentEnd,
+  getTimeAtPosition,
+  getTimelinePosition,
+  RecordingSegment,
+  TimelineZoom,
+  TimeRange,
+} from '@/lib/recordings';
+
+/**
+ * Timeline of recorded segments for a day or an hour
+ * Click to play from a point, or drag across the bar to pick the range to play
+ */
+interface RecordingTimelineProps {
+  segments: RecordingSegment[];
+  range: TimeRange;
+  zoom: TimelineZoom;
+  selection: TimeRange | null;
+  onSelect: (from: Date, to?: Date) => void;
+}
+
+// A drag shorter than this (share of the bar) counts as a click
+const CLICK_THRESHOLD = 0.005;
+
+function formatTick(time: Date): string {
+  return time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function RecordingTimeline({ segments, range, zoom, selection, onSelect }: RecordingTimelineProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  // Every 3 hours for a day, every 10 minutes for an hour
+  const tickCount = zoom === 'day' ? 8 : 6;
+  const ticks = Array.from({ length: tickCount + 1 }, (_, index) => index / tickCount);
+
+  const positionOf = (event: PointerEvent) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return (event.clientX - rect.left) / rect.width;
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const position = positionOf(event);
+    setDrag({ from: position, to: position });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (drag) {
+      setDrag({ ...drag, to: positionOf(event) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const from = getTimeAtPosition(drag.from, range);
+    if (Math.abs(drag.to - drag.from) < CLICK_THRESHOLD) {
+      onSelect(from);
+    } else {
+      onSelect(from, getTimeAtPosition(drag.to, range));
+    }
+    setDrag(null);
+  };
+
+  const highlight = drag
+    ? { left: Math.min(drag.from, drag.to), width: Math.abs(drag.to - drag.from) }
+    : selection
+      ? {
+          left: getTimelinePosition(selection.start, range),
+          width: getTimelinePosition(selection.end, range) - getTimelinePosition(selection.start, range),
+        }
+      : null;
+
+  return (
+    <div className="space-y-1 select-none">
+      <div
+        ref={barRef}
+        className="relative h-14 cursor-crosshair overflow-hidden rounded-md border bg-gray-100 touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+        role="slider"
+        aria-label="Recording timeline"
+        aria-valuemin={range.start.getTime()}
+        aria-valuemax={range.end.getTime()}
+        aria-valuenow={selection?.start.getTime() ?? range.start.getTime()}
+        aria-valuetext={selection ? selection.start.toLocaleString() : 'Nothing selected'}
+        id="recording-timeline"
+      >
+        {/* Tick lines */}
+        {ticks.slice(1, -1).map(tick => (
+          <div key={tick} className="absolute inset-y-0 w-px bg-gray-300" style={{ left: `${tick * 100}%` }} />
+        ))}
+
+        {/* Recorded segments */}
+        {segments.map(segment => {
+          const left = getTimelinePosition(new Date(segment.start), range);
+          const right = getTimelinePosition(getSegmentEnd(segment), range);
+          if (right <= left) return null;
+          return (
+            <div
+              key={segment.start}
+              className="absolute inset-y-2 rounded-sm bg-blue-500/80"
+              style={{ left: `${left * 100}%`, width: `max(2px, ${(right - left) * 100}%)` }}
+              data-testid="recording-segment"
+            />
+          );
+        })}
+
+        {/* Selection */}
+        {highlight && (
+          <div
+            className="pointer-events-none absolute inset-y-0 border-x-2 border-orange-500 bg-orange-400/30"
+            style={{ left: `${highlight.left * 100}%`, width: `max(2px, ${highlight.width * 100}%)` }}
+          />
+        )}
+      </div>
+
+      {/* Tick labels */}
+      <div className="relative h-4 text-xs text-gray-500">
+        {ticks.map(tick => (
+          <span
+            key={tick}
+            className={`absolute ${tick === 0 ? '' : tick === 1 ? '-translate-x-full' : '-translate-x-1/2'}`}
+            style={{ left: `${tick * 100}%` }}
+          >
+            {formatTick(getTimeAtPosition(tick, range))}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
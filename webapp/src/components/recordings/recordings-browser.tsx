@@ -0,0 +1,283 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarClock, ChevronLeft, ChevronRight, Download, Film } from 'lucide-react';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+
+import { fetchSharedConfig } from '@/config';
+import {
+  getPlaybackRange,
+  getRecordingVideoUrl,
+  getTimelineRange,
+  listRecordings,
+  RecordingSegment,
+  TimelineZoom,
+  TimeRange,
+} from '@/lib/recordings';
+import { filterCamerasForUser, hasRole } from '@/lib/site-auth';
+import { Camera } from '@/types';
+
+import { RecordingTimeline } from './recording-timeline';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+// Value for <input type="date"> in local time
+function toDateInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * Recordings browser - pick a camera and a day, find recorded stretches on the
+ * timeline and play (or download) the selected range
+ */
+export function RecordingsBrowser() {
+  const user = useCurrentUser();
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [cameraId, setCameraId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [day, setDay] = useState(() => new Date());
+  const [zoom, setZoom] = useState<TimelineZoom>('day');
+  const [hour, setHour] = useState(() => new Date().getHours());
+  const [segments, setSegments] = useState<RecordingSegment[]>([]);
+  const [isListing, setIsListing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<TimeRange | null>(null);
+
+  const range = getTimelineRange(day, zoom, hour);
+  const rangeStart = range.start.getTime();
+  const rangeEnd = range.end.getTime();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSharedConfig().then(({ config }) => {
+      if (cancelled) return;
+      const visibleCameras = filterCamerasForUser(config.cameras, user);
+      setCameras(visibleCameras);
+      setCameraId(visibleCameras[0]?.id || '');
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // List recordings whenever the camera or the visible range changes
+  useEffect(() => {
+    if (!cameraId) return;
+    let cancelled = false;
+
+    setIsListing(true);
+    setError(null);
+    listRecordings(cameraId, { start: new Date(rangeStart), end: new Date(rangeEnd) }).then(result => {
+      if (cancelled) return;
+      setSegments(result.segments);
+      setError(result.success ? null : result.message || 'Failed to list recordings');
+      setIsListing(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraId, rangeStart, rangeEnd]);
+
+  const changeCamera = (id: string) => {
+    setCameraId(id);
+    setSelection(null);
+  };
+
+  const changeDay = (value: string) => {
+    const [year, month, date] = value.split('-').map(Number);
+    if (!year || !month || !date) return;
+    setDay(new Date(year, month - 1, date));
+    setSelection(null);
+  };
+
+  const changeZoom = (value: TimelineZoom) => {
+    // Zooming in keeps the selection in view
+    if (value === 'hour' && selection) {
+      setHour(selection.start.getHours());
+    }
+    setZoom(value);
+  };
+
+  // Step one day, or one hour when zoomed in
+  const step = (direction: 1 | -1) => {
+    const next = new Date(range.start);
+    if (zoom === 'hour') {
+      next.setHours(next.getHours() + direction);
+      setHour(next.getHours());
+    } else {
+      next.setDate(next.getDate() + direction);
+    }
+    setDay(next);
+  };
+
+  const handleSelect = (from: Date, to?: Date) => {
+    setSelection(getPlaybackRange(segments, from, to));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex aspect-video items-center justify-center rounded-lg bg-gray-900 text-white">
+        <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  if (cameras.length === 0) {
+    return (
+      <div className="rounded-lg border bg-white p-12 text-center text-gray-600">
+        <Film className="mx-auto mb-4 h-10 w-10 text-gray-400" />
+        No cameras are available yet.
+      </div>
+    );
+  }
+
+  const recordedSeconds = segments.reduce((total, segment) => total + segment.duration, 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>Camera</Label>
+          <Select value={cameraId} onValueChange={changeCamera}>
+            <SelectTrigger className="w-48" aria-label="Camera">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {cameras.map(camera => (
+                <SelectItem key={camera.id} value={camera.id}>
+                  {camera.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="recordings-day">Day</Label>
+          <Input
+            id="recordings-day"
+            type="date"
+            className="w-44"
+            value={toDateInputValue(day)}
+            max={toDateInputValue(new Date())}
+            onChange={event => changeDay(event.target.value)}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border bg-white p-1" role="group" aria-label="Timeline zoom">
+            {(['day', 'hour'] as TimelineZoom[]).map(item => (
+              <Button
+                key={item}
+                size="sm"
+                variant={item === zoom ? 'default' : 'ghost'}
+                onClick={() => changeZoom(item)}
+                aria-pressed={item === zoom}
+              >
+                {item === 'day' ? 'Day' : 'Hour'}
+              </Button>
+            ))}
+          </div>
+          {zoom === 'hour' && (
+            <Select value={String(hour)} onValueChange={value => setHour(Number(value))}>
+              <SelectTrigger className="w-24" aria-label="Hour">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HOURS.map(item => (
+                  <SelectItem key={item} value={String(item)}>
+                    {String(item).padStart(2, '0')}:00
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="ml-auto flex gap-1">
+          <Button size="sm" variant="outline" onClick={() => step(-1)} aria-label={`Previous ${zoom}`}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => step(1)} aria-label={`Next ${zoom}`}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {user && hasRole(user.role, 'operator') && (
+            <Button size="sm" variant="outline" asChild>
+              <a href="/recordings/schedule">
+                <CalendarClock className="mr-2 h-4 w-4" />
+                Schedule
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Timeline */}
+      <div className="rounded-lg border bg-white p-4">
+        <RecordingTimeline
+          segments={segments}
+          range={range}
+          zoom={zoom}
+          selection={selection}
+          onSelect={handleSelect}
+        />
+        <p className="mt-2 text-sm text-gray-600" id="recordings-summary">
+          {isListing
+            ? 'Loading recordings...'
+            : segments.length === 0
+              ? 'No recordings in this period.'
+              : `${segments.length} recording${segments.length === 1 ? '' : 's'}, ${formatDuration(recordedSeconds)} in total. Click the timeline to play from a point, or drag to select a range.`}
+        </p>
+      </div>
+
+      {/* Playback */}
+      {selection && (
+        <div className="space-y-2">
+          <video
+            key={`${cameraId}-${selection.start.getTime()}-${selection.end.getTime()}`}
+            src={getRecordingVideoUrl(cameraId, selection)}
+            className="aspect-video w-full rounded-lg bg-black"
+            controls
+            autoPlay
+            id="recording-video"
+          />
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {selection.start.toLocaleString()} - {selection.end.toLocaleTimeString()}
+            </span>
+            <Button size="sm" variant="outline" asChild>
+              <a href={getRecordingVideoUrl(cameraId, selection, true)} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
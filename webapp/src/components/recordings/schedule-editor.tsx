@@ -0,0 +1,445 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarClock, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+
+import { fetchSharedConfig } from '@/config';
+import { getRecordMode } from '@/lib/recordings';
+import {
+  DAY_LABELS,
+  describeRuleTrigger,
+  fetchRecordingSchedule,
+  RecordingRule,
+  RecordingScheduleResult,
+  saveAwayMode,
+  saveRecordingRules,
+  WEEKDAYS,
+} from '@/lib/recordings/schedule';
+import { hasRole } from '@/lib/site-auth';
+import { Camera } from '@/types';
+
+import { WeeklyScheduleGrid } from './weekly-schedule-grid';
+
+interface RuleFormState {
+  name: string;
+  type: 'weekly' | 'away';
+  days: number[];
+  start: string;
+  end: string;
+  cameraIds: string[];
+}
+
+const EMPTY_FORM: RuleFormState = {
+  name: '',
+  type: 'weekly',
+  days: WEEKDAYS,
+  start: '22:00',
+  end: '06:00',
+  cameraIds: [],
+};
+
+const ALL_CAMERAS = 'all';
+
+/**
+ * Recording schedule editor - rules that record cameras at set times of the week or while everyone is away
+ * Admins edit the rules; operators can see them and switch away mode
+ */
+export function ScheduleEditor() {
+  const user = useCurrentUser();
+  const canEdit = !!user && hasRole(user.role, 'admin');
+
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [rules, setRules] = useState<RecordingRule[]>([]);
+  const [away, setAway] = useState(false);
+  const [activeRuleIds, setActiveRuleIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [previewCameraId, setPreviewCameraId] = useState(ALL_CAMERAS);
+
+  // null = closed, 'new' = create, otherwise the rule being edited
+  const [editing, setEditing] = useState<RecordingRule | 'new' | null>(null);
+  const [form, setForm] = useState<RuleFormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const applyResult = (result: RecordingScheduleResult) => {
+    if (result.schedule) {
+      setRules(result.schedule.rules);
+      setAway(result.schedule.away);
+    }
+    setActiveRuleIds(result.activeRuleIds || []);
+    result.warnings?.forEach(warning => toast.warning(warning));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchSharedConfig(), fetchRecordingSchedule()]).then(([{ config }, result]) => {
+      if (cancelled) return;
+      setCameras(config.cameras);
+      if (result.success && result.schedule) {
+        setRules(result.schedule.rules);
+        setAway(result.schedule.away);
+        setActiveRuleIds(result.activeRuleIds || []);
+      } else {
+        toast.error(result.message || 'Failed to load the recording schedule');
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveRules = async (nextRules: RecordingRule[], successMessage: string) => {
+    setIsSaving(true);
+    const result = await saveRecordingRules(nextRules);
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.message || 'Failed to save the recording schedule');
+      return false;
+    }
+    applyResult(result);
+    toast.success(successMessage);
+    return true;
+  };
+
+  const handleAwayChange = async (value: boolean) => {
+    setAway(value);
+    const result = await saveAwayMode(value);
+    if (!result.success) {
+      setAway(!value);
+      toast.error(result.message || 'Failed to switch away mode');
+      return;
+    }
+    applyResult(result);
+    toast.success(result.message);
+  };
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing('new');
+  };
+
+  const openEdit = (rule: RecordingRule) => {
+    setForm({
+      ...EMPTY_FORM,
+      name: rule.name,
+      type: rule.trigger.type,
+      ...(rule.trigger.type === 'weekly' && {
+        days: rule.trigger.days,
+        start: rule.trigger.start,
+        end: rule.trigger.end,
+      }),
+      cameraIds: rule.cameraIds,
+    });
+    setEditing(rule);
+  };
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter(item => item !== day) : [...prev.days, day],
+    }));
+  };
+
+  const toggleCamera = (cameraId: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      cameraIds: checked ? [...prev.cameraIds, cameraId] : prev.cameraIds.filter(id => id !== cameraId),
+    }));
+  };
+
+  const handleSaveRule = async () => {
+    if (!editing) return;
+    const rule: RecordingRule = {
+      id: editing === 'new' ? '' : editing.id, // the server assigns IDs to new rules
+      name: form.name,
+      enabled: editing === 'new' ? true : editing.enabled,
+      cameraIds: form.cameraIds,
+      trigger: form.type === 'away'
+        ? { type: 'away' }
+        : { type: 'weekly', days: form.days, start: form.start, end: form.end },
+    };
+    const nextRules = editing === 'new'
+      ? [...rules, rule]
+      : rules.map(item => (item.id === editing.id ? rule : item));
+
+    if (await saveRules(nextRules, editing === 'new' ? `Rule "${rule.name.trim()}" added` : `Rule "${rule.name.trim()}" updated`)) {
+      setEditing(null);
+    }
+  };
+
+  const handleToggleRule = (rule: RecordingRule, enabled: boolean) => {
+    saveRules(
+      rules.map(item => (item.id === rule.id ? { ...item, enabled } : item)),
+      enabled ? `Rule "${rule.name}" turned on` : `Rule "${rule.name}" turned off`
+    );
+  };
+
+  const handleDeleteRule = (rule: RecordingRule) => {
+    saveRules(rules.filter(item => item.id !== rule.id), `Rule "${rule.name}" deleted`);
+  };
+
+  const describeCameras = (rule: RecordingRule) => {
+    if (rule.cameraIds.length === 0) return 'All cameras on schedule';
+    return rule.cameraIds
+      .map(id => cameras.find(camera => camera.id === id)?.name || 'Removed camera')
+      .join(', ');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading schedule...</span>
+      </div>
+    );
+  }
+
+  const unscheduledCameras = cameras.filter(camera => getRecordMode(camera) !== 'schedule');
+
+  return (
+    <div className="space-y-6">
+      {/* Away mode */}
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4 pt-6">
+          <div>
+            <Label htmlFor="away-mode" className="text-base">Everyone is away</Label>
+            <p className="text-sm text-gray-600">
+              Turns on the rules that record &quot;while everyone is away&quot;.
+            </p>
+          </div>
+          <Switch id="away-mode" checked={away} onCheckedChange={handleAwayChange} />
+        </CardContent>
+      </Card>
+
+      {/* Week preview */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <CardTitle>Week Preview</CardTitle>
+              <CardDescription>When weekly rules record, in the server&apos;s time zone</CardDescription>
+            </div>
+            <Select value={previewCameraId} onValueChange={setPreviewCameraId}>
+              <SelectTrigger className="w-48" aria-label="Preview camera">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CAMERAS}>All cameras</SelectItem>
+                {cameras.map(camera => (
+                  <SelectItem key={camera.id} value={camera.id}>
+                    {camera.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <WeeklyScheduleGrid rules={rules} cameraId={previewCameraId === ALL_CAMERAS ? undefined : previewCameraId} />
+        </CardContent>
+      </Card>
+
+      {/* Rules */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Rules</CardTitle>
+              <CardDescription>
+                Only cameras whose Recording is set to &quot;On schedule&quot; in Settings follow these rules.
+                {unscheduledCameras.length > 0 && ` Not on schedule: ${unscheduledCameras.map(camera => camera.name).join(', ')}.`}
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button size="sm" onClick={openCreate}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rule
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="py-8 text-center text-gray-600">
+              <CalendarClock className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+              No recording rules yet.
+            </div>
+          ) : (
+            <ul className="divide-y" id="recording-rules">
+              {rules.map(rule => (
+                <li key={rule.id} className="flex items-center gap-4 py-3">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={checked => handleToggleRule(rule, checked)}
+                    disabled={!canEdit || isSaving}
+                    aria-label={`Rule ${rule.name} on`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      {activeRuleIds.includes(rule.id) && (
+                        <Badge className="border-0 bg-red-600 text-white">Recording now</Badge>
+                      )}
+                    </div>
+                    <p className="truncate text-sm text-gray-600">
+                      {describeRuleTrigger(rule.trigger)} · {describeCameras(rule)}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(rule)} aria-label={`Edit rule ${rule.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteRule(rule)}
+                        disabled={isSaving}
+                        aria-label={`Delete rule ${rule.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add Rule' : 'Edit Rule'}</DialogTitle>
+            <DialogDescription>
+              Cameras record while the rule applies and stop when it ends.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={form.name}
+                onChange={event => setForm({ ...form, name: event.target.value })}
+                placeholder="e.g., Weeknights"
+                maxLength={60}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>When</Label>
+              <Select value={form.type} onValueChange={value => setForm({ ...form, type: value as RuleFormState['type'] })}>
+                <SelectTrigger aria-label="When to record">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">At set times of the week</SelectItem>
+                  <SelectItem value="away">While everyone is away</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.type === 'weekly' && (
+              <>
+                <div className="space-y-2">
+                  <Label>Days</Label>
+                  <div className="flex flex-wrap gap-1" role="group" aria-label="Days">
+                    {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                      <Button
+                        key={day}
+                        type="button"
+                        size="sm"
+                        variant={form.days.includes(day) ? 'default' : 'outline'}
+                        onClick={() => toggleDay(day)}
+                        aria-pressed={form.days.includes(day)}
+                      >
+                        {DAY_LABELS[day]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-start">From</Label>
+                    <Input
+                      id="rule-start"
+                      type="time"
+                      value={form.start}
+                      onChange={event => setForm({ ...form, start: event.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-end">Until</Label>
+                    <Input
+                      id="rule-end"
+                      type="time"
+                      value={form.end}
+                      onChange={event => setForm({ ...form, end: event.target.value })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  An end before the start runs past midnight; the same time records the whole day.
+                </p>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Cameras</Label>
+              <p className="text-xs text-gray-500">Leave all unticked to record every camera on schedule.</p>
+              <div className="max-h-40 space-y-2 overflow-y-auto rounded-lg border p-3">
+                {cameras.map(camera => (
+                  <label key={camera.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.cameraIds.includes(camera.id)}
+                      onCheckedChange={checked => toggleCamera(camera.id, checked === true)}
+                    />
+                    {camera.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveRule}
+              disabled={isSaving || !form.name.trim() || (form.type === 'weekly' && form.days.length === 0)}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { DAY_LABELS, getWeeklyCoverage, RecordingRule } from '@/lib/recordings/schedule';
+
+/**
+ * Week preview of the recording schedule: one row per day, one cell per half hour
+ * Filled cells are recorded by at least one enabled weekly rule
+ */
+interface WeeklyScheduleGridProps {
+  rules: RecordingRule[];
+  cameraId?: string; // only rules that apply to this camera
+}
+
+const SLOT_MINUTES = 30;
+const HOUR_LABELS = [0, 6, 12, 18];
+
+export function WeeklyScheduleGrid({ rules, cameraId }: WeeklyScheduleGridProps) {
+  const coverage = getWeeklyCoverage(rules, cameraId, SLOT_MINUTES);
+  // Monday first, like most calendars
+  const days = [1, 2, 3, 4, 5, 6, 0];
+
+  return (
+    <div className="space-y-1" id="weekly-schedule-grid">
+      <div className="relative ml-10 h-4 text-xs text-gray-500">
+        {HOUR_LABELS.map(hour => (
+          <span key={hour} className="absolute" style={{ left: `${(hour / 24) * 100}%` }}>
+            {String(hour).padStart(2, '0')}:00
+          </span>
+        ))}
+      </div>
+      {days.map(day => (
+        <div key={day} className="flex items-center gap-2">
+          <span className="w-8 text-xs font-medium text-gray-600">{DAY_LABELS[day]}</span>
+          <div
+            className="grid h-5 flex-1 overflow-hidden rounded border bg-gray-100"
+            style={{ gridTemplateColumns: `repeat(${coverage[day].length}, minmax(0, 1fr))` }}
+            aria-label={`${DAY_LABELS[day]} recording times`}
+          >
+            {coverage[day].map((recorded, slot) => (
+              <div
+                key={slot}
+                className={`${recorded ? 'bg-red-500' : ''} ${slot % 2 === 0 && slot > 0 ? 'border-l border-gray-200' : ''}`}
+                title={`${DAY_LABELS[day]} ${String(Math.floor((slot * SLOT_MINUTES) / 60)).padStart(2, '0')}:${String((slot * SLOT_MINUTES) % 60).padStart(2, '0')}${recorded ? ' - recording' : ''}`}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
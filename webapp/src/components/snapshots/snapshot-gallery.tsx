@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Download, Images, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+
+import { fetchSharedConfig } from '@/config';
+import { formatFileSize } from '@/lib/clips';
+import { filterCamerasForUser, hasRole } from '@/lib/site-auth';
+import { deleteSnapshot, getSnapshotImageUrl, listSnapshots, Snapshot } from '@/lib/snapshots';
+import { Camera } from '@/types';
+
+const ALL_CAMERAS = 'all';
+
+/**
+ * Snapshot gallery - stills saved from the viewer, grouped by camera, newest first
+ */
+export function SnapshotGallery() {
+  const user = useCurrentUser();
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [cameraId, setCameraId] = useState(ALL_CAMERAS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchSharedConfig(), listSnapshots()]).then(([{ config }, result]) => {
+      if (cancelled) return;
+      setCameras(filterCamerasForUser(config.cameras, user));
+      setSnapshots(result.snapshots);
+      setError(result.error || null);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const canDelete = (snapshot: Snapshot) =>
+    !!user && (hasRole(user.role, 'operator') || snapshot.createdBy === user.username);
+
+  const handleDelete = async (snapshot: Snapshot) => {
+    const result = await deleteSnapshot(snapshot.id);
+    if (result.success) {
+      setSnapshots(prev => prev.filter(item => item.id !== snapshot.id));
+      toast.success(result.message);
+    } else {
+      toast.error(result.message || 'Failed to delete the snapshot');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading snapshots...</span>
+      </div>
+    );
+  }
+
+  // One section per camera; stills of removed cameras keep the name they were taken under
+  const visible = snapshots.filter(snapshot => cameraId === ALL_CAMERAS || snapshot.cameraId === cameraId);
+  const groups = Array.from(new Set(visible.map(snapshot => snapshot.cameraId))).map(id => ({
+    cameraId: id,
+    name: cameras.find(camera => camera.id === id)?.name || visible.find(snapshot => snapshot.cameraId === id)!.cameraName,
+    snapshots: visible.filter(snapshot => snapshot.cameraId === id),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end gap-4">
+        <div className="space-y-1">
+          <Label>Camera</Label>
+          <Select value={cameraId} onValueChange={setCameraId}>
+            <SelectTrigger className="w-48" aria-label="Camera">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CAMERAS}>All cameras</SelectItem>
+              {cameras.map(camera => (
+                <SelectItem key={camera.id} value={camera.id}>
+                  {camera.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {groups.length === 0 && !error && (
+        <div className="rounded-lg border bg-white py-12 text-center text-gray-600">
+          <Images className="mx-auto mb-3 h-8 w-8 text-gray-400" />
+          No snapshots yet. Take one with the camera button in the viewer.
+        </div>
+      )}
+
+      {groups.map(group => (
+        <section key={group.cameraId} className="space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {group.name} <span className="text-sm font-normal text-gray-500">({group.snapshots.length})</span>
+          </h2>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {group.snapshots.map(snapshot => (
+              <figure key={snapshot.id} className="overflow-hidden rounded-lg border bg-white" data-testid="snapshot">
+                <a href={getSnapshotImageUrl(snapshot.id)} target="_blank" rel="noreferrer">
+                  {/* eslint-disable-next-line @next/next/no-img-element -- private images served by the API */}
+                  <img
+                    src={getSnapshotImageUrl(snapshot.id)}
+                    alt={`${snapshot.cameraName} at ${new Date(snapshot.takenAt).toLocaleString()}`}
+                    className="aspect-video w-full bg-black object-contain"
+                    loading="lazy"
+                  />
+                </a>
+                <figcaption className="flex items-center gap-2 p-3">
+                  <div className="min-w-0 flex-1 text-sm">
+                    <p className="font-medium">{new Date(snapshot.takenAt).toLocaleString()}</p>
+                    <p className="truncate text-gray-600">
+                      {snapshot.createdBy} · {formatFileSize(snapshot.size)}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="ghost" asChild>
+                    <a href={getSnapshotImageUrl(snapshot.id, true)} aria-label="Download snapshot">
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  {canDelete(snapshot) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDelete(snapshot)}
+                      aria-label="Delete snapshot"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, KeyRound, Loader2, RefreshCw, ShieldCheck, ShieldOff, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import {
+  beginTwoFactorSetup,
+  disableTwoFactor,
+  enableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  TwoFactorStatus,
+} from '@/lib/site-auth';
+
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+/**
+ * TwoFactorSettings lets the signed-in user turn TOTP two-factor authentication on or off
+ * Recovery codes are only ever shown right after they are generated
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleBeginSetup = async () => {
+    setIsBusy(true);
+    const result = await beginTwoFactorSetup();
+    setIsBusy(false);
+
+    if (result.success && result.secret && result.qrCode) {
+      setEnrollment({ secret: result.secret, qrCode: result.qrCode });
+      setRecoveryCodes(null);
+      setCode('');
+    } else {
+      toast.error(result.message || 'Failed to start two-factor setup');
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    const result = await enableTwoFactor(code.trim());
+    setIsBusy(false);
+
+    if (result.success && result.recoveryCodes) {
+      toast.success('Two-factor authentication enabled');
+      setEnrollment(null);
+      setRecoveryCodes(result.recoveryCodes);
+      setCode('');
+      refresh();
+    } else {
+      toast.error(result.message || 'Invalid authentication code');
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    const result = await disableTwoFactor(password);
+    setIsBusy(false);
+
+    if (result.success) {
+      toast.success('Two-factor authentication disabled');
+      setPassword('');
+      setRecoveryCodes(null);
+      refresh();
+    } else {
+      toast.error(result.message || 'Failed to disable two-factor authentication');
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    const result = await regenerateRecoveryCodes(code.trim());
+    setIsBusy(false);
+
+    if (result.success && result.recoveryCodes) {
+      toast.success('New recovery codes generated');
+      setRecoveryCodes(result.recoveryCodes);
+      setCode('');
+      refresh();
+    } else {
+      toast.error(result.message || 'Invalid authentication code');
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <Card id="two-factor">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Smartphone className="h-5 w-5" />
+              Two-Factor Authentication
+            </CardTitle>
+            <CardDescription>
+              Require a code from an authenticator app in addition to your password
+            </CardDescription>
+          </div>
+          {status && (
+            <Badge variant={status.enabled ? 'default' : 'secondary'}>
+              {status.enabled ? 'Enabled' : 'Disabled'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Recovery codes - only shown once */}
+        {recoveryCodes && (
+          <Alert className="bg-yellow-50 border-yellow-200">
+            <KeyRound className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-900 space-y-3">
+              <p>
+                <strong>Save these recovery codes now.</strong> Each one signs you in once if you lose
+                access to your authenticator app. They will not be shown again.
+              </p>
+              <ul id="recovery-codes" className="grid grid-cols-2 gap-1 font-mono text-sm">
+                {recoveryCodes.map(recoveryCode => (
+                  <li key={recoveryCode}>{recoveryCode}</li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  I have saved them
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!status ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining !== 1 ? 's' : ''} left.
+            </p>
+
+            {/* Regenerate recovery codes */}
+            <form onSubmit={handleRegenerate} className="space-y-2">
+              <Label htmlFor="two-factor-code">Authentication code</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="two-factor-code"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={isBusy}
+                />
+                <Button type="submit" variant="outline" disabled={isBusy || !code.trim()}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  New Recovery Codes
+                </Button>
+              </div>
+            </form>
+
+            {/* Disable */}
+            <form onSubmit={handleDisable} className="space-y-2">
+              <Label htmlFor="two-factor-password">Current password</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isBusy}
+                />
+                <Button type="submit" variant="destructive" disabled={isBusy || !password}>
+                  <ShieldOff className="h-4 w-4 mr-2" />
+                  Disable
+                </Button>
+              </div>
+            </form>
+          </>
+        ) : enrollment ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            {/* eslint-disable-next-line @next/next/no-img-element -- data: URL rendered by the server */}
+            <img
+              src={enrollment.qrCode}
+              alt="Two-factor authentication QR code"
+              width={240}
+              height={240}
+              className="rounded border"
+            />
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+              <code id="two-factor-secret" className="block break-all rounded bg-muted p-2 text-sm">
+                {enrollment.secret}
+              </code>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-code">Authentication code</Label>
+              <Input
+                id="two-factor-code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                disabled={isBusy}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isBusy || !code.trim()}>
+                {isBusy ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                )}
+                Enable
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={isBusy}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button onClick={handleBeginSetup} disabled={isBusy}>
+            {isBusy ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 mr-2" />
+            )}
+            Set Up Two-Factor Authentication
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
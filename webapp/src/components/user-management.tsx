@@ -0,0 +1,355 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+import { Camera } from '@/types';
+import {
+  createSiteUser,
+  deleteSiteUser,
+  getSiteUsers,
+  updateSiteUser,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  USER_ROLES,
+  SiteUser,
+  UserRole,
+} from '@/lib/site-auth';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+
+/**
+ * UserManagement lets admins add, edit and remove website accounts
+ * Viewers are limited to the cameras ticked here
+ */
+interface UserManagementProps {
+  cameras: Camera[];
+}
+
+interface UserFormState {
+  username: string;
+  password: string;
+  role: UserRole;
+  cameraIds: string[];
+  resetTwoFactor: boolean;
+}
+
+const EMPTY_FORM: UserFormState = {
+  username: '',
+  password: '',
+  role: 'viewer',
+  cameraIds: [],
+  resetTwoFactor: false,
+};
+
+export function UserManagement({ cameras }: UserManagementProps) {
+  const currentUser = useCurrentUser();
+  const [users, setUsers] = useState<SiteUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // null = closed, 'new' = create, otherwise the user being edited
+  const [editing, setEditing] = useState<SiteUser | 'new' | null>(null);
+  const [form, setForm] = useState<UserFormState>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleting, setDeleting] = useState<SiteUser | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsers(await getSiteUsers());
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const openCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditing('new');
+  };
+
+  const openEdit = (user: SiteUser) => {
+    setForm({
+      username: user.username,
+      password: '',
+      role: user.role,
+      cameraIds: user.cameraIds,
+      resetTwoFactor: false,
+    });
+    setEditing(user);
+  };
+
+  const toggleCamera = (cameraId: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      cameraIds: checked
+        ? [...prev.cameraIds, cameraId]
+        : prev.cameraIds.filter(id => id !== cameraId),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    setIsSaving(true);
+    const result = editing === 'new'
+      ? await createSiteUser(form)
+      : await updateSiteUser(editing.id, { ...form, password: form.password || undefined });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.message || 'Failed to save user');
+      return;
+    }
+
+    toast.success(editing === 'new' ? `User ${form.username} created` : `User ${form.username} updated`);
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    const result = await deleteSiteUser(deleting.id);
+    if (!result.success) {
+      toast.error(result.message || 'Failed to delete user');
+    } else {
+      toast.success(`User ${deleting.username} deleted`);
+      setUsers(prev => prev.filter(user => user.id !== deleting.id));
+    }
+    setDeleting(null);
+  };
+
+  const cameraName = (cameraId: string) =>
+    cameras.find(camera => camera.id === cameraId)?.name || cameraId;
+
+  return (
+    <Card id="user-management">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Users
+            </CardTitle>
+            <CardDescription>
+              Website accounts and what each of them can access
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreate} disabled={users.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add User
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : users.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You are signed in with the built-in default account. Update your website credentials
+            above to create your own admin account, then add users here.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {users.map(user => (
+              <li
+                key={user.id}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{user.username}</span>
+                    <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
+                      {ROLE_LABELS[user.role]}
+                    </Badge>
+                    {user.twoFactorEnabled && (
+                      <Badge variant="outline">2FA</Badge>
+                    )}
+                    {user.id === currentUser?.id && (
+                      <span className="text-xs text-muted-foreground">(you)</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {user.role === 'viewer'
+                      ? user.cameraIds.length > 0
+                        ? user.cameraIds.map(cameraName).join(', ')
+                        : 'No cameras assigned'
+                      : 'All cameras'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openEdit(user)}>
+                    <Pencil className="h-4 w-4" />
+                    <span className="sr-only">Edit {user.username}</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeleting(user)}
+                    disabled={user.id === currentUser?.id}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete {user.username}</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Create / edit dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add User' : 'Edit User'}</DialogTitle>
+            <DialogDescription>
+              {ROLE_DESCRIPTIONS[form.role]}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="user-username">Username</Label>
+              <Input
+                id="user-username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                autoComplete="off"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="user-password">Password</Label>
+              <Input
+                id="user-password"
+                type="password"
+                placeholder={editing === 'new' ? 'At least 8 characters' : 'Leave blank to keep the current password'}
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                autoComplete="new-password"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm({ ...form, role: value as UserRole })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.role === 'viewer' && (
+              <div className="space-y-2">
+                <Label>Cameras</Label>
+                {cameras.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No cameras configured yet</p>
+                ) : (
+                  <div className="space-y-2 rounded-lg border p-3 max-h-48 overflow-y-auto">
+                    {cameras.map(camera => (
+                      <label key={camera.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.cameraIds.includes(camera.id)}
+                          onCheckedChange={(checked) => toggleCamera(camera.id, checked === true)}
+                        />
+                        {camera.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {editing !== 'new' && editing?.twoFactorEnabled && (
+              <label className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  id="user-reset-two-factor"
+                  checked={form.resetTwoFactor}
+                  onCheckedChange={(checked) => setForm({ ...form, resetTwoFactor: checked === true })}
+                />
+                <span>
+                  Reset two-factor authentication
+                  <span className="block text-xs text-muted-foreground">
+                    For users who lost their authenticator app and recovery codes
+                  </span>
+                </span>
+              </label>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || !form.username.trim() || (editing === 'new' && !form.password)}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing === 'new' ? 'Create User' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will be signed out and can no longer access the site.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
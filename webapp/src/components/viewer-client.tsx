@@ -1,15 +1,24 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { PlayerWithFallback } from '@/components/player/player-with-fallback';
 import { CameraSwitcher } from '@/components/camera-switcher';
-import { loadConfig } from '@/config';
+import { ClipList } from '@/components/clips/clip-list';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+import { MotionEventList } from '@/components/motion/motion-event-list';
+import { fetchSharedConfig } from '@/config';
+import { canViewCamera, filterCamerasForUser, hasRole } from '@/lib/site-auth';
+import { applyCameraHealth, CameraHealthMap, mergeCameraHealth, watchCameraHealth } from '@/lib/camera-health';
+import { Clip, loadClipPreRoll, saveClipPreRoll } from '@/lib/clips';
 import { getMockCameraById } from '@/lib/mock-data';
-import { Camera, AppConfig } from '@/types';
+import { getMotionSettings } from '@/lib/motion';
+import { Camera, AppConfig, MotionSettings } from '@/types';
 
 /**
- * Client-side wrapper for camera viewer that loads config from localStorage
+ * Client-side wrapper for camera viewer that loads the shared config from the server
+ * (falls back to the localStorage cache when offline)
+ * Users without permission for the camera are sent back to the grid
  */
 interface ViewerClientProps {
   cameraId: string;
@@ -17,25 +26,78 @@ interface ViewerClientProps {
 
 export function ViewerClient({ cameraId }: ViewerClientProps) {
   const router = useRouter();
+  const user = useCurrentUser();
   const [config, setConfig] = useState<AppConfig | null>(null);
   const [camera, setCamera] = useState<Camera | null>(null);
+  const [health, setHealth] = useState<CameraHealthMap>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [clips, setClips] = useState<Clip[]>([]);
+  const [clipPreRoll, setClipPreRoll] = useState(0);
+  const clipUrlsRef = useRef(new Set<string>());
 
   useEffect(() => {
-    // Load config from localStorage on client side
-    const loadedConfig = loadConfig();
-    const foundCamera = loadedConfig.cameras.find(cam => cam.id === cameraId) ||
-                        getMockCameraById(cameraId);
+    let cancelled = false;
 
-    if (!foundCamera) {
-      router.push('/');
-      return;
-    }
+    fetchSharedConfig().then(({ config: loadedConfig }) => {
+      if (cancelled) return;
 
-    setConfig(loadedConfig);
-    setCamera(foundCamera);
-    setIsLoading(false);
-  }, [cameraId, router]);
+      const foundCamera = loadedConfig.cameras.find(cam => cam.id === cameraId) ||
+                          getMockCameraById(cameraId);
+
+      if (!foundCamera || !user || !canViewCamera(user, foundCamera.id)) {
+        router.push('/');
+        return;
+      }
+
+      setConfig({ ...loadedConfig, cameras: filterCamerasForUser(loadedConfig.cameras, user) });
+      setCamera(foundCamera);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraId, router, user]);
+
+  useEffect(() => {
+    return watchCameraHealth(updates => setHealth(prev => mergeCameraHealth(prev, updates)));
+  }, []);
+
+  useEffect(() => {
+    setClipPreRoll(loadClipPreRoll());
+
+    // Free the clips' memory when leaving the viewer
+    const clipUrls = clipUrlsRef.current;
+    return () => {
+      clipUrls.forEach(url => URL.revokeObjectURL(url));
+      clipUrls.clear();
+    };
+  }, []);
+
+  const handleClipCaptured = useCallback((clip: Clip) => {
+    clipUrlsRef.current.add(clip.url);
+    setClips(prev => [clip, ...prev]);
+  }, []);
+
+  const handleRemoveClip = (clip: Clip) => {
+    URL.revokeObjectURL(clip.url);
+    clipUrlsRef.current.delete(clip.url);
+    setClips(prev => prev.filter(item => item.id !== clip.id));
+  };
+
+  // Zones are saved to the shared config by the editor; follow them here so detection restarts with them
+  const handleMotionZonesSaved = useCallback((motion: MotionSettings) => {
+    setCamera(prev => (prev ? { ...prev, motion } : prev));
+    setConfig(prev => prev && {
+      ...prev,
+      cameras: prev.cameras.map(item => (item.id === cameraId ? { ...item, motion } : item)),
+    });
+  }, [cameraId]);
+
+  const handlePreRollChange = (seconds: number) => {
+    setClipPreRoll(seconds);
+    saveClipPreRoll(seconds);
+  };
 
   if (isLoading || !config || !camera) {
     return (
@@ -55,7 +117,7 @@ export function ViewerClient({ cameraId }: ViewerClientProps) {
       {/* Camera Switcher */}
       <div className="flex justify-center">
         <CameraSwitcher
-          cameras={config.cameras}
+          cameras={applyCameraHealth(config.cameras, health)}
           currentCameraId={camera.id}
           compact={true}
           className="max-w-md"
@@ -70,10 +132,29 @@ export function ViewerClient({ cameraId }: ViewerClientProps) {
           className="w-full aspect-video"
           autoPlay={config.autoPlay}
           startMuted={config.startMuted}
+          recording={health[camera.id]?.recording}
+          clipPreRoll={clipPreRoll}
           showStats={true}
+          onClipCaptured={handleClipCaptured}
+          onMotionZonesSaved={user && hasRole(user.role, 'admin') ? handleMotionZonesSaved : undefined}
         />
       </div>
 
+      {/* Clips */}
+      <div className="max-w-6xl mx-auto">
+        <ClipList
+          clips={clips}
+          preRollSeconds={clipPreRoll}
+          onPreRollChange={handlePreRollChange}
+          onRemove={handleRemoveClip}
+        />
+      </div>
+
+      {/* Motion Events */}
+      <div className="max-w-6xl mx-auto">
+        <MotionEventList cameraId={camera.id} enabled={getMotionSettings(camera.motion).enabled} />
+      </div>
+
       {/* Camera Info */}
       <div className="max-w-6xl mx-auto">
         <div className="bg-white rounded-lg p-6 shadow-sm border">
@@ -0,0 +1,284 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LayoutGrid, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCurrentUser } from '@/components/layout/auth-gate';
+
+import { fetchSharedConfig } from '@/config';
+import { filterCamerasForUser } from '@/lib/site-auth';
+import {
+  deleteSavedWall,
+  fitSlots,
+  getWallLayout,
+  loadCurrentWall,
+  loadSavedWalls,
+  saveCurrentWall,
+  saveWall,
+  SavedWall,
+  swapSlots,
+  WALL_LAYOUTS,
+  WallLayoutId,
+  WallSlots,
+} from '@/lib/wall';
+import { Camera } from '@/types';
+
+import { WallTile } from './wall-tile';
+
+/**
+ * Live wall - plays several cameras at once in a grid layout
+ * Click a tile to hear its audio (all others are muted), double-click or use the
+ * maximize button to show it alone, and drag tiles by their title bar to rearrange them.
+ * The current wall and named layouts are kept in this browser.
+ */
+export function CameraWall() {
+  const user = useCurrentUser();
+  const [cameras, setCameras] = useState<Camera[]>([]);
+  const [serverUrl, setServerUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [layoutId, setLayoutId] = useState<WallLayoutId>('2x2');
+  const [slots, setSlots] = useState<WallSlots>([]);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [maximizedIndex, setMaximizedIndex] = useState<number | null>(null);
+  const [savedWalls, setSavedWalls] = useState<SavedWall[]>([]);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [wallName, setWallName] = useState('');
+
+  const layout = getWallLayout(layoutId);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSharedConfig().then(({ config }) => {
+      if (cancelled) return;
+      const visibleCameras = filterCamerasForUser(config.cameras, user);
+      const current = loadCurrentWall();
+      const initialLayout = getWallLayout(current?.layout || '2x2');
+
+      setCameras(visibleCameras);
+      setServerUrl(config.serverUrl);
+      setLayoutId(initialLayout.id);
+      setSlots(fitSlots(current?.slots || [], initialLayout, visibleCameras));
+      setSavedWalls(loadSavedWalls());
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Remember the wall for the next visit
+  useEffect(() => {
+    if (!isLoading) {
+      saveCurrentWall({ layout: layoutId, slots });
+    }
+  }, [isLoading, layoutId, slots]);
+
+  const camerasById = new Map(cameras.map(camera => [camera.id, camera]));
+  const unplacedCameras = cameras.filter(camera => !slots.includes(camera.id));
+
+  const changeLayout = (id: WallLayoutId) => {
+    setLayoutId(id);
+    setSlots(prev => fitSlots(prev, getWallLayout(id), cameras));
+    setMaximizedIndex(null);
+    setFocusedIndex(null);
+  };
+
+  const setSlotCamera = (index: number, cameraId: string | null) => {
+    setSlots(prev => prev.map((id, slot) => (slot === index ? cameraId : id)));
+    if (cameraId === null && focusedIndex === index) {
+      setFocusedIndex(null);
+    }
+  };
+
+  const moveTile = (from: number, to: number) => {
+    setSlots(prev => swapSlots(prev, from, to));
+    // Audio follows the camera that was focused
+    if (focusedIndex === from) setFocusedIndex(to);
+    else if (focusedIndex === to) setFocusedIndex(from);
+  };
+
+  const toggleMaximize = (index: number) => {
+    setMaximizedIndex(prev => (prev === index ? null : index));
+    setFocusedIndex(index);
+  };
+
+  const applySavedWall = (id: string) => {
+    const wall = savedWalls.find(item => item.id === id);
+    if (!wall) return;
+    const savedLayout = getWallLayout(wall.layout);
+    setLayoutId(savedLayout.id);
+    setSlots(fitSlots(wall.slots, savedLayout, cameras));
+    setMaximizedIndex(null);
+    setFocusedIndex(null);
+  };
+
+  const handleSaveWall = () => {
+    if (!wallName.trim()) return;
+    setSavedWalls(saveWall(wallName, { layout: layoutId, slots }));
+    toast.success(`Layout "${wallName.trim()}" saved`);
+    setSaveDialogOpen(false);
+    setWallName('');
+  };
+
+  const handleDeleteWall = (wall: SavedWall) => {
+    setSavedWalls(deleteSavedWall(wall.id));
+    toast.success(`Layout "${wall.name}" deleted`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex aspect-video items-center justify-center rounded-lg bg-gray-900 text-white">
+        <div className="h-12 w-12 animate-spin rounded-full border-b-2 border-white"></div>
+      </div>
+    );
+  }
+
+  if (cameras.length === 0) {
+    return (
+      <div className="rounded-lg border bg-white p-12 text-center text-gray-600">
+        <LayoutGrid className="mx-auto mb-4 h-10 w-10 text-gray-400" />
+        No cameras are available for the wall yet.
+      </div>
+    );
+  }
+
+  const visibleTiles = slots
+    .map((cameraId, index) => ({ cameraId, index }))
+    .filter(({ index }) => maximizedIndex === null || index === maximizedIndex);
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-md border bg-white p-1" role="group" aria-label="Wall layout">
+          {WALL_LAYOUTS.map(item => (
+            <Button
+              key={item.id}
+              size="sm"
+              variant={item.id === layoutId ? 'default' : 'ghost'}
+              onClick={() => changeLayout(item.id)}
+              aria-pressed={item.id === layoutId}
+            >
+              {item.label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          {savedWalls.length > 0 && (
+            <Select value="" onValueChange={applySavedWall}>
+              <SelectTrigger className="w-48" aria-label="Saved layouts">
+                <SelectValue placeholder="Saved layouts" />
+              </SelectTrigger>
+              <SelectContent>
+                {savedWalls.map(wall => (
+                  <SelectItem key={wall.id} value={wall.id}>
+                    {wall.name} ({getWallLayout(wall.layout).label})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button size="sm" variant="outline" onClick={() => setSaveDialogOpen(true)}>
+            <Save className="mr-2 h-4 w-4" />
+            Save Layout
+          </Button>
+        </div>
+      </div>
+
+      {/* Tiles */}
+      <div
+        className="grid gap-2"
+        style={{
+          gridTemplateColumns: `repeat(${maximizedIndex === null ? layout.columns : 1}, minmax(0, 1fr))`,
+        }}
+        id="camera-wall"
+      >
+        {visibleTiles.map(({ cameraId, index }) => {
+          const featured = layout.featured && index === 0 && maximizedIndex === null;
+          return (
+            <WallTile
+              key={index}
+              index={index}
+              camera={(cameraId && camerasById.get(cameraId)) || null}
+              cameras={unplacedCameras}
+              serverUrl={serverUrl}
+              focused={focusedIndex === index}
+              maximized={maximizedIndex === index}
+              quality={maximizedIndex === index || layout.tiles === 1 ? 'main' : 'sub'}
+              className={featured ? 'col-span-2 row-span-2' : 'aspect-video'}
+              onFocus={() => setFocusedIndex(index)}
+              onToggleMaximize={() => toggleMaximize(index)}
+              onSelectCamera={id => setSlotCamera(index, id)}
+              onMove={moveTile}
+            />
+          );
+        })}
+      </div>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Layout</DialogTitle>
+            <DialogDescription>
+              Keep this arrangement of cameras to switch back to it later. Layouts are saved in this browser.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="wall-name">Name</Label>
+            <Input
+              id="wall-name"
+              value={wallName}
+              onChange={event => setWallName(event.target.value)}
+              onKeyDown={event => event.key === 'Enter' && handleSaveWall()}
+              placeholder="e.g., Night watch"
+              autoFocus
+            />
+          </div>
+          {savedWalls.length > 0 && (
+            <ul className="space-y-1 text-sm" id="saved-walls">
+              {savedWalls.map(wall => (
+                <li key={wall.id} className="flex items-center justify-between rounded border px-3 py-1">
+                  <span>
+                    {wall.name} <span className="text-gray-500">({getWallLayout(wall.layout).label})</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteWall(wall)}
+                    aria-label={`Delete layout ${wall.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveWall} disabled={!wallName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
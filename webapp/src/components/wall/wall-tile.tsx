@@ -0,0 +1,153 @@
+'use client';
+
+import { DragEvent, useState } from 'react';
+import { GripVertical, Maximize2, Minimize2, Plus, Volume2, VolumeX, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PlayerWithFallback } from '@/components/player/player-with-fallback';
+import { Camera, StreamQuality } from '@/types';
+
+/**
+ * One tile of the live wall: a camera stream, or a picker while empty
+ * Tiles are dragged by their title bar; dropping one tile on another swaps them
+ * Small tiles play the camera's sub-stream, full-size ones the main stream
+ */
+interface WallTileProps {
+  index: number;
+  camera: Camera | null;
+  cameras: Camera[]; // cameras that can be placed in an empty tile
+  serverUrl: string;
+  focused: boolean;
+  maximized: boolean;
+  quality: StreamQuality;
+  className?: string;
+  onFocus: () => void;
+  onToggleMaximize: () => void;
+  onSelectCamera: (cameraId: string | null) => void;
+  onMove: (from: number, to: number) => void;
+}
+
+const DRAG_TYPE = 'application/x-camsuite-wall-tile';
+
+export function WallTile({
+  index,
+  camera,
+  cameras,
+  serverUrl,
+  focused,
+  maximized,
+  quality,
+  className = '',
+  onFocus,
+  onToggleMaximize,
+  onSelectCamera,
+  onMove,
+}: WallTileProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragStart = (event: DragEvent) => {
+    event.dataTransfer.setData(DRAG_TYPE, String(index));
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    const from = Number(event.dataTransfer.getData(DRAG_TYPE));
+    if (Number.isInteger(from) && from !== index) {
+      onMove(from, index);
+    }
+  };
+
+  return (
+    <div
+      className={`relative flex min-h-0 flex-col overflow-hidden rounded-lg bg-black ring-2 transition-shadow ${
+        isDragOver ? 'ring-blue-400' : focused ? 'ring-green-500' : 'ring-transparent'
+      } ${className}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      onClickCapture={camera ? onFocus : undefined}
+      data-testid="wall-tile"
+    >
+      {camera ? (
+        <>
+          {/* Title bar - drag handle and tile controls */}
+          <div
+            className="flex cursor-move items-center gap-1 bg-gray-900 px-2 py-1 text-white"
+            draggable
+            onDragStart={handleDragStart}
+          >
+            <GripVertical className="h-4 w-4 shrink-0 text-gray-400" />
+            <span className="flex-1 truncate text-sm font-medium">{camera.name}</span>
+            {focused ? (
+              <Volume2 className="h-4 w-4 text-green-400" aria-label="Audio on" />
+            ) : (
+              <VolumeX className="h-4 w-4 text-gray-500" aria-label="Muted - click the tile to listen" />
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-white hover:bg-white/20"
+              onClick={onToggleMaximize}
+              aria-label={maximized ? 'Restore tile' : 'Maximize tile'}
+            >
+              {maximized ? <Minimize2 className="h-3.5 w-3.5" /> : <Maximize2 className="h-3.5 w-3.5" />}
+            </Button>
+            {!maximized && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-white hover:bg-white/20"
+                onClick={() => onSelectCamera(null)}
+                aria-label={`Remove ${camera.name} from the wall`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+
+          <div className="min-h-0 flex-1" onDoubleClick={onToggleMaximize}>
+            <PlayerWithFallback
+              key={camera.id}
+              camera={camera}
+              serverUrl={serverUrl}
+              muted={!focused}
+              quality={quality}
+              showStats={false}
+              className="h-full w-full"
+            />
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-1 flex-col items-center justify-center gap-3 p-4 text-gray-400">
+          <Plus className="h-8 w-8" />
+          {cameras.length === 0 ? (
+            <p className="text-sm">Every camera is already on the wall</p>
+          ) : (
+            <Select onValueChange={value => onSelectCamera(value)}>
+              <SelectTrigger className="w-48 bg-white text-gray-900" aria-label={`Camera for tile ${index + 1}`}>
+                <SelectValue placeholder="Choose camera" />
+              </SelectTrigger>
+              <SelectContent>
+                {cameras.map(item => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
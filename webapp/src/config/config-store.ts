@@ -0,0 +1,367 @@
+/**
+ * Server-side store for the shared application configuration
+ * Every browser reads cameras, server URL and ICE servers from here instead of its own localStorage
+ * Each save bumps a version number, exposed as an ETag, so concurrent edits are detected
+ * NOTE: Server-only - import from API routes, never from client components
+ */
+
+import { readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+import { canViewCamera, SiteUser } from '@/lib/site-auth/permissions';
+import { isMotionSensitivity, validateMotionZones } from '@/lib/motion/zones';
+import {
+  AppConfig,
+  Camera,
+  Credentials,
+  MediaMtxApiConfig,
+  MotionSettings,
+  MotionZone,
+  OnvifSettings,
+  RecordMode,
+  RTCIceServer,
+  StreamingProtocol,
+} from '@/types';
+import { DEFAULT_CONFIG, validateServerUrl } from './index';
+
+const CONFIG_FILE = 'config.json';
+
+const STREAMING_PROTOCOLS: StreamingProtocol[] = ['webrtc', 'hls', 'auto'];
+const RECORD_MODES: RecordMode[] = ['always', 'never', 'schedule'];
+
+/**
+ * Configuration as stored on disk
+ * Version 0 means nobody has saved a configuration yet (defaults are served)
+ */
+export interface StoredConfig {
+  version: number;
+  updatedAt: string | null;
+  updatedBy: string | null;
+  config: AppConfig;
+}
+
+export type ConfigSaveResult =
+  | { success: true; stored: StoredConfig; previous: StoredConfig } // `previous` is what it replaced, read under the same lock
+  | { success: false; stored: StoredConfig; reason: 'conflict' }; // `stored` is the current config
+
+function getDefaultStoredConfig(): StoredConfig {
+  return {
+    version: 0,
+    updatedAt: null,
+    updatedBy: null,
+    config: DEFAULT_CONFIG as AppConfig,
+  };
+}
+
+/**
+ * Load the shared configuration (defaults when nothing has been saved yet)
+ */
+export async function getStoredConfig(): Promise<StoredConfig> {
+  return readJsonFile<StoredConfig>(CONFIG_FILE, getDefaultStoredConfig());
+}
+
+/**
+ * Look up a camera the user may view, with the config it belongs to
+ * Unknown and forbidden cameras both return null so routes can answer 404 for either
+ */
+export async function getCameraForUser(
+  cameraId: string,
+  user: SiteUser
+): Promise<{ camera: Camera; config: AppConfig } | null> {
+  const { config } = await getStoredConfig();
+  const camera = config.cameras.find(item => item.id === cameraId);
+  if (!camera || !canViewCamera(user, camera.id)) return null;
+  return { camera, config };
+}
+
+/**
+ * Save the shared configuration if nobody else saved since `expectedVersion`
+ * Pass null to overwrite unconditionally
+ */
+export async function saveStoredConfig(
+  config: AppConfig,
+  expectedVersion: number | null,
+  updatedBy: string
+): Promise<ConfigSaveResult> {
+  return withProcessLock('config', async () => {
+    const current = await getStoredConfig();
+
+    if (expectedVersion !== null && expectedVersion !== current.version) {
+      return { success: false, reason: 'conflict', stored: current };
+    }
+
+    const stored: StoredConfig = {
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+      config,
+    };
+    await writeJsonFile(CONFIG_FILE, stored);
+    return { success: true, stored, previous: current };
+  });
+}
+
+/**
+ * Build the ETag header value for a config version
+ */
+export function getConfigETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Read the expected version from an If-Match header
+ * Returns null for `*` (overwrite), undefined when missing or malformed
+ */
+export function parseIfMatchVersion(header: string | null): number | null | undefined {
+  if (!header) return undefined;
+  const value = header.trim();
+  if (value === '*') return null;
+
+  const match = value.match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function parseCredentials(value: unknown): Credentials | undefined {
+  if (!isObject(value) || typeof value.username !== 'string' || typeof value.password !== 'string') {
+    return undefined;
+  }
+  return { username: value.username, password: value.password };
+}
+
+function parseIceServers(value: unknown): RTCIceServer[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const servers: RTCIceServer[] = [];
+  for (const server of value) {
+    if (!isObject(server)) return null;
+    const urls = server.urls;
+    const validUrls = typeof urls === 'string' || (Array.isArray(urls) && urls.every(url => typeof url === 'string'));
+    if (!validUrls) return null;
+
+    servers.push({
+      urls: urls as string | string[],
+      ...(typeof server.username === 'string' && { username: server.username }),
+      ...(typeof server.credential === 'string' && { credential: server.credential }),
+    });
+  }
+  return servers;
+}
+
+function parseMotionZone(value: unknown): MotionZone | undefined {
+  if (!isObject(value) || !isNonEmptyString(value.id) || typeof value.name !== 'string' || !Array.isArray(value.points)) {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    mode: value.mode,
+    // Only include zones are watched, so only they have a sensitivity
+    ...(value.mode === 'include' && value.sensitivity !== undefined && { sensitivity: value.sensitivity }),
+    points: value.points.map(point => (isObject(point) ? { x: point.x, y: point.y } : point)),
+  } as MotionZone;
+}
+
+function parseMotionSettings(value: unknown): { motion?: MotionSettings; error?: string } {
+  if (!isObject(value) || typeof value.enabled !== 'boolean' || !isMotionSensitivity(value.sensitivity)) {
+    return { error: 'Invalid motion detection settings' };
+  }
+
+  const zones = (Array.isArray(value.zones) ? value.zones : []).map(parseMotionZone);
+  if ((value.zones !== undefined && !Array.isArray(value.zones)) || zones.some(zone => !zone)) {
+    return { error: 'Invalid motion zones' };
+  }
+  const [zoneError] = validateMotionZones(zones as MotionZone[]);
+  if (zoneError) {
+    return { error: zoneError };
+  }
+
+  return { motion: { enabled: value.enabled, sensitivity: value.sensitivity, zones: zones as MotionZone[] } };
+}
+
+/**
+ * Validate a camera's ONVIF settings - an empty URL turns PTZ control off
+ */
+function parseOnvifSettings(value: unknown): { onvif?: OnvifSettings; error?: string } {
+  if (!isObject(value)) {
+    return { error: 'Invalid ONVIF settings' };
+  }
+  if (value.url === undefined || (typeof value.url === 'string' && !value.url.trim())) {
+    return {};
+  }
+  if (typeof value.url !== 'string' || !validateServerUrl(value.url.trim())) {
+    return { error: 'Invalid ONVIF URL format' };
+  }
+  if (value.profileToken !== undefined && typeof value.profileToken !== 'string') {
+    return { error: 'Invalid ONVIF profile token' };
+  }
+
+  const credentials = parseCredentials(value.credentials);
+  const profileToken = typeof value.profileToken === 'string' ? value.profileToken.trim() : '';
+  return {
+    onvif: {
+      url: value.url.trim(),
+      ...(credentials?.username && { credentials }),
+      ...(profileToken && { profileToken }),
+    },
+  };
+}
+
+/**
+ * Validate a camera from a request body
+ * Unknown fields are kept so newer camera options survive older servers; runtime status is not stored
+ */
+function parseCamera(value: unknown, index: number): { camera?: Camera; error?: string } {
+  const label = `Camera ${index + 1}`;
+  if (!isObject(value)) {
+    return { error: `${label}: Invalid camera` };
+  }
+  if (!isNonEmptyString(value.id)) {
+    return { error: `${label}: ID is required` };
+  }
+  if (!isNonEmptyString(value.name)) {
+    return { error: `${label}: Name is required` };
+  }
+  if (!isNonEmptyString(value.path)) {
+    return { error: `${label}: Path is required` };
+  }
+  if (value.protocol !== undefined && !STREAMING_PROTOCOLS.includes(value.protocol as StreamingProtocol)) {
+    return { error: `${label}: Invalid protocol` };
+  }
+  if (value.subPath !== undefined && typeof value.subPath !== 'string') {
+    return { error: `${label}: Invalid sub-stream path` };
+  }
+  if (value.talkbackPath !== undefined && typeof value.talkbackPath !== 'string') {
+    return { error: `${label}: Invalid talkback path` };
+  }
+  if (value.recordMode !== undefined && !RECORD_MODES.includes(value.recordMode as RecordMode)) {
+    return { error: `${label}: Invalid recording mode` };
+  }
+  const { motion: parsedMotion, error: motionError } = value.motion === undefined ? {} : parseMotionSettings(value.motion);
+  if (motionError) {
+    return { error: `${label}: ${motionError}` };
+  }
+  const { onvif: parsedOnvif, error: onvifError } = value.onvif === undefined ? {} : parseOnvifSettings(value.onvif);
+  if (onvifError) {
+    return { error: `${label}: ${onvifError}` };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { status, lastSeen, recording, credentials, subPath, talkbackPath, motion, onvif, ...rest } = value;
+  const parsedCredentials = parseCredentials(credentials);
+  const path = value.path.trim().replace(/^\//, '');
+  const parsedSubPath = typeof subPath === 'string' ? subPath.trim().replace(/^\//, '') : '';
+  if (parsedSubPath && parsedSubPath === path) {
+    return { error: `${label}: Sub-stream path must differ from the stream path` };
+  }
+  const parsedTalkbackPath = typeof talkbackPath === 'string' ? talkbackPath.trim().replace(/^\//, '') : '';
+  if (parsedTalkbackPath && (parsedTalkbackPath === path || parsedTalkbackPath === parsedSubPath)) {
+    return { error: `${label}: Talkback path must differ from the stream paths` };
+  }
+
+  return {
+    camera: {
+      ...rest,
+      id: value.id.trim(),
+      name: value.name.trim(),
+      path,
+      ...(parsedSubPath && { subPath: parsedSubPath }),
+      ...(parsedTalkbackPath && { talkbackPath: parsedTalkbackPath }),
+      ...(parsedMotion && { motion: parsedMotion }),
+      ...(parsedOnvif && { onvif: parsedOnvif }),
+      status: 'unknown',
+      ...(parsedCredentials && { credentials: parsedCredentials }),
+    } as Camera,
+  };
+}
+
+/**
+ * Validate the MediaMTX API settings - an empty URL turns the API integration off
+ */
+function parseMediaMtxApi(value: unknown): { mediamtxApi?: MediaMtxApiConfig; error?: string } {
+  if (!isObject(value)) {
+    return { error: 'Invalid MediaMTX API settings' };
+  }
+  if (value.url === '') {
+    return {};
+  }
+  if (typeof value.url !== 'string' || !validateServerUrl(value.url)) {
+    return { error: 'Invalid MediaMTX API URL format' };
+  }
+
+  const credentials = parseCredentials(value.credentials);
+  return {
+    mediamtxApi: {
+      url: value.url.trim(),
+      ...(credentials && { credentials }),
+    },
+  };
+}
+
+/**
+ * Validate an AppConfig from a request body
+ */
+export function parseAppConfig(body: unknown): { config?: AppConfig; error?: string } {
+  if (!isObject(body)) {
+    return { error: 'Invalid configuration' };
+  }
+
+  if (typeof body.serverUrl !== 'string' || !validateServerUrl(body.serverUrl)) {
+    return { error: 'Invalid server URL format' };
+  }
+
+  if (!Array.isArray(body.cameras)) {
+    return { error: 'Cameras must be a list' };
+  }
+
+  const cameras: Camera[] = [];
+  for (const [index, value] of body.cameras.entries()) {
+    const { camera, error } = parseCamera(value, index);
+    if (!camera) return { error };
+
+    if (cameras.some(other => other.id === camera.id)) {
+      return { error: `Camera ${index + 1}: Duplicate ID "${camera.id}"` };
+    }
+    if (cameras.some(other => other.path === camera.path)) {
+      return { error: `Camera ${index + 1}: Duplicate path "${camera.path}"` };
+    }
+    cameras.push(camera);
+  }
+
+  let iceServers = DEFAULT_CONFIG.iceServers;
+  if (body.iceServers !== undefined) {
+    const parsed = parseIceServers(body.iceServers);
+    if (!parsed) return { error: 'Invalid ICE servers' };
+    iceServers = parsed;
+  }
+
+  let mediamtxApi = DEFAULT_CONFIG.mediamtxApi;
+  if (body.mediamtxApi !== undefined) {
+    const parsed = parseMediaMtxApi(body.mediamtxApi);
+    if (parsed.error) return { error: parsed.error };
+    mediamtxApi = parsed.mediamtxApi;
+  }
+
+  const defaultCredentials = parseCredentials(body.defaultCredentials);
+
+  return {
+    config: {
+      serverUrl: body.serverUrl.trim(),
+      iceServers,
+      mediamtxApi,
+      cameras,
+      autoPlay: typeof body.autoPlay === 'boolean' ? body.autoPlay : DEFAULT_CONFIG.autoPlay ?? true,
+      startMuted: typeof body.startMuted === 'boolean' ? body.startMuted : DEFAULT_CONFIG.startMuted ?? true,
+      rememberCredentials: typeof body.rememberCredentials === 'boolean'
+        ? body.rememberCredentials
+        : DEFAULT_CONFIG.rememberCredentials ?? false,
+      ...(defaultCredentials && { defaultCredentials }),
+    },
+  };
+}
@@ -1,8 +1,9 @@
-import { AppConfig, Credentials } from '@/types';
+import { AppConfig, Camera, Credentials, StreamQuality } from '@/types';
 
 /**
  * Configuration management for the WebRTC Camera Suite
- * Handles environment variables, localStorage, and default values
+ * Handles environment variables, the shared server-side config (/api/config),
+ * its localStorage offline cache, and default values
  */
 
 // Environment variable access with defaults
@@ -26,6 +27,15 @@ export const DEFAULT_CONFIG: Partial<AppConfig> = {
   iceServers: getEnvArray('CAMSUITE_ICE_SERVERS', ['stun:stun.l.google.com:19302']).map(url => ({
     urls: url.startsWith('stun:') || url.startsWith('turn:') ? url : `stun:${url}`
   })),
+  mediamtxApi: {
+    url: getEnvVar('CAMSUITE_MEDIAMTX_API_URL', 'http://localhost:9997'),
+    ...(process.env.CAMSUITE_MEDIAMTX_API_USER && {
+      credentials: {
+        username: getEnvVar('CAMSUITE_MEDIAMTX_API_USER'),
+        password: getEnvVar('CAMSUITE_MEDIAMTX_API_PASS'),
+      },
+    }),
+  },
   autoPlay: true,
   startMuted: true,
   rememberCredentials: getEnvVar('CAMSUITE_DEFAULT_REMEMBER', 'false').toLowerCase() === 'true',
@@ -40,13 +50,43 @@ export const DEFAULT_CONFIG: Partial<AppConfig> = {
 // Local storage keys
 const STORAGE_KEYS = {
   APP_CONFIG: 'camsuite_config',
+  CONFIG_VERSION: 'camsuite_config_version',
   CREDENTIALS: 'camsuite_credentials',
   UI_PREFERENCES: 'camsuite_ui_prefs',
 } as const;
 
 /**
- * Load configuration from localStorage with environment variable fallbacks
- * Safe for server-side rendering
+ * Merge a parsed (JSON) config with defaults and restore Date fields
+ */
+const deserializeConfig = (parsedConfig: Partial<AppConfig>): AppConfig => {
+  return {
+    ...DEFAULT_CONFIG,
+    ...parsedConfig,
+    // Ensure cameras array is properly typed
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cameras: parsedConfig.cameras?.map((cam: any) => ({
+      ...cam,
+      lastSeen: cam.lastSeen ? new Date(cam.lastSeen) : undefined,
+    })) || DEFAULT_CONFIG.cameras || [],
+  } as AppConfig;
+};
+
+/**
+ * Create a serializable version (convert Date objects to ISO strings)
+ */
+const serializeConfig = (config: AppConfig) => {
+  return {
+    ...config,
+    cameras: config.cameras.map(cam => ({
+      ...cam,
+      lastSeen: cam.lastSeen?.toISOString(),
+    })),
+  };
+};
+
+/**
+ * Load configuration from the localStorage cache with environment variable fallbacks
+ * Synchronous and safe for server-side rendering - use fetchSharedConfig() for the latest version
  */
 export const loadConfig = (): AppConfig => {
   // Check if we're in a browser environment
@@ -57,18 +97,7 @@ export const loadConfig = (): AppConfig => {
   try {
     const stored = localStorage.getItem(STORAGE_KEYS.APP_CONFIG);
     if (stored) {
-      const parsedConfig = JSON.parse(stored) as Partial<AppConfig>;
-      // Merge with defaults to ensure all required fields are present
-      return {
-        ...DEFAULT_CONFIG,
-        ...parsedConfig,
-        // Ensure cameras array is properly typed
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        cameras: parsedConfig.cameras?.map((cam: any) => ({
-          ...cam,
-          lastSeen: cam.lastSeen ? new Date(cam.lastSeen) : undefined,
-        })) || DEFAULT_CONFIG.cameras || [],
-      } as AppConfig;
+      return deserializeConfig(JSON.parse(stored) as Partial<AppConfig>);
     }
   } catch (error) {
     console.warn('Failed to load config from localStorage:', error);
@@ -78,24 +107,197 @@ export const loadConfig = (): AppConfig => {
 };
 
 /**
- * Save configuration to localStorage
+ * Save configuration to the localStorage cache
  */
 export const saveConfig = (config: AppConfig): void => {
   try {
-    // Create a serializable version (convert Date objects to ISO strings)
-    const serializableConfig = {
-      ...config,
-      cameras: config.cameras.map(cam => ({
-        ...cam,
-        lastSeen: cam.lastSeen?.toISOString(),
-      })),
-    };
-    localStorage.setItem(STORAGE_KEYS.APP_CONFIG, JSON.stringify(serializableConfig));
+    localStorage.setItem(STORAGE_KEYS.APP_CONFIG, JSON.stringify(serializeConfig(config)));
   } catch (error) {
     console.error('Failed to save config to localStorage:', error);
   }
 };
 
+/**
+ * Shared configuration together with its server version
+ * `offline` is set when the server could not be reached and the local cache was used
+ */
+export interface SharedConfig {
+  config: AppConfig;
+  version: number;
+  updatedAt?: string | null;
+  updatedBy?: string | null;
+  offline?: boolean;
+}
+
+export interface SharedConfigSaveResult {
+  success: boolean;
+  message?: string;
+  shared?: SharedConfig; // saved config, or the newer server config on conflict
+  conflict?: boolean;
+  warnings?: string[]; // saved, but some recording modes could not be applied to MediaMTX
+}
+
+const getCachedConfigVersion = (): number => {
+  try {
+    return Number(localStorage.getItem(STORAGE_KEYS.CONFIG_VERSION)) || 0;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Body of /api/config responses (GET, and PUT when saved or on a conflict)
+ */
+interface SharedConfigResponse {
+  success?: boolean;
+  message?: string;
+  config?: Partial<AppConfig>;
+  version?: number;
+  updatedAt?: string | null;
+  updatedBy?: string | null;
+  conflict?: boolean;
+  warnings?: string[];
+}
+
+/**
+ * The config without any credentials (default and per-camera stream credentials, MediaMTX API and ONVIF
+ * credentials), so an admin's browser does not store them in plain text
+ */
+const withoutSecrets = (config: AppConfig): AppConfig => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { defaultCredentials, mediamtxApi, ...rest } = config;
+  return {
+    ...rest,
+    ...(mediamtxApi && { mediamtxApi: { url: mediamtxApi.url } }),
+    cameras: config.cameras.map(camera => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { credentials, onvif, ...cached } = camera;
+      if (!onvif) return cached;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { credentials: onvifCredentials, ...onvifSettings } = onvif;
+      return { ...cached, onvif: onvifSettings };
+    }),
+  };
+};
+
+const clearConfigCache = (): void => {
+  try {
+    localStorage.removeItem(STORAGE_KEYS.APP_CONFIG);
+    localStorage.removeItem(STORAGE_KEYS.CONFIG_VERSION);
+  } catch (error) {
+    console.warn('Failed to clear cached config:', error);
+  }
+};
+
+const cacheSharedConfig = (shared: SharedConfig): void => {
+  saveConfig(withoutSecrets(shared.config));
+  try {
+    localStorage.setItem(STORAGE_KEYS.CONFIG_VERSION, String(shared.version));
+  } catch (error) {
+    console.warn('Failed to cache config version:', error);
+  }
+};
+
+const toSharedConfig = (data: SharedConfigResponse): SharedConfig => ({
+  config: deserializeConfig(data.config || {}),
+  version: Number(data.version) || 0,
+  updatedAt: data.updatedAt,
+  updatedBy: data.updatedBy,
+});
+
+/**
+ * Load the shared configuration from the server and refresh the local cache
+ * Falls back to the cache when the server cannot be reached or fails (5xx); a session the server no longer
+ * accepts clears the cache and goes to the login page. Before anyone has saved a shared config (version 0)
+ * a previously cached browser config is kept so nothing is lost
+ */
+export const fetchSharedConfig = async (): Promise<SharedConfig> => {
+  const cached = (): SharedConfig => ({
+    config: loadConfig(),
+    version: getCachedConfigVersion(),
+    offline: true,
+  });
+
+  let response: Response;
+  try {
+    response = await fetch('/api/config', {
+      credentials: 'include',
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.warn('Failed to load shared config, using local cache:', error);
+    return cached();
+  }
+
+  if (response.status >= 500) {
+    return cached();
+  }
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      clearConfigCache();
+      const redirectTo = `${window.location.pathname}${window.location.search}`;
+      window.location.assign(`/login?redirectTo=${encodeURIComponent(redirectTo)}`);
+    }
+    // Nothing to show (and nothing to save) until the user signs in again
+    return { config: DEFAULT_CONFIG as AppConfig, version: 0, offline: true };
+  }
+
+  try {
+    const data: SharedConfigResponse = await response.json();
+    const shared = toSharedConfig(data);
+    if (shared.version === 0 && localStorage.getItem(STORAGE_KEYS.APP_CONFIG)) {
+      // The cache holds no secrets - the server's MediaMTX API and default credentials stay
+      const config = loadConfig();
+      return {
+        ...shared,
+        config: { ...config, defaultCredentials: shared.config.defaultCredentials, mediamtxApi: shared.config.mediamtxApi },
+      };
+    }
+
+    cacheSharedConfig(shared);
+    return shared;
+  } catch (error) {
+    console.warn('Invalid shared config response, using local cache:', error);
+    return cached();
+  }
+};
+
+/**
+ * Save the shared configuration (admin only)
+ * `baseVersion` is the version the edit started from - a newer server version is reported as a conflict
+ */
+export const saveSharedConfig = async (
+  config: AppConfig,
+  baseVersion: number
+): Promise<SharedConfigSaveResult> => {
+  try {
+    const response = await fetch('/api/config', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'If-Match': `"${baseVersion}"`,
+      },
+      credentials: 'include',
+      body: JSON.stringify(serializeConfig(config)),
+    });
+    const data: SharedConfigResponse = await response.json();
+
+    if (data.success) {
+      const shared = toSharedConfig(data);
+      cacheSharedConfig(shared);
+      return { success: true, message: data.message, shared, warnings: data.warnings };
+    }
+
+    if (data.conflict) {
+      return { success: false, conflict: true, message: data.message, shared: toSharedConfig(data) };
+    }
+
+    return { success: false, message: data.message || 'Failed to save settings' };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+};
+
 /**
  * Load credentials from localStorage (only if remember is enabled)
  * Safe for server-side rendering
@@ -160,6 +362,23 @@ export const buildWhepUrl = (serverUrl: string, cameraPath: string): string => {
   return `${baseUrl}/${path}/whep`;
 };
 
+/**
+ * Build WHIP URL for publishing to a path
+ * MediaMTX uses /{path}/whip endpoint format
+ */
+export const buildWhipUrl = (serverUrl: string, path: string): string => {
+  const baseUrl = serverUrl.replace(/\/$/, ''); // Remove trailing slash
+  return `${baseUrl}/${path.replace(/^\//, '')}/whip`;
+};
+
+/**
+ * MediaMTX path to play for a camera at the given quality
+ * Cameras without a sub-stream always use their main path
+ */
+export const getStreamPath = (camera: Pick<Camera, 'path' | 'subPath'>, quality: StreamQuality): string => {
+  return quality === 'sub' && camera.subPath ? camera.subPath : camera.path;
+};
+
 /**
  * Validate server URL format
  */
@@ -0,0 +1,18 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ * Starts background work that has to run without anyone having the app open, and records connection addresses
+ */
+export async function register() {
+  // Only in the Node.js server - the scheduler and notifications use the filesystem, sockets and timers
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Before any request is handled, so the login rate limiter always sees the real client
+    const { recordConnectionAddresses } = await import('@/lib/site-auth/connection-address');
+    recordConnectionAddresses();
+
+    const { startRecordingScheduler } = await import('@/lib/recordings/scheduler');
+    startRecordingScheduler();
+
+    const { startNotifications } = await import('@/lib/notifications/notifier');
+    await startNotifications();
+  }
+}
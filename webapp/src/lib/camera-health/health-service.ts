@@ -0,0 +1,276 @@
+/**
+ * Camera health polling
+ * Probes every configured camera and keeps its status and last-seen time, preferring path
+ * readiness from the MediaMTX Control API and falling back to an HLS manifest request.
+ * With the Control API, whether MediaMTX is recording the path is tracked too.
+ * Polling only runs while someone is listening; offline cameras are probed less and less often.
+ * NOTE: Server-only - state lives in this process (see process-state)
+ */
+
+import { getStoredConfig } from '@/config/config-store';
+import { recordEvent } from '@/lib/events/event-store';
+import { buildHlsUrl } from '@/lib/hls/url';
+import { listPathConfigs, listPaths } from '@/lib/mediamtx/api-client';
+import { getProcessState } from '@/lib/storage/process-state';
+import { AppConfig, Camera, CameraStatus, Credentials } from '@/types';
+import type { CameraHealth } from './index';
+
+const TICK_INTERVAL = 5 * 1000; // how often due cameras are looked for
+const CHECK_INTERVAL = 15 * 1000; // online and unknown cameras
+const MAX_BACKOFF = 5 * 60 * 1000; // offline cameras, doubling up to this
+const PROBE_TIMEOUT = 5000;
+
+interface CameraHealthEntry extends CameraHealth {
+  path: string;
+  failures: number; // consecutive offline probes
+  nextCheckAt: number;
+}
+
+export type CameraHealthListener = (changes: CameraHealth[]) => void;
+
+interface CameraHealthState {
+  entries: Map<string, CameraHealthEntry>;
+  listeners: Set<CameraHealthListener>;
+  timer: ReturnType<typeof setTimeout> | null;
+  polling: Promise<CameraHealth[]> | null;
+}
+
+function getState(): CameraHealthState {
+  return getProcessState<CameraHealthState>('camera-health', () => ({
+    entries: new Map(),
+    listeners: new Set(),
+    timer: null,
+    polling: null,
+  }));
+}
+
+/**
+ * Delay until the next probe: a fixed interval while reachable,
+ * exponential backoff after consecutive offline probes
+ */
+export function getNextCheckDelay(status: CameraStatus, failures: number): number {
+  if (status !== 'offline') return CHECK_INTERVAL;
+  return Math.min(CHECK_INTERVAL * 2 ** Math.max(0, failures - 1), MAX_BACKOFF);
+}
+
+/**
+ * Lightweight probe for servers without the Control API
+ * MediaMTX answers 404 while a path has no publisher; auth failures say nothing about the camera
+ */
+export async function probeHlsManifest(
+  serverUrl: string,
+  path: string,
+  credentials?: Credentials
+): Promise<CameraStatus> {
+  const headers: Record<string, string> = {};
+  if (credentials?.username) {
+    headers.Authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+  }
+
+  try {
+    const response = await fetch(buildHlsUrl(serverUrl, path), {
+      headers,
+      cache: 'no-store',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    });
+    await response.body?.cancel();
+
+    if (response.ok) return 'online';
+    if (response.status === 401 || response.status === 403) return 'unknown';
+    return 'offline';
+  } catch {
+    return 'offline';
+  }
+}
+
+interface CameraProbe {
+  status: CameraStatus;
+  recording: boolean;
+}
+
+/**
+ * Probe a batch of cameras, one Control API call for all of them when it is configured
+ * A path is recording while it is ready and its configuration has `record: true`
+ */
+async function probeCameras(config: AppConfig, cameras: Camera[]): Promise<Map<string, CameraProbe>> {
+  const probes = new Map<string, CameraProbe>();
+
+  if (config.mediamtxApi?.url) {
+    const [paths, pathConfigs] = await Promise.all([
+      listPaths(config.mediamtxApi),
+      listPathConfigs(config.mediamtxApi),
+    ]);
+    if (paths.data) {
+      const recordedConfigs = new Set(
+        (pathConfigs.data || []).filter(pathConfig => pathConfig.record).map(pathConfig => pathConfig.name)
+      );
+      const readyPaths = new Map(paths.data.filter(path => path.ready).map(path => [path.name, path]));
+      for (const camera of cameras) {
+        const path = readyPaths.get(camera.path);
+        probes.set(camera.id, {
+          status: path ? 'online' : 'offline',
+          recording: !!path && recordedConfigs.has(path.confName || path.name),
+        });
+      }
+      return probes;
+    }
+    // API unreachable or misconfigured - probe the streams directly instead
+  }
+
+  await Promise.all(cameras.map(async camera => {
+    const credentials = camera.credentials || config.defaultCredentials;
+    const status = await probeHlsManifest(config.serverUrl, camera.path, credentials);
+    probes.set(camera.id, { status, recording: false });
+  }));
+  return probes;
+}
+
+/**
+ * Log what changed since the previous probe of a camera (not its first probe after a restart)
+ */
+function recordHealthEvents(camera: Camera, previous: CameraHealthEntry, entry: CameraHealthEntry): void {
+  const source = { cameraId: camera.id, cameraName: camera.name, time: new Date(entry.checkedAt!) };
+
+  if (entry.status !== previous.status && entry.status !== 'unknown') {
+    void recordEvent({
+      ...source,
+      type: entry.status === 'online' ? 'camera-online' : 'camera-offline',
+      message: entry.status === 'online' ? `${camera.name} is online` : `${camera.name} went offline`,
+    });
+  }
+  if (entry.recording !== previous.recording) {
+    void recordEvent({
+      ...source,
+      type: entry.recording ? 'recording-started' : 'recording-stopped',
+      message: `Recording ${entry.recording ? 'started' : 'stopped'} on ${camera.name}`,
+    });
+  }
+}
+
+function toHealth({ cameraId, status, recording, lastSeen, checkedAt }: CameraHealthEntry): CameraHealth {
+  return { cameraId, status, recording, lastSeen, checkedAt };
+}
+
+async function runPoll(now: number): Promise<CameraHealth[]> {
+  const state = getState();
+  const { config } = await getStoredConfig();
+
+  // Forget removed cameras and start over for cameras whose path changed
+  for (const [cameraId, entry] of state.entries) {
+    const camera = config.cameras.find(item => item.id === cameraId);
+    if (camera?.path !== entry.path) {
+      state.entries.delete(cameraId);
+    }
+  }
+
+  const due = config.cameras.filter(camera => {
+    const entry = state.entries.get(camera.id);
+    return !entry || entry.nextCheckAt <= now;
+  });
+  if (due.length === 0) return [];
+
+  const probes = await probeCameras(config, due);
+  const checkedAt = new Date(now).toISOString();
+  const changes: CameraHealth[] = [];
+
+  for (const camera of due) {
+    const { status, recording } = probes.get(camera.id) || { status: 'unknown', recording: false };
+    const previous = state.entries.get(camera.id);
+    const failures = status === 'offline' ? (previous?.failures || 0) + 1 : 0;
+    const entry: CameraHealthEntry = {
+      cameraId: camera.id,
+      path: camera.path,
+      status,
+      recording,
+      lastSeen: status === 'online' ? checkedAt : previous?.lastSeen || null,
+      checkedAt,
+      failures,
+      nextCheckAt: now + getNextCheckDelay(status, failures),
+    };
+    state.entries.set(camera.id, entry);
+
+    if (!previous || previous.status !== status || previous.recording !== recording) {
+      changes.push(toHealth(entry));
+      if (previous) recordHealthEvents(camera, previous, entry);
+    }
+  }
+
+  if (changes.length > 0) {
+    for (const listener of state.listeners) {
+      listener(changes);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Probe every camera that is due and notify listeners of status changes
+ * Concurrent calls share the poll in progress; returns the changed cameras
+ */
+export function pollCameraHealth(now: number = Date.now()): Promise<CameraHealth[]> {
+  const state = getState();
+  if (!state.polling) {
+    state.polling = runPoll(now).finally(() => {
+      state.polling = null;
+    });
+  }
+  return state.polling;
+}
+
+/**
+ * Probe cameras again right away (e.g., after recording was switched) instead of waiting for their turn
+ */
+export function recheckCameraHealth(cameraIds: string[], now: number = Date.now()): Promise<CameraHealth[]> {
+  const state = getState();
+  for (const cameraId of cameraIds) {
+    const entry = state.entries.get(cameraId);
+    if (entry) entry.nextCheckAt = now;
+  }
+  return pollCameraHealth(now);
+}
+
+/**
+ * Current health of every camera probed so far
+ */
+export function getCameraHealth(): CameraHealth[] {
+  return Array.from(getState().entries.values()).map(toHealth);
+}
+
+function scheduleTick() {
+  const state = getState();
+  const timer = setTimeout(async () => {
+    try {
+      await pollCameraHealth();
+    } catch (error) {
+      console.error('Camera health poll error:', error);
+    }
+    // A newer timer took over if polling was stopped and restarted meanwhile
+    if (state.timer === timer && state.listeners.size > 0) {
+      scheduleTick();
+    }
+  }, TICK_INTERVAL);
+  // Never keep the process alive just for polling
+  timer.unref?.();
+  state.timer = timer;
+}
+
+/**
+ * Listen for status changes; the first listener starts polling and the last one stops it
+ * Returns a function that removes the listener
+ */
+export function subscribeCameraHealth(listener: CameraHealthListener): () => void {
+  const state = getState();
+  state.listeners.add(listener);
+  if (!state.timer) {
+    scheduleTick();
+  }
+
+  return () => {
+    state.listeners.delete(listener);
+    if (state.listeners.size === 0 && state.timer) {
+      clearTimeout(state.timer);
+      state.timer = null;
+    }
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Camera health - live status, recording state and last-seen time of cameras, probed by the server
+ * Safe to import from client components (probing happens in health-service.ts)
+ */
+
+import { Camera, CameraStatus } from '@/types';
+
+/**
+ * Result of the latest probe of a camera
+ */
+export interface CameraHealth {
+  cameraId: string;
+  status: CameraStatus;
+  recording: boolean; // MediaMTX is recording the path (only known with the Control API)
+  lastSeen: string | null; // ISO time of the last probe that found the camera online
+  checkedAt: string | null;
+}
+
+export type CameraHealthMap = Record<string, CameraHealth>;
+
+// Last known statuses, shown while the server cannot be reached
+const HEALTH_STORAGE_KEY = 'camsuite_camera_health';
+
+/**
+ * Merge health updates into a map keyed by camera id
+ */
+export function mergeCameraHealth(current: CameraHealthMap, updates: CameraHealth[]): CameraHealthMap {
+  const next = { ...current };
+  for (const health of updates) {
+    next[health.cameraId] = health;
+  }
+  return next;
+}
+
+/**
+ * Apply probed status, recording state and last-seen time to cameras (cameras not probed yet are left as they are)
+ */
+export function applyCameraHealth(cameras: Camera[], health: CameraHealthMap): Camera[] {
+  return cameras.map(camera => {
+    const probed = health[camera.id];
+    if (!probed) return camera;
+    return {
+      ...camera,
+      status: probed.status,
+      recording: probed.recording,
+      lastSeen: probed.lastSeen ? new Date(probed.lastSeen) : camera.lastSeen,
+    };
+  });
+}
+
+/**
+ * Load the last known statuses saved in this browser
+ */
+export function loadCachedCameraHealth(): CameraHealthMap {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = localStorage.getItem(HEALTH_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CameraHealthMap) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save the latest statuses for when the server cannot be reached
+ */
+export function saveCachedCameraHealth(health: CameraHealthMap): void {
+  try {
+    localStorage.setItem(HEALTH_STORAGE_KEY, JSON.stringify(health));
+  } catch (error) {
+    console.warn('Failed to save camera status to localStorage:', error);
+  }
+}
+
+/**
+ * Receive status changes pushed by the server (Server-Sent Events)
+ * The first message holds every camera; EventSource reconnects on its own after errors
+ * Returns a function that closes the stream
+ */
+export function watchCameraHealth(onUpdate: (updates: CameraHealth[]) => void): () => void {
+  const source = new EventSource('/api/cameras/status/stream', { withCredentials: true });
+
+  source.addEventListener('status', event => {
+    try {
+      onUpdate(JSON.parse((event as MessageEvent<string>).data));
+    } catch {
+      // Ignore malformed messages
+    }
+  });
+
+  return () => source.close();
+}
@@ -0,0 +1,238 @@
+/**
+ * Video clips - short recordings of the live player, made in the browser with MediaRecorder
+ * Clips stay in memory (object URLs) until they are downloaded or the page is left
+ * With pre-roll, overlapping recorders run all the time so a clip starts with footage from before the click
+ */
+
+export interface Clip {
+  id: string;
+  cameraId: string;
+  cameraName: string;
+  startedAt: Date; // including pre-roll
+  duration: number; // seconds
+  size: number; // bytes
+  mimeType: string;
+  url: string; // object URL of the clip's blob
+}
+
+export const CLIP_PRE_ROLL_OPTIONS = [0, 5, 10, 30]; // seconds
+export const MAX_CLIP_SECONDS = 10 * 60; // clips are held in memory
+
+const PRE_ROLL_KEY = 'camsuite_clip_pre_roll';
+const CHUNK_INTERVAL = 1000;
+
+// Preferred first; Safari only records MP4
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+export function isClipCaptureSupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.MediaRecorder !== 'undefined';
+}
+
+/**
+ * Stream to record from a player's video element: the WebRTC stream itself,
+ * or a capture of what the element plays (HLS). Null when the browser cannot capture it.
+ */
+export function getVideoStream(video: HTMLVideoElement): MediaStream | null {
+  if (typeof MediaStream !== 'undefined' && video.srcObject instanceof MediaStream) {
+    return video.srcObject;
+  }
+  const capturable = video as CapturableVideo;
+  try {
+    return capturable.captureStream?.() || capturable.mozCaptureStream?.() || null;
+  } catch {
+    // e.g., cross-origin media
+    return null;
+  }
+}
+
+/**
+ * First clip format the browser can record, or '' to let it choose
+ */
+export function pickClipMimeType(
+  isTypeSupported: (type: string) => boolean = type => MediaRecorder.isTypeSupported(type)
+): string {
+  return MIME_TYPES.find(type => isTypeSupported(type)) || '';
+}
+
+/**
+ * Start of a download name for something captured from a camera, e.g. "front-door-20240115-223005"
+ */
+export function getCaptureBaseName(cameraName: string, date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  const name = cameraName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'camera';
+  return `${name}-${stamp}`;
+}
+
+/**
+ * Download name of a clip, e.g. "front-door-20240115-223005.webm"
+ */
+export function getClipFileName(clip: Pick<Clip, 'cameraName' | 'startedAt' | 'mimeType'>): string {
+  const extension = clip.mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+  return `${getCaptureBaseName(clip.cameraName, clip.startedAt)}.${extension}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatClipDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+export function loadClipPreRoll(): number {
+  try {
+    const value = Number(localStorage.getItem(PRE_ROLL_KEY));
+    return CLIP_PRE_ROLL_OPTIONS.includes(value) ? value : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function saveClipPreRoll(seconds: number): void {
+  try {
+    localStorage.setItem(PRE_ROLL_KEY, String(seconds));
+  } catch (error) {
+    console.warn('Failed to save clip pre-roll to localStorage:', error);
+  }
+}
+
+export interface RecordedClip {
+  blob: Blob;
+  startedAt: number; // ms timestamp, including pre-roll
+  duration: number; // seconds
+}
+
+export interface ClipRecorder {
+  readonly isRecording: boolean;
+  startClip(): void;
+  stopClip(): Promise<RecordedClip>;
+  dispose(): void;
+}
+
+interface ClipRecorderOptions {
+  preRollSeconds?: number;
+  mimeType?: string;
+  createRecorder?: (stream: MediaStream, options: MediaRecorderOptions) => MediaRecorder;
+  now?: () => number;
+}
+
+interface RunningRecorder {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+/**
+ * Record clips of a stream
+ * Without pre-roll a recorder starts on `startClip`. With pre-roll a new recorder starts every
+ * `preRollSeconds` and only the two newest are kept, so the oldest always holds between one and two
+ * pre-roll lengths of footage; `startClip` keeps recording with that one. Every clip is a complete
+ * file of its own, which trimming a single recording's chunks could not guarantee.
+ */
+export function createClipRecorder(stream: MediaStream, {
+  preRollSeconds = 0,
+  mimeType = '',
+  createRecorder = (source, options) => new MediaRecorder(source, options),
+  now = Date.now,
+}: ClipRecorderOptions = {}): ClipRecorder {
+  let armed: RunningRecorder[] = [];
+  let clip: RunningRecorder | null = null;
+  let rotation: ReturnType<typeof setInterval> | null = null;
+  let disposed = false;
+
+  const startRecorder = (): RunningRecorder => {
+    const recorder = createRecorder(stream, mimeType ? { mimeType } : {});
+    const running: RunningRecorder = { recorder, chunks: [], startedAt: now() };
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) running.chunks.push(event.data);
+    };
+    recorder.start(CHUNK_INTERVAL);
+    return running;
+  };
+
+  const discard = (running: RunningRecorder) => {
+    running.recorder.ondataavailable = null;
+    if (running.recorder.state !== 'inactive') running.recorder.stop();
+    running.chunks = [];
+  };
+
+  const arm = () => {
+    if (preRollSeconds <= 0 || disposed) return;
+    armed = [startRecorder()];
+    rotation = setInterval(() => {
+      armed.push(startRecorder());
+      while (armed.length > 2) discard(armed.shift()!);
+    }, preRollSeconds * 1000);
+  };
+
+  const disarm = () => {
+    if (rotation) clearInterval(rotation);
+    rotation = null;
+    armed.forEach(discard);
+    armed = [];
+  };
+
+  arm();
+
+  return {
+    get isRecording() {
+      return clip !== null;
+    },
+
+    startClip() {
+      if (clip || disposed) return;
+      const [oldest, ...rest] = armed;
+      if (rotation) clearInterval(rotation);
+      rotation = null;
+      rest.forEach(discard);
+      armed = [];
+      clip = oldest || startRecorder();
+    },
+
+    stopClip() {
+      const running = clip;
+      if (!running) {
+        return Promise.reject(new Error('No clip is being recorded'));
+      }
+      clip = null;
+
+      return new Promise<RecordedClip>(resolve => {
+        const stoppedAt = now();
+        const finish = () => resolve({
+          blob: new Blob(running.chunks, { type: running.recorder.mimeType || mimeType || 'video/webm' }),
+          startedAt: running.startedAt,
+          duration: (stoppedAt - running.startedAt) / 1000,
+        });
+        // A recorder stops by itself when the stream ends
+        if (running.recorder.state === 'inactive') {
+          finish();
+        } else {
+          running.recorder.onstop = finish;
+          running.recorder.stop();
+        }
+        arm();
+      });
+    },
+
+    dispose() {
+      disposed = true;
+      disarm();
+      if (clip) discard(clip);
+      clip = null;
+    },
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Server-side event log
+ * Append-only JSON Lines file in the data directory; once it grows past MAX_LOG_SIZE it is
+ * moved aside to events.1.jsonl (replacing the one before), so the log keeps the latest
+ * one to two files worth of events
+ * NOTE: Server-only - import from API routes and server modules, never from client components
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataFilePath } from '@/lib/storage/json-file-store';
+import { getProcessState, withProcessLock } from '@/lib/storage/process-state';
+import {
+  DEFAULT_EVENT_PAGE_SIZE,
+  EventPage,
+  EventQuery,
+  isEventType,
+  LoggedEvent,
+  MAX_EVENT_MESSAGE_LENGTH,
+  MAX_EVENT_PAGE_SIZE,
+} from './index';
+
+const LOG_FILE = 'events.jsonl';
+const PREVIOUS_LOG_FILE = 'events.1.jsonl';
+export const MAX_LOG_SIZE = 5 * 1024 * 1024;
+
+export type NewEvent = Omit<LoggedEvent, 'id' | 'time'> & { time?: Date };
+
+export type EventListener = (event: LoggedEvent) => void;
+
+function getListeners(): Set<EventListener> {
+  return getProcessState('events:listeners', () => new Set<EventListener>());
+}
+
+async function readLogFile(fileName: string): Promise<LoggedEvent[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getDataFilePath(fileName), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const events: LoggedEvent[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const event = JSON.parse(line);
+      if (isEventType(event?.type) && typeof event.id === 'string' && typeof event.time === 'string') {
+        events.push(event);
+      }
+    } catch {
+      // A line cut short by a crash - skip it
+    }
+  }
+  return events;
+}
+
+/**
+ * Append an event to the log
+ * `quietPeriod` drops the event when one of the same type was logged for the camera that recently,
+ * e.g. when several open players report the same motion
+ */
+export async function appendEvent(input: NewEvent, quietPeriod: number = 0): Promise<LoggedEvent | null> {
+  const { time = new Date(), ...details } = input;
+  const event: LoggedEvent = {
+    id: randomUUID(),
+    ...details,
+    time: time.toISOString(),
+    message: details.message.slice(0, MAX_EVENT_MESSAGE_LENGTH),
+  };
+
+  const logged = await withProcessLock('events', async () => {
+    if (quietPeriod > 0) {
+      const lastLogged = getProcessState('events:last-logged', () => new Map<string, number>());
+      const key = `${event.type}:${event.cameraId || ''}`;
+      if (time.getTime() - (lastLogged.get(key) ?? -Infinity) < quietPeriod) return null;
+      lastLogged.set(key, time.getTime());
+    }
+
+    const filePath = getDataFilePath(LOG_FILE);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const size = await fs.stat(filePath).then(stats => stats.size, () => 0);
+    if (size >= MAX_LOG_SIZE) {
+      await fs.rename(filePath, getDataFilePath(PREVIOUS_LOG_FILE));
+    }
+    await fs.appendFile(filePath, `${JSON.stringify(event)}\n`, { encoding: 'utf8', mode: 0o600 });
+    return event;
+  });
+
+  if (logged) {
+    for (const listener of getListeners()) {
+      listener(logged);
+    }
+  }
+  return logged;
+}
+
+/**
+ * Call `listener` with every event logged from now on (e.g., to send notifications)
+ * Returns a function that removes the listener
+ */
+export function subscribeEvents(listener: EventListener): () => void {
+  const listeners = getListeners();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Log an event without ever failing the caller (status polling, sign-in, ...)
+ */
+export async function recordEvent(input: NewEvent, quietPeriod?: number): Promise<void> {
+  try {
+    await appendEvent(input, quietPeriod);
+  } catch (error) {
+    console.error('Failed to record event:', error);
+  }
+}
+
+/**
+ * One page of logged events, newest first
+ * `visible` hides events the caller may not see before paging, so pages stay full
+ */
+export async function queryEvents(
+  query: EventQuery,
+  visible: (event: LoggedEvent) => boolean = () => true
+): Promise<EventPage> {
+  const logged = [...await readLogFile(PREVIOUS_LOG_FILE), ...await readLogFile(LOG_FILE)].reverse();
+  const limit = Math.min(Math.max(1, query.limit || DEFAULT_EVENT_PAGE_SIZE), MAX_EVENT_PAGE_SIZE);
+  const from = query.from ? Date.parse(query.from) : -Infinity;
+  const to = query.to ? Date.parse(query.to) : Infinity;
+
+  let start = 0;
+  if (query.cursor) {
+    // Events older than the cursor moved out of the log - nothing left to page through
+    start = logged.findIndex(event => event.id === query.cursor) + 1;
+    if (start === 0) return { events: [], nextCursor: null };
+  }
+
+  const matches = logged.slice(start).filter(event => {
+    const time = Date.parse(event.time);
+    return (
+      time >= from &&
+      time < to &&
+      (!query.cameraId || event.cameraId === query.cameraId) &&
+      (!query.types?.length || query.types.includes(event.type)) &&
+      visible(event)
+    );
+  });
+
+  const events = matches.slice(0, limit);
+  return {
+    events,
+    nextCursor: matches.length > limit ? events[events.length - 1].id : null,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Event log - what happened when: cameras going on- and offline, recording starting and stopping,
+ * motion, streams failing in a player and users signing in and out
+ * Safe to import from client components (the log is stored by event-store.ts)
+ */
+
+export type EventType =
+  | 'camera-online'
+  | 'camera-offline'
+  | 'recording-started'
+  | 'recording-stopped'
+  | 'motion'
+  | 'stream-failed'
+  | 'login'
+  | 'login-new-device'
+  | 'login-failed'
+  | 'logout';
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  'camera-online': 'Camera online',
+  'camera-offline': 'Camera offline',
+  'recording-started': 'Recording started',
+  'recording-stopped': 'Recording stopped',
+  motion: 'Motion',
+  'stream-failed': 'Stream failed',
+  login: 'Sign-in',
+  'login-new-device': 'Sign-in from a new device',
+  'login-failed': 'Failed sign-in',
+  logout: 'Sign-out',
+};
+
+export const EVENT_TYPES = Object.keys(EVENT_TYPE_LABELS) as EventType[];
+
+// Reported by players in the browser; everything else is recorded by the server itself
+export const CLIENT_EVENT_TYPES: EventType[] = ['motion', 'stream-failed'];
+
+/**
+ * An entry in the event log
+ * Camera events carry the camera; sign-in events only the username
+ */
+export interface LoggedEvent {
+  id: string;
+  type: EventType;
+  time: string; // ISO date
+  cameraId?: string;
+  cameraName?: string; // at the time of the event
+  username?: string; // who signed in or whose player reported it
+  message: string;
+}
+
+export interface EventQuery {
+  cameraId?: string;
+  types?: EventType[];
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, exclusive
+  limit?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface EventPage {
+  events: LoggedEvent[]; // newest first
+  nextCursor: string | null; // null on the last page
+}
+
+export const DEFAULT_EVENT_PAGE_SIZE = 50;
+export const MAX_EVENT_PAGE_SIZE = 200;
+export const MAX_EVENT_MESSAGE_LENGTH = 200;
+
+export function isEventType(value: unknown): value is EventType {
+  return typeof value === 'string' && value in EVENT_TYPE_LABELS;
+}
+
+/**
+ * One page of the events the user may see, newest first
+ */
+export async function fetchEvents(query: EventQuery = {}): Promise<EventPage & { error?: string }> {
+  const params = new URLSearchParams();
+  if (query.cameraId) params.set('cameraId', query.cameraId);
+  if (query.types?.length) params.set('type', query.types.join(','));
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+
+  try {
+    const response = await fetch(`/api/events?${params}`, { credentials: 'include', cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      return { events: [], nextCursor: null, error: data.message || 'Failed to load events' };
+    }
+    return { events: data.events, nextCursor: data.nextCursor };
+  } catch {
+    return { events: [], nextCursor: null, error: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Add a player event (motion, stream failure) to the log
+ * Best effort - a player never waits for or fails because of it
+ */
+export function reportEvent(event: { type: EventType; cameraId: string; message?: string }): void {
+  fetch('/api/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(event),
+  }).catch(() => undefined);
+}
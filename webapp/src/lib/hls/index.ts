@@ -6,6 +6,8 @@
 import Hls from 'hls.js';
 import { Credentials } from '@/types';
 
+export { buildHlsUrl } from './url';
+
 /**
  * Check if HLS is supported in the current browser
  */
@@ -21,21 +23,6 @@ export function isNativeHlsSupported(): boolean {
   return Boolean(video.canPlayType('application/vnd.apple.mpegurl'));
 }
 
-/**
- * Build HLS URL for a camera stream
- * MediaMTX HLS endpoint: http://server:8888/{path}/index.m3u8
- */
-export function buildHlsUrl(serverUrl: string, cameraPath: string): string {
-  // Extract base URL and replace port with HLS port (8888)
-  const url = new URL(serverUrl);
-  url.port = '8888';
-  
-  const baseUrl = url.toString().replace(/\/$/, ''); // Remove trailing slash
-  const path = cameraPath.replace(/^\//, ''); // Remove leading slash
-  
-  return `${baseUrl}/${path}/index.m3u8`;
-}
-
 /**
  * Create authorization header for HLS requests
  */
@@ -0,0 +1,19 @@
+/**
+ * HLS URL helpers
+ * Kept apart from the hls.js integration so server code can use them
+ */
+
+/**
+ * Build HLS URL for a camera stream
+ * MediaMTX HLS endpoint: http://server:8888/{path}/index.m3u8
+ */
+export function buildHlsUrl(serverUrl: string, cameraPath: string): string {
+  // Extract base URL and replace port with HLS port (8888)
+  const url = new URL(serverUrl);
+  url.port = '8888';
+  
+  const baseUrl = url.toString().replace(/\/$/, ''); // Remove trailing slash
+  const path = cameraPath.replace(/^\//, ''); // Remove leading slash
+  
+  return `${baseUrl}/${path}/index.m3u8`;
+}
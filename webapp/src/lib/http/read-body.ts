@@ -0,0 +1,35 @@
+/**
+ * Request bodies with a size limit
+ * Uploads are read chunk by chunk so an oversized body is dropped long before it fills memory
+ * NOTE: Server-only
+ */
+
+/**
+ * Whether the request announces a body larger than `maxBytes` - check before reading anything
+ */
+export function exceedsContentLength(request: Request, maxBytes: number): boolean {
+  return Number(request.headers.get('content-length')) > maxBytes;
+}
+
+/**
+ * Read the request body, giving up as soon as it grows past `maxBytes`
+ * Returns null for an empty or oversized body
+ */
+export async function readBodyWithLimit(request: Request, maxBytes: number): Promise<Buffer | null> {
+  if (!request.body) return null;
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return size > 0 ? Buffer.concat(chunks) : null;
+}
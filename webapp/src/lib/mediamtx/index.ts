@@ -0,0 +1,80 @@
+/**
+ * MediaMTX integration - camera discovery through the server-side Control API client
+ * Safe to import from client components (the API itself is only called by /api routes)
+ */
+
+import { Camera, MediaMtxApiConfig } from '@/types';
+
+/**
+ * A MediaMTX path offered for import as a camera
+ */
+export interface DiscoveredPath {
+  name: string;
+  ready: boolean; // a source is currently publishing
+  readyTime: string | null;
+  sourceType: string | null; // e.g., "rtspSource", "publisher", "rpiCameraSource"
+  sourceUrl: string | null; // configured source with the password masked
+  tracks: string[]; // e.g., ["H264", "Opus"]
+  readers: number;
+  configured: boolean; // present in the MediaMTX config (not only created by a publisher)
+}
+
+export interface DiscoverCamerasResult {
+  success: boolean;
+  message?: string;
+  paths: DiscoveredPath[];
+}
+
+/**
+ * Turn a path name into a readable camera name ("front_door" → "Front Door")
+ */
+export function formatPathName(path: string): string {
+  return path
+    .split('/')
+    .pop()!
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ') || path;
+}
+
+/**
+ * Create Camera entries for discovered paths, skipping paths that already have a camera
+ */
+export function createCamerasFromPaths(paths: DiscoveredPath[], existingCameras: Camera[]): Camera[] {
+  const existingPaths = new Set(existingCameras.map(camera => camera.path));
+  const createdAt = Date.now();
+
+  return paths
+    .filter(path => !existingPaths.has(path.name))
+    .map((path, index) => ({
+      id: `camera-${createdAt}-${index}`,
+      name: formatPathName(path.name),
+      path: path.name,
+      status: path.ready ? 'online' : 'offline',
+      ...(path.ready && { lastSeen: new Date() }),
+    }));
+}
+
+/**
+ * List MediaMTX paths through the server (admin only)
+ * Pass the API settings being edited to try them before saving; otherwise the saved ones are used
+ */
+export async function discoverCameras(api?: MediaMtxApiConfig): Promise<DiscoverCamerasResult> {
+  try {
+    const response = await fetch('/api/mediamtx/discover', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(api ? { mediamtxApi: api } : {}),
+    });
+    const data = await response.json();
+    return {
+      success: data.success === true,
+      message: data.message,
+      paths: data.paths || [],
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.', paths: [] };
+  }
+}
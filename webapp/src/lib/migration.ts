@@ -5,7 +5,7 @@
 
 import { loadCredentials, clearCredentials } from '@/config';
 import { setDefaultCameraCredentials } from './camera-auth';
-import { getSiteAuthConfig } from './site-auth';
+import { clearLegacySiteCredentials } from './site-auth';
 
 /**
  * Migrate from legacy single-credential system to new dual auth system
@@ -18,11 +18,9 @@ export function migrateLegacyAuth(): {
     return { migrated: false, needsSiteSetup: false };
   }
 
-  // Check if site auth is already configured
-  const siteConfig = getSiteAuthConfig();
-  if (!siteConfig.isFirstLaunch) {
-    return { migrated: false, needsSiteSetup: false };
-  }
+  // Site credentials now live on the server - drop any plaintext copy
+  // left in localStorage by older versions
+  clearLegacySiteCredentials();
 
   // Check if old credentials exist
   const oldCredentials = loadCredentials();
@@ -46,7 +44,7 @@ export function migrateLegacyAuth(): {
     }
   }
 
-  return { migrated: false, needsSiteSetup: true };
+  return { migrated: false, needsSiteSetup: false };
 }
 
 /**
@@ -56,8 +54,7 @@ export function needsMigration(): boolean {
   if (typeof window === 'undefined') return false;
   
   const oldCredentials = loadCredentials();
-  const siteConfig = getSiteAuthConfig();
   
-  // Migration needed if old credentials exist but site auth not configured
-  return !!oldCredentials && siteConfig.isFirstLaunch;
+  // Migration needed if old single-credential data exists
+  return !!oldCredentials;
 }
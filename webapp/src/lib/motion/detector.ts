@@ -0,0 +1,174 @@
+/**
+ * Motion detector - frame differencing over small, downsampled video frames
+ * A pixel has changed when its brightness moved more than a threshold since the previous frame;
+ * there is motion when enough of a watched area (an include zone, or the picture outside exclude zones)
+ * changed on consecutive frames
+ * Plain functions without DOM access: runs inside the motion worker and in unit tests
+ */
+
+import { MotionSettings, MotionZone } from '@/types';
+import { isPointInPolygon, MAX_MOTION_SENSITIVITY } from './zones';
+
+export const DEFAULT_MOTION_SENSITIVITY = 50;
+
+const MIN_MOTION_FRAMES = 2; // a single changed frame is usually noise or a keyframe
+const LIGHTING_CHANGE_RATIO = 0.8; // almost everything changed at once: lights or IR switching, not motion
+
+/**
+ * Result of comparing one frame with the previous one
+ */
+export interface MotionResult {
+  score: number; // largest share of a watched area that changed, 0-1
+  motion: boolean;
+}
+
+/**
+ * Messages between the page and the motion worker
+ */
+export type MotionWorkerRequest =
+  | { type: 'configure'; sensitivity: number; zones: MotionZone[] }
+  | { type: 'frame'; width: number; height: number; data: ArrayBuffer }; // RGBA pixels
+
+export type MotionWorkerResponse = { type: 'result' } & MotionResult;
+
+export interface MotionDetectorOptions {
+  width: number;
+  height: number;
+  sensitivity: number;
+  zones: MotionZone[];
+}
+
+/**
+ * Which area each pixel of a frame belongs to: 0 for unwatched pixels, otherwise the index into `areas` + 1
+ */
+export interface MotionAreaMap {
+  map: Uint8Array;
+  areas: { sensitivity: number; pixels: number }[];
+}
+
+export interface MotionDetector {
+  process: (rgba: Uint8ClampedArray) => MotionResult;
+  reset: () => void;
+}
+
+/**
+ * Settings of a camera with defaults filled in (motion detection is off unless enabled)
+ */
+export function getMotionSettings(motion: MotionSettings | undefined): MotionSettings {
+  return {
+    enabled: false,
+    sensitivity: DEFAULT_MOTION_SENSITIVITY,
+    zones: [],
+    ...motion,
+  };
+}
+
+/**
+ * Brightness change (0-255) for a pixel to count as changed
+ * Sensitivity 50 needs 25 levels, 100 only 10
+ */
+export function getPixelThreshold(sensitivity: number): number {
+  return Math.round(10 + (MAX_MOTION_SENSITIVITY - sensitivity) * 0.3);
+}
+
+/**
+ * Share of the watched picture that has to change for motion
+ * Sensitivity 50 needs about 3%, 100 only 0.2%
+ */
+export function getAreaThreshold(sensitivity: number): number {
+  const dullness = (MAX_MOTION_SENSITIVITY - sensitivity) / MAX_MOTION_SENSITIVITY;
+  return 0.002 + 0.1 * dullness * dullness;
+}
+
+/**
+ * Split a width x height frame into watched areas: one per include zone (a pixel in several belongs to the last),
+ * or the whole picture when there are none; pixels in exclude zones are never watched
+ */
+export function buildMotionAreaMap(
+  width: number,
+  height: number,
+  sensitivity: number,
+  zones: MotionZone[]
+): MotionAreaMap {
+  const includes = zones.filter(zone => zone.mode === 'include');
+  const excludes = zones.filter(zone => zone.mode === 'exclude');
+  const areas = includes.length > 0
+    ? includes.map(zone => ({ sensitivity: zone.sensitivity ?? sensitivity, pixels: 0 }))
+    : [{ sensitivity, pixels: 0 }];
+
+  const map = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Test the centre of the pixel
+      const point = { x: (x + 0.5) / width, y: (y + 0.5) / height };
+      if (excludes.some(zone => isPointInPolygon(point, zone.points))) continue;
+
+      let area = includes.length > 0 ? 0 : 1;
+      includes.forEach((zone, index) => {
+        if (isPointInPolygon(point, zone.points)) area = index + 1;
+      });
+      if (area > 0) {
+        map[y * width + x] = area;
+        areas[area - 1].pixels++;
+      }
+    }
+  }
+
+  return { map, areas };
+}
+
+/**
+ * Detector for frames of one size; feed it RGBA frames in order
+ */
+export function createMotionDetector({ width, height, sensitivity, zones }: MotionDetectorOptions): MotionDetector {
+  const { map, areas } = buildMotionAreaMap(width, height, sensitivity, zones);
+  const pixelThresholds = areas.map(area => getPixelThreshold(area.sensitivity));
+  const areaThresholds = areas.map(area => getAreaThreshold(area.sensitivity));
+  const watchedCount = areas.reduce((count, area) => count + area.pixels, 0);
+
+  let previous: Uint8Array | null = null;
+  let changedFrames = 0;
+
+  const process = (rgba: Uint8ClampedArray): MotionResult => {
+    if (rgba.length !== width * height * 4) {
+      throw new Error(`Expected a ${width}x${height} frame`);
+    }
+
+    const luma = new Uint8Array(width * height);
+    for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+      luma[i] = (rgba[p] * 77 + rgba[p + 1] * 150 + rgba[p + 2] * 29) >> 8;
+    }
+
+    const last = previous;
+    previous = luma;
+    if (!last || watchedCount === 0) {
+      return { score: 0, motion: false };
+    }
+
+    const changed = new Array<number>(areas.length).fill(0);
+    for (let i = 0; i < luma.length; i++) {
+      const area = map[i];
+      if (area && Math.abs(luma[i] - last[i]) > pixelThresholds[area - 1]) {
+        changed[area - 1]++;
+      }
+    }
+
+    const totalChanged = changed.reduce((sum, count) => sum + count, 0);
+    const ratios = areas.map((area, index) => (area.pixels > 0 ? changed[index] / area.pixels : 0));
+    const triggered = ratios.some((ratio, index) => ratio >= areaThresholds[index]);
+
+    if (triggered && totalChanged / watchedCount < LIGHTING_CHANGE_RATIO) {
+      changedFrames++;
+    } else {
+      changedFrames = 0;
+    }
+    return { score: Math.max(...ratios), motion: changedFrames >= MIN_MOTION_FRAMES };
+  };
+
+  const reset = () => {
+    previous = null;
+    changedFrames = 0;
+  };
+
+  return { process, reset };
+}
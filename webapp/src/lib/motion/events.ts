@@ -0,0 +1,168 @@
+/**
+ * Motion events - when each camera saw motion, as detected by the players in this browser
+ * Kept in localStorage so every tab (camera grid, wall, viewer) shows the same badges and list
+ * Safe to import from client components
+ */
+
+import { MotionResult } from './detector';
+
+/**
+ * A stretch of motion on one camera
+ * Events stay open (endedAt null) while motion keeps coming and end after MOTION_HOLD_TIME without any
+ */
+export interface MotionEvent {
+  id: string;
+  cameraId: string;
+  cameraName: string; // at the time of the event
+  startedAt: string; // ISO date
+  lastMotionAt: string; // ISO date
+  endedAt: string | null;
+  peak: number; // largest share of a watched area that changed, 0-1
+}
+
+export const MOTION_HOLD_TIME = 10 * 1000;
+const MAX_MOTION_EVENTS = 100;
+const SAVE_INTERVAL = 2 * 1000; // ongoing motion is written at most this often
+const STORAGE_KEY = 'camsuite_motion_events';
+
+type MotionEventsListener = (events: MotionEvent[]) => void;
+
+let cachedEvents: MotionEvent[] | null = null;
+let lastSavedAt = 0;
+const listeners = new Set<MotionEventsListener>();
+
+/**
+ * Whether an event still counts as motion right now
+ * Open events of a closed tab are never ended, so the time of the last motion decides
+ */
+export function isMotionEventActive(event: MotionEvent, now: number): boolean {
+  return event.endedAt === null && now - Date.parse(event.lastMotionAt) < MOTION_HOLD_TIME;
+}
+
+export function isCameraInMotion(events: MotionEvent[], cameraId: string, now: number): boolean {
+  return events.some(event => event.cameraId === cameraId && isMotionEventActive(event, now));
+}
+
+/**
+ * Fold a detector result into the events (newest first)
+ * Returns the same array when nothing changed
+ */
+export function applyMotionResult(
+  events: MotionEvent[],
+  camera: { id: string; name: string },
+  result: MotionResult,
+  now: Date
+): MotionEvent[] {
+  const time = now.getTime();
+  const openIndex = events.findIndex(event => event.cameraId === camera.id && event.endedAt === null);
+  let updated = events;
+
+  if (openIndex !== -1) {
+    const open = events[openIndex];
+    if (!isMotionEventActive(open, time)) {
+      updated = events.map((event, index) => (index === openIndex ? { ...open, endedAt: open.lastMotionAt } : event));
+    } else if (result.motion) {
+      return events.map((event, index) =>
+        index === openIndex
+          ? { ...open, lastMotionAt: now.toISOString(), peak: Math.max(open.peak, result.score) }
+          : event
+      );
+    }
+  }
+
+  if (!result.motion) {
+    return updated;
+  }
+
+  const started: MotionEvent = {
+    id: crypto.randomUUID(),
+    cameraId: camera.id,
+    cameraName: camera.name,
+    startedAt: now.toISOString(),
+    lastMotionAt: now.toISOString(),
+    endedAt: null,
+    peak: result.score,
+  };
+  return [started, ...updated].slice(0, MAX_MOTION_EVENTS);
+}
+
+function readMotionEvents(): MotionEvent[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveMotionEvents(events: MotionEvent[]): void {
+  cachedEvents = events;
+  lastSavedAt = Date.now();
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.warn('Failed to save motion events to localStorage:', error);
+  }
+  listeners.forEach(listener => listener(events));
+}
+
+/**
+ * Motion events of all cameras, newest first
+ */
+export function getMotionEvents(): MotionEvent[] {
+  if (!cachedEvents) {
+    cachedEvents = readMotionEvents();
+  }
+  return cachedEvents;
+}
+
+/**
+ * Record a detector result for a camera
+ * Starting and ending events is saved straight away, ongoing motion every few seconds
+ * Returns the event when the result started one
+ */
+export function reportMotion(
+  camera: { id: string; name: string },
+  result: MotionResult,
+  now: Date = new Date()
+): MotionEvent | null {
+  const events = getMotionEvents();
+  const updated = applyMotionResult(events, camera, result, now);
+  if (updated === events) return null;
+
+  const countOpen = (list: MotionEvent[]) => list.filter(event => event.endedAt === null).length;
+  const startedOrEnded = updated[0]?.id !== events[0]?.id || countOpen(updated) !== countOpen(events);
+
+  if (startedOrEnded || Date.now() - lastSavedAt >= SAVE_INTERVAL) {
+    saveMotionEvents(updated);
+  } else {
+    cachedEvents = updated;
+  }
+  return updated[0]?.id !== events[0]?.id ? updated[0] : null;
+}
+
+/**
+ * Forget the events of one camera, or of all cameras
+ */
+export function clearMotionEvents(cameraId?: string): void {
+  saveMotionEvents(cameraId ? getMotionEvents().filter(event => event.cameraId !== cameraId) : []);
+}
+
+/**
+ * Call `listener` whenever the events change, in this tab or another one
+ * Returns a function that stops watching
+ */
+export function watchMotionEvents(listener: MotionEventsListener): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cachedEvents = readMotionEvents();
+    listener(cachedEvents);
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Motion detection - cameras without analytics of their own get it from the browsers that play them
+ * Players sample small frames of the live video and a Web Worker compares them (see detector.ts)
+ * Safe to import from client components
+ */
+
+import { fetchSharedConfig, saveSharedConfig } from '@/config';
+import { MotionSettings, MotionZone } from '@/types';
+import { getMotionSettings, MotionResult, MotionWorkerRequest, MotionWorkerResponse } from './detector';
+
+export * from './detector';
+export * from './events';
+export * from './zones';
+
+const SAMPLE_INTERVAL = 250; // ms between frames
+const SAMPLE_WIDTH = 160; // enough to see a person cross the picture, cheap to compare
+
+/**
+ * Compare frames of a playing video while the page is visible and report every result
+ * Frames are skipped while the worker is still busy with the previous one
+ * Returns a function that stops detecting
+ */
+export function startMotionDetection(
+  video: HTMLVideoElement,
+  settings: MotionSettings,
+  onResult: (result: MotionResult) => void
+): () => void {
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./motion.worker.ts', import.meta.url));
+  } catch (error) {
+    console.warn('Motion detection is not available in this browser:', error);
+    return () => undefined;
+  }
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  let isBusy = false;
+
+  const post = (message: MotionWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.onmessage = (event: MessageEvent<MotionWorkerResponse>) => {
+    isBusy = false;
+    onResult({ score: event.data.score, motion: event.data.motion });
+  };
+
+  const sample = () => {
+    if (isBusy || !context || video.paused || document.visibilityState !== 'visible') return;
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+    const scale = Math.min(1, SAMPLE_WIDTH / video.videoWidth);
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    let frame: ImageData;
+    try {
+      frame = context.getImageData(0, 0, canvas.width, canvas.height);
+    } catch (error) {
+      // Cross-origin video without CORS - the pixels cannot be read
+      console.warn('Motion detection stopped, the video cannot be read:', error);
+      stop();
+      return;
+    }
+
+    isBusy = true;
+    post({ type: 'frame', width: frame.width, height: frame.height, data: frame.data.buffer }, [frame.data.buffer]);
+  };
+
+  post({ type: 'configure', sensitivity: settings.sensitivity, zones: settings.zones });
+  const interval = setInterval(sample, SAMPLE_INTERVAL);
+
+  const stop = () => {
+    clearInterval(interval);
+    worker.terminate();
+  };
+  return stop;
+}
+
+/**
+ * Store a camera's motion zones in the shared config (admin only)
+ * Starts from the latest config on the server so other settings are not overwritten
+ */
+export async function saveMotionZones(
+  cameraId: string,
+  zones: MotionZone[]
+): Promise<{ success: boolean; message?: string; motion?: MotionSettings }> {
+  const latest = await fetchSharedConfig();
+  if (latest.offline) {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+
+  const camera = latest.config.cameras.find(item => item.id === cameraId);
+  if (!camera) {
+    return { success: false, message: 'Camera not found' };
+  }
+
+  const motion = { ...getMotionSettings(camera.motion), zones };
+  const cameras = latest.config.cameras.map(item => (item.id === cameraId ? { ...item, motion } : item));
+  const result = await saveSharedConfig({ ...latest.config, cameras }, latest.version);
+  if (!result.success) {
+    return { success: false, message: result.message || 'Failed to save motion zones' };
+  }
+  return { success: true, message: 'Motion zones saved', motion };
+}
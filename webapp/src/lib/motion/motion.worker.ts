@@ -0,0 +1,47 @@
+/**
+ * Motion worker - runs the frame differencing off the main thread
+ * Started by startMotionDetection(); receives downsampled RGBA frames and answers every one with a result
+ */
+
+import { MotionZone } from '@/types';
+import {
+  createMotionDetector,
+  DEFAULT_MOTION_SENSITIVITY,
+  MotionDetector,
+  MotionWorkerRequest,
+  MotionWorkerResponse,
+} from './detector';
+
+// The project is type-checked against the DOM library, not the worker one
+interface MotionWorkerScope {
+  onmessage: ((event: MessageEvent<MotionWorkerRequest>) => void) | null;
+  postMessage: (message: MotionWorkerResponse) => void;
+}
+
+const scope = self as unknown as MotionWorkerScope;
+
+let sensitivity = DEFAULT_MOTION_SENSITIVITY;
+let zones: MotionZone[] = [];
+let detector: MotionDetector | null = null;
+let frameSize = '';
+
+scope.onmessage = event => {
+  const message = event.data;
+
+  if (message.type === 'configure') {
+    sensitivity = message.sensitivity;
+    zones = message.zones;
+    detector = null;
+    return;
+  }
+
+  // A new video size (e.g. after switching to the sub-stream) starts over
+  const size = `${message.width}x${message.height}`;
+  if (!detector || size !== frameSize) {
+    detector = createMotionDetector({ width: message.width, height: message.height, sensitivity, zones });
+    frameSize = size;
+  }
+
+  const result = detector.process(new Uint8ClampedArray(message.data));
+  scope.postMessage({ type: 'result', ...result });
+};
@@ -0,0 +1,80 @@
+/**
+ * Motion zones - polygons on the picture that narrow down where motion counts
+ * Include zones are watched with their own sensitivity; exclude zones are never watched
+ * Without include zones the whole picture is watched with the camera's sensitivity
+ * Plain functions, shared by the detector, the settings form and the config store
+ */
+
+import { MotionPoint, MotionZone, MotionZoneMode } from '@/types';
+
+export const MIN_MOTION_SENSITIVITY = 1;
+export const MAX_MOTION_SENSITIVITY = 100;
+export const MAX_MOTION_ZONES = 20;
+export const MIN_ZONE_POINTS = 3;
+export const MAX_ZONE_POINTS = 50;
+
+export const MOTION_ZONE_MODE_LABELS: Record<MotionZoneMode, string> = {
+  include: 'Watch',
+  exclude: 'Ignore',
+};
+
+/**
+ * Whether a point lies inside a polygon (even-odd rule)
+ */
+export function isPointInPolygon(point: MotionPoint, polygon: MotionPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isMotionSensitivity(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= MIN_MOTION_SENSITIVITY &&
+    value <= MAX_MOTION_SENSITIVITY
+  );
+}
+
+function isUnitNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+/**
+ * Problems with a camera's zones, e.g. 'Zone "Driveway": needs at least 3 points'
+ * An empty list means the zones are fine
+ */
+export function validateMotionZones(zones: MotionZone[]): string[] {
+  const errors: string[] = [];
+  if (zones.length > MAX_MOTION_ZONES) {
+    errors.push(`At most ${MAX_MOTION_ZONES} motion zones are allowed`);
+  }
+
+  zones.forEach((zone, index) => {
+    const label = zone.name?.trim() ? `Zone "${zone.name.trim()}"` : `Zone ${index + 1}`;
+    if (!zone.name?.trim()) {
+      errors.push(`${label}: Name is required`);
+    }
+    if (zone.mode !== 'include' && zone.mode !== 'exclude') {
+      errors.push(`${label}: Invalid zone type`);
+    }
+    if (zone.sensitivity !== undefined && !isMotionSensitivity(zone.sensitivity)) {
+      errors.push(`${label}: Sensitivity must be between ${MIN_MOTION_SENSITIVITY} and ${MAX_MOTION_SENSITIVITY}`);
+    }
+    if (!Array.isArray(zone.points) || zone.points.length < MIN_ZONE_POINTS) {
+      errors.push(`${label}: Needs at least ${MIN_ZONE_POINTS} points`);
+    } else if (zone.points.length > MAX_ZONE_POINTS) {
+      errors.push(`${label}: At most ${MAX_ZONE_POINTS} points are allowed`);
+    } else if (!zone.points.every(point => isUnitNumber(point?.x) && isUnitNumber(point?.y))) {
+      errors.push(`${label}: Points must lie on the picture`);
+    }
+  });
+
+  return errors;
+}
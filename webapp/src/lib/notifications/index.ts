@@ -0,0 +1,142 @@
+/**
+ * Notifications - logged events (camera offline, motion, ...) sent on to webhooks and MQTT brokers
+ * Each channel picks the event types and cameras it is told about
+ * Safe to import from client components (delivery happens in notifier.ts)
+ */
+
+import { EventType } from '@/lib/events';
+
+export type NotificationChannelType = 'webhook' | 'mqtt';
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannelType, string> = {
+  webhook: 'Webhook',
+  mqtt: 'MQTT',
+};
+
+interface NotificationChannelBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  eventTypes: EventType[];
+  cameraIds: string[]; // empty = every camera; events without a camera (sign-ins) always match
+}
+
+/**
+ * JSON POST to a URL, signed with HMAC-SHA256 when there is a secret
+ */
+export interface WebhookChannel extends NotificationChannelBase {
+  type: 'webhook';
+  url: string;
+  secret: string; // empty = unsigned
+}
+
+/**
+ * MQTT 3.1.1 publish to `<topic>/<camera ID or "site">/<event type>`
+ */
+export interface MqttChannel extends NotificationChannelBase {
+  type: 'mqtt';
+  url: string; // mqtt:// or mqtts://
+  topic: string;
+  username: string;
+  password: string;
+  qos: 0 | 1;
+}
+
+export type NotificationChannel = WebhookChannel | MqttChannel;
+
+export interface NotificationSettings {
+  channels: NotificationChannel[];
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+export interface NotificationResult {
+  success: boolean;
+  message?: string;
+  settings?: NotificationSettings;
+}
+
+/**
+ * Outcome of one attempt to send a notification
+ */
+export interface SendResult {
+  error?: string;
+  permanent?: boolean; // trying again will not help
+}
+
+export const MAX_NOTIFICATION_CHANNELS = 20;
+export const DEFAULT_MQTT_TOPIC = 'camsuite';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Camsuite-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Camsuite-Timestamp';
+
+/**
+ * A new channel of the given type, told about cameras going offline
+ */
+export function createNotificationChannel(type: NotificationChannelType, id: string): NotificationChannel {
+  const base = { id, name: '', enabled: true, eventTypes: ['camera-offline' as EventType], cameraIds: [] };
+  return type === 'webhook'
+    ? { ...base, type, url: '', secret: '' }
+    : { ...base, type, url: '', topic: DEFAULT_MQTT_TOPIC, username: '', password: '', qos: 0 };
+}
+
+/**
+ * Whether a channel is told about an event of this type and camera
+ */
+export function channelMatchesEvent(
+  channel: NotificationChannel,
+  event: { type: EventType; cameraId?: string }
+): boolean {
+  return (
+    channel.enabled &&
+    channel.eventTypes.includes(event.type) &&
+    (!event.cameraId || channel.cameraIds.length === 0 || channel.cameraIds.includes(event.cameraId))
+  );
+}
+
+/**
+ * Topic an event is published to on an MQTT channel
+ */
+export function getMqttTopic(topic: string, event: { type: EventType; cameraId?: string }): string {
+  return `${topic}/${event.cameraId || 'site'}/${event.type}`;
+}
+
+async function sendNotificationRequest(method: string, url: string, body?: unknown): Promise<NotificationResult> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      credentials: 'include',
+      cache: 'no-store',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    return {
+      success: response.ok && data.success === true,
+      message: data.message,
+      settings: data.settings,
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Notification channels (admin only)
+ */
+export function getNotificationSettings(): Promise<NotificationResult> {
+  return sendNotificationRequest('GET', '/api/notifications');
+}
+
+/**
+ * Replace the notification channels (admin only)
+ */
+export function saveNotificationChannels(channels: NotificationChannel[]): Promise<NotificationResult> {
+  return sendNotificationRequest('PUT', '/api/notifications', { channels });
+}
+
+/**
+ * Send a test event through a channel, saved or not (admin only)
+ */
+export function sendTestNotification(channel: NotificationChannel): Promise<NotificationResult> {
+  return sendNotificationRequest('POST', '/api/notifications/test', { channel });
+}
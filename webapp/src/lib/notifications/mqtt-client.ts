@@ -0,0 +1,185 @@
+/**
+ * Minimal MQTT 3.1.1 publisher
+ * Connects, publishes one message (QoS 0, or QoS 1 waiting for the broker's PUBACK) and disconnects -
+ * all a notification needs, without a client library or a connection kept open between events
+ * NOTE: Server-only - uses Node.js sockets
+ */
+
+import net from 'net';
+import tls from 'tls';
+import type { SendResult } from './index';
+
+const MQTT_TIMEOUT = 10 * 1000;
+const KEEP_ALIVE = 30; // seconds; the connection never lives this long
+const PUBLISH_PACKET_ID = 1;
+
+const PACKET_CONNECT = 0x10;
+const PACKET_CONNACK = 0x20;
+const PACKET_PUBLISH = 0x30;
+const PACKET_PUBACK = 0x40;
+const PACKET_DISCONNECT = 0xe0;
+
+// CONNACK return codes 1-5; only "server unavailable" is worth retrying
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'Broker does not support MQTT 3.1.1',
+  2: 'Broker rejected the client ID',
+  3: 'Broker is unavailable',
+  4: 'Broker rejected the username or password',
+  5: 'Not authorized by the broker',
+};
+
+export interface MqttPublishOptions {
+  url: string; // mqtt:// or mqtts://
+  username?: string;
+  password?: string;
+  clientId: string;
+  topic: string;
+  payload: string;
+  qos: 0 | 1;
+}
+
+function encodeString(value: string): Buffer {
+  const data = Buffer.from(value, 'utf8');
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(data.length);
+  return Buffer.concat([length, data]);
+}
+
+function encodeRemainingLength(length: number): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return Buffer.from(bytes);
+}
+
+function packet(header: number, ...parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  return Buffer.concat([Buffer.from([header]), encodeRemainingLength(body.length), body]);
+}
+
+export function buildConnectPacket(options: Pick<MqttPublishOptions, 'clientId' | 'username' | 'password'>): Buffer {
+  let flags = 0x02; // clean session
+  const payload = [encodeString(options.clientId)];
+  if (options.username) {
+    flags |= 0x80;
+    payload.push(encodeString(options.username));
+    if (options.password) {
+      flags |= 0x40;
+      payload.push(encodeString(options.password));
+    }
+  }
+
+  const keepAlive = Buffer.alloc(2);
+  keepAlive.writeUInt16BE(KEEP_ALIVE);
+  return packet(PACKET_CONNECT, encodeString('MQTT'), Buffer.from([4, flags]), keepAlive, ...payload);
+}
+
+export function buildPublishPacket(topic: string, payload: string, qos: 0 | 1): Buffer {
+  const parts = [encodeString(topic)];
+  if (qos === 1) {
+    const packetId = Buffer.alloc(2);
+    packetId.writeUInt16BE(PUBLISH_PACKET_ID);
+    parts.push(packetId);
+  }
+  parts.push(Buffer.from(payload, 'utf8'));
+  return packet(PACKET_PUBLISH | (qos << 1), ...parts);
+}
+
+/**
+ * Split complete packets off the front of a buffer
+ * Returns the packets (type and body) and whatever is left over
+ */
+export function readPackets(buffer: Buffer): { packets: { type: number; body: Buffer }[]; rest: Buffer } {
+  const packets: { type: number; body: Buffer }[] = [];
+  let offset = 0;
+
+  while (offset + 2 <= buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let index = offset + 1;
+    let byte: number;
+    do {
+      if (index >= buffer.length) return { packets, rest: buffer.subarray(offset) };
+      byte = buffer[index++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+
+    if (index + length > buffer.length) break;
+    packets.push({ type: buffer[offset] & 0xf0, body: buffer.subarray(index, index + length) });
+    offset = index + length;
+  }
+  return { packets, rest: buffer.subarray(offset) };
+}
+
+/**
+ * Publish one message to an MQTT broker
+ */
+export function publishMqtt(options: MqttPublishOptions): Promise<SendResult> {
+  const url = new URL(options.url);
+  const secure = url.protocol === 'mqtts:';
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(url.port) || (secure ? 8883 : 1883);
+
+  return new Promise(resolve => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+      : net.connect({ host, port });
+    let buffer: Buffer = Buffer.alloc(0);
+    let settled = false;
+
+    const finish = (result: SendResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (!result.error) {
+        socket.end(packet(PACKET_DISCONNECT));
+      } else {
+        socket.destroy();
+      }
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => finish({ error: 'Broker did not answer in time' }), MQTT_TIMEOUT);
+
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      socket.write(buildConnectPacket(options));
+    });
+
+    socket.on('data', chunk => {
+      const { packets, rest } = readPackets(Buffer.concat([buffer, chunk]));
+      buffer = rest;
+
+      for (const { type, body } of packets) {
+        // CONNACK and PUBACK carry two bytes - anything shorter is a broken broker, not a crash
+        if ((type === PACKET_CONNACK || type === PACKET_PUBACK) && body.length < 2) {
+          finish({ error: 'Broker sent a malformed packet' });
+          return;
+        }
+
+        if (type === PACKET_CONNACK) {
+          const code = body[1];
+          if (code !== 0) {
+            finish({ error: CONNACK_ERRORS[code] || `Broker refused the connection (${code})`, permanent: code !== 3 });
+            return;
+          }
+          socket.write(buildPublishPacket(options.topic, options.payload, options.qos));
+          if (options.qos === 0) {
+            finish({});
+            return;
+          }
+        } else if (type === PACKET_PUBACK && body.readUInt16BE(0) === PUBLISH_PACKET_ID) {
+          finish({});
+          return;
+        }
+      }
+    });
+
+    socket.on('error', () => finish({ error: 'Broker is unreachable' }));
+    socket.on('close', () => finish({ error: 'Broker closed the connection' }));
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Server-side store for the notification channels
+ * Kept in the data directory, secrets and broker passwords included (the file is only readable by the server)
+ * NOTE: Server-only - import from API routes, never from client components
+ */
+
+import { randomUUID } from 'crypto';
+import { isEventType } from '@/lib/events';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+import {
+  DEFAULT_MQTT_TOPIC,
+  MAX_NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationSettings,
+} from './index';
+
+const NOTIFICATIONS_FILE = 'notifications.json';
+
+const MAX_CHANNEL_NAME_LENGTH = 60;
+const MAX_SECRET_LENGTH = 200;
+
+function getDefaultSettings(): NotificationSettings {
+  return { channels: [], updatedAt: null, updatedBy: null };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUrlWithProtocol(value: string, protocols: string[]): boolean {
+  try {
+    const url = new URL(value);
+    return protocols.includes(url.protocol) && !!url.hostname;
+  } catch {
+    return false;
+  }
+}
+
+function optionalString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Validate a channel sent by a client; a new channel gets an ID
+ * `label` starts error messages, e.g. "Channel 2: "
+ */
+export function parseNotificationChannel(
+  value: unknown,
+  label: string = ''
+): { channel?: NotificationChannel; error?: string } {
+  if (!isObject(value)) {
+    return { error: `${label}Invalid channel` };
+  }
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    return { error: `${label}Name is required` };
+  }
+  if (name.length > MAX_CHANNEL_NAME_LENGTH) {
+    return { error: `${label}Name must be at most ${MAX_CHANNEL_NAME_LENGTH} characters` };
+  }
+
+  const eventTypes = Array.isArray(value.eventTypes) ? value.eventTypes : [];
+  if (eventTypes.length === 0 || !eventTypes.every(isEventType)) {
+    return { error: `${label}Pick at least one event` };
+  }
+  if (
+    value.cameraIds !== undefined &&
+    (!Array.isArray(value.cameraIds) || !value.cameraIds.every(id => typeof id === 'string'))
+  ) {
+    return { error: `${label}Invalid cameras` };
+  }
+
+  const base = {
+    id: typeof value.id === 'string' && value.id ? value.id : randomUUID(),
+    name,
+    enabled: value.enabled !== false,
+    eventTypes: Array.from(new Set(eventTypes)),
+    cameraIds: Array.from(new Set((value.cameraIds as string[] | undefined) || [])),
+  };
+  const url = typeof value.url === 'string' ? value.url.trim() : '';
+
+  if (value.type === 'webhook') {
+    if (!isUrlWithProtocol(url, ['http:', 'https:'])) {
+      return { error: `${label}Webhook URL must start with http:// or https://` };
+    }
+    const secret = optionalString(value.secret);
+    if (secret.length > MAX_SECRET_LENGTH) {
+      return { error: `${label}Secret must be at most ${MAX_SECRET_LENGTH} characters` };
+    }
+    return { channel: { ...base, type: 'webhook', url, secret } };
+  }
+
+  if (value.type === 'mqtt') {
+    if (!isUrlWithProtocol(url, ['mqtt:', 'mqtts:'])) {
+      return { error: `${label}Broker URL must start with mqtt:// or mqtts://` };
+    }
+    const topic = (optionalString(value.topic).trim() || DEFAULT_MQTT_TOPIC).replace(/^\/+|\/+$/g, '');
+    if (!topic || /[+#\0]/.test(topic)) {
+      return { error: `${label}Topic must not be empty or contain + or #` };
+    }
+    if (value.qos !== undefined && value.qos !== 0 && value.qos !== 1) {
+      return { error: `${label}QoS must be 0 or 1` };
+    }
+    return {
+      channel: {
+        ...base,
+        type: 'mqtt',
+        url,
+        topic,
+        username: optionalString(value.username),
+        password: optionalString(value.password),
+        qos: value.qos === 1 ? 1 : 0,
+      },
+    };
+  }
+
+  return { error: `${label}Invalid channel type` };
+}
+
+/**
+ * Validate the notification channels sent by a client
+ */
+export function parseNotificationChannels(value: unknown): { channels?: NotificationChannel[]; error?: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'Channels must be a list' };
+  }
+  if (value.length > MAX_NOTIFICATION_CHANNELS) {
+    return { error: `At most ${MAX_NOTIFICATION_CHANNELS} channels are allowed` };
+  }
+
+  const channels: NotificationChannel[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const { channel, error } = parseNotificationChannel(value[index], `Channel ${index + 1}: `);
+    if (!channel) return { error };
+    if (channels.some(item => item.id === channel.id)) {
+      return { error: `Channel ${index + 1}: Duplicate channel` };
+    }
+    channels.push(channel);
+  }
+  return { channels };
+}
+
+/**
+ * Load the notification channels (none before the first save)
+ */
+export async function getStoredNotificationSettings(): Promise<NotificationSettings> {
+  return readJsonFile<NotificationSettings>(NOTIFICATIONS_FILE, getDefaultSettings());
+}
+
+/**
+ * Replace the notification channels
+ */
+export async function saveStoredNotificationChannels(
+  channels: NotificationChannel[],
+  updatedBy: string
+): Promise<NotificationSettings> {
+  return withProcessLock('notifications', async () => {
+    const settings: NotificationSettings = {
+      channels,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    };
+    await writeJsonFile(NOTIFICATIONS_FILE, settings);
+    return settings;
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Notification delivery
+ * Sends every logged event to the channels that want it, retrying failed deliveries with backoff,
+ * and to the devices subscribed to push notifications (see push-sender).
+ * While a channel or push user wants camera status or recording events, camera health polling is kept running
+ * so cameras going offline are noticed without anyone having the app open.
+ * NOTE: Server-only - started from instrumentation.ts, state lives in this process (see process-state)
+ */
+
+import { randomUUID } from 'crypto';
+import { subscribeCameraHealth } from '@/lib/camera-health/health-service';
+import { EventType, LoggedEvent } from '@/lib/events';
+import { subscribeEvents } from '@/lib/events/event-store';
+import { pushEvent } from '@/lib/push/push-sender';
+import { getStoredPushPreferences } from '@/lib/push/push-store';
+import { getProcessState } from '@/lib/storage/process-state';
+import { channelMatchesEvent, getMqttTopic, NotificationChannel, SendResult } from './index';
+import { publishMqtt } from './mqtt-client';
+import { getStoredNotificationSettings } from './notification-store';
+import { sendWebhook } from './webhook';
+
+const RETRY_DELAYS = [5 * 1000, 30 * 1000, 2 * 60 * 1000]; // after the first, second and third attempt
+const HEALTH_EVENT_TYPES: EventType[] = ['camera-online', 'camera-offline', 'recording-started', 'recording-stopped'];
+
+export interface DeliveryResult {
+  success: boolean;
+  error?: string;
+  attempts: number;
+}
+
+interface NotifierState {
+  stopEvents: (() => void) | null;
+  stopHealth: (() => void) | null;
+}
+
+function getState(): NotifierState {
+  return getProcessState<NotifierState>('notifier', () => ({ stopEvents: null, stopHealth: null }));
+}
+
+function sendOnce(channel: NotificationChannel, event: LoggedEvent, test: boolean): Promise<SendResult> {
+  if (channel.type === 'webhook') {
+    return sendWebhook(channel, event, test);
+  }
+  return publishMqtt({
+    url: channel.url,
+    username: channel.username,
+    password: channel.password,
+    clientId: `camsuite-${randomUUID().slice(0, 8)}`,
+    topic: getMqttTopic(channel.topic, event),
+    payload: JSON.stringify({ ...event, test }),
+    qos: channel.qos,
+  });
+}
+
+/**
+ * Send an event through one channel, trying again after each delay in `retryDelays`
+ * Gives up early on errors that trying again will not fix (rejected credentials, 4xx answers)
+ */
+export async function sendNotification(
+  channel: NotificationChannel,
+  event: LoggedEvent,
+  { test = false, retryDelays = RETRY_DELAYS }: { test?: boolean; retryDelays?: number[] } = {}
+): Promise<DeliveryResult> {
+  for (let attempt = 0; ; attempt++) {
+    const { error, permanent } = await sendOnce(channel, event, test);
+    if (!error) {
+      return { success: true, attempts: attempt + 1 };
+    }
+    if (permanent || attempt >= retryDelays.length) {
+      return { success: false, error, attempts: attempt + 1 };
+    }
+    await new Promise(resolve => setTimeout(resolve, retryDelays[attempt]));
+  }
+}
+
+/**
+ * Send an event to every enabled channel that wants it; failures are logged, never thrown
+ */
+export async function notifyEvent(event: LoggedEvent, retryDelays?: number[]): Promise<void> {
+  try {
+    const { channels } = await getStoredNotificationSettings();
+    await Promise.all(channels.filter(channel => channelMatchesEvent(channel, event)).map(async channel => {
+      const result = await sendNotification(channel, event, { retryDelays });
+      if (!result.success) {
+        console.error(`Notification to "${channel.name}" failed after ${result.attempts} attempt(s): ${result.error}`);
+      }
+    }));
+  } catch (error) {
+    console.error('Notification error:', error);
+  }
+}
+
+/**
+ * An event to check a channel with, of the first type it wants
+ */
+export function createTestEvent(channel: NotificationChannel): LoggedEvent {
+  return {
+    id: randomUUID(),
+    type: channel.eventTypes[0],
+    time: new Date().toISOString(),
+    message: `Test notification for "${channel.name}" from Camera Suite`,
+  };
+}
+
+/**
+ * Keep camera health polling running while an enabled channel or a user with a push subscription
+ * wants status or recording events
+ */
+export async function syncHealthPolling(): Promise<void> {
+  const state = getState();
+  const [settings, pushPreferences] = await Promise.all([getStoredNotificationSettings(), getStoredPushPreferences()]);
+  const wanted =
+    settings.channels.some(
+      channel => channel.enabled && channel.eventTypes.some(type => HEALTH_EVENT_TYPES.includes(type))
+    ) ||
+    Object.values(pushPreferences).some(types => types.some(type => HEALTH_EVENT_TYPES.includes(type)));
+
+  if (wanted && !state.stopHealth) {
+    state.stopHealth = subscribeCameraHealth(() => undefined);
+  } else if (!wanted && state.stopHealth) {
+    state.stopHealth();
+    state.stopHealth = null;
+  }
+}
+
+/**
+ * Start sending logged events to the notification channels (once per process)
+ */
+export async function startNotifications(): Promise<void> {
+  const state = getState();
+  if (state.stopEvents) return;
+
+  state.stopEvents = subscribeEvents(event => {
+    void notifyEvent(event);
+    void pushEvent(event);
+  });
+  try {
+    await syncHealthPolling();
+  } catch (error) {
+    console.error('Failed to load notification settings:', error);
+  }
+}
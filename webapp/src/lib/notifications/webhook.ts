@@ -0,0 +1,64 @@
+/**
+ * Webhook delivery
+ * Events are POSTed as JSON; with a secret, `X-Camsuite-Signature: sha256=<hex>` is the HMAC-SHA256
+ * of `<timestamp>.<body>`, with the Unix timestamp (seconds) in `X-Camsuite-Timestamp`, so receivers
+ * can check where a request came from and reject replays
+ * NOTE: Server-only
+ */
+
+import { createHmac } from 'crypto';
+import { LoggedEvent } from '@/lib/events';
+import { SendResult, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, WebhookChannel } from './index';
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+/**
+ * Signature header value for a webhook body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POST an event to a webhook
+ * Network errors, timeouts, 429 and 5xx answers are worth retrying; other 4xx answers are not
+ */
+export async function sendWebhook(
+  channel: WebhookChannel,
+  event: LoggedEvent,
+  test: boolean = false
+): Promise<SendResult> {
+  const body = JSON.stringify({ event, test });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'CameraSuite-Webhook',
+    'X-Camsuite-Event': event.type,
+    'X-Camsuite-Delivery': event.id, // the same for every retry
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  };
+  if (channel.secret) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(channel.secret, timestamp, body);
+  }
+
+  try {
+    const response = await fetch(channel.url, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT),
+    });
+    await response.body?.cancel();
+
+    if (response.ok) return {};
+    return {
+      error: `Webhook answered ${response.status}`,
+      permanent: response.status < 500 && response.status !== 429,
+    };
+  } catch (error) {
+    const timedOut = (error as Error).name === 'TimeoutError';
+    return { error: timedOut ? 'Webhook did not answer in time' : 'Webhook is unreachable' };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * PTZ (pan, tilt, zoom) of ONVIF cameras through the web server
+ * The camera's ONVIF service is only called by /api/cameras/[id]/ptz, so its credentials stay on the server
+ * Safe to import from client components
+ */
+
+import { Camera } from '@/types';
+
+/**
+ * Movement speeds, each from -1 to 1 (pan: left/right, tilt: down/up, zoom: out/in)
+ */
+export interface PtzVelocity {
+  pan: number;
+  tilt: number;
+  zoom: number;
+}
+
+export interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+export type PtzAction =
+  | { action: 'move'; pan: number; tilt: number; zoom: number }
+  | { action: 'stop' }
+  | { action: 'goto'; preset: string }
+  | { action: 'save-preset'; name: string };
+
+export interface PtzResult {
+  success: boolean;
+  message?: string;
+  preset?: PtzPreset; // the preset saved by 'save-preset'
+}
+
+export const PTZ_PRESET_NAME_MAX_LENGTH = 64;
+
+// A held move is sent again this often; the camera stops on its own after MOVE_TIMEOUT without one
+export const PTZ_MOVE_REPEAT_INTERVAL = 2000;
+export const PTZ_MOVE_TIMEOUT = 3; // seconds
+
+/**
+ * Whether the camera can be moved from the viewer
+ */
+export function hasPtz(camera: Pick<Camera, 'onvif'>): boolean {
+  return !!camera.onvif?.url;
+}
+
+/**
+ * Clamp a speed to -1..1 and round it to steps of 0.1 (also turns anything that is not a number into 0)
+ */
+export function normalizePtzSpeed(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 0;
+  const clamped = Math.max(-1, Math.min(1, value));
+  return Math.round(clamped * 10) / 10 || 0;
+}
+
+export function isPtzStopped(velocity: PtzVelocity): boolean {
+  return velocity.pan === 0 && velocity.tilt === 0 && velocity.zoom === 0;
+}
+
+/**
+ * List the presets saved in the camera (operators and admins)
+ */
+export async function listPtzPresets(cameraId: string): Promise<{ success: boolean; message?: string; presets: PtzPreset[] }> {
+  try {
+    const response = await fetch(`/api/cameras/${encodeURIComponent(cameraId)}/ptz`, {
+      method: 'GET',
+      credentials: 'include',
+    });
+    const data = await response.json();
+    return {
+      success: data.success === true,
+      message: data.message,
+      presets: data.presets || [],
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.', presets: [] };
+  }
+}
+
+/**
+ * Move, stop, go to or save a preset (operators and admins)
+ */
+export async function sendPtzAction(cameraId: string, action: PtzAction): Promise<PtzResult> {
+  try {
+    const response = await fetch(`/api/cameras/${encodeURIComponent(cameraId)}/ptz`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(action),
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message, preset: data.preset };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * ONVIF client for PTZ - finds the camera's PTZ service and media profile, then moves it and manages presets
+ * Connections (clock offset, service URLs, profile) are kept per camera and found again after any error
+ * NOTE: Server-only
+ */
+
+import { getProcessState } from '@/lib/storage/process-state';
+import { Camera, OnvifSettings } from '@/types';
+import { PTZ_MOVE_TIMEOUT, isPtzStopped } from './index';
+import type { PtzPreset, PtzVelocity } from './index';
+import { OnvifResult, XmlElement, escapeXml, findElement, findElements, findText, sendSoapRequest } from './soap';
+
+interface OnvifConnection {
+  key: string; // settings the connection was made with
+  timeOffset: number; // camera clock minus ours, in ms
+  ptzUrl: string;
+  profileToken: string;
+}
+
+const getConnections = () => getProcessState('onvif-connections', () => new Map<string, OnvifConnection>());
+
+const settingsKey = (settings: OnvifSettings): string =>
+  JSON.stringify([settings.url, settings.credentials?.username, settings.credentials?.password, settings.profileToken]);
+
+/**
+ * Service URLs point wherever the camera thinks it is - use the host the camera was configured with instead,
+ * so cameras behind port forwarding or NAT keep working
+ */
+function toConfiguredHost(serviceUrl: string, deviceUrl: string): string {
+  try {
+    const url = new URL(serviceUrl, deviceUrl);
+    const device = new URL(deviceUrl);
+    url.protocol = device.protocol;
+    url.host = device.host;
+    return url.href;
+  } catch {
+    return deviceUrl;
+  }
+}
+
+/**
+ * Difference between the camera's clock and ours, for the WS-Security timestamp
+ */
+async function getTimeOffset(deviceUrl: string): Promise<OnvifResult<number>> {
+  const result = await sendSoapRequest(deviceUrl, '<tds:GetSystemDateAndTime/>');
+  if (result.error) {
+    // Some cameras want credentials even for this - go with our own clock then
+    return result.error.status ? { data: 0 } : result;
+  }
+
+  const utc = findElement(result.data, 'UTCDateTime');
+  const part = (name: string) => Number(utc && findText(utc, name));
+  const cameraTime = Date.UTC(part('Year'), part('Month') - 1, part('Day'), part('Hour'), part('Minute'), part('Second'));
+  return { data: Number.isNaN(cameraTime) ? 0 : cameraTime - Date.now() };
+}
+
+async function connect(settings: OnvifSettings): Promise<OnvifResult<OnvifConnection>> {
+  const { url, credentials } = settings;
+
+  const time = await getTimeOffset(url);
+  if (time.error) return time;
+  const timeOffset = time.data;
+
+  const capabilities = await sendSoapRequest(
+    url,
+    '<tds:GetCapabilities><tds:Category>All</tds:Category></tds:GetCapabilities>',
+    credentials,
+    timeOffset
+  );
+  if (capabilities.error) return capabilities;
+
+  const serviceUrl = (name: string) => {
+    const service = findElement(capabilities.data, name);
+    const xaddr = service && findText(service, 'XAddr');
+    return xaddr ? toConfiguredHost(xaddr, url) : undefined;
+  };
+  const mediaUrl = serviceUrl('Media');
+  const ptzUrl = serviceUrl('PTZ');
+  if (!ptzUrl) {
+    return { error: { message: 'The camera does not support PTZ' } };
+  }
+
+  const profiles = await sendSoapRequest(mediaUrl || url, '<trt:GetProfiles/>', credentials, timeOffset);
+  if (profiles.error) return profiles;
+
+  const profileElements = findElements(profiles.data, 'Profiles');
+  const profile = settings.profileToken
+    ? profileElements.find(element => element.attributes.token === settings.profileToken)
+    : profileElements.find(element => findElement(element, 'PTZConfiguration'));
+  if (!profile?.attributes.token) {
+    return {
+      error: {
+        message: settings.profileToken
+          ? `The camera has no media profile "${settings.profileToken}"`
+          : 'The camera has no media profile with PTZ',
+      },
+    };
+  }
+
+  return {
+    data: { key: settingsKey(settings), timeOffset, ptzUrl, profileToken: profile.attributes.token },
+  };
+}
+
+/**
+ * Send a PTZ request for the camera, connecting first if needed
+ */
+async function callPtz(
+  camera: Camera,
+  buildBody: (profileToken: string) => string
+): Promise<OnvifResult<XmlElement>> {
+  const settings = camera.onvif;
+  if (!settings?.url) {
+    return { error: { message: 'ONVIF is not set up for this camera' } };
+  }
+
+  const connections = getConnections();
+  let connection = connections.get(camera.id);
+  if (!connection || connection.key !== settingsKey(settings)) {
+    const connected = await connect(settings);
+    if (connected.error) return connected;
+    connection = connected.data;
+    connections.set(camera.id, connection);
+  }
+
+  const result = await sendSoapRequest(
+    connection.ptzUrl,
+    buildBody(escapeXml(connection.profileToken)),
+    settings.credentials,
+    connection.timeOffset
+  );
+  if (result.error) {
+    // The camera may have restarted or changed its clock - find it again next time
+    connections.delete(camera.id);
+  }
+  return result;
+}
+
+/**
+ * Presets saved in the camera
+ */
+export async function getPtzPresets(camera: Camera): Promise<OnvifResult<PtzPreset[]>> {
+  const result = await callPtz(camera, profileToken =>
+    `<tptz:GetPresets><tptz:ProfileToken>${profileToken}</tptz:ProfileToken></tptz:GetPresets>`
+  );
+  if (result.error) return result;
+
+  const presets = findElements(result.data, 'Preset')
+    .filter(preset => preset.attributes.token)
+    .map(preset => ({
+      token: preset.attributes.token,
+      name: findText(preset, 'Name') || preset.attributes.token,
+    }));
+  return { data: presets };
+}
+
+/**
+ * Start moving at the given speeds; the camera stops after PTZ_MOVE_TIMEOUT unless moved again
+ * A zero velocity stops the camera
+ */
+export async function movePtz(camera: Camera, velocity: PtzVelocity): Promise<OnvifResult<null>> {
+  if (isPtzStopped(velocity)) {
+    return stopPtz(camera);
+  }
+
+  // Only send the axes that move - cameras without zoom refuse a Zoom velocity
+  const panTilt = velocity.pan !== 0 || velocity.tilt !== 0
+    ? `<tt:PanTilt x="${velocity.pan}" y="${velocity.tilt}"/>`
+    : '';
+  const zoom = velocity.zoom !== 0 ? `<tt:Zoom x="${velocity.zoom}"/>` : '';
+
+  const result = await callPtz(camera, profileToken =>
+    '<tptz:ContinuousMove>' +
+    `<tptz:ProfileToken>${profileToken}</tptz:ProfileToken>` +
+    `<tptz:Velocity>${panTilt}${zoom}</tptz:Velocity>` +
+    `<tptz:Timeout>PT${PTZ_MOVE_TIMEOUT}S</tptz:Timeout>` +
+    '</tptz:ContinuousMove>'
+  );
+  return result.error ? result : { data: null };
+}
+
+export async function stopPtz(camera: Camera): Promise<OnvifResult<null>> {
+  const result = await callPtz(camera, profileToken =>
+    '<tptz:Stop>' +
+    `<tptz:ProfileToken>${profileToken}</tptz:ProfileToken>` +
+    '<tptz:PanTilt>true</tptz:PanTilt><tptz:Zoom>true</tptz:Zoom>' +
+    '</tptz:Stop>'
+  );
+  return result.error ? result : { data: null };
+}
+
+export async function gotoPtzPreset(camera: Camera, presetToken: string): Promise<OnvifResult<null>> {
+  const result = await callPtz(camera, profileToken =>
+    '<tptz:GotoPreset>' +
+    `<tptz:ProfileToken>${profileToken}</tptz:ProfileToken>` +
+    `<tptz:PresetToken>${escapeXml(presetToken)}</tptz:PresetToken>` +
+    '</tptz:GotoPreset>'
+  );
+  return result.error ? result : { data: null };
+}
+
+/**
+ * Save the current position as a new preset
+ */
+export async function savePtzPreset(camera: Camera, name: string): Promise<OnvifResult<PtzPreset>> {
+  const result = await callPtz(camera, profileToken =>
+    '<tptz:SetPreset>' +
+    `<tptz:ProfileToken>${profileToken}</tptz:ProfileToken>` +
+    `<tptz:PresetName>${escapeXml(name)}</tptz:PresetName>` +
+    '</tptz:SetPreset>'
+  );
+  if (result.error) return result;
+
+  const token = findText(result.data, 'PresetToken');
+  if (!token) {
+    return { error: { message: 'The camera did not save the preset' } };
+  }
+  return { data: { token, name } };
+}
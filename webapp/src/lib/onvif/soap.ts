@@ -0,0 +1,209 @@
+/**
+ * SOAP 1.2 for ONVIF - envelopes with WS-Security UsernameToken (password digest) and a small XML reader
+ * Only what the ONVIF client needs: elements are matched by local name, namespaces are ignored
+ * NOTE: Server-only
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { Credentials } from '@/types';
+
+const SOAP_TIMEOUT = 5 * 1000;
+
+const WSSE_NS = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd';
+const WSU_NS = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd';
+const PASSWORD_DIGEST = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest';
+const BASE64_BINARY = 'http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary';
+
+export interface XmlElement {
+  name: string; // local name, without the namespace prefix
+  attributes: Record<string, string>; // by local name
+  children: XmlElement[];
+  text: string;
+}
+
+export interface OnvifError {
+  message: string;
+  status?: number; // HTTP status from the camera, if it answered
+}
+
+export type OnvifResult<T> =
+  | { data: T; error?: undefined }
+  | { data?: undefined; error: OnvifError };
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+/**
+ * Parse an XML document into a tree of elements
+ * Tolerant of what cameras send; throws only when there is no element at all
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const content = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>/g, '');
+  const tokens = /<!\[CDATA\[([\s\S]*?)\]\]>|<(\/?)([\w.:-]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(content))) {
+    const [, cdata, closing, tagName, attributeText, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else {
+      const element: XmlElement = { name: localName(tagName), attributes: {}, children: [], text: '' };
+      const attributes = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributes.exec(attributeText))) {
+        element.attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (root.children.length === 0) {
+    throw new Error('Not an XML document');
+  }
+  return root;
+}
+
+/**
+ * First element with the local name, depth first
+ */
+export function findElement(element: XmlElement, name: string): XmlElement | undefined {
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Every element with the local name, in document order
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.flatMap(child => [...(child.name === name ? [child] : []), ...findElements(child, name)]);
+}
+
+/**
+ * Trimmed text of the first element with the local name
+ */
+export function findText(element: XmlElement, name: string): string | undefined {
+  return findElement(element, name)?.text.trim();
+}
+
+/**
+ * WS-Security header; the digest is SHA-1 of nonce + created + password
+ * `timeOffset` (ms) moves the timestamp to the camera's clock - cameras reject tokens too far off theirs
+ */
+export function buildSecurityHeader(credentials: Credentials, timeOffset: number = 0): string {
+  const nonce = randomBytes(16);
+  const created = new Date(Date.now() + timeOffset).toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const digest = createHash('sha1').update(Buffer.concat([nonce, Buffer.from(created + credentials.password)])).digest('base64');
+
+  return (
+    `<Security s:mustUnderstand="1" xmlns="${WSSE_NS}"><UsernameToken>` +
+    `<Username>${escapeXml(credentials.username)}</Username>` +
+    `<Password Type="${PASSWORD_DIGEST}">${digest}</Password>` +
+    `<Nonce EncodingType="${BASE64_BINARY}">${nonce.toString('base64')}</Nonce>` +
+    `<Created xmlns="${WSU_NS}">${created}</Created>` +
+    '</UsernameToken></Security>'
+  );
+}
+
+export function buildSoapEnvelope(body: string, credentials?: Credentials, timeOffset: number = 0): string {
+  const header = credentials?.username ? `<s:Header>${buildSecurityHeader(credentials, timeOffset)}</s:Header>` : '';
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<s:Envelope xmlns:s="http://www.w3.org/2003/05/soap-envelope" ' +
+    'xmlns:tds="http://www.onvif.org/ver10/device/wsdl" xmlns:trt="http://www.onvif.org/ver10/media/wsdl" ' +
+    'xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl" xmlns:tt="http://www.onvif.org/ver10/schema">' +
+    `${header}<s:Body>${body}</s:Body></s:Envelope>`
+  );
+}
+
+/**
+ * Send a SOAP request and return the parsed Body
+ * Faults come back as errors with the camera's reason
+ */
+export async function sendSoapRequest(
+  url: string,
+  body: string,
+  credentials?: Credentials,
+  timeOffset: number = 0
+): Promise<OnvifResult<XmlElement>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/soap+xml; charset=utf-8' },
+      body: buildSoapEnvelope(body, credentials, timeOffset),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(SOAP_TIMEOUT),
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return {
+      error: { message: timedOut ? 'The camera did not respond in time' : 'Cannot reach the camera\'s ONVIF service' },
+    };
+  }
+
+  const text = await response.text();
+  let document: XmlElement | undefined;
+  try {
+    document = parseXml(text);
+  } catch {
+    document = undefined;
+  }
+
+  const fault = document && findElement(document, 'Fault');
+  if (fault) {
+    const reason = findText(fault, 'Text') || 'Unknown error';
+    const subcode = findElements(fault, 'Value').map(value => value.text.trim()).pop() || '';
+    const notAuthorized = /NotAuthorized|FailedAuthentication/i.test(subcode) || response.status === 401;
+    return {
+      error: {
+        status: response.status,
+        message: notAuthorized ? 'The camera rejected the ONVIF credentials' : `Camera error: ${reason}`,
+      },
+    };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return { error: { status: response.status, message: 'The camera rejected the ONVIF credentials' } };
+  }
+  if (!response.ok) {
+    return { error: { status: response.status, message: `ONVIF error (HTTP ${response.status})` } };
+  }
+
+  const soapBody = document && findElement(document, 'Body');
+  if (!soapBody) {
+    return { error: { status: response.status, message: 'The camera sent an invalid ONVIF response' } };
+  }
+  return { data: soapBody };
+}
@@ -0,0 +1,167 @@
+/**
+ * Browser cameras - a phone's or laptop's camera published to MediaMTX with WHIP (see lib/whip)
+ * Capture settings remembered in this browser and registering the published path as a camera
+ * Safe to import from client components
+ */
+
+import { fetchSharedConfig, saveSharedConfig } from '@/config';
+import { formatPathName } from '@/lib/mediamtx';
+import { Camera } from '@/types';
+
+export type PublishResolutionId = '480p' | '720p' | '1080p';
+
+export interface PublishResolution {
+  id: PublishResolutionId;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const PUBLISH_RESOLUTIONS: PublishResolution[] = [
+  { id: '480p', label: '480p (854 × 480)', width: 854, height: 480 },
+  { id: '720p', label: '720p (1280 × 720)', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p (1920 × 1080)', width: 1920, height: 1080 },
+];
+
+// Video bitrate limits offered, in kbps
+export const PUBLISH_BITRATES = [500, 1000, 2500, 4000];
+
+// HLS and recordings in MediaMTX need H264 - browsers default to VP8
+export const PUBLISH_VIDEO_CODEC = 'video/H264';
+
+export interface PublishSettings {
+  path: string; // MediaMTX path to publish to
+  name: string; // camera name used when the path is registered
+  deviceId: string; // camera of this device ('' = the browser's default)
+  resolution: PublishResolutionId;
+  bitrate: number; // kbps
+  audio: boolean;
+}
+
+export const DEFAULT_PUBLISH_SETTINGS: PublishSettings = {
+  path: 'phone',
+  name: '',
+  deviceId: '',
+  resolution: '720p',
+  bitrate: 1000,
+  audio: true,
+};
+
+export interface RegisterCameraResult {
+  success: boolean;
+  message?: string;
+  camera?: Camera;
+  created?: boolean; // false when a camera already played the path
+}
+
+const PUBLISH_SETTINGS_KEY = 'camsuite_publish';
+
+// MediaMTX path names: letters, digits and _ - . ~ in segments separated by slashes
+const PATH_PATTERN = /^[A-Za-z0-9_.~-]+(\/[A-Za-z0-9_.~-]+)*$/;
+
+export function getPublishResolution(id: string): PublishResolution {
+  return PUBLISH_RESOLUTIONS.find(resolution => resolution.id === id) || PUBLISH_RESOLUTIONS[1];
+}
+
+/**
+ * Trim a path and drop the leading slash, as camera paths are stored
+ */
+export function normalizePublishPath(path: string): string {
+  return path.trim().replace(/^\//, '');
+}
+
+/**
+ * Validate a path to publish to; returns an error message or null
+ */
+export function validatePublishPath(path: string): string | null {
+  const normalized = normalizePublishPath(path);
+  if (!normalized) {
+    return 'Path is required';
+  }
+  if (!PATH_PATTERN.test(normalized)) {
+    return 'Path can only contain letters, numbers, _ - . ~ and /';
+  }
+  return null;
+}
+
+/**
+ * Capture constraints for the chosen camera and resolution (phones without a choice use the back camera)
+ */
+export function getPublishConstraints(settings: PublishSettings): MediaStreamConstraints {
+  const { width, height } = getPublishResolution(settings.resolution);
+  return {
+    video: {
+      ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'environment' }),
+      width: { ideal: width },
+      height: { ideal: height },
+    },
+    audio: settings.audio ? { echoCancellation: false, noiseSuppression: true, autoGainControl: true } : false,
+  };
+}
+
+/**
+ * The capture settings last used in this browser
+ */
+export function loadPublishSettings(): PublishSettings {
+  if (typeof window === 'undefined') return DEFAULT_PUBLISH_SETTINGS;
+  try {
+    const stored = JSON.parse(localStorage.getItem(PUBLISH_SETTINGS_KEY) || '{}');
+    return {
+      path: typeof stored.path === 'string' ? stored.path : DEFAULT_PUBLISH_SETTINGS.path,
+      name: typeof stored.name === 'string' ? stored.name : DEFAULT_PUBLISH_SETTINGS.name,
+      deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : DEFAULT_PUBLISH_SETTINGS.deviceId,
+      resolution: getPublishResolution(stored.resolution).id,
+      bitrate: PUBLISH_BITRATES.includes(stored.bitrate) ? stored.bitrate : DEFAULT_PUBLISH_SETTINGS.bitrate,
+      audio: typeof stored.audio === 'boolean' ? stored.audio : DEFAULT_PUBLISH_SETTINGS.audio,
+    };
+  } catch {
+    return DEFAULT_PUBLISH_SETTINGS;
+  }
+}
+
+export function savePublishSettings(settings: PublishSettings): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(PUBLISH_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save publish settings to localStorage:', error);
+  }
+}
+
+/**
+ * Add a camera for a published path to the shared config (admin only), unless one already plays it
+ * Retries once on top of the newer config when someone else saved in the meantime
+ */
+export async function registerPublishedCamera(path: string, name: string): Promise<RegisterCameraResult> {
+  const cameraPath = normalizePublishPath(path);
+  let shared = await fetchSharedConfig();
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    if (shared.offline) {
+      return { success: false, message: 'The server cannot be reached' };
+    }
+
+    const existing = shared.config.cameras.find(camera => normalizePublishPath(camera.path) === cameraPath);
+    if (existing) {
+      return { success: true, camera: existing, created: false };
+    }
+
+    const camera: Camera = {
+      id: `camera-${Date.now()}`,
+      name: name.trim() || formatPathName(cameraPath),
+      path: cameraPath,
+      status: 'online',
+      lastSeen: new Date(),
+    };
+    const result = await saveSharedConfig({ ...shared.config, cameras: [...shared.config.cameras, camera] }, shared.version);
+    if (result.success) {
+      return { success: true, camera, created: true, message: `Added "${camera.name}" to the cameras` };
+    }
+    if (!result.conflict || !result.shared) {
+      return { success: false, message: result.message };
+    }
+    shared = result.shared;
+  }
+
+  return { success: false, message: 'The settings were changed meanwhile. Please try again.' };
+}
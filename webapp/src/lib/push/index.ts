@@ -0,0 +1,184 @@
+/**
+ * Web Push - logged events shown as notifications on phones and desktops, even with the app closed
+ * Each user picks the event types they are told about; the browser subscribes through the service worker
+ * (see lib/pwa) with the server's VAPID key
+ * Safe to import from client components (delivery happens in push-sender.ts)
+ */
+
+import { EventType, LoggedEvent } from '@/lib/events';
+import { SERVICE_WORKER_URL } from '@/lib/pwa';
+
+// Event types a user can be told about, in the order they are offered
+export const PUSH_EVENT_TYPES: EventType[] = ['camera-offline', 'motion', 'login-new-device'];
+
+// Until a user picks their own - motion can be chatty
+export const DEFAULT_PUSH_EVENT_TYPES: EventType[] = ['camera-offline', 'login-new-device'];
+
+/**
+ * A browser's push subscription as sent by PushSubscription.toJSON()
+ */
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string; // base64url P-256 public key of the browser
+    auth: string; // base64url authentication secret
+  };
+}
+
+/**
+ * What the service worker shows for a push
+ */
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string; // opened when the notification is clicked
+  tag: string; // a newer notification with the same tag replaces the older one
+}
+
+export interface PushSettings {
+  publicKey: string; // VAPID public key (base64url), the browser's applicationServerKey
+  eventTypes: EventType[];
+  devices: number; // subscriptions of the signed-in user
+}
+
+export interface PushResult {
+  success: boolean;
+  message?: string;
+  settings?: PushSettings;
+}
+
+/**
+ * The notification shown for an event
+ * Camera events open that camera's viewer, sign-ins the account page
+ */
+export function getPushMessage(event: Pick<LoggedEvent, 'type' | 'cameraId' | 'cameraName' | 'message'>): PushMessage {
+  if (event.cameraId) {
+    return {
+      title: event.cameraName || 'Camera Suite',
+      body: event.message,
+      url: `/viewer/${encodeURIComponent(event.cameraId)}`,
+      tag: `${event.type}:${event.cameraId}`,
+    };
+  }
+  return {
+    title: 'Camera Suite',
+    body: event.message,
+    url: event.type === 'login-new-device' ? '/account' : '/events',
+    tag: event.type,
+  };
+}
+
+/**
+ * Whether this browser can receive push notifications
+ * iOS only offers push to apps added to the home screen
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Convert a base64url string to the bytes pushManager.subscribe() expects
+ */
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+async function sendPushRequest(method: string, url: string, body?: unknown): Promise<PushResult> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      credentials: 'include',
+      cache: 'no-store',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    return {
+      success: response.ok && data.success === true,
+      message: data.message,
+      settings: data.settings,
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * The VAPID key and the signed-in user's push preferences
+ */
+export function getPushSettings(): Promise<PushResult> {
+  return sendPushRequest('GET', '/api/push');
+}
+
+/**
+ * Pick the event types the signed-in user is told about
+ */
+export function savePushEventTypes(eventTypes: EventType[]): Promise<PushResult> {
+  return sendPushRequest('PUT', '/api/push', { eventTypes });
+}
+
+/**
+ * Send a test notification to every device of the signed-in user
+ */
+export function sendTestPush(): Promise<PushResult> {
+  return sendPushRequest('POST', '/api/push/test');
+}
+
+/**
+ * This browser's current push subscription, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for permission, subscribe this browser and register the subscription with the server
+ */
+export async function enablePush(publicKey: string): Promise<PushResult> {
+  if (!isPushSupported()) {
+    return { success: false, message: 'This browser does not support push notifications' };
+  }
+  if ((await Notification.requestPermission()) !== 'granted') {
+    return { success: false, message: 'Notifications are blocked for this site in the browser settings' };
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey),
+    });
+    return sendPushRequest('POST', '/api/push/subscription', { subscription: subscription.toJSON() });
+  } catch (error) {
+    console.error('Push subscription failed:', error);
+    return { success: false, message: 'Could not subscribe to push notifications' };
+  }
+}
+
+/**
+ * Unsubscribe this browser and forget the subscription on the server
+ */
+export async function disablePush(): Promise<PushResult> {
+  const subscription = await getPushSubscription();
+  if (!subscription) {
+    return { success: true };
+  }
+
+  const result = await sendPushRequest('DELETE', '/api/push/subscription', { endpoint: subscription.endpoint });
+  await subscription.unsubscribe().catch(() => false);
+  return result;
+}
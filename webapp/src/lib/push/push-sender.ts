@@ -0,0 +1,96 @@
+/**
+ * Push delivery for logged events
+ * A user's devices are told about the event types they picked, for cameras they may view; sign-ins from a
+ * new device go to the account's owner and to admins. Pushes are sent once - push services keep them for
+ * devices that are offline - and subscriptions the push service no longer knows are dropped.
+ * NOTE: Server-only
+ */
+
+import { LoggedEvent } from '@/lib/events';
+import { canViewCamera, hasRole, SiteUser } from '@/lib/site-auth/permissions';
+import { listUsers } from '@/lib/site-auth/user-store';
+import { getPushMessage, PUSH_EVENT_TYPES, PushMessage } from './index';
+import {
+  getStoredPushPreferences,
+  getVapidKeys,
+  listStoredPushSubscriptions,
+  removeStoredPushSubscriptions,
+  StoredPushSubscription,
+} from './push-store';
+import { PushUrgency, sendPush } from './web-push';
+
+const URGENT_EVENT_TYPES = ['camera-offline', 'login-new-device'];
+
+export interface PushOutcome {
+  sent: number;
+  error?: string; // of the first device that could not be reached
+}
+
+/**
+ * Whether a user may be told about an event
+ */
+function canReceiveEvent(user: SiteUser, event: LoggedEvent): boolean {
+  if (event.cameraId) return canViewCamera(user, event.cameraId);
+  return event.username === user.username || hasRole(user.role, 'admin');
+}
+
+/**
+ * Send a message to some subscriptions, forgetting the ones that are gone
+ */
+export async function pushToSubscriptions(
+  subscriptions: StoredPushSubscription[],
+  message: PushMessage,
+  urgency: PushUrgency = 'normal'
+): Promise<PushOutcome> {
+  const keys = await getVapidKeys();
+  const results = await Promise.all(subscriptions.map(subscription => sendPush(subscription, message, keys, urgency)));
+
+  const gone = subscriptions.filter((_, index) => results[index].gone).map(subscription => subscription.endpoint);
+  if (gone.length > 0) {
+    await removeStoredPushSubscriptions(gone);
+  }
+
+  return {
+    sent: results.filter(result => !result.error).length,
+    error: results.find(result => result.error)?.error,
+  };
+}
+
+/**
+ * Push an event to every device that wants it; failures are logged, never thrown
+ */
+export async function pushEvent(event: LoggedEvent): Promise<void> {
+  try {
+    if (!PUSH_EVENT_TYPES.includes(event.type)) return;
+    const subscriptions = await listStoredPushSubscriptions();
+    if (subscriptions.length === 0) return;
+
+    const [preferences, users] = await Promise.all([getStoredPushPreferences(), listUsers()]);
+    const recipients = subscriptions.filter(subscription => {
+      const user = users.find(item => item.id === subscription.userId);
+      return !!user && preferences[user.id]?.includes(event.type) && canReceiveEvent(user, event);
+    });
+    if (recipients.length === 0) return;
+
+    const urgency = URGENT_EVENT_TYPES.includes(event.type) ? 'high' : 'normal';
+    const { sent, error } = await pushToSubscriptions(recipients, getPushMessage(event), urgency);
+    if (error) {
+      console.error(`Push for ${event.type} reached ${sent} of ${recipients.length} device(s): ${error}`);
+    }
+  } catch (error) {
+    console.error('Push error:', error);
+  }
+}
+
+/**
+ * Send a test notification to every device of a user
+ */
+export async function pushTestMessage(userId: string): Promise<PushOutcome> {
+  const subscriptions = (await listStoredPushSubscriptions()).filter(subscription => subscription.userId === userId);
+  return pushToSubscriptions(subscriptions, {
+    title: 'Camera Suite',
+    body: 'Test notification - push notifications work on this device',
+    url: '/account',
+    tag: 'test',
+  });
+}
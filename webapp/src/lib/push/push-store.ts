@@ -0,0 +1,178 @@
+/**
+ * Server-side store for Web Push: the VAPID key pair, browser subscriptions and per-user preferences
+ * The key pair is generated on first use; replacing it invalidates every subscription
+ * NOTE: Server-only - import from API routes, never from client components
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import { EventType } from '@/lib/events';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+import { DEFAULT_PUSH_EVENT_TYPES, PUSH_EVENT_TYPES, PushSubscriptionData } from './index';
+
+const PUSH_KEYS_FILE = 'push-keys.json';
+const PUSH_FILE = 'push.json';
+
+// Oldest subscriptions of a user are dropped first
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+const MAX_ENDPOINT_LENGTH = 1000;
+
+export interface VapidKeys {
+  publicKey: string; // base64url uncompressed P-256 point, as browsers expect it
+  privateKey: string; // PKCS#8 PEM
+}
+
+export interface StoredPushSubscription extends PushSubscriptionData {
+  userId: string;
+  userAgent: string;
+  createdAt: string;
+}
+
+interface PushData {
+  subscriptions: StoredPushSubscription[];
+  preferences: Record<string, EventType[]>; // by user ID
+}
+
+function getDefaultData(): PushData {
+  return { subscriptions: [], preferences: {} };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The server's VAPID key pair, created the first time it is needed
+ */
+export async function getVapidKeys(): Promise<VapidKeys> {
+  return withProcessLock('push-keys', async () => {
+    const stored = await readJsonFile<VapidKeys | null>(PUSH_KEYS_FILE, null);
+    if (stored) return stored;
+
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const keys: VapidKeys = {
+      publicKey: publicKey.export({ format: 'der', type: 'spki' }).subarray(-65).toString('base64url'),
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+    };
+    await writeJsonFile(PUSH_KEYS_FILE, keys);
+    return keys;
+  });
+}
+
+/**
+ * Validate a subscription sent by a browser
+ * Push services are always reached over HTTPS
+ */
+export function parsePushSubscription(value: unknown): { subscription?: PushSubscriptionData; error?: string } {
+  if (!isObject(value) || typeof value.endpoint !== 'string' || !isObject(value.keys)) {
+    return { error: 'Invalid push subscription' };
+  }
+
+  let endpoint: URL;
+  try {
+    endpoint = new URL(value.endpoint);
+  } catch {
+    return { error: 'Invalid push subscription' };
+  }
+  if (endpoint.protocol !== 'https:' || value.endpoint.length > MAX_ENDPOINT_LENGTH) {
+    return { error: 'Push endpoint must be an HTTPS URL' };
+  }
+
+  const { p256dh, auth } = value.keys;
+  if (
+    typeof p256dh !== 'string' ||
+    typeof auth !== 'string' ||
+    Buffer.from(p256dh, 'base64url').length !== 65 ||
+    Buffer.from(auth, 'base64url').length !== 16
+  ) {
+    return { error: 'Invalid push subscription keys' };
+  }
+
+  return { subscription: { endpoint: value.endpoint, keys: { p256dh, auth } } };
+}
+
+/**
+ * Keep only the event types a user can be told about
+ */
+export function parsePushEventTypes(value: unknown): EventType[] | null {
+  if (!Array.isArray(value)) return null;
+  return PUSH_EVENT_TYPES.filter(type => value.includes(type));
+}
+
+/**
+ * Every stored subscription
+ */
+export async function listStoredPushSubscriptions(): Promise<StoredPushSubscription[]> {
+  return (await readJsonFile<PushData>(PUSH_FILE, getDefaultData())).subscriptions;
+}
+
+/**
+ * Event types a user is told about
+ */
+export async function getStoredPushEventTypes(userId: string): Promise<EventType[]> {
+  const { preferences } = await readJsonFile<PushData>(PUSH_FILE, getDefaultData());
+  return preferences[userId] || DEFAULT_PUSH_EVENT_TYPES;
+}
+
+/**
+ * Event types of every user with a subscription, by user ID
+ */
+export async function getStoredPushPreferences(): Promise<Record<string, EventType[]>> {
+  const { subscriptions, preferences } = await readJsonFile<PushData>(PUSH_FILE, getDefaultData());
+  return Object.fromEntries(
+    subscriptions.map(({ userId }) => [userId, preferences[userId] || DEFAULT_PUSH_EVENT_TYPES])
+  );
+}
+
+async function modifyPushData<T>(change: (data: PushData) => T): Promise<T> {
+  return withProcessLock('push', async () => {
+    const data = await readJsonFile<PushData>(PUSH_FILE, getDefaultData());
+    const result = change(data);
+    await writeJsonFile(PUSH_FILE, data);
+    return result;
+  });
+}
+
+/**
+ * Save the event types a user is told about
+ */
+export async function saveStoredPushEventTypes(userId: string, eventTypes: EventType[]): Promise<EventType[]> {
+  return modifyPushData(data => {
+    data.preferences[userId] = eventTypes;
+    return eventTypes;
+  });
+}
+
+/**
+ * Store a browser's subscription for a user, replacing an older one with the same endpoint
+ */
+export async function addStoredPushSubscription(
+  userId: string,
+  subscription: PushSubscriptionData,
+  userAgent: string
+): Promise<void> {
+  await modifyPushData(data => {
+    const others = data.subscriptions.filter(item => item.endpoint !== subscription.endpoint);
+    const own = others.filter(item => item.userId === userId);
+    const dropped = own.slice(0, Math.max(0, own.length - MAX_SUBSCRIPTIONS_PER_USER + 1));
+
+    data.subscriptions = [
+      ...others.filter(item => !dropped.includes(item)),
+      { ...subscription, userId, userAgent: userAgent.slice(0, 200), createdAt: new Date().toISOString() },
+    ];
+  });
+}
+
+/**
+ * Forget subscriptions by endpoint, optionally only those of one user
+ * Returns how many were removed
+ */
+export async function removeStoredPushSubscriptions(endpoints: string[], userId?: string): Promise<number> {
+  return modifyPushData(data => {
+    const before = data.subscriptions.length;
+    data.subscriptions = data.subscriptions.filter(
+      item => !endpoints.includes(item.endpoint) || (userId !== undefined && item.userId !== userId)
+    );
+    return before - data.subscriptions.length;
+  });
+}
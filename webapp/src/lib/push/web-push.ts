@@ -0,0 +1,122 @@
+/**
+ * Web Push delivery
+ * Messages are encrypted for the browser (RFC 8291, `aes128gcm` content encoding from RFC 8188) and
+ * the request to its push service is signed with the server's VAPID key (RFC 8292)
+ * NOTE: Server-only
+ */
+
+import { createCipheriv, createECDH, createHmac, createPrivateKey, randomBytes, sign } from 'crypto';
+import { SendResult } from '@/lib/notifications';
+import { PushMessage, PushSubscriptionData } from './index';
+import { VapidKeys } from './push-store';
+
+const PUSH_TIMEOUT = 10 * 1000;
+const PUSH_TTL = 24 * 60 * 60; // seconds a push service keeps a message for a device that is offline
+const VAPID_TOKEN_LIFETIME = 12 * 60 * 60; // seconds, push services accept at most 24 hours
+const RECORD_SIZE = 4096;
+
+export type PushUrgency = 'normal' | 'high';
+
+export interface PushDeliveryResult extends SendResult {
+  gone?: boolean; // the browser unsubscribed or the subscription expired
+}
+
+/**
+ * Contact the push services can reach the operator at (`mailto:` or `https:` URL)
+ */
+function getVapidSubject(): string {
+  return process.env.CAMSUITE_PUSH_CONTACT || 'mailto:camsuite@example.com';
+}
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Encrypt a message for a subscription as a single `aes128gcm` record
+ */
+export function encryptPushPayload(payload: Buffer, keys: PushSubscriptionData['keys']): Buffer {
+  const userAgentKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  // A fresh key pair and salt for every message
+  const ecdh = createECDH('prime256v1');
+  const serverKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentKey);
+  const salt = randomBytes(16);
+
+  const prkKey = hmac(authSecret, sharedSecret);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentKey, serverKey, Buffer.from([1])]);
+  const inputKey = hmac(prkKey, keyInfo);
+  const prk = hmac(salt, inputKey);
+  const contentKey = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  // 0x02 marks the last (and only) record
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const record = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header[20] = serverKey.length;
+  return Buffer.concat([header, serverKey, record]);
+}
+
+/**
+ * `Authorization` header for a push service: a short-lived ES256 token for its origin and the public key
+ */
+export function createVapidAuthorization(endpoint: string, keys: VapidKeys): string {
+  const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+  const claims = Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_LIFETIME,
+    sub: getVapidSubject(),
+  })).toString('base64url');
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: createPrivateKey(keys.privateKey),
+    dsaEncoding: 'ieee-p1363',
+  }).toString('base64url');
+
+  return `vapid t=${header}.${claims}.${signature}, k=${keys.publicKey}`;
+}
+
+/**
+ * Send a message to one browser through its push service
+ */
+export async function sendPush(
+  subscription: PushSubscriptionData,
+  message: PushMessage,
+  keys: VapidKeys,
+  urgency: PushUrgency = 'normal'
+): Promise<PushDeliveryResult> {
+  const body = encryptPushPayload(Buffer.from(JSON.stringify(message)), subscription.keys);
+
+  try {
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        Authorization: createVapidAuthorization(subscription.endpoint, keys),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(PUSH_TTL),
+        Urgency: urgency,
+      },
+      body: new Uint8Array(body),
+      redirect: 'manual',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(PUSH_TIMEOUT),
+    });
+    await response.body?.cancel();
+
+    if (response.ok) return {};
+    return {
+      error: `Push service answered ${response.status}`,
+      permanent: response.status < 500 && response.status !== 429,
+      gone: response.status === 404 || response.status === 410,
+    };
+  } catch (error) {
+    const timedOut = (error as Error).name === 'TimeoutError';
+    return { error: timedOut ? 'Push service did not answer in time' : 'Push service is unreachable' };
+  }
+}
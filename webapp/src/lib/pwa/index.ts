@@ -0,0 +1,99 @@
+/**
+ * Installable app - the service worker (public/sw.js) that keeps an offline app shell and shows push
+ * notifications, and whether the server can be reached
+ * Safe to import from client components
+ */
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+// Answers quickly and is never cached by the service worker; checks the session without extending it,
+// so probing does not keep an idle tab signed in
+export const PROBE_URL = '/api/auth/session?renew=false';
+const PROBE_TIMEOUT = 5 * 1000;
+const RETRY_INTERVAL = 15 * 1000;
+
+/**
+ * Register the service worker; a page loaded before the worker was in control is cached afterwards
+ * Returns null when the browser has no service workers (or only offers them over HTTPS)
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return null;
+
+  try {
+    const controlled = !!navigator.serviceWorker.controller;
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    if (!controlled) {
+      const ready = await navigator.serviceWorker.ready;
+      ready.active?.postMessage({ type: 'cache-page', url: window.location.pathname });
+    }
+    return registration;
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether the server answers at all (any status below 500)
+ */
+export async function probeServer(fetchImpl: typeof fetch = fetch): Promise<boolean> {
+  try {
+    const response = await fetchImpl(PROBE_URL, {
+      credentials: 'include',
+      cache: 'no-store',
+      signal: AbortSignal.timeout(PROBE_TIMEOUT),
+    });
+    return response.status < 500;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Watch whether the server can be reached
+ * Checks right away, when the browser goes on- or offline and when the app comes back to the foreground,
+ * and every 15 seconds while the server cannot be reached; `onChange` is only called on changes
+ * Returns a function that stops watching
+ */
+export function watchServerConnection(
+  onChange: (reachable: boolean) => void,
+  { probe = () => probeServer(), retryInterval = RETRY_INTERVAL }: {
+    probe?: () => Promise<boolean>;
+    retryInterval?: number;
+  } = {}
+): () => void {
+  let reachable = true;
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const check = async () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+
+    const next = navigator.onLine && (await probe());
+    if (stopped) return;
+    if (next !== reachable) {
+      reachable = next;
+      onChange(next);
+    }
+    if (!next) {
+      timer = setTimeout(check, retryInterval);
+    }
+  };
+  const checkWhenVisible = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  window.addEventListener('online', check);
+  window.addEventListener('offline', check);
+  document.addEventListener('visibilitychange', checkWhenVisible);
+  check();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    window.removeEventListener('online', check);
+    window.removeEventListener('offline', check);
+    document.removeEventListener('visibilitychange', checkWhenVisible);
+  };
+}
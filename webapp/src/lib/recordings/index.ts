@@ -0,0 +1,166 @@
+/**
+ * Recordings - browse and play back what MediaMTX recorded, and switch recording on and off,
+ * through the web server
+ * Timeline helpers work in the browser's local time
+ * Safe to import from client components (MediaMTX is only called by /api routes)
+ */
+
+import { Camera, RecordMode } from '@/types';
+
+/**
+ * A recorded stretch of a path without gaps
+ */
+export interface RecordingSegment {
+  start: string; // ISO date
+  duration: number; // seconds
+}
+
+export interface ListRecordingsResult {
+  success: boolean;
+  message?: string;
+  segments: RecordingSegment[];
+}
+
+export type TimelineZoom = 'day' | 'hour';
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export const DEFAULT_CLIP_DURATION = 5 * 60; // seconds played when clicking the timeline
+
+export const RECORD_MODE_LABELS: Record<RecordMode, string> = {
+  always: 'Always record',
+  never: 'Never record',
+  schedule: 'On schedule',
+};
+
+/**
+ * Recording mode of a camera; cameras without one follow the schedule
+ */
+export function getRecordMode(camera: Pick<Camera, 'recordMode'>): RecordMode {
+  return camera.recordMode || 'schedule';
+}
+
+/**
+ * Visible part of the timeline: a whole local day, or one hour of it
+ */
+export function getTimelineRange(day: Date, zoom: TimelineZoom, hour: number = 0): TimeRange {
+  const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), zoom === 'hour' ? hour : 0);
+  const end = new Date(start);
+  if (zoom === 'hour') {
+    end.setHours(start.getHours() + 1);
+  } else {
+    end.setDate(start.getDate() + 1); // handles daylight saving days of 23/25 hours
+  }
+  return { start, end };
+}
+
+export function getSegmentEnd(segment: RecordingSegment): Date {
+  return new Date(new Date(segment.start).getTime() + segment.duration * 1000);
+}
+
+/**
+ * Position of a time on the timeline, from 0 to 1 (clamped)
+ */
+export function getTimelinePosition(time: Date, range: TimeRange): number {
+  const span = range.end.getTime() - range.start.getTime();
+  return Math.min(1, Math.max(0, (time.getTime() - range.start.getTime()) / span));
+}
+
+/**
+ * Time at a position (0 to 1) of the timeline
+ */
+export function getTimeAtPosition(position: number, range: TimeRange): Date {
+  const span = range.end.getTime() - range.start.getTime();
+  return new Date(range.start.getTime() + Math.min(1, Math.max(0, position)) * span);
+}
+
+/**
+ * Segment containing a time, if any
+ */
+export function findSegmentAt(segments: RecordingSegment[], time: Date): RecordingSegment | null {
+  return segments.find(segment => {
+    const start = new Date(segment.start);
+    return time >= start && time < getSegmentEnd(segment);
+  }) || null;
+}
+
+/**
+ * Turn a click or drag on the timeline into a range to play, kept inside the recording
+ * A click (no end) plays DEFAULT_CLIP_DURATION from that point; returns null outside recordings
+ */
+export function getPlaybackRange(segments: RecordingSegment[], from: Date, to?: Date): TimeRange | null {
+  const [first, second] = to && to < from ? [to, from] : [from, to];
+  const segment = findSegmentAt(segments, first)
+    || (second ? segments.find(item => new Date(item.start) >= first && new Date(item.start) < second) : null);
+  if (!segment) return null;
+
+  const segmentStart = new Date(segment.start);
+  const start = first < segmentStart ? segmentStart : first;
+  const requestedEnd = second || new Date(start.getTime() + DEFAULT_CLIP_DURATION * 1000);
+  const segmentEnd = getSegmentEnd(segment);
+  const end = requestedEnd > segmentEnd ? segmentEnd : requestedEnd;
+
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * List recorded segments of a camera in a time range
+ */
+export async function listRecordings(cameraId: string, range: TimeRange): Promise<ListRecordingsResult> {
+  try {
+    const params = new URLSearchParams({
+      cameraId,
+      start: range.start.toISOString(),
+      end: range.end.toISOString(),
+    });
+    const response = await fetch(`/api/recordings?${params}`, {
+      method: 'GET',
+      credentials: 'include',
+    });
+    const data = await response.json();
+    return {
+      success: data.success === true,
+      message: data.message,
+      segments: data.segments || [],
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.', segments: [] };
+  }
+}
+
+/**
+ * URL that plays (or downloads) a range of a camera's recordings as MP4
+ */
+export function getRecordingVideoUrl(cameraId: string, range: TimeRange, download: boolean = false): string {
+  const params = new URLSearchParams({
+    cameraId,
+    start: range.start.toISOString(),
+    duration: String((range.end.getTime() - range.start.getTime()) / 1000),
+    ...(download && { download: '1' }),
+  });
+  return `/api/recordings/video?${params}`;
+}
+
+/**
+ * Start or stop recording a camera (operators and admins, cameras on schedule only)
+ */
+export async function setCameraRecording(
+  cameraId: string,
+  record: boolean
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    const response = await fetch(`/api/cameras/${encodeURIComponent(cameraId)}/record`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ record }),
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Client for the MediaMTX playback server (recordings)
+ * Called from API routes so camera credentials stay on the server and the browser only talks to us
+ * NOTE: Server-only
+ */
+
+import { buildAuthHeader, MediaMtxApiResult } from '@/lib/mediamtx/api-client';
+import { Credentials } from '@/types';
+import type { RecordingSegment } from './index';
+
+const REQUEST_TIMEOUT = 10 * 1000;
+const PLAYBACK_PORT = '9996';
+
+/**
+ * Address of the playback server: CAMSUITE_PLAYBACK_URL, or the MediaMTX host on port 9996
+ */
+export function getPlaybackUrl(serverUrl: string): string {
+  if (process.env.CAMSUITE_PLAYBACK_URL) {
+    return process.env.CAMSUITE_PLAYBACK_URL.replace(/\/$/, '');
+  }
+  const url = new URL(serverUrl);
+  url.port = PLAYBACK_PORT;
+  return url.origin;
+}
+
+function buildPlaybackUrl(baseUrl: string, endpoint: string, params: Record<string, string>): string {
+  return `${baseUrl.replace(/\/$/, '')}${endpoint}?${new URLSearchParams(params)}`;
+}
+
+/**
+ * Call the playback server; the timeout only covers the response headers so long videos can stream
+ * `signal` aborts the request (e.g., when the browser goes away)
+ */
+async function requestPlayback(
+  url: string,
+  credentials?: Credentials,
+  signal?: AbortSignal
+): Promise<MediaMtxApiResult<Response>> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(new DOMException('Timed out', 'TimeoutError')), REQUEST_TIMEOUT);
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: buildAuthHeader(credentials),
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+  } catch (error) {
+    signal?.removeEventListener('abort', onAbort);
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    return {
+      error: {
+        message: timedOut
+          ? 'MediaMTX playback server did not respond in time'
+          : 'Cannot reach the MediaMTX playback server. Check that `playback: true` is set.',
+      },
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    await response.body?.cancel();
+    return {
+      error: { status: response.status, message: 'MediaMTX playback server rejected the camera credentials' },
+    };
+  }
+  return { data: response };
+}
+
+/**
+ * Recorded segments of a path that overlap the given time range
+ * A path without recordings is an empty list, not an error
+ */
+export async function listRecordings(
+  baseUrl: string,
+  path: string,
+  range: { start: Date; end: Date },
+  credentials?: Credentials
+): Promise<MediaMtxApiResult<RecordingSegment[]>> {
+  const url = buildPlaybackUrl(baseUrl, '/list', {
+    path,
+    start: range.start.toISOString(),
+    end: range.end.toISOString(),
+  });
+  const result = await requestPlayback(url, credentials);
+  if (result.error) return { error: result.error };
+
+  const response = result.data;
+  if (response.status === 404) {
+    await response.body?.cancel();
+    return { data: [] };
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    return {
+      error: {
+        status: response.status,
+        message: body?.error || `MediaMTX playback error (HTTP ${response.status})`,
+      },
+    };
+  }
+
+  const items = (await response.json()) as { start: string; duration: number }[];
+  return {
+    data: items
+      .map(item => ({ start: new Date(item.start).toISOString(), duration: Number(item.duration) }))
+      .sort((a, b) => a.start.localeCompare(b.start)),
+  };
+}
+
+/**
+ * Fetch a time range of a recording as an MP4 file
+ * The response body is passed through to the browser as it arrives
+ */
+export async function fetchRecording(
+  baseUrl: string,
+  path: string,
+  start: Date,
+  duration: number,
+  credentials?: Credentials,
+  signal?: AbortSignal
+): Promise<MediaMtxApiResult<Response>> {
+  const url = buildPlaybackUrl(baseUrl, '/get', {
+    path,
+    start: start.toISOString(),
+    duration: String(duration),
+    format: 'mp4',
+  });
+  const result = await requestPlayback(url, credentials, signal);
+  if (result.error) return result;
+
+  if (!result.data.ok) {
+    const status = result.data.status;
+    await result.data.body?.cancel();
+    return {
+      error: {
+        status,
+        message: status === 404 ? 'No recording in the selected range' : `MediaMTX playback error (HTTP ${status})`,
+      },
+    };
+  }
+  return result;
+}
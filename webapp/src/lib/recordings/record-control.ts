@@ -0,0 +1,59 @@
+/**
+ * Turn MediaMTX recording of camera paths on and off through the Control API
+ * NOTE: Server-only
+ */
+
+import { MediaMtxApiResult, patchPathConfig } from '@/lib/mediamtx/api-client';
+import { Camera, MediaMtxApiConfig } from '@/types';
+import { getRecordMode } from './index';
+
+/**
+ * Set `record` on the camera's path configuration
+ */
+export async function setCameraRecording(
+  api: MediaMtxApiConfig,
+  camera: Pick<Camera, 'path'>,
+  record: boolean
+): Promise<MediaMtxApiResult<null>> {
+  const result = await patchPathConfig(api, camera.path, { record });
+  if (result.error?.status === 404) {
+    return {
+      error: {
+        status: 404,
+        message: `Path "${camera.path}" is not configured in MediaMTX - add it to mediamtx.yml to record it`,
+      },
+    };
+  }
+  return result;
+}
+
+/**
+ * Apply "always" and "never" recording modes of cameras that are new or changed since `previous`
+ * Cameras on schedule are left to the schedule; returns a message for every camera that failed
+ */
+export async function applyRecordModes(
+  previous: Camera[],
+  cameras: Camera[],
+  api?: MediaMtxApiConfig
+): Promise<string[]> {
+  const changed = cameras.filter(camera => {
+    const mode = getRecordMode(camera);
+    if (mode === 'schedule') return false;
+    const before = previous.find(item => item.id === camera.id);
+    return !before || getRecordMode(before) !== mode || before.path !== camera.path;
+  });
+  if (changed.length === 0) return [];
+
+  if (!api?.url) {
+    return ['Recording modes need the MediaMTX API - set its URL under Server to apply them'];
+  }
+
+  const warnings: string[] = [];
+  for (const camera of changed) {
+    const result = await setCameraRecording(api, camera, getRecordMode(camera) === 'always');
+    if (result.error) {
+      warnings.push(`${camera.name}: ${result.error.message}`);
+    }
+  }
+  return warnings;
+}
@@ -0,0 +1,150 @@
+/**
+ * Server-side store for the recording schedule (rules and away mode)
+ * Kept in the data directory so the schedule survives restarts
+ * NOTE: Server-only - import from API routes, never from client components
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+import { parseTimeOfDay, RecordingRule, RecordingRuleTrigger, RecordingSchedule } from './schedule';
+
+const SCHEDULE_FILE = 'recording-schedule.json';
+
+const MAX_RULES = 100;
+const MAX_RULE_NAME_LENGTH = 60;
+
+function getDefaultSchedule(): RecordingSchedule {
+  return { rules: [], away: false, updatedAt: null, updatedBy: null };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseTrigger(value: unknown, label: string): { trigger?: RecordingRuleTrigger; error?: string } {
+  if (!isObject(value)) {
+    return { error: `${label}: When to record is required` };
+  }
+  if (value.type === 'away') {
+    return { trigger: { type: 'away' } };
+  }
+  if (value.type !== 'weekly') {
+    return { error: `${label}: Invalid trigger` };
+  }
+
+  const days = Array.isArray(value.days) ? value.days : [];
+  if (days.length === 0 || !days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    return { error: `${label}: Pick at least one day` };
+  }
+  if (typeof value.start !== 'string' || parseTimeOfDay(value.start) === null) {
+    return { error: `${label}: Start time must be HH:MM` };
+  }
+  if (typeof value.end !== 'string' || parseTimeOfDay(value.end) === null) {
+    return { error: `${label}: End time must be HH:MM` };
+  }
+
+  return {
+    trigger: {
+      type: 'weekly',
+      days: Array.from(new Set(days as number[])).sort((a, b) => a - b),
+      start: value.start,
+      end: value.end,
+    },
+  };
+}
+
+function parseRule(value: unknown, index: number): { rule?: RecordingRule; error?: string } {
+  const label = `Rule ${index + 1}`;
+  if (!isObject(value)) {
+    return { error: `${label}: Invalid rule` };
+  }
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    return { error: `${label}: Name is required` };
+  }
+  if (name.length > MAX_RULE_NAME_LENGTH) {
+    return { error: `${label}: Name must be at most ${MAX_RULE_NAME_LENGTH} characters` };
+  }
+  if (
+    value.cameraIds !== undefined &&
+    (!Array.isArray(value.cameraIds) || !value.cameraIds.every(id => typeof id === 'string'))
+  ) {
+    return { error: `${label}: Invalid cameras` };
+  }
+
+  const { trigger, error } = parseTrigger(value.trigger, label);
+  if (!trigger) {
+    return { error };
+  }
+
+  return {
+    rule: {
+      id: typeof value.id === 'string' && value.id ? value.id : randomUUID(),
+      name,
+      enabled: value.enabled !== false,
+      cameraIds: Array.from(new Set((value.cameraIds as string[] | undefined) || [])),
+      trigger,
+    },
+  };
+}
+
+/**
+ * Validate recording rules sent by a client; new rules get an ID
+ */
+export function parseRecordingRules(value: unknown): { rules?: RecordingRule[]; error?: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'Rules must be a list' };
+  }
+  if (value.length > MAX_RULES) {
+    return { error: `At most ${MAX_RULES} rules are allowed` };
+  }
+
+  const rules: RecordingRule[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const { rule, error } = parseRule(value[index], index);
+    if (!rule) return { error };
+    if (rules.some(item => item.id === rule.id)) {
+      return { error: `Rule ${index + 1}: Duplicate rule` };
+    }
+    rules.push(rule);
+  }
+  return { rules };
+}
+
+/**
+ * Load the recording schedule (no rules before the first save)
+ */
+export async function getRecordingSchedule(): Promise<RecordingSchedule> {
+  return readJsonFile<RecordingSchedule>(SCHEDULE_FILE, getDefaultSchedule());
+}
+
+async function updateRecordingSchedule(
+  changes: Partial<Pick<RecordingSchedule, 'rules' | 'away'>>,
+  updatedBy: string
+): Promise<RecordingSchedule> {
+  return withProcessLock('recording-schedule', async () => {
+    const schedule: RecordingSchedule = {
+      ...(await getRecordingSchedule()),
+      ...changes,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    };
+    await writeJsonFile(SCHEDULE_FILE, schedule);
+    return schedule;
+  });
+}
+
+/**
+ * Replace the recording rules
+ */
+export function saveRecordingRules(rules: RecordingRule[], updatedBy: string): Promise<RecordingSchedule> {
+  return updateRecordingSchedule({ rules }, updatedBy);
+}
+
+/**
+ * Switch away mode on or off
+ */
+export function setAwayMode(away: boolean, updatedBy: string): Promise<RecordingSchedule> {
+  return updateRecordingSchedule({ away }, updatedBy);
+}
@@ -0,0 +1,163 @@
+/**
+ * Recording schedule - rules that turn recording on for cameras whose recording mode is "On schedule"
+ * A rule records at set times of the week (e.g., weekdays 22:00-06:00) or while the site is in away mode
+ * Times are wall-clock times of the web server
+ * Safe to import from client components (rules are stored and applied by the server)
+ */
+
+export type RecordingRuleTrigger =
+  | { type: 'weekly'; days: number[]; start: string; end: string } // days: 0 = Sunday, times "HH:MM"
+  | { type: 'away' };
+
+export interface RecordingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  cameraIds: string[]; // empty = every camera on schedule
+  trigger: RecordingRuleTrigger;
+}
+
+export interface RecordingSchedule {
+  rules: RecordingRule[];
+  away: boolean; // everyone is away - turns on "away" rules
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+/**
+ * Schedule as returned by the API, with what is active on the server right now
+ */
+export interface RecordingScheduleResult {
+  success: boolean;
+  message?: string;
+  schedule?: RecordingSchedule;
+  activeRuleIds?: string[];
+  warnings?: string[]; // saved, but some cameras could not be switched
+}
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const MINUTES_PER_DAY = 24 * 60;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Minutes after midnight of an "HH:MM" time, or null when malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Whether a weekly window covers a minute of a day
+ * A window ending before it starts runs past midnight into the next day; equal times cover the whole day
+ */
+export function isWeeklyWindowActive(
+  trigger: Extract<RecordingRuleTrigger, { type: 'weekly' }>,
+  day: number,
+  minute: number
+): boolean {
+  const start = parseTimeOfDay(trigger.start);
+  const end = parseTimeOfDay(trigger.end);
+  if (start === null || end === null) return false;
+
+  const previousDay = (day + 6) % 7;
+  if (start === end) return trigger.days.includes(day);
+  if (start < end) return trigger.days.includes(day) && minute >= start && minute < end;
+  return (trigger.days.includes(day) && minute >= start) || (trigger.days.includes(previousDay) && minute < end);
+}
+
+/**
+ * Whether an enabled rule records at a moment (server local time)
+ */
+export function isRuleActive(rule: RecordingRule, now: Date, away: boolean): boolean {
+  if (!rule.enabled) return false;
+  if (rule.trigger.type === 'away') return away;
+  return isWeeklyWindowActive(rule.trigger, now.getDay(), now.getHours() * 60 + now.getMinutes());
+}
+
+/**
+ * Whether a rule applies to a camera
+ */
+export function ruleCoversCamera(rule: RecordingRule, cameraId: string): boolean {
+  return rule.cameraIds.length === 0 || rule.cameraIds.includes(cameraId);
+}
+
+/**
+ * Week preview: for each day (Sunday first), which slots of `slotMinutes` some weekly rule records
+ * Pass a camera to only count rules that apply to it
+ */
+export function getWeeklyCoverage(rules: RecordingRule[], cameraId?: string, slotMinutes: number = 30): boolean[][] {
+  const weekly = rules.filter(rule =>
+    rule.enabled && rule.trigger.type === 'weekly' && (!cameraId || ruleCoversCamera(rule, cameraId))
+  );
+  const slots = Math.ceil(MINUTES_PER_DAY / slotMinutes);
+
+  return DAY_LABELS.map((_, day) =>
+    Array.from({ length: slots }, (_, slot) =>
+      weekly.some(rule =>
+        rule.trigger.type === 'weekly' && isWeeklyWindowActive(rule.trigger, day, slot * slotMinutes)
+      )
+    )
+  );
+}
+
+/**
+ * Short description of when a rule records, e.g. "Mon-Fri 22:00-06:00"
+ */
+export function describeRuleTrigger(trigger: RecordingRuleTrigger): string {
+  if (trigger.type === 'away') return 'While everyone is away';
+
+  const days = [...trigger.days].sort((a, b) => a - b);
+  const isRun = days.length > 2 && days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+  const dayText = days.length === 7
+    ? 'Every day'
+    : isRun
+      ? `${DAY_LABELS[days[0]]}-${DAY_LABELS[days[days.length - 1]]}`
+      : days.map(day => DAY_LABELS[day]).join(', ');
+  const timeText = trigger.start === trigger.end ? 'all day' : `${trigger.start}-${trigger.end}`;
+  return `${dayText} ${timeText}`;
+}
+
+async function requestSchedule(method: string, body?: unknown, endpoint: string = ''): Promise<RecordingScheduleResult> {
+  try {
+    const response = await fetch(`/api/recordings/schedule${endpoint}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      credentials: 'include',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    return {
+      success: data.success === true,
+      message: data.message,
+      schedule: data.schedule,
+      activeRuleIds: data.activeRuleIds,
+      warnings: data.warnings,
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Load the recording schedule (operators and admins)
+ */
+export function fetchRecordingSchedule(): Promise<RecordingScheduleResult> {
+  return requestSchedule('GET');
+}
+
+/**
+ * Replace the recording rules (admin only)
+ */
+export function saveRecordingRules(rules: RecordingRule[]): Promise<RecordingScheduleResult> {
+  return requestSchedule('PUT', { rules });
+}
+
+/**
+ * Switch away mode on or off (operators and admins)
+ */
+export function saveAwayMode(away: boolean): Promise<RecordingScheduleResult> {
+  return requestSchedule('PUT', { away }, '/away');
+}
@@ -0,0 +1,176 @@
+/**
+ * Recording scheduler
+ * Every minute, works out which cameras on schedule should record and switches MediaMTX recording
+ * through the Control API when that changes. Cameras no enabled rule applies to are left alone,
+ * so they can still be started and stopped by hand; a manual change lasts until the next scheduled one.
+ * Started with the server (see instrumentation.ts), and applies the schedule right away on start.
+ * NOTE: Server-only - state lives in this process (see process-state)
+ */
+
+import { getStoredConfig } from '@/config/config-store';
+import { recheckCameraHealth } from '@/lib/camera-health/health-service';
+import { getProcessState, withProcessLock } from '@/lib/storage/process-state';
+import { getRecordMode } from './index';
+import { setCameraRecording } from './record-control';
+import { isRuleActive, RecordingSchedule, ruleCoversCamera } from './schedule';
+import { getRecordingSchedule } from './schedule-store';
+
+const TICK_INTERVAL = 60 * 1000;
+
+export interface ScheduledRecordingChange {
+  cameraId: string;
+  cameraName: string;
+  record: boolean;
+  error?: string;
+}
+
+export interface ScheduleRunResult {
+  activeRuleIds: string[];
+  changes: ScheduledRecordingChange[];
+}
+
+interface SchedulerState {
+  applied: Map<string, { name: string; path: string; record: boolean }>; // what the scheduler last set per camera
+  timer: ReturnType<typeof setTimeout> | null;
+  lastError: string | null;
+}
+
+function getState(): SchedulerState {
+  return getProcessState<SchedulerState>('recording-scheduler', () => ({
+    applied: new Map(),
+    timer: null,
+    lastError: null,
+  }));
+}
+
+/**
+ * Evaluate the schedule and apply what changed since the last run
+ * `reapply` sends the scheduled state of every managed camera again (e.g., after the rules were edited)
+ */
+export function runRecordingSchedule(
+  now: Date = new Date(),
+  { reapply = false }: { reapply?: boolean } = {}
+): Promise<ScheduleRunResult> {
+  return withProcessLock('recording-scheduler', async () => {
+    const state = getState();
+    const [{ config }, schedule] = await Promise.all([getStoredConfig(), getRecordingSchedule()]);
+
+    const activeRules = schedule.rules.filter(rule => isRuleActive(rule, now, schedule.away));
+    const changes: ScheduledRecordingChange[] = [];
+    const managedIds = new Set<string>();
+
+    for (const camera of config.cameras) {
+      const managed = getRecordMode(camera) === 'schedule' &&
+        schedule.rules.some(rule => rule.enabled && ruleCoversCamera(rule, camera.id));
+      if (!managed) continue;
+      managedIds.add(camera.id);
+
+      const record = activeRules.some(rule => ruleCoversCamera(rule, camera.id));
+      const applied = state.applied.get(camera.id);
+      if (!reapply && applied?.record === record && applied.path === camera.path) continue;
+
+      const change: ScheduledRecordingChange = { cameraId: camera.id, cameraName: camera.name, record };
+      if (!config.mediamtxApi?.url) {
+        changes.push({ ...change, error: 'The MediaMTX API is not configured' });
+        continue;
+      }
+      const result = await setCameraRecording(config.mediamtxApi, camera, record);
+      if (result.error) {
+        // Not remembered as applied, so the next run tries again
+        changes.push({ ...change, error: result.error.message });
+      } else {
+        state.applied.set(camera.id, { name: camera.name, path: camera.path, record });
+        changes.push(change);
+      }
+    }
+
+    // Cameras that left the schedule are the user's again, but recording the scheduler started is stopped
+    // first - nothing else would stop it. Cameras now set to "always" or "never" follow their recording mode.
+    for (const [cameraId, applied] of state.applied) {
+      if (managedIds.has(cameraId)) continue;
+      const camera = config.cameras.find(item => item.id === cameraId);
+      if (!applied.record || (camera && getRecordMode(camera) !== 'schedule')) {
+        state.applied.delete(cameraId);
+        continue;
+      }
+
+      const change: ScheduledRecordingChange = { cameraId, cameraName: camera?.name || applied.name, record: false };
+      if (!config.mediamtxApi?.url) {
+        changes.push({ ...change, error: 'The MediaMTX API is not configured' });
+        continue;
+      }
+      const result = await setCameraRecording(config.mediamtxApi, { path: applied.path }, false);
+      if (result.error && result.error.status !== 404) {
+        // Still remembered as recording, so the next run tries again
+        changes.push({ ...change, error: result.error.message });
+      } else {
+        // A path MediaMTX no longer has is not recording either
+        state.applied.delete(cameraId);
+        changes.push(change);
+      }
+    }
+
+    const switched = changes.filter(change => !change.error).map(change => change.cameraId);
+    if (switched.length > 0) {
+      await recheckCameraHealth(switched);
+    }
+
+    return { activeRuleIds: activeRules.map(rule => rule.id), changes };
+  });
+}
+
+/**
+ * Schedule as sent to clients: the rules active right now on the server and,
+ * after a change was applied, the cameras that could not be switched
+ */
+export function getScheduleStatus(schedule: RecordingSchedule, run?: ScheduleRunResult) {
+  const now = new Date();
+  const warnings = (run?.changes || [])
+    .filter(change => change.error)
+    .map(change => `${change.cameraName}: ${change.error}`);
+
+  return {
+    schedule,
+    activeRuleIds: schedule.rules.filter(rule => isRuleActive(rule, now, schedule.away)).map(rule => rule.id),
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+function scheduleTick() {
+  const state = getState();
+  // Run just after each full minute so "22:00" starts at 22:00
+  const timer = setTimeout(async () => {
+    await runScheduledTick();
+    if (state.timer === timer) {
+      scheduleTick();
+    }
+  }, TICK_INTERVAL - (Date.now() % TICK_INTERVAL) + 100);
+  timer.unref?.();
+  state.timer = timer;
+}
+
+async function runScheduledTick() {
+  const state = getState();
+  try {
+    const { changes } = await runRecordingSchedule();
+    const errors = changes.filter(change => change.error).map(change => `${change.cameraName}: ${change.error}`);
+    const error = errors.length > 0 ? errors.join('; ') : null;
+    // Log a failing camera once, not every minute
+    if (error && error !== state.lastError) {
+      console.error('Recording schedule error:', error);
+    }
+    state.lastError = error;
+  } catch (error) {
+    console.error('Recording schedule error:', error);
+  }
+}
+
+/**
+ * Start the scheduler (once per process) and apply the schedule right away
+ */
+export function startRecordingScheduler(): void {
+  const state = getState();
+  if (state.timer) return;
+  scheduleTick();
+  void runScheduledTick();
+}
@@ -0,0 +1,46 @@
+/**
+ * Role checks for API routes
+ * Resolves the signed session to the current stored user so role changes apply immediately
+ * NOTE: Server-only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { readSession, SiteSessionData } from './session';
+import { getUserById } from './user-store';
+import { SiteUser, UserRole, hasRole } from './permissions';
+
+export type AuthorizationResult =
+  | { user: SiteUser; session: SiteSessionData; error?: undefined }
+  | { user?: undefined; session?: undefined; error: NextResponse };
+
+/**
+ * Require an authenticated user with at least the given role
+ * Returns the user, or an error response to send back as-is
+ */
+export async function authorizeRequest(
+  request: NextRequest,
+  requiredRole: UserRole = 'viewer'
+): Promise<AuthorizationResult> {
+  const session = await readSession(request);
+  const user = session ? await getUserById(session.userId) : null;
+
+  if (!session || !user) {
+    return {
+      error: NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!hasRole(user.role, requiredRole)) {
+    return {
+      error: NextResponse.json(
+        { success: false, message: 'You do not have permission to do this' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, session };
+}
@@ -0,0 +1,32 @@
+/**
+ * Connection addresses for the login rate limiter
+ * Route handlers only see headers, and Next.js keeps an X-Forwarded-For sent by the client, so the server
+ * stamps every request with the address of the socket it arrived on; a client-sent copy is overwritten
+ * NOTE: Server-only - recordConnectionAddresses() runs once at startup (instrumentation.ts)
+ */
+
+import { subscribe } from 'diagnostics_channel';
+import type { IncomingMessage } from 'http';
+import type { Socket } from 'net';
+import { getProcessState } from '@/lib/storage/process-state';
+
+export const CONNECTION_ADDRESS_HEADER = 'x-camsuite-connection-address';
+
+interface RequestStartMessage {
+  request: IncomingMessage;
+  socket: Socket;
+}
+
+/**
+ * Record the connection address on each incoming HTTP request before Next.js handles it
+ */
+export function recordConnectionAddresses(): void {
+  const state = getProcessState('connection-address', () => ({ recording: false }));
+  if (state.recording) return;
+  state.recording = true;
+
+  subscribe('http.server.request.start', message => {
+    const { request, socket } = message as RequestStartMessage;
+    request.headers[CONNECTION_ADDRESS_HEADER] = socket.remoteAddress || 'unknown';
+  });
+}
@@ -3,106 +3,102 @@
  * This is SEPARATE from camera credentials which authenticate with MediaMTX
  */
 
+import type { SiteUser, UserRole } from './permissions';
+
+export * from './permissions';
+
 export interface SiteCredentials {
   username: string;
   password: string;
 }
 
-export interface SiteAuthConfig {
+export interface SiteAuthStatus {
   isFirstLaunch: boolean;
-  requiresSetup: boolean;
-  credentials?: SiteCredentials;
+  usingDefaultCredentials: boolean;
 }
 
-const STORAGE_KEY = 'webcam_site_auth';
-const DEFAULT_USERNAME = 'admin';
-const DEFAULT_PASSWORD = 'changeme';
-
-/**
- * Check if this is the first launch (no site credentials configured)
- */
-export function isFirstLaunch(): boolean {
-  if (typeof window === 'undefined') return false;
-  
-  const stored = localStorage.getItem(STORAGE_KEY);
-  return !stored;
+export interface SiteAuthResult {
+  success: boolean;
+  message?: string;
 }
 
+// Legacy localStorage key that held plaintext site credentials
+const LEGACY_STORAGE_KEY = 'webcam_site_auth';
+export const DEFAULT_USERNAME = 'admin';
+export const DEFAULT_PASSWORD = 'changeme';
+
 /**
- * Get site authentication configuration
+ * Get site authentication status from the server
+ * Credentials themselves never leave the server
  */
-export function getSiteAuthConfig(): SiteAuthConfig {
-  if (typeof window === 'undefined') {
-    return { isFirstLaunch: true, requiresSetup: true };
-  }
-
-  const stored = localStorage.getItem(STORAGE_KEY);
-  
-  if (!stored) {
-    // First launch - use default credentials
-    return {
-      isFirstLaunch: true,
-      requiresSetup: false, // Can use defaults
-      credentials: {
-        username: DEFAULT_USERNAME,
-        password: DEFAULT_PASSWORD,
-      },
-    };
-  }
-
+export async function getSiteAuthStatus(): Promise<SiteAuthStatus> {
   try {
-    const config = JSON.parse(stored) as SiteAuthConfig;
+    const response = await fetch('/api/auth/setup', {
+      method: 'GET',
+      credentials: 'include',
+    });
+    const data = await response.json();
     return {
-      ...config,
-      isFirstLaunch: false,
-      requiresSetup: false,
+      isFirstLaunch: data.isFirstLaunch === true,
+      usingDefaultCredentials: data.usingDefaultCredentials === true,
     };
   } catch {
-    return { isFirstLaunch: true, requiresSetup: true };
+    return { isFirstLaunch: false, usingDefaultCredentials: false };
   }
 }
 
 /**
- * Set site credentials (replaces defaults)
+ * Create the first site credentials (first launch only)
+ * Signs in on success
  */
-export function setSiteCredentials(credentials: SiteCredentials): void {
-  const config: SiteAuthConfig = {
-    isFirstLaunch: false,
-    requiresSetup: false,
-    credentials,
-  };
-  
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+export async function completeSiteSetup(credentials: SiteCredentials): Promise<SiteAuthResult> {
+  try {
+    const response = await fetch('/api/auth/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(credentials),
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
 }
 
 /**
- * Validate site login attempt
+ * Change site credentials (replaces the current username/password)
+ * The current password is re-verified on the server
  */
-export function validateSiteLogin(
-  username: string,
-  password: string
-): { success: boolean; message?: string; isDefaultCredentials?: boolean } {
-  const config = getSiteAuthConfig();
-  
-  if (!config.credentials) {
-    return { success: false, message: 'No site credentials configured' };
+export async function updateSiteCredentials(
+  currentPassword: string,
+  credentials: SiteCredentials
+): Promise<SiteAuthResult> {
+  try {
+    const response = await fetch('/api/auth/change-password', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ currentPassword, ...credentials }),
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
   }
+}
 
-  const isValid =
-    username === config.credentials.username &&
-    password === config.credentials.password;
+/**
+ * Remove plaintext site credentials left in localStorage by older versions
+ */
+export function clearLegacySiteCredentials(): boolean {
+  if (typeof window === 'undefined') return false;
 
-  if (!isValid) {
-    return { success: false, message: 'Invalid username or password' };
+  if (localStorage.getItem(LEGACY_STORAGE_KEY) === null) {
+    return false;
   }
-
-  const isDefault =
-    username === DEFAULT_USERNAME && password === DEFAULT_PASSWORD;
-
-  return {
-    success: true,
-    isDefaultCredentials: isDefault,
-  };
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return true;
 }
 
 /**
@@ -123,24 +119,15 @@ export async function clearSiteAuth(): Promise<void> {
   if (typeof window !== 'undefined') {
     sessionStorage.removeItem('site_authenticated');
     sessionStorage.removeItem(LAST_ACTIVITY_KEY);
+    localStorage.removeItem(LAST_USER_KEY);
   }
 }
 
-/**
- * Check if user should be prompted to change default credentials
- */
-export function shouldPromptPasswordChange(): boolean {
-  const config = getSiteAuthConfig();
-  
-  return (
-    config.credentials?.username === DEFAULT_USERNAME &&
-    config.credentials?.password === DEFAULT_PASSWORD
-  );
-}
-
 // Session timeout configuration
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes in milliseconds
 const LAST_ACTIVITY_KEY = 'site_last_activity';
+// Who was signed in, for the offline app shell (cleared on logout)
+const LAST_USER_KEY = 'camsuite_last_user';
 
 /**
  * Update last activity timestamp
@@ -169,7 +156,22 @@ export function isSessionTimedOut(): boolean {
  * The middleware will verify the HTTP-only cookies on every request.
  */
 export async function hasSiteSession(): Promise<boolean> {
-  if (typeof window === 'undefined') return false;
+  const session = await getSiteSession();
+  return session.authenticated;
+}
+
+/**
+ * Get the active site session (user and expiry) from the server
+ * `offline` is set when the server could not be reached
+ */
+export async function getSiteSession(): Promise<{
+  authenticated: boolean;
+  username?: string;
+  expiresAt?: number;
+  user?: SiteUser;
+  offline?: boolean;
+}> {
+  if (typeof window === 'undefined') return { authenticated: false };
   
   try {
     const response = await fetch('/api/auth/session', {
@@ -178,9 +180,31 @@ export async function hasSiteSession(): Promise<boolean> {
     });
     
     const data = await response.json();
-    return data.authenticated === true;
+    if (data.authenticated === true && data.user) {
+      localStorage.setItem(LAST_USER_KEY, JSON.stringify(data.user));
+    }
+    return {
+      authenticated: data.authenticated === true,
+      username: data.username,
+      expiresAt: data.expiresAt,
+      user: data.user,
+    };
   } catch {
-    return false;
+    return { authenticated: false, offline: true };
+  }
+}
+
+/**
+ * The user who was signed in when the server was last reached, if they have not signed out since
+ * Only used to keep showing the offline app shell - the server checks every request itself
+ */
+export function loadLastSiteUser(): SiteUser | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(LAST_USER_KEY);
+    return stored ? (JSON.parse(stored) as SiteUser) : null;
+  } catch {
+    return null;
   }
 }
 
@@ -202,3 +226,211 @@ export function getDefaultCredentialsInfo(): { username: string; password: strin
     password: DEFAULT_PASSWORD,
   };
 }
+
+/**
+ * Format a lockout duration for display
+ */
+export function formatRemainingTime(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  if (minutes >= 60) {
+    const hours = Math.ceil(minutes / 60);
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  if (minutes === 1) return '1 minute';
+  return `${minutes} minutes`;
+}
+
+/**
+ * Login source currently locked out by the server-side rate limiter
+ */
+export interface LoginLockout {
+  key: string;
+  type: 'ip' | 'username';
+  value: string;
+  lockoutUntil: number;
+  remainingTime: number;
+  failures: number;
+  lockouts: number;
+}
+
+/**
+ * List login sources that are currently locked out
+ */
+export async function getLoginLockouts(): Promise<LoginLockout[]> {
+  const response = await fetch('/api/auth/lockouts', {
+    credentials: 'include',
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to load login lockouts');
+  }
+
+  const data = await response.json();
+  return data.lockouts || [];
+}
+
+/**
+ * Lift the lockout for a single login source
+ */
+export async function clearLoginLockout(key: string): Promise<boolean> {
+  const response = await fetch(`/api/auth/lockouts?key=${encodeURIComponent(key)}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  return response.ok;
+}
+
+/**
+ * Fields accepted when creating or updating a site user
+ * An empty password on update keeps the current one
+ */
+export interface SiteUserInput {
+  username: string;
+  password?: string;
+  role: UserRole;
+  cameraIds: string[];
+  resetTwoFactor?: boolean; // Update only - turns off the user's two-factor authentication
+}
+
+export interface SiteUserResult extends SiteAuthResult {
+  user?: SiteUser;
+}
+
+/**
+ * List site users (admin only)
+ */
+export async function getSiteUsers(): Promise<SiteUser[]> {
+  const response = await fetch('/api/users', {
+    credentials: 'include',
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to load users');
+  }
+
+  const data = await response.json();
+  return data.users || [];
+}
+
+async function sendUserRequest(url: string, method: string, body?: unknown): Promise<SiteUserResult> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      credentials: 'include',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message, user: data.user };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Create a site user (admin only)
+ */
+export function createSiteUser(input: SiteUserInput): Promise<SiteUserResult> {
+  return sendUserRequest('/api/users', 'POST', input);
+}
+
+/**
+ * Update a site user (admin only)
+ */
+export function updateSiteUser(id: string, changes: Partial<SiteUserInput>): Promise<SiteUserResult> {
+  return sendUserRequest(`/api/users/${encodeURIComponent(id)}`, 'PATCH', changes);
+}
+
+/**
+ * Delete a site user (admin only)
+ */
+export function deleteSiteUser(id: string): Promise<SiteUserResult> {
+  return sendUserRequest(`/api/users/${encodeURIComponent(id)}`, 'DELETE');
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorResult extends SiteAuthResult {
+  secret?: string;
+  otpauthUri?: string;
+  qrCode?: string;
+  recoveryCodes?: string[];
+}
+
+/**
+ * Get the two-factor status of the signed-in user
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const response = await fetch('/api/auth/two-factor', {
+    credentials: 'include',
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to load two-factor status');
+  }
+
+  const data = await response.json();
+  return {
+    enabled: data.enabled === true,
+    pending: data.pending === true,
+    recoveryCodesRemaining: data.recoveryCodesRemaining || 0,
+  };
+}
+
+async function sendTwoFactorRequest(action: string, body: unknown = {}): Promise<TwoFactorResult> {
+  try {
+    const response = await fetch(`/api/auth/two-factor/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    return {
+      success: data.success === true,
+      message: data.message,
+      secret: data.secret,
+      otpauthUri: data.otpauthUri,
+      qrCode: data.qrCode,
+      recoveryCodes: data.recoveryCodes,
+    };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Start two-factor enrollment - returns the secret and QR code to scan
+ */
+export function beginTwoFactorSetup(): Promise<TwoFactorResult> {
+  return sendTwoFactorRequest('setup');
+}
+
+/**
+ * Finish two-factor enrollment - returns the recovery codes
+ */
+export function enableTwoFactor(code: string): Promise<TwoFactorResult> {
+  return sendTwoFactorRequest('enable', { code });
+}
+
+/**
+ * Turn off two-factor authentication (requires the current password)
+ */
+export function disableTwoFactor(password: string): Promise<TwoFactorResult> {
+  return sendTwoFactorRequest('disable', { password });
+}
+
+/**
+ * Replace the recovery codes (requires a current authenticator code)
+ */
+export function regenerateRecoveryCodes(code: string): Promise<TwoFactorResult> {
+  return sendTwoFactorRequest('recovery-codes', { code });
+}
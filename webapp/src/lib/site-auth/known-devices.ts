@@ -0,0 +1,71 @@
+/**
+ * Devices each user has signed in from
+ * A device is a browser holding the long-lived `site_device` cookie; a sign-in without a cookie the user
+ * has signed in with before is logged as a sign-in from a new device
+ * NOTE: Server-only
+ */
+
+import { randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+
+const KNOWN_DEVICES_FILE = 'known-devices.json';
+
+export const DEVICE_COOKIE = 'site_device';
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // seconds
+
+// Oldest devices are forgotten first
+const MAX_DEVICES_PER_USER = 20;
+
+interface KnownDevice {
+  id: string;
+  lastSeenAt: string;
+}
+
+type KnownDevices = Record<string, KnownDevice[]>; // by user ID
+
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * Device ID sent with a request, if it has a well-formed one
+ */
+export function readDeviceId(request: NextRequest): string | null {
+  const value = request.cookies.get(DEVICE_COOKIE)?.value;
+  return value && DEVICE_ID_PATTERN.test(value) ? value : null;
+}
+
+/**
+ * Remember that a user signed in from a device
+ * Returns the device ID to keep in the cookie (a new one when the request had none)
+ * and whether the user has not signed in from this device before
+ */
+export async function rememberDevice(
+  userId: string,
+  deviceId: string | null
+): Promise<{ deviceId: string; isNew: boolean }> {
+  const id = deviceId || randomBytes(18).toString('base64url');
+
+  return withProcessLock('known-devices', async () => {
+    const devices = await readJsonFile<KnownDevices>(KNOWN_DEVICES_FILE, {});
+    const userDevices = (devices[userId] || []).filter(device => device.id !== id);
+    const isNew = userDevices.length === (devices[userId] || []).length;
+
+    devices[userId] = [...userDevices, { id, lastSeenAt: new Date().toISOString() }].slice(-MAX_DEVICES_PER_USER);
+    await writeJsonFile(KNOWN_DEVICES_FILE, devices);
+    return { deviceId: id, isNew };
+  });
+}
+
+/**
+ * Keep the device ID in an HTTP-only cookie that outlives sessions
+ */
+export function setDeviceCookie(response: NextResponse, deviceId: string): void {
+  response.cookies.set(DEVICE_COOKIE, deviceId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: DEVICE_COOKIE_MAX_AGE,
+    path: '/',
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Password hashing for site credentials
+ * Uses salted scrypt from Node.js crypto - plaintext passwords are never stored
+ * NOTE: Server-only
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// scrypt cost parameters (N=2^15 uses ~32MB, fine on a Raspberry Pi)
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const HASH_PREFIX = 'scrypt';
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  params: { N: number; r: number; p: number },
+  keyLength: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      { ...params, maxmem: 128 * params.N * params.r * 2 },
+      (error, derivedKey) => {
+        if (error) reject(error);
+        else resolve(derivedKey);
+      }
+    );
+  });
+}
+
+/**
+ * Hash a password
+ * Format: scrypt$N$r$p$<salt base64>$<hash base64>
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await deriveKey(password, salt, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P }, KEY_LENGTH);
+
+  return [
+    HASH_PREFIX,
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Verify a password against a stored hash (constant-time comparison)
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+    return false;
+  }
+
+  const [, n, r, p, saltB64, hashB64] = parts;
+  const expected = Buffer.from(hashB64, 'base64');
+
+  try {
+    const actual = await deriveKey(
+      password,
+      Buffer.from(saltB64, 'base64'),
+      { N: parseInt(n, 10), r: parseInt(r, 10), p: parseInt(p, 10) },
+      expected.length
+    );
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
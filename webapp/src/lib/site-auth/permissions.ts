@@ -0,0 +1,72 @@
+/**
+ * Site user roles and camera permissions
+ * Pure helpers shared by middleware, API routes and client components
+ */
+
+export type UserRole = 'admin' | 'operator' | 'viewer';
+
+export const USER_ROLES: UserRole[] = ['admin', 'operator', 'viewer'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  operator: 'Operator',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Full access, including settings and user management',
+  operator: 'Can view all cameras and start or stop recording',
+  viewer: 'Can view only the cameras assigned to them',
+};
+
+// Higher rank includes all permissions of lower ranks
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+};
+
+/**
+ * Site user as exposed to clients (never contains the password hash)
+ */
+export interface SiteUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  cameraIds: string[]; // Only used for viewers
+  twoFactorEnabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Check whether a role meets the required minimum role
+ */
+export function hasRole(role: UserRole | undefined, requiredRole: UserRole): boolean {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[requiredRole];
+}
+
+/**
+ * Check whether a user may view a camera
+ * Admins and operators see every camera, viewers only their assigned ones
+ */
+export function canViewCamera(user: Pick<SiteUser, 'role' | 'cameraIds'>, cameraId: string): boolean {
+  if (hasRole(user.role, 'operator')) return true;
+  return user.cameraIds.includes(cameraId);
+}
+
+/**
+ * Filter a camera list down to the cameras a user may view
+ */
+export function filterCamerasForUser<T extends { id: string }>(
+  cameras: T[],
+  user: Pick<SiteUser, 'role' | 'cameraIds'> | null
+): T[] {
+  if (!user) return [];
+  return cameras.filter(camera => canViewCamera(user, camera.id));
+}
@@ -1,120 +1,329 @@
 /**
  * Rate limiting for login attempts
- * Prevents brute force attacks by limiting failed login attempts
+ * Prevents brute force attacks by limiting failed login attempts per client IP and per username
+ * NOTE: Server-only - state lives in the Next.js server process (optionally persisted to disk)
  */
 
-const RATE_LIMIT_KEY = 'login_rate_limit';
-const MAX_ATTEMPTS = 5;
-const LOCKOUT_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
+import { readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { getProcessState } from '@/lib/storage/process-state';
+import { CONNECTION_ADDRESS_HEADER } from './connection-address';
 
-interface RateLimitData {
-  attempts: number;
+const RATE_LIMIT_FILE = 'login-rate-limit.json';
+
+// Sliding window for counting failures
+const ATTEMPT_WINDOW = 15 * 60 * 1000; // 15 minutes
+// Failures allowed inside the window before a lockout
+export const MAX_ATTEMPTS_PER_USERNAME = 5;
+export const MAX_ATTEMPTS_PER_IP = 10;
+// Progressive lockout: 5 min, 10 min, 20 min, ... capped at 24 hours
+const BASE_LOCKOUT_DURATION = 5 * 60 * 1000;
+const MAX_LOCKOUT_DURATION = 24 * 60 * 60 * 1000;
+// Lockout strikes are forgotten after a quiet day
+const STRIKE_RESET_AFTER = 24 * 60 * 60 * 1000;
+// Failed logins go to the event log once per username and IP in the window (and always on lockout),
+// at most this many an hour, so guessing cannot flood the log and rotate out older history
+export const MAX_FAILED_LOGIN_EVENTS_PER_HOUR = 30;
+const EVENT_BUDGET_PERIOD = 60 * 60 * 1000;
+
+export type RateLimitSourceType = 'ip' | 'username';
+
+interface RateLimitEntry {
+  failures: number[]; // timestamps of failures inside the window
   lockoutUntil?: number;
-  lastAttempt: number;
+  lockouts: number; // consecutive lockouts (drives the progressive duration)
+  lastFailure: number;
+}
+
+export interface LockoutStatus {
+  isLocked: boolean;
+  remainingTime?: number; // ms
+  source?: RateLimitSourceType;
+}
+
+export interface FailedLoginResult extends LockoutStatus {
+  attempts: number;
+  remainingAttempts: number;
+}
+
+export interface LockedOutSource {
+  key: string;
+  type: RateLimitSourceType;
+  value: string;
+  lockoutUntil: number;
+  remainingTime: number;
+  failures: number;
+  lockouts: number;
+}
+
+// In-process state shared by all requests
+const state = getProcessState('login-rate-limit', () => ({
+  entries: new Map<string, RateLimitEntry>(),
+  loadPromise: null as Promise<void> | null,
+}));
+const entries = state.entries;
+
+const loggedFailures = getProcessState('login-rate-limit:logged-failures', () => ({
+  lastLogged: new Map<string, number>(), // username and IP -> time of the last logged failure
+  times: [] as number[], // failures logged in the last hour
+}));
+
+function isPersistenceEnabled(): boolean {
+  return process.env.CAMSUITE_RATE_LIMIT_PERSIST === 'true';
 }
 
 /**
- * Get current rate limit data
+ * Load persisted state once per process (no-op unless persistence is enabled)
  */
-function getRateLimitData(): RateLimitData {
-  if (typeof window === 'undefined') {
-    return { attempts: 0, lastAttempt: Date.now() };
+function ensureLoaded(): Promise<void> {
+  if (!state.loadPromise) {
+    state.loadPromise = (async () => {
+      if (!isPersistenceEnabled()) return;
+      try {
+        const stored = await readJsonFile<Record<string, RateLimitEntry>>(RATE_LIMIT_FILE, {});
+        Object.entries(stored).forEach(([key, entry]) => entries.set(key, entry));
+      } catch (error) {
+        console.warn('Failed to load login rate limit state:', error);
+      }
+    })();
   }
+  return state.loadPromise;
+}
 
+async function persist(): Promise<void> {
+  if (!isPersistenceEnabled()) return;
   try {
-    const stored = localStorage.getItem(RATE_LIMIT_KEY);
-    if (!stored) {
-      return { attempts: 0, lastAttempt: Date.now() };
-    }
-    return JSON.parse(stored);
-  } catch {
-    return { attempts: 0, lastAttempt: Date.now() };
+    await writeJsonFile(RATE_LIMIT_FILE, Object.fromEntries(entries));
+  } catch (error) {
+    console.warn('Failed to persist login rate limit state:', error);
   }
 }
 
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function usernameKey(username: string): string {
+  return `username:${username.trim().toLowerCase()}`;
+}
+
+function parseKey(key: string): { type: RateLimitSourceType; value: string } {
+  const separator = key.indexOf(':');
+  return {
+    type: key.slice(0, separator) as RateLimitSourceType,
+    value: key.slice(separator + 1),
+  };
+}
+
+function maxAttemptsFor(key: string): number {
+  return parseKey(key).type === 'ip' ? MAX_ATTEMPTS_PER_IP : MAX_ATTEMPTS_PER_USERNAME;
+}
+
 /**
- * Save rate limit data
+ * Lockout duration for the nth consecutive lockout
  */
-function saveRateLimitData(data: RateLimitData): void {
-  if (typeof window === 'undefined') return;
-  try {
-    localStorage.setItem(RATE_LIMIT_KEY, JSON.stringify(data));
-  } catch {
-    // Ignore storage errors
-  }
+export function getLockoutDuration(lockouts: number): number {
+  return Math.min(BASE_LOCKOUT_DURATION * Math.pow(2, Math.max(lockouts - 1, 0)), MAX_LOCKOUT_DURATION);
 }
 
 /**
- * Check if login is currently locked out
- * Returns { isLocked: boolean, remainingTime?: number (ms) }
+ * Drop failures outside the window and forget stale entries
  */
-export function checkLoginLockout(): { isLocked: boolean; remainingTime?: number } {
-  const data = getRateLimitData();
+function pruneEntry(key: string, now: number): RateLimitEntry | undefined {
+  const entry = entries.get(key);
+  if (!entry) return undefined;
+
+  entry.failures = entry.failures.filter(timestamp => now - timestamp < ATTEMPT_WINDOW);
 
-  if (!data.lockoutUntil) {
-    return { isLocked: false };
+  if (entry.lockoutUntil && now >= entry.lockoutUntil) {
+    entry.lockoutUntil = undefined;
   }
 
-  const now = Date.now();
-  if (now < data.lockoutUntil) {
+  if (!entry.lockoutUntil && now - entry.lastFailure > STRIKE_RESET_AFTER) {
+    entries.delete(key);
+    return undefined;
+  }
+
+  return entry;
+}
+
+function lockoutFor(key: string, now: number): LockoutStatus {
+  const entry = pruneEntry(key, now);
+  if (entry?.lockoutUntil) {
     return {
       isLocked: true,
-      remainingTime: data.lockoutUntil - now,
+      remainingTime: entry.lockoutUntil - now,
+      source: parseKey(key).type,
     };
   }
-
-  // Lockout expired, reset
-  saveRateLimitData({ attempts: 0, lastAttempt: now });
   return { isLocked: false };
 }
 
 /**
- * Record a failed login attempt
+ * Check if login is currently locked out for this IP or username
+ * Returns the longest remaining lockout
+ */
+export async function checkLoginLockout(ip: string, username: string): Promise<LockoutStatus> {
+  await ensureLoaded();
+  const now = Date.now();
+
+  const statuses = [lockoutFor(ipKey(ip), now), lockoutFor(usernameKey(username), now)]
+    .filter(status => status.isLocked)
+    .sort((a, b) => (b.remainingTime || 0) - (a.remainingTime || 0));
+
+  return statuses[0] || { isLocked: false };
+}
+
+/**
+ * Record a failed login attempt against both the IP and the username
  * Returns updated lockout status
  */
-export function recordFailedLogin(): { isLocked: boolean; remainingTime?: number; attempts: number } {
-  const data = getRateLimitData();
+export async function recordFailedLogin(ip: string, username: string): Promise<FailedLoginResult> {
+  await ensureLoaded();
   const now = Date.now();
 
-  // Reset if last attempt was more than 15 minutes ago
-  if (now - data.lastAttempt > 15 * 60 * 1000) {
-    data.attempts = 0;
+  let result: FailedLoginResult = {
+    isLocked: false,
+    attempts: 0,
+    remainingAttempts: MAX_ATTEMPTS_PER_USERNAME,
+  };
+
+  for (const key of [ipKey(ip), usernameKey(username)]) {
+    const entry = pruneEntry(key, now) || { failures: [], lockouts: 0, lastFailure: now };
+    const maxAttempts = maxAttemptsFor(key);
+
+    entry.failures.push(now);
+    entry.lastFailure = now;
+
+    // Check if we've exceeded max attempts inside the window
+    if (entry.failures.length >= maxAttempts) {
+      entry.lockouts += 1;
+      entry.lockoutUntil = now + getLockoutDuration(entry.lockouts);
+      entry.failures = [];
+    }
+
+    entries.set(key, entry);
+
+    const remainingAttempts = entry.lockoutUntil ? 0 : maxAttempts - entry.failures.length;
+    if (entry.lockoutUntil) {
+      const remainingTime = entry.lockoutUntil - now;
+      if (!result.isLocked || remainingTime > (result.remainingTime || 0)) {
+        result = {
+          isLocked: true,
+          remainingTime,
+          source: parseKey(key).type,
+          attempts: maxAttempts,
+          remainingAttempts: 0,
+        };
+      }
+    } else if (!result.isLocked && (result.attempts === 0 || remainingAttempts < result.remainingAttempts)) {
+      result = {
+        isLocked: false,
+        attempts: entry.failures.length,
+        remainingAttempts,
+      };
+    }
   }
 
-  data.attempts += 1;
-  data.lastAttempt = now;
+  await persist();
+  return result;
+}
 
-  // Check if we've exceeded max attempts
-  if (data.attempts >= MAX_ATTEMPTS) {
-    data.lockoutUntil = now + LOCKOUT_DURATION;
-    saveRateLimitData(data);
-    return {
-      isLocked: true,
-      remainingTime: LOCKOUT_DURATION,
-      attempts: data.attempts,
-    };
+/**
+ * Whether a failed login should be written to the event log
+ * Repeats from the same username and IP are collapsed into the first one of the window; the failure that
+ * causes a lockout is always logged (after it, attempts are refused before they are recorded at all)
+ */
+export function shouldLogFailedLogin(ip: string, username: string, result: FailedLoginResult): boolean {
+  const now = Date.now();
+  loggedFailures.times = loggedFailures.times.filter(time => now - time < EVENT_BUDGET_PERIOD);
+  if (loggedFailures.times.length >= MAX_FAILED_LOGIN_EVENTS_PER_HOUR) {
+    return false;
   }
 
-  saveRateLimitData(data);
-  return {
-    isLocked: false,
-    attempts: data.attempts,
-  };
+  for (const [key, time] of loggedFailures.lastLogged) {
+    if (now - time >= ATTEMPT_WINDOW) loggedFailures.lastLogged.delete(key);
+  }
+  const key = `${usernameKey(username)}|${ipKey(ip)}`;
+  if (!result.isLocked && loggedFailures.lastLogged.has(key)) {
+    return false;
+  }
+
+  loggedFailures.lastLogged.set(key, now);
+  loggedFailures.times.push(now);
+  return true;
 }
 
 /**
  * Reset rate limit data (called on successful login)
+ * Lockout strikes for the username are cleared too
+ */
+export async function resetRateLimit(ip: string, username: string): Promise<void> {
+  await ensureLoaded();
+  entries.delete(usernameKey(username));
+  entries.delete(ipKey(ip));
+  await persist();
+}
+
+/**
+ * List all sources that are currently locked out (for the admin view)
+ */
+export async function getLockedOutSources(): Promise<LockedOutSource[]> {
+  await ensureLoaded();
+  const now = Date.now();
+  const sources: LockedOutSource[] = [];
+
+  Array.from(entries.keys()).forEach(key => {
+    const entry = pruneEntry(key, now);
+    if (!entry?.lockoutUntil) return;
+
+    sources.push({
+      key,
+      ...parseKey(key),
+      lockoutUntil: entry.lockoutUntil,
+      remainingTime: entry.lockoutUntil - now,
+      failures: entry.failures.length,
+      lockouts: entry.lockouts,
+    });
+  });
+
+  return sources.sort((a, b) => b.lockoutUntil - a.lockoutUntil);
+}
+
+/**
+ * Lift the lockout for a single source (admin action)
+ * Returns false if the source was not locked out
+ */
+export async function unlockSource(key: string): Promise<boolean> {
+  await ensureLoaded();
+  if (!entries.has(key)) return false;
+
+  entries.delete(key);
+  await persist();
+  return true;
+}
+
+/**
+ * Number of reverse proxies in front of the app (CAMSUITE_TRUSTED_PROXY_HOPS, default 0 = none)
  */
-export function resetRateLimit(): void {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(RATE_LIMIT_KEY);
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.CAMSUITE_TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
 }
 
 /**
- * Format remaining time for display
+ * Resolve the client IP for rate limiting
+ * Clients can put anything at the start of X-Forwarded-For - each trusted proxy appends the address it saw,
+ * so the client is the Nth hop from the right for N proxies. Without a trusted proxy the forwarding headers
+ * are ignored and only the connection address is used (see connection-address.ts)
  */
-export function formatRemainingTime(ms: number): string {
-  const minutes = Math.ceil(ms / 60000);
-  if (minutes === 1) return '1 minute';
-  return `${minutes} minutes`;
+export function getClientIp(headers: Headers): string {
+  const trustedHops = getTrustedProxyHops();
+  if (trustedHops > 0) {
+    const hops = (headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map(hop => hop.trim())
+      .filter(Boolean);
+    if (hops.length > 0) return hops[Math.max(hops.length - trustedHops, 0)];
+  }
+  return headers.get(CONNECTION_ADDRESS_HEADER)?.trim() || 'unknown';
 }
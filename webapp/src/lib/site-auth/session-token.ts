@@ -0,0 +1,152 @@
+/**
+ * Signed site session tokens
+ * HMAC-SHA256 over the session claims using a server secret, so cookies cannot be forged
+ * NOTE: Uses Web Crypto only - safe for both the Edge middleware and Node.js API routes
+ */
+
+import { UserRole, isUserRole } from './permissions';
+
+export interface SessionClaims {
+  sessionId: string;
+  userId: string;
+  username: string;
+  role: UserRole;
+  issuedAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+}
+
+const TOKEN_VERSION = 'v1';
+const MIN_SECRET_LENGTH = 32;
+// Development-only fallback so `npm run dev` works without extra setup
+const DEV_FALLBACK_SECRET = 'camsuite-development-session-secret-do-not-use';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let warnedAboutDevSecret = false;
+
+/**
+ * Get the session signing secret from CAMSUITE_SESSION_SECRET
+ * Required in production; development falls back to a fixed (insecure) secret
+ */
+export function getSessionSecret(): string {
+  const secret = process.env.CAMSUITE_SESSION_SECRET;
+
+  if (secret && secret.length >= MIN_SECRET_LENGTH) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(
+      `CAMSUITE_SESSION_SECRET must be set to at least ${MIN_SECRET_LENGTH} characters in production`
+    );
+  }
+
+  if (!warnedAboutDevSecret) {
+    console.warn('[Session] CAMSUITE_SESSION_SECRET not set - using insecure development secret');
+    warnedAboutDevSecret = true;
+  }
+  return DEV_FALLBACK_SECRET;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Generate a random session ID
+ */
+export function generateSessionId(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Sign session claims into a cookie-safe token
+ * Format: v1.<base64url claims>.<base64url signature>
+ */
+export async function signSessionToken(
+  claims: SessionClaims,
+  secret: string = getSessionSecret()
+): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signingInput = `${TOKEN_VERSION}.${payload}`;
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(signingInput));
+
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token
+ * Returns the claims, or null if the token is malformed, tampered with or expired
+ */
+export async function verifySessionToken(
+  token: string | undefined,
+  secret: string = getSessionSecret(),
+  now: number = Date.now()
+): Promise<SessionClaims | null> {
+  if (!token) return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) {
+    return null;
+  }
+
+  const [version, payload, signature] = parts;
+
+  try {
+    // crypto.subtle.verify compares in constant time
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      base64UrlDecode(signature),
+      encoder.encode(`${version}.${payload}`)
+    );
+    if (!isValid) return null;
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(payload))) as SessionClaims;
+
+    if (
+      typeof claims.sessionId !== 'string' ||
+      typeof claims.userId !== 'string' ||
+      typeof claims.username !== 'string' ||
+      !isUserRole(claims.role) ||
+      typeof claims.issuedAt !== 'number' ||
+      typeof claims.expiresAt !== 'number'
+    ) {
+      return null;
+    }
+
+    if (now > claims.expiresAt || claims.issuedAt > now + 60 * 1000) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
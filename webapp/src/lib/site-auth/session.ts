@@ -0,0 +1,81 @@
+/**
+ * Site session cookies shared by the auth API routes and middleware
+ * Keeps cookie names, lifetime and flags in one place
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import {
+  SessionClaims,
+  generateSessionId,
+  signSessionToken,
+  verifySessionToken,
+} from './session-token';
+import type { SiteUser } from './permissions';
+
+export const SESSION_DURATION = 30 * 60 * 1000; // 30 minutes
+
+export const SESSION_COOKIE = 'site_session';
+// Unsigned JSON cookie used by older versions - only ever cleared now
+const LEGACY_SESSION_DATA_COOKIE = 'site_session_data';
+
+export type SiteSessionData = SessionClaims;
+
+const cookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  maxAge: SESSION_DURATION / 1000, // Convert to seconds
+  path: '/',
+});
+
+/**
+ * Read and verify the current session from request cookies
+ * Returns null when missing, tampered with or expired
+ */
+export async function readSession(request: NextRequest): Promise<SiteSessionData | null> {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Sign the session and set it as an HTTP-only cookie
+ */
+export async function setSessionCookies(response: NextResponse, data: SiteSessionData): Promise<void> {
+  response.cookies.set(SESSION_COOKIE, await signSessionToken(data), cookieOptions());
+  response.cookies.delete(LEGACY_SESSION_DATA_COOKIE);
+}
+
+/**
+ * Create a fresh session for a user
+ */
+export function createSessionData(user: Pick<SiteUser, 'id' | 'username' | 'role'>): SiteSessionData {
+  const now = Date.now();
+  return {
+    sessionId: generateSessionId(),
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    issuedAt: now,
+    expiresAt: now + SESSION_DURATION,
+  };
+}
+
+/**
+ * Extend an existing session (keeps its session ID)
+ * Picks up username and role changes made since the session was issued
+ */
+export function extendSessionData(data: SiteSessionData, user?: Pick<SiteUser, 'username' | 'role'>): SiteSessionData {
+  return {
+    ...data,
+    username: user?.username ?? data.username,
+    role: user?.role ?? data.role,
+    expiresAt: Date.now() + SESSION_DURATION,
+  };
+}
+
+/**
+ * Remove session cookies from a response
+ */
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.delete(SESSION_COOKIE);
+  response.cookies.delete(LEGACY_SESSION_DATA_COOKIE);
+}
@@ -0,0 +1,221 @@
+/**
+ * Two-factor authentication for site accounts
+ * TOTP enrollment, recovery codes and the short-lived challenge between the password and code steps
+ * NOTE: Server-only
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { getProcessState } from '@/lib/storage/process-state';
+import { getStoredUser, modifyStoredUser, StoredUser } from './user-store';
+import { verifyPassword } from './password';
+import {
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from './totp';
+
+const ISSUER = 'Camera Suite';
+const RECOVERY_CODE_COUNT = 10;
+
+// Password-verified logins waiting for their second factor
+const CHALLENGE_DURATION = 5 * 60 * 1000; // 5 minutes
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+interface LoginChallenge {
+  userId: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // data: URL rendered on this server
+}
+
+export type SecondFactorResult =
+  | { valid: true; method: 'totp' | 'recovery'; recoveryCodesRemaining: number }
+  | { valid: false };
+
+// In-process state shared by all requests
+const challenges = getProcessState('login-challenges', () => new Map<string, LoginChallenge>());
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+/**
+ * Get the two-factor status of a user
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const user = await getStoredUser(userId);
+  return {
+    enabled: !!user?.twoFactor?.secret,
+    pending: !!user?.twoFactor?.pendingSecret,
+    recoveryCodesRemaining: user?.twoFactor?.recoveryCodeHashes.length || 0,
+  };
+}
+
+/**
+ * Start (or restart) TOTP enrollment
+ * Returns null for users that cannot enroll (e.g., the built-in default admin) or are already enrolled
+ */
+export async function beginTwoFactorEnrollment(userId: string): Promise<TwoFactorEnrollment | null> {
+  const secret = generateTotpSecret();
+
+  const user = await modifyStoredUser(userId, (stored): StoredUser | null => {
+    if (stored.twoFactor?.secret) return null;
+    stored.twoFactor = { recoveryCodeHashes: [], ...stored.twoFactor, pendingSecret: secret };
+    return stored;
+  });
+  if (!user) return null;
+
+  const otpauthUri = buildOtpAuthUri(secret, user.username, ISSUER);
+  // Rendered locally so the secret never reaches a third-party QR service
+  const qrCode = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 240 });
+
+  return { secret, otpauthUri, qrCode };
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * Returns the recovery codes (shown once), or null if the code is wrong
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[] | null> {
+  return modifyStoredUser(userId, stored => {
+    const pendingSecret = stored.twoFactor?.pendingSecret;
+    if (!pendingSecret) return null;
+
+    const matchedStep = verifyTotp(pendingSecret, code);
+    if (matchedStep === null) return null;
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    stored.twoFactor = {
+      secret: pendingSecret,
+      lastUsedStep: matchedStep,
+      recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    };
+    return recoveryCodes;
+  });
+}
+
+/**
+ * Turn two-factor authentication off after re-verifying the password
+ */
+export async function disableTwoFactor(userId: string, password: string): Promise<boolean> {
+  const result = await modifyStoredUser(userId, async stored => {
+    if (!stored.twoFactor || !(await verifyPassword(password, stored.passwordHash))) {
+      return null;
+    }
+    stored.twoFactor = undefined;
+    return true;
+  });
+  return result === true;
+}
+
+/**
+ * Replace all recovery codes after verifying a current authenticator code
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[] | null> {
+  return modifyStoredUser(userId, stored => {
+    const twoFactor = stored.twoFactor;
+    if (!twoFactor?.secret) return null;
+
+    const matchedStep = verifyTotp(twoFactor.secret, code);
+    if (matchedStep === null || matchedStep <= (twoFactor.lastUsedStep ?? -1)) return null;
+
+    const recoveryCodes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+    twoFactor.lastUsedStep = matchedStep;
+    twoFactor.recoveryCodeHashes = recoveryCodes.map(hashRecoveryCode);
+    return recoveryCodes;
+  });
+}
+
+/**
+ * Check a second factor: an authenticator code, or a recovery code (consumed on use)
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<SecondFactorResult> {
+  const result = await modifyStoredUser<SecondFactorResult>(userId, stored => {
+    const twoFactor = stored.twoFactor;
+    if (!twoFactor?.secret) return null;
+
+    const matchedStep = verifyTotp(twoFactor.secret, code);
+    if (matchedStep !== null) {
+      // Each code only works once
+      if (matchedStep <= (twoFactor.lastUsedStep ?? -1)) return null;
+      twoFactor.lastUsedStep = matchedStep;
+      return { valid: true, method: 'totp', recoveryCodesRemaining: twoFactor.recoveryCodeHashes.length };
+    }
+
+    const candidate = Buffer.from(hashRecoveryCode(code));
+    const index = twoFactor.recoveryCodeHashes.findIndex(hash =>
+      timingSafeEqual(Buffer.from(hash), candidate)
+    );
+    if (index === -1) return null;
+
+    twoFactor.recoveryCodeHashes.splice(index, 1);
+    return { valid: true, method: 'recovery', recoveryCodesRemaining: twoFactor.recoveryCodeHashes.length };
+  });
+
+  return result || { valid: false };
+}
+
+/**
+ * Drop expired challenges
+ */
+function pruneChallenges(now: number): void {
+  challenges.forEach((challenge, token) => {
+    if (challenge.expiresAt <= now) challenges.delete(token);
+  });
+}
+
+/**
+ * Create a challenge after the password step succeeded
+ * The token is returned to the client and exchanged for a session with a valid code
+ */
+export function createLoginChallenge(userId: string): { challengeToken: string; expiresAt: number } {
+  const now = Date.now();
+  pruneChallenges(now);
+
+  const challengeToken = randomBytes(24).toString('base64url');
+  const expiresAt = now + CHALLENGE_DURATION;
+  challenges.set(challengeToken, { userId, expiresAt, attempts: 0 });
+
+  return { challengeToken, expiresAt };
+}
+
+/**
+ * Look up a pending challenge, counting the attempt
+ * Returns the user ID, or null if the challenge is unknown, expired or used up
+ */
+export function claimLoginChallenge(challengeToken: string): string | null {
+  const now = Date.now();
+  pruneChallenges(now);
+
+  const challenge = challenges.get(challengeToken);
+  if (!challenge) return null;
+
+  challenge.attempts += 1;
+  if (challenge.attempts > MAX_CHALLENGE_ATTEMPTS) {
+    challenges.delete(challengeToken);
+    return null;
+  }
+
+  return challenge.userId;
+}
+
+/**
+ * Remove a challenge once it has been exchanged for a session
+ */
+export function completeLoginChallenge(challengeToken: string): void {
+  challenges.delete(challengeToken);
+}
@@ -0,0 +1,465 @@
+/**
+ * Server-side site user store
+ * Persists website accounts (role, camera permissions, salted password hash) in the data directory
+ * NOTE: Server-only - import from API routes, never from client components
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, writeJsonFile, jsonFileExists } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+import { hashPassword, verifyPassword } from './password';
+import { DEFAULT_USERNAME, DEFAULT_PASSWORD, SiteCredentials } from './index';
+import { SiteUser, UserRole, isUserRole } from './permissions';
+
+const USERS_FILE = 'users.json';
+// Single-account file written by older versions - migrated to an admin user on first read
+const LEGACY_CREDENTIALS_FILE = 'site-credentials.json';
+
+// Session user ID for the built-in admin/changeme login before setup
+export const DEFAULT_ADMIN_ID = 'default-admin';
+// Stable ID for the account migrated from the legacy file (safe if two requests migrate at once)
+const LEGACY_ADMIN_ID = 'legacy-admin';
+
+/**
+ * Stored TOTP state for a user
+ * `pendingSecret` holds an enrollment that has not been confirmed with a code yet
+ */
+export interface StoredTwoFactor {
+  secret?: string;
+  pendingSecret?: string;
+  lastUsedStep?: number; // rejects replay of an already used code
+  recoveryCodeHashes: string[];
+}
+
+/**
+ * Stored user (never contains the plaintext password)
+ */
+export interface StoredUser extends Omit<SiteUser, 'twoFactorEnabled'> {
+  passwordHash: string;
+  twoFactor?: StoredTwoFactor;
+}
+
+interface UsersFile {
+  users: StoredUser[];
+}
+
+interface LegacyStoredCredentials {
+  username: string;
+  passwordHash: string;
+  updatedAt: string;
+}
+
+export interface CredentialStoreStatus {
+  isFirstLaunch: boolean;
+  usingDefaultCredentials: boolean;
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  isDefaultCredentials: boolean;
+  user?: SiteUser;
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+  cameraIds: string[];
+}
+
+export interface UserMutationResult {
+  success: boolean;
+  user?: SiteUser;
+  message?: string;
+  reason?: 'not_found' | 'conflict' | 'last_admin';
+}
+
+// Serializes read-modify-write cycles on the users file
+function withUsersLock<T>(task: () => Promise<T>): Promise<T> {
+  return withProcessLock('users', task);
+}
+
+function toSiteUser(user: StoredUser): SiteUser {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    cameraIds: user.cameraIds,
+    twoFactorEnabled: !!user.twoFactor?.secret,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+function sameUsername(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Built-in admin used until the first account is created
+ */
+function defaultAdminUser(): SiteUser {
+  const epoch = new Date(0).toISOString();
+  return {
+    id: DEFAULT_ADMIN_ID,
+    username: DEFAULT_USERNAME,
+    role: 'admin',
+    cameraIds: [],
+    twoFactorEnabled: false,
+    createdAt: epoch,
+    updatedAt: epoch,
+  };
+}
+
+/**
+ * Load stored users, migrating the legacy single-account file if present
+ */
+async function loadUsers(): Promise<StoredUser[]> {
+  const file = await readJsonFile<UsersFile | null>(USERS_FILE, null);
+  if (file) {
+    return file.users;
+  }
+
+  if (await jsonFileExists(LEGACY_CREDENTIALS_FILE)) {
+    const legacy = await readJsonFile<LegacyStoredCredentials | null>(LEGACY_CREDENTIALS_FILE, null);
+    if (legacy) {
+      const migrated: StoredUser[] = [{
+        id: LEGACY_ADMIN_ID,
+        username: legacy.username,
+        passwordHash: legacy.passwordHash,
+        role: 'admin',
+        cameraIds: [],
+        createdAt: legacy.updatedAt,
+        updatedAt: legacy.updatedAt,
+      }];
+      await saveUsers(migrated);
+      return migrated;
+    }
+  }
+
+  return [];
+}
+
+async function saveUsers(users: StoredUser[]): Promise<void> {
+  await writeJsonFile(USERS_FILE, { users } satisfies UsersFile);
+}
+
+async function buildStoredUser(input: UserInput): Promise<StoredUser> {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    username: input.username.trim(),
+    passwordHash: await hashPassword(input.password),
+    role: input.role,
+    cameraIds: input.role === 'viewer' ? input.cameraIds : [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Get whether the site still needs its first-launch setup
+ */
+export async function getCredentialStoreStatus(): Promise<CredentialStoreStatus> {
+  const users = await loadUsers();
+  return {
+    isFirstLaunch: users.length === 0,
+    usingDefaultCredentials: users.length === 0,
+  };
+}
+
+/**
+ * Verify a login attempt
+ * Until setup is completed, only the default credentials are accepted
+ */
+export async function verifySiteCredentials(
+  username: string,
+  password: string
+): Promise<CredentialVerification> {
+  const users = await loadUsers();
+
+  if (users.length === 0) {
+    const valid = username === DEFAULT_USERNAME && password === DEFAULT_PASSWORD;
+    return { valid, isDefaultCredentials: valid, user: valid ? defaultAdminUser() : undefined };
+  }
+
+  const user = users.find(candidate => sameUsername(candidate.username, username));
+  if (!user) {
+    // Still run a hash to keep timing similar for unknown usernames
+    await verifyPassword(password, users[0].passwordHash);
+    return { valid: false, isDefaultCredentials: false };
+  }
+
+  const valid = await verifyPassword(password, user.passwordHash);
+  return {
+    valid,
+    isDefaultCredentials: false,
+    user: valid ? toSiteUser(user) : undefined,
+  };
+}
+
+/**
+ * Create the first admin account (first launch only)
+ * Returns null if an account already exists
+ */
+export async function setupSiteCredentials(credentials: SiteCredentials): Promise<SiteUser | null> {
+  return withUsersLock(async () => {
+    const users = await loadUsers();
+    if (users.length > 0) {
+      return null;
+    }
+
+    const admin = await buildStoredUser({ ...credentials, role: 'admin', cameraIds: [] });
+    await saveUsers([admin]);
+    return toSiteUser(admin);
+  });
+}
+
+/**
+ * Change a user's own username and password after re-verifying the current password
+ * The built-in default admin becomes the first stored admin account
+ */
+export async function changeSiteCredentials(
+  userId: string,
+  currentPassword: string,
+  credentials: SiteCredentials
+): Promise<UserMutationResult> {
+  return withUsersLock(async () => {
+    const users = await loadUsers();
+
+    if (users.length === 0) {
+      if (userId !== DEFAULT_ADMIN_ID || currentPassword !== DEFAULT_PASSWORD) {
+        return { success: false, message: 'Current password is incorrect' };
+      }
+      const admin = await buildStoredUser({ ...credentials, role: 'admin', cameraIds: [] });
+      await saveUsers([admin]);
+      return { success: true, user: toSiteUser(admin) };
+    }
+
+    const user = users.find(candidate => candidate.id === userId);
+    if (!user) {
+      return { success: false, reason: 'not_found', message: 'User not found' };
+    }
+
+    if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+      return { success: false, message: 'Current password is incorrect' };
+    }
+
+    if (users.some(other => other.id !== userId && sameUsername(other.username, credentials.username))) {
+      return { success: false, reason: 'conflict', message: 'Username is already taken' };
+    }
+
+    user.username = credentials.username.trim();
+    user.passwordHash = await hashPassword(credentials.password);
+    user.updatedAt = new Date().toISOString();
+    await saveUsers(users);
+    return { success: true, user: toSiteUser(user) };
+  });
+}
+
+/**
+ * List all users
+ */
+export async function listUsers(): Promise<SiteUser[]> {
+  const users = await loadUsers();
+  return users.map(toSiteUser);
+}
+
+/**
+ * Apply a change to a stored user and save it (used by the two-factor module)
+ * The callback may return null to leave the file untouched
+ */
+export async function modifyStoredUser<T>(
+  id: string,
+  modify: (user: StoredUser) => Promise<T | null> | T | null
+): Promise<T | null> {
+  return withUsersLock(async () => {
+    const users = await loadUsers();
+    const user = users.find(candidate => candidate.id === id);
+    if (!user) return null;
+
+    const result = await modify(user);
+    if (result !== null) {
+      user.updatedAt = new Date().toISOString();
+      await saveUsers(users);
+    }
+    return result;
+  });
+}
+
+/**
+ * Get a stored user including secrets (server-side checks only - never send to clients)
+ */
+export async function getStoredUser(id: string): Promise<StoredUser | null> {
+  const users = await loadUsers();
+  return users.find(candidate => candidate.id === id) || null;
+}
+
+/**
+ * Get a user by ID (the built-in default admin is returned before setup)
+ */
+export async function getUserById(id: string): Promise<SiteUser | null> {
+  const users = await loadUsers();
+
+  if (users.length === 0) {
+    return id === DEFAULT_ADMIN_ID ? defaultAdminUser() : null;
+  }
+
+  const user = users.find(candidate => candidate.id === id);
+  return user ? toSiteUser(user) : null;
+}
+
+/**
+ * Create a user (admin action)
+ * Creating the first account requires the first-launch setup instead
+ */
+export async function createUser(input: UserInput): Promise<UserMutationResult> {
+  return withUsersLock(async () => {
+    const users = await loadUsers();
+
+    if (users.length === 0 && input.role !== 'admin') {
+      return {
+        success: false,
+        reason: 'last_admin',
+        message: 'Create your own admin account before adding other users',
+      };
+    }
+
+    if (users.some(other => sameUsername(other.username, input.username))) {
+      return { success: false, reason: 'conflict', message: 'Username is already taken' };
+    }
+
+    const user = await buildStoredUser(input);
+    await saveUsers([...users, user]);
+    return { success: true, user: toSiteUser(user) };
+  });
+}
+
+/**
+ * Update a user's username, password, role or camera permissions (admin action)
+ * `resetTwoFactor` turns off two-factor login for users who lost their device
+ * The last admin cannot be demoted
+ */
+export async function updateUser(
+  id: string,
+  changes: Partial<UserInput> & { resetTwoFactor?: boolean }
+): Promise<UserMutationResult> {
+  return withUsersLock(async () => {
+    const users = await loadUsers();
+    const user = users.find(candidate => candidate.id === id);
+    if (!user) {
+      return { success: false, reason: 'not_found', message: 'User not found' };
+    }
+
+    if (
+      changes.username !== undefined &&
+      users.some(other => other.id !== id && sameUsername(other.username, changes.username!))
+    ) {
+      return { success: false, reason: 'conflict', message: 'Username is already taken' };
+    }
+
+    const adminCount = users.filter(candidate => candidate.role === 'admin').length;
+    if (user.role === 'admin' && changes.role && changes.role !== 'admin' && adminCount <= 1) {
+      return { success: false, reason: 'last_admin', message: 'At least one admin is required' };
+    }
+
+    if (changes.username !== undefined) user.username = changes.username.trim();
+    if (changes.password) user.passwordHash = await hashPassword(changes.password);
+    if (changes.role) user.role = changes.role;
+    if (changes.cameraIds) user.cameraIds = changes.cameraIds;
+    if (changes.resetTwoFactor) user.twoFactor = undefined;
+    if (user.role !== 'viewer') user.cameraIds = [];
+    user.updatedAt = new Date().toISOString();
+
+    await saveUsers(users);
+    return { success: true, user: toSiteUser(user) };
+  });
+}
+
+/**
+ * Delete a user (admin action)
+ * The last admin cannot be deleted
+ */
+export async function deleteUser(id: string): Promise<UserMutationResult> {
+  return withUsersLock(async () => {
+    const users = await loadUsers();
+    const user = users.find(candidate => candidate.id === id);
+    if (!user) {
+      return { success: false, reason: 'not_found', message: 'User not found' };
+    }
+
+    if (user.role === 'admin' && users.filter(candidate => candidate.role === 'admin').length <= 1) {
+      return { success: false, reason: 'last_admin', message: 'At least one admin is required' };
+    }
+
+    await saveUsers(users.filter(candidate => candidate.id !== id));
+    return { success: true, user: toSiteUser(user) };
+  });
+}
+
+function validateUsername(username: string | undefined): string | null {
+  if (!username?.trim()) return 'Username is required';
+  if (username.trim().length < 2) return 'Username must be at least 2 characters';
+  return null;
+}
+
+function validatePassword(password: string | undefined): string | null {
+  if (!password) return 'Password is required';
+  if (password.length < 8) return 'Password must be at least 8 characters';
+  if (password === DEFAULT_PASSWORD) return 'Please choose a password other than the default';
+  return null;
+}
+
+/**
+ * Validate new site credentials before storing them
+ */
+export function validateNewSiteCredentials(credentials: Partial<SiteCredentials>): string[] {
+  return [validateUsername(credentials.username), validatePassword(credentials.password)]
+    .filter((error): error is string => error !== null);
+}
+
+/**
+ * Parse and validate a user create/update request body
+ * For updates every field is optional (an empty password keeps the current one)
+ */
+export function parseUserInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): { input: Partial<UserInput> & { resetTwoFactor?: boolean }; errors: string[] } {
+  const input: Partial<UserInput> & { resetTwoFactor?: boolean } = {};
+  const errors: (string | null)[] = [];
+
+  if (!partial || body.username !== undefined) {
+    input.username = typeof body.username === 'string' ? body.username.trim() : '';
+    errors.push(validateUsername(input.username));
+  }
+
+  if (!partial || (body.password !== undefined && body.password !== '')) {
+    input.password = typeof body.password === 'string' ? body.password : '';
+    errors.push(validatePassword(input.password));
+  }
+
+  if (!partial || body.role !== undefined) {
+    if (isUserRole(body.role)) {
+      input.role = body.role;
+    } else {
+      errors.push('Role must be admin, operator or viewer');
+    }
+  }
+
+  if (body.cameraIds !== undefined) {
+    if (Array.isArray(body.cameraIds) && body.cameraIds.every(id => typeof id === 'string')) {
+      input.cameraIds = Array.from(new Set(body.cameraIds as string[]));
+    } else {
+      errors.push('Camera permissions must be a list of camera IDs');
+    }
+  } else if (!partial) {
+    input.cameraIds = [];
+  }
+
+  if (partial && body.resetTwoFactor === true) {
+    input.resetTwoFactor = true;
+  }
+
+  return { input, errors: errors.filter((error): error is string => error !== null) };
+}
@@ -0,0 +1,154 @@
+/**
+ * Snapshots - full-resolution stills taken from the player, stamped with the camera name and time
+ * Stills can be downloaded straight away or saved to the shared gallery on the server
+ * Safe to import from client components (the gallery is stored by snapshot-store.ts)
+ */
+
+import { getCaptureBaseName } from '@/lib/clips';
+
+export type SnapshotFormat = 'png' | 'jpeg';
+
+export const SNAPSHOT_FORMATS: Record<SnapshotFormat, { label: string; contentType: string; extension: string }> = {
+  png: { label: 'PNG', contentType: 'image/png', extension: 'png' },
+  jpeg: { label: 'JPEG', contentType: 'image/jpeg', extension: 'jpg' },
+};
+
+/**
+ * A still in the gallery
+ */
+export interface Snapshot {
+  id: string;
+  cameraId: string;
+  cameraName: string; // at the time it was taken
+  takenAt: string; // ISO date
+  contentType: string;
+  size: number; // bytes
+  createdBy: string;
+}
+
+export interface SnapshotResult {
+  success: boolean;
+  message?: string;
+  snapshot?: Snapshot;
+}
+
+const JPEG_QUALITY = 0.92;
+
+/**
+ * Text stamped on a still, e.g. "Front Door · 15/01/2024, 22:30:05"
+ */
+export function getSnapshotStamp(cameraName: string, takenAt: Date): string {
+  return `${cameraName} · ${takenAt.toLocaleString()}`;
+}
+
+export function getSnapshotFormat(contentType: string): SnapshotFormat {
+  return contentType === SNAPSHOT_FORMATS.jpeg.contentType ? 'jpeg' : 'png';
+}
+
+export function getSnapshotFileName(cameraName: string, takenAt: Date, format: SnapshotFormat): string {
+  return `${getCaptureBaseName(cameraName, takenAt)}.${SNAPSHOT_FORMATS[format].extension}`;
+}
+
+/**
+ * Draw the current video frame at full size with the stamp in the bottom-left corner
+ * Returns null before the first frame
+ */
+export function captureStill(video: HTMLVideoElement, stamp: string): HTMLCanvasElement | null {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) {
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  // Readable on anything from a sub-stream to 4K
+  const fontSize = Math.max(12, Math.round(canvas.height / 36));
+  const padding = Math.round(fontSize / 2);
+  context.font = `600 ${fontSize}px system-ui, sans-serif`;
+  context.textBaseline = 'bottom';
+  const textWidth = context.measureText(stamp).width;
+
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect(0, canvas.height - fontSize - padding * 2, textWidth + padding * 2, fontSize + padding * 2);
+  context.fillStyle = '#ffffff';
+  context.fillText(stamp, padding, canvas.height - padding);
+
+  return canvas;
+}
+
+/**
+ * Encode a captured still; resolves to null when the canvas is tainted (cross-origin video)
+ */
+export function stillToBlob(canvas: HTMLCanvasElement, format: SnapshotFormat): Promise<Blob | null> {
+  return new Promise(resolve => {
+    try {
+      canvas.toBlob(resolve, SNAPSHOT_FORMATS[format].contentType, JPEG_QUALITY);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * URL of a gallery still; `download` asks the browser to save it
+ */
+export function getSnapshotImageUrl(id: string, download: boolean = false): string {
+  return `/api/snapshots/${encodeURIComponent(id)}${download ? '?download=1' : ''}`;
+}
+
+/**
+ * Gallery stills the user may see, newest first (optionally of one camera)
+ */
+export async function listSnapshots(cameraId?: string): Promise<{ snapshots: Snapshot[]; error?: string }> {
+  try {
+    const query = cameraId ? `?cameraId=${encodeURIComponent(cameraId)}` : '';
+    const response = await fetch(`/api/snapshots${query}`, { credentials: 'include', cache: 'no-store' });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      return { snapshots: [], error: data.message || 'Failed to load snapshots' };
+    }
+    return { snapshots: data.snapshots };
+  } catch {
+    return { snapshots: [], error: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Save a still to the gallery
+ */
+export async function saveSnapshot(cameraId: string, still: Blob, takenAt: Date): Promise<SnapshotResult> {
+  try {
+    const query = new URLSearchParams({ cameraId, takenAt: takenAt.toISOString() });
+    const response = await fetch(`/api/snapshots?${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': still.type },
+      credentials: 'include',
+      body: still,
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message, snapshot: data.snapshot };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
+
+/**
+ * Delete a gallery still (operators, admins and whoever took it)
+ */
+export async function deleteSnapshot(id: string): Promise<SnapshotResult> {
+  try {
+    const response = await fetch(`/api/snapshots/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      credentials: 'include',
+    });
+    const data = await response.json();
+    return { success: data.success === true, message: data.message };
+  } catch {
+    return { success: false, message: 'Network error. Please try again.' };
+  }
+}
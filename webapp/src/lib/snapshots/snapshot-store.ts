@@ -0,0 +1,85 @@
+/**
+ * Server-side snapshot gallery
+ * Images are kept in the "snapshots" folder of the data directory, listed in snapshots.json
+ * NOTE: Server-only - import from API routes, never from client components
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataFilePath, readJsonFile, writeJsonFile } from '@/lib/storage/json-file-store';
+import { withProcessLock } from '@/lib/storage/process-state';
+import { getSnapshotFormat, Snapshot, SNAPSHOT_FORMATS } from './index';
+
+const INDEX_FILE = 'snapshots.json';
+const IMAGE_DIR = 'snapshots';
+
+export const MAX_GALLERY_SNAPSHOTS = 1000;
+export const MAX_STILL_SIZE = 15 * 1024 * 1024; // a full-resolution PNG of a 4K camera
+export const STILL_CONTENT_TYPES = Object.values(SNAPSHOT_FORMATS).map(format => format.contentType);
+
+function getImagePath(snapshot: Pick<Snapshot, 'id' | 'contentType'>): string {
+  const { extension } = SNAPSHOT_FORMATS[getSnapshotFormat(snapshot.contentType)];
+  return getDataFilePath(path.join(IMAGE_DIR, `${snapshot.id}.${extension}`));
+}
+
+/**
+ * Every still in the gallery, newest first
+ */
+export async function listStoredSnapshots(): Promise<Snapshot[]> {
+  const snapshots = await readJsonFile<Snapshot[]>(INDEX_FILE, []);
+  return [...snapshots].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+}
+
+/**
+ * Add a still to the gallery; fails when the gallery is full
+ */
+export async function addSnapshot(
+  details: Pick<Snapshot, 'cameraId' | 'cameraName' | 'takenAt' | 'contentType' | 'createdBy'>,
+  data: Buffer
+): Promise<{ snapshot?: Snapshot; error?: string }> {
+  return withProcessLock('snapshots', async () => {
+    const snapshots = await readJsonFile<Snapshot[]>(INDEX_FILE, []);
+    if (snapshots.length >= MAX_GALLERY_SNAPSHOTS) {
+      return { error: `The gallery holds at most ${MAX_GALLERY_SNAPSHOTS} snapshots - delete some first` };
+    }
+
+    const snapshot: Snapshot = { id: randomUUID(), ...details, size: data.length };
+    const imagePath = getImagePath(snapshot);
+    await fs.mkdir(path.dirname(imagePath), { recursive: true });
+    await fs.writeFile(imagePath, data, { mode: 0o600 });
+    await writeJsonFile(INDEX_FILE, [...snapshots, snapshot]);
+    return { snapshot };
+  });
+}
+
+/**
+ * A gallery still and its image, or null when there is no such still
+ */
+export async function getStoredSnapshot(id: string): Promise<{ snapshot: Snapshot; data: Buffer } | null> {
+  // Only IDs from the index reach the filesystem
+  const snapshot = (await readJsonFile<Snapshot[]>(INDEX_FILE, [])).find(item => item.id === id);
+  if (!snapshot) return null;
+
+  try {
+    return { snapshot, data: await fs.readFile(getImagePath(snapshot)) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Remove a still from the gallery; false when there is no such still
+ */
+export async function deleteStoredSnapshot(id: string): Promise<boolean> {
+  return withProcessLock('snapshots', async () => {
+    const snapshots = await readJsonFile<Snapshot[]>(INDEX_FILE, []);
+    const snapshot = snapshots.find(item => item.id === id);
+    if (!snapshot) return false;
+
+    await writeJsonFile(INDEX_FILE, snapshots.filter(item => item.id !== id));
+    await fs.rm(getImagePath(snapshot), { force: true });
+    return true;
+  });
+}
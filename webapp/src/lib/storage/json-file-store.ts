@@ -0,0 +1,66 @@
+/**
+ * File-backed JSON storage for server-side state
+ * Used by API routes that need data shared across browsers (credentials, config, ...)
+ * NOTE: Server-only - relies on the Node.js filesystem
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DEFAULT_DATA_DIR = 'data';
+
+/**
+ * Directory holding all server-side data files
+ * Override with CAMSUITE_DATA_DIR (e.g., /var/lib/camsuite on the Pi)
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.CAMSUITE_DATA_DIR || path.join(process.cwd(), DEFAULT_DATA_DIR));
+}
+
+/**
+ * Resolve a data file name inside the data directory
+ */
+export function getDataFilePath(fileName: string): string {
+  return path.join(getDataDir(), fileName);
+}
+
+/**
+ * Read and parse a JSON data file
+ * Returns the fallback when the file does not exist yet
+ */
+export async function readJsonFile<T>(fileName: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(getDataFilePath(fileName), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON data file atomically (temp file + rename)
+ * so a crash mid-write never leaves a truncated file behind
+ */
+export async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  const filePath = getDataFilePath(fileName);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Check whether a data file exists
+ */
+export async function jsonFileExists(fileName: string): Promise<boolean> {
+  try {
+    await fs.access(getDataFilePath(fileName));
+    return true;
+  } catch {
+    return false;
+  }
+}
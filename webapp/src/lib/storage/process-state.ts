@@ -0,0 +1,40 @@
+/**
+ * In-process state shared by every API route
+ * Next.js may bundle each route separately, so module-level variables are not guaranteed
+ * to be shared - state that must be is kept on globalThis instead
+ * NOTE: Server-only - state is lost on restart and not shared between processes
+ */
+
+const STATE_KEY = Symbol.for('camsuite.process-state');
+
+type ProcessStateRegistry = Map<string, unknown>;
+
+function getRegistry(): ProcessStateRegistry {
+  const globalState = globalThis as typeof globalThis & { [STATE_KEY]?: ProcessStateRegistry };
+  if (!globalState[STATE_KEY]) {
+    globalState[STATE_KEY] = new Map();
+  }
+  return globalState[STATE_KEY];
+}
+
+/**
+ * Get a named piece of process state, creating it on first use
+ */
+export function getProcessState<T>(name: string, create: () => T): T {
+  const registry = getRegistry();
+  if (!registry.has(name)) {
+    registry.set(name, create());
+  }
+  return registry.get(name) as T;
+}
+
+/**
+ * Run tasks for the same named lock one after another
+ * Keeps read-modify-write cycles on a data file from interleaving
+ */
+export function withProcessLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const lock = getProcessState(`lock:${name}`, () => ({ queue: Promise.resolve() as Promise<unknown> }));
+  const run = lock.queue.then(task, task);
+  lock.queue = run.catch(() => undefined);
+  return run;
+}
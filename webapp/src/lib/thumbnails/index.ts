@@ -0,0 +1,84 @@
+/**
+ * Camera thumbnails - still frames shown on the camera grid
+ * Operators' players upload a frame now and then; camera cards load the latest one from the server
+ * Safe to import from client components (caching happens in thumbnail-cache.ts)
+ */
+
+export const THUMBNAIL_REFRESH_INTERVAL = 30 * 1000; // camera cards
+const CAPTURE_INTERVAL = 30 * 1000; // players
+const FIRST_CAPTURE_DELAY = 3 * 1000; // let the picture settle after connecting
+const THUMBNAIL_WIDTH = 640;
+
+/**
+ * URL of a camera's latest frame; change `version` to load a new one
+ */
+export function getThumbnailUrl(cameraId: string, version: number): string {
+  return `/api/cameras/${encodeURIComponent(cameraId)}/snapshot?v=${version}`;
+}
+
+/**
+ * Draw the current video frame into a JPEG, scaled down to thumbnail size
+ * Resolves to null before the first frame or when the video is cross-origin (tainted canvas)
+ */
+export function captureVideoFrame(video: HTMLVideoElement, maxWidth: number = THUMBNAIL_WIDTH): Promise<Blob | null> {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) {
+    return Promise.resolve(null);
+  }
+
+  const scale = Math.min(1, maxWidth / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.resolve(null);
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return new Promise(resolve => {
+    try {
+      canvas.toBlob(resolve, 'image/jpeg', 0.7);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/**
+ * Send a frame to the server as the camera's thumbnail
+ */
+export async function uploadThumbnail(cameraId: string, frame: Blob): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/cameras/${encodeURIComponent(cameraId)}/snapshot`, {
+      method: 'POST',
+      headers: { 'Content-Type': frame.type || 'image/jpeg' },
+      credentials: 'include',
+      body: frame,
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Upload a frame of a playing video every so often while the page is visible
+ * Only for operators and admins - the server refuses frames from viewers
+ * Returns a function that stops capturing
+ */
+export function startThumbnailCapture(video: HTMLVideoElement, cameraId: string): () => void {
+  const capture = async () => {
+    if (video.paused || document.visibilityState !== 'visible') return;
+    const frame = await captureVideoFrame(video);
+    if (frame) {
+      await uploadThumbnail(cameraId, frame);
+    }
+  };
+
+  const firstCapture = setTimeout(capture, FIRST_CAPTURE_DELAY);
+  const interval = setInterval(capture, CAPTURE_INTERVAL);
+
+  return () => {
+    clearTimeout(firstCapture);
+    clearInterval(interval);
+  };
+}
@@ -0,0 +1,213 @@
+/**
+ * Camera thumbnails - recent still frames for the camera grid
+ * Frames come from open players (uploaded by operators' browsers) or, when none is fresh,
+ * from the camera's HLS stream through ffmpeg if it is installed.
+ * Each frame is served for CAMSUITE_SNAPSHOT_TTL seconds before a new one is grabbed.
+ * NOTE: Server-only - frames are kept in memory (see process-state)
+ */
+
+import { spawn } from 'child_process';
+import { buildHlsUrl } from '@/lib/hls/url';
+import { getProcessState } from '@/lib/storage/process-state';
+import { Camera, Credentials } from '@/types';
+
+const DEFAULT_TTL = 60; // seconds
+const GRAB_TIMEOUT = 10 * 1000;
+export const MAX_SNAPSHOT_SIZE = 2 * 1024 * 1024; // 2 MB
+export const SNAPSHOT_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export interface CameraSnapshot {
+  data: Buffer;
+  contentType: string;
+  capturedAt: number;
+  source: 'player' | 'stream';
+}
+
+interface ThumbnailState {
+  snapshots: Map<string, CameraSnapshot>;
+  grabs: Map<string, Promise<CameraSnapshot | null>>;
+  failedGrabs: Map<string, number>; // camera id → time of the last failed grab
+  ffmpegMissing: boolean;
+}
+
+function getState(): ThumbnailState {
+  return getProcessState<ThumbnailState>('thumbnails', () => ({
+    snapshots: new Map(),
+    grabs: new Map(),
+    failedGrabs: new Map(),
+    ffmpegMissing: false,
+  }));
+}
+
+/**
+ * How long a frame is served before a new one is grabbed, in milliseconds
+ */
+export function getSnapshotTtl(): number {
+  const seconds = Number(process.env.CAMSUITE_SNAPSHOT_TTL);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL) * 1000;
+}
+
+/**
+ * Store a frame for a camera, replacing the previous one
+ */
+export function storeSnapshot(
+  cameraId: string,
+  data: Buffer,
+  contentType: string,
+  source: CameraSnapshot['source'],
+  now: number = Date.now()
+): CameraSnapshot {
+  const snapshot: CameraSnapshot = { data, contentType, capturedAt: now, source };
+  getState().snapshots.set(cameraId, snapshot);
+  return snapshot;
+}
+
+/**
+ * The cached frame of a camera, if it is younger than the TTL
+ */
+export function getFreshSnapshot(cameraId: string, now: number = Date.now()): CameraSnapshot | null {
+  const snapshot = getState().snapshots.get(cameraId);
+  if (!snapshot || now - snapshot.capturedAt >= getSnapshotTtl()) return null;
+  return snapshot;
+}
+
+/**
+ * URIs of the segments (or variants) listed in an HLS playlist, in order
+ */
+function getPlaylistEntries(playlist: string): string[] {
+  return playlist
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * Download the newest segment of an HLS stream, prefixed with its init section (fMP4 streams)
+ * The camera credentials only travel in these requests, never on ffmpeg's command line
+ * Resolves to null when the stream cannot be loaded or lists no segments yet
+ */
+export async function fetchLatestSegment(playlistUrl: string, credentials?: Credentials): Promise<Buffer | null> {
+  const headers: Record<string, string> = {};
+  if (credentials?.username) {
+    const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+    headers.Authorization = `Basic ${encoded}`;
+  }
+
+  const get = async (url: string): Promise<Response> => {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(GRAB_TIMEOUT) });
+    if (!response.ok) throw new Error(`HTTP ${response.status} for ${url}`);
+    return response;
+  };
+
+  try {
+    let url = playlistUrl;
+    let playlist = await (await get(url)).text();
+
+    // MediaMTX serves a multivariant playlist first - follow its first variant
+    if (playlist.includes('#EXT-X-STREAM-INF')) {
+      const variant = getPlaylistEntries(playlist)[0];
+      if (!variant) return null;
+      url = new URL(variant, url).href;
+      playlist = await (await get(url)).text();
+    }
+
+    const segment = getPlaylistEntries(playlist).pop();
+    if (!segment) return null;
+    const init = playlist.match(/#EXT-X-MAP:.*URI="([^"]+)"/)?.[1];
+
+    const parts = await Promise.all(
+      [init, segment]
+        .filter((uri): uri is string => !!uri)
+        .map(async uri => Buffer.from(await (await get(new URL(uri, url).href)).arrayBuffer()))
+    );
+    return Buffer.concat(parts);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Grab one JPEG frame from the camera's HLS stream: the newest segment is fed to ffmpeg on stdin
+ * Resolves to null when ffmpeg is not installed, the stream is down or it takes too long
+ */
+export async function grabStreamFrame(serverUrl: string, path: string, credentials?: Credentials): Promise<Buffer | null> {
+  const state = getState();
+  if (state.ffmpegMissing) return null;
+
+  const segment = await fetchLatestSegment(buildHlsUrl(serverUrl, path), credentials);
+  if (!segment) return null;
+
+  const args = [
+    '-hide_banner', '-loglevel', 'error',
+    '-i', 'pipe:0',
+    '-frames:v', '1',
+    '-vf', 'scale=640:-2',
+    '-f', 'image2',
+    '-c:v', 'mjpeg',
+    '-q:v', '5',
+    'pipe:1',
+  ];
+
+  return new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    const ffmpeg = spawn(process.env.CAMSUITE_FFMPEG_PATH || 'ffmpeg', args, { stdio: ['pipe', 'pipe', 'ignore'] });
+    const timeout = setTimeout(() => ffmpeg.kill('SIGKILL'), GRAB_TIMEOUT);
+
+    // ffmpeg stops reading after the first frame - the rest of the segment is not needed
+    ffmpeg.stdin.on('error', () => {});
+    ffmpeg.stdin.end(segment);
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timeout);
+      if (error.code === 'ENOENT') {
+        // Don't try again until restart - frames from players still work
+        state.ffmpegMissing = true;
+        console.warn('ffmpeg not found - camera thumbnails only come from open players');
+      }
+      resolve(null);
+    });
+    ffmpeg.on('close', code => {
+      clearTimeout(timeout);
+      const data = Buffer.concat(chunks);
+      resolve(code === 0 && data.length > 0 ? data : null);
+    });
+  });
+}
+
+/**
+ * Get a frame for the camera grid: the cached one while fresh, otherwise a new grab from the stream
+ * Concurrent requests for the same camera share one grab; if it fails the last frame is served
+ * and the stream is left alone for another TTL
+ */
+export async function getCameraSnapshot(
+  camera: Camera,
+  serverUrl: string,
+  credentials?: Credentials
+): Promise<CameraSnapshot | null> {
+  const fresh = getFreshSnapshot(camera.id);
+  if (fresh) return fresh;
+
+  const state = getState();
+  const failedAt = state.failedGrabs.get(camera.id);
+  if (failedAt && Date.now() - failedAt < getSnapshotTtl()) {
+    return state.snapshots.get(camera.id) || null;
+  }
+
+  let grab = state.grabs.get(camera.id);
+  if (!grab) {
+    grab = grabStreamFrame(serverUrl, camera.path, credentials)
+      .then(data => {
+        if (!data) {
+          state.failedGrabs.set(camera.id, Date.now());
+          return null;
+        }
+        state.failedGrabs.delete(camera.id);
+        return storeSnapshot(camera.id, data, 'image/jpeg', 'stream');
+      })
+      .finally(() => state.grabs.delete(camera.id));
+    state.grabs.set(camera.id, grab);
+  }
+
+  return (await grab) || state.snapshots.get(camera.id) || null;
+}
@@ -0,0 +1,137 @@
+/**
+ * Live wall - several camera streams on one screen
+ * Layout definitions, tile assignment and layouts saved in this browser
+ */
+
+import { Camera } from '@/types';
+
+export type WallLayoutId = '1x1' | '2x2' | '3x3' | '1+5';
+
+export interface WallLayout {
+  id: WallLayoutId;
+  label: string;
+  columns: number;
+  tiles: number;
+  featured?: boolean; // first tile spans 2x2 (the rest flow around it)
+}
+
+export const WALL_LAYOUTS: WallLayout[] = [
+  { id: '1x1', label: 'Single', columns: 1, tiles: 1 },
+  { id: '2x2', label: '2 × 2', columns: 2, tiles: 4 },
+  { id: '3x3', label: '3 × 3', columns: 3, tiles: 9 },
+  { id: '1+5', label: '1 + 5', columns: 3, tiles: 6, featured: true },
+];
+
+/**
+ * Camera ids per tile, in tile order (null = empty tile)
+ */
+export type WallSlots = (string | null)[];
+
+export interface WallState {
+  layout: WallLayoutId;
+  slots: WallSlots;
+}
+
+export interface SavedWall extends WallState {
+  id: string;
+  name: string;
+}
+
+const CURRENT_WALL_KEY = 'camsuite_wall_current';
+const SAVED_WALLS_KEY = 'camsuite_wall_layouts';
+
+export function getWallLayout(id: string): WallLayout {
+  return WALL_LAYOUTS.find(layout => layout.id === id) || WALL_LAYOUTS[1];
+}
+
+/**
+ * Fit slots to a layout's tile count
+ * Cameras that no longer exist (or the user may not view) leave their tile empty;
+ * when nothing has been placed yet, cameras fill the tiles in order
+ */
+export function fitSlots(slots: WallSlots, layout: WallLayout, cameras: Camera[]): WallSlots {
+  const cameraIds = new Set(cameras.map(camera => camera.id));
+  const kept = slots.map(id => (id && cameraIds.has(id) ? id : null));
+
+  if (kept.every(id => id === null)) {
+    return Array.from({ length: layout.tiles }, (_, index) => cameras[index]?.id || null);
+  }
+
+  // Keep placed cameras when switching to a smaller layout by dropping empty tiles first
+  const fitted = kept.slice(0, layout.tiles);
+  const overflow = kept.slice(layout.tiles).filter(Boolean);
+  for (let index = 0; index < fitted.length && overflow.length > 0; index++) {
+    if (fitted[index] === null) {
+      fitted[index] = overflow.shift()!;
+    }
+  }
+  while (fitted.length < layout.tiles) {
+    fitted.push(null);
+  }
+  return fitted;
+}
+
+/**
+ * Swap two tiles (drag and drop)
+ */
+export function swapSlots(slots: WallSlots, from: number, to: number): WallSlots {
+  const next = [...slots];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn('Failed to save wall layout to localStorage:', error);
+  }
+}
+
+/**
+ * The wall as it was last left in this browser
+ */
+export function loadCurrentWall(): WallState | null {
+  const state = readJson<WallState | null>(CURRENT_WALL_KEY, null);
+  return state && Array.isArray(state.slots) ? { layout: getWallLayout(state.layout).id, slots: state.slots } : null;
+}
+
+export function saveCurrentWall(state: WallState): void {
+  writeJson(CURRENT_WALL_KEY, state);
+}
+
+/**
+ * Named layouts saved in this browser
+ */
+export function loadSavedWalls(): SavedWall[] {
+  const walls = readJson<SavedWall[]>(SAVED_WALLS_KEY, []);
+  return Array.isArray(walls) ? walls : [];
+}
+
+/**
+ * Save the wall under a name (replacing a saved wall with the same name)
+ */
+export function saveWall(name: string, state: WallState): SavedWall[] {
+  const trimmed = name.trim();
+  const others = loadSavedWalls().filter(wall => wall.name.toLowerCase() !== trimmed.toLowerCase());
+  const walls = [...others, { id: `wall-${Date.now()}`, name: trimmed, ...state }];
+  writeJson(SAVED_WALLS_KEY, walls);
+  return walls;
+}
+
+export function deleteSavedWall(id: string): SavedWall[] {
+  const walls = loadSavedWalls().filter(wall => wall.id !== id);
+  writeJson(SAVED_WALLS_KEY, walls);
+  return walls;
+}
@@ -0,0 +1,183 @@
+import { WhipSession, Credentials, RTCIceServer } from '@/types';
+import { buildWhipUrl } from '@/config';
+import { createAuthHeader, createPeerConnection, getWhepErrorMessage } from '@/lib/whep';
+
+/**
+ * WHIP (WebRTC-HTTP Ingestion Protocol) utilities for publishing to MediaMTX
+ * Sends media captured in the browser (the microphone for talkback, a phone's camera) to a MediaMTX path;
+ * the path must be in mediamtx.yml with publishUser/publishPass matching the credentials used
+ */
+
+export interface WhipOptions {
+  videoCodec?: string; // preferred video codec (e.g., "video/H264"), when the browser has it
+  videoBitrate?: number; // upper limit in kbps
+}
+
+/**
+ * Put the preferred codec first in a video transceiver's offer
+ * MediaMTX only serves some codecs over HLS and in recordings (e.g., H264 but not VP8)
+ */
+const preferVideoCodec = (transceiver: RTCRtpTransceiver, mimeType: string): void => {
+  const codecs = typeof RTCRtpSender !== 'undefined' ? RTCRtpSender.getCapabilities?.('video')?.codecs : undefined;
+  if (!codecs || !transceiver.setCodecPreferences) return;
+
+  const wanted = mimeType.toLowerCase();
+  const preferred = codecs.filter(codec => codec.mimeType.toLowerCase() === wanted);
+  if (preferred.length === 0) return;
+  transceiver.setCodecPreferences([...preferred, ...codecs.filter(codec => codec.mimeType.toLowerCase() !== wanted)]);
+};
+
+/**
+ * Start publishing the tracks of a local stream to a MediaMTX path
+ * The caller owns the stream and stops its tracks when done
+ */
+export const createWhipSession = async (
+  serverUrl: string,
+  path: string,
+  stream: MediaStream,
+  credentials: Credentials,
+  iceServers?: RTCIceServer[],
+  { videoCodec, videoBitrate }: WhipOptions = {}
+): Promise<WhipSession> => {
+  const whipUrl = buildWhipUrl(serverUrl, path);
+  const peerConnection = createPeerConnection(iceServers);
+
+  try {
+    if (process.env.NODE_ENV === 'development') {
+      console.log('[WHIP] Creating session for:', whipUrl);
+    }
+
+    stream.getTracks().forEach(track => {
+      const isVideo = track.kind === 'video';
+      const transceiver = peerConnection.addTransceiver(track, {
+        direction: 'sendonly',
+        streams: [stream],
+        ...(isVideo && videoBitrate && { sendEncodings: [{ maxBitrate: videoBitrate * 1000 }] }),
+      });
+      if (isVideo && videoCodec) {
+        preferVideoCodec(transceiver, videoCodec);
+      }
+    });
+
+    const offer = await peerConnection.createOffer();
+    await peerConnection.setLocalDescription(offer);
+
+    const response = await fetch(whipUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/sdp',
+        'Authorization': createAuthHeader(credentials),
+      },
+      body: offer.sdp,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`WHIP request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const location = response.headers.get('Location');
+    const answerSdp = await response.text();
+    await peerConnection.setRemoteDescription({ type: 'answer', sdp: answerSdp });
+
+    return {
+      peerConnection,
+      resourceUrl: location ? new URL(location, whipUrl).href : undefined,
+      isActive: true,
+    };
+  } catch (error) {
+    console.error('Failed to create WHIP session:', error);
+    peerConnection.close();
+
+    return {
+      peerConnection,
+      isActive: false,
+      lastError: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Stop publishing: close the peer connection and delete the session on the server
+ */
+export const closeWhipSession = async (session: WhipSession, credentials?: Credentials): Promise<void> => {
+  session.isActive = false;
+  try {
+    session.peerConnection.close();
+  } catch (error) {
+    console.warn('Error closing WHIP session:', error);
+  }
+
+  if (!session.resourceUrl) return;
+  try {
+    await fetch(session.resourceUrl, {
+      method: 'DELETE',
+      headers: credentials ? { 'Authorization': createAuthHeader(credentials) } : undefined,
+    });
+  } catch (error) {
+    // MediaMTX also ends the session once the peer connection is gone
+    console.warn('Error deleting WHIP session:', error);
+  }
+};
+
+/**
+ * Check if the browser can capture media (only in secure contexts - HTTPS or localhost)
+ */
+export const isMediaCaptureSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+};
+
+/**
+ * List the cameras of this device (labels are empty until the user has allowed a camera)
+ */
+export const listVideoInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!isMediaCaptureSupported()) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+/**
+ * Ask for the microphone, tuned for speech
+ */
+export const getMicrophoneStream = (): Promise<MediaStream> => {
+  return navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    video: false,
+  });
+};
+
+/**
+ * Get user-friendly error message for a failed getUserMedia() call
+ */
+export const getMediaErrorMessage = (error: unknown, device: string = 'microphone'): string => {
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return `Access to the ${device} was blocked. Allow it in the browser's site settings and try again.`;
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return `No ${device} was found.`;
+  }
+  if (name === 'NotReadableError' || name === 'AbortError') {
+    return `The ${device} is in use by another application.`;
+  }
+  if (!isMediaCaptureSupported()) {
+    return `This browser cannot use the ${device} here - it needs HTTPS (or localhost).`;
+  }
+  return `Could not start the ${device}.`;
+};
+
+/**
+ * Get user-friendly error message for WHIP errors
+ */
+export const getWhipErrorMessage = (error: string): string => {
+  if (error.includes('401') || error.includes('403')) {
+    return 'Publishing was refused. Please check the camera credentials and publishUser in mediamtx.yml.';
+  }
+  if (error.includes('404')) {
+    return 'Path not found. Please add it to mediamtx.yml.';
+  }
+  if (error.includes('400')) {
+    return 'The server did not accept the stream. Please check the path settings in mediamtx.yml.';
+  }
+  return getWhepErrorMessage(error);
+};
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SessionClaims, verifySessionToken } from '@/lib/site-auth/session-token';
+import { UserRole, hasRole } from '@/lib/site-auth/permissions';
 
 /**
  * Next.js Middleware for server-side route protection
@@ -11,6 +13,19 @@ const PROTECTED_ROUTES = [
   '/',
   '/settings',
   '/viewer',
+  '/wall',
+  '/recordings',
+  '/snapshots',
+  '/events',
+  '/account',
+  '/publish',
+];
+
+// Protected routes that also need a minimum role (others are sent home)
+const ROLE_ROUTES: { route: string; role: UserRole }[] = [
+  { route: '/settings', role: 'admin' },
+  { route: '/publish', role: 'admin' },
+  { route: '/recordings/schedule', role: 'operator' },
 ];
 
 // Routes that should redirect to home if already authenticated
@@ -32,34 +47,30 @@ function isProtectedRoute(pathname: string): boolean {
 }
 
 /**
- * Check if user is authenticated by validating the session token
+ * Get the minimum role required for a path, if any
+ */
+function getRequiredRole(pathname: string): UserRole | null {
+  const match = ROLE_ROUTES.find(({ route }) => pathname === route || pathname.startsWith(route + '/'));
+  return match ? match.role : null;
+}
+
+/**
+ * Get the session by verifying the signed session token
+ * Returns null for missing, tampered, forged or expired cookies
  */
-function isAuthenticated(request: NextRequest): boolean {
+async function getSession(request: NextRequest): Promise<SessionClaims | null> {
   const sessionToken = request.cookies.get('site_session')?.value;
-  const sessionData = request.cookies.get('site_session_data')?.value;
-  
-  if (!sessionToken || !sessionData) {
-    return false;
-  }
 
   try {
-    // Decode session data
-    const data = JSON.parse(decodeURIComponent(sessionData));
-    
-    // Check if session has expired
-    const now = Date.now();
-    if (data.expiresAt && now > data.expiresAt) {
-      return false;
-    }
-
-    // Validate token matches
-    return sessionToken === 'authenticated';
-  } catch {
-    return false;
+    return await verifySessionToken(sessionToken);
+  } catch (error) {
+    // Missing secret in production - fail closed
+    console.error('Session verification error:', error);
+    return null;
   }
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Skip middleware for static files and API routes
@@ -71,7 +82,8 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  const authenticated = isAuthenticated(request);
+  const session = await getSession(request);
+  const authenticated = session !== null;
 
   // Handle public routes
   if (PUBLIC_ROUTES.includes(pathname)) {
@@ -95,6 +107,12 @@ export function middleware(request: NextRequest) {
       loginUrl.searchParams.set('redirectTo', pathname);
       return NextResponse.redirect(loginUrl);
     }
+
+    // Authenticated but lacking the role for this page - send home
+    const requiredRole = getRequiredRole(pathname);
+    if (requiredRole && !hasRole(session.role, requiredRole)) {
+      return NextResponse.redirect(new URL('/', request.url));
+    }
     
     // Authenticated, allow access
     return NextResponse.next();
@@ -15,13 +15,31 @@ export interface Camera {
   id: string;
   name: string;
   path: string; // MediaMTX stream path (e.g., "camera1", "camera2")
+  subPath?: string; // Optional low-resolution stream path (e.g., "camera1_sub") for the wall and thumbnails
+  talkbackPath?: string; // Optional path the viewer's push-to-talk publishes to (e.g., "camera1_talk")
   lastSeen?: Date;
   status: CameraStatus;
-  thumbnail?: string; // Optional thumbnail URL
+  thumbnail?: string; // Optional fixed thumbnail URL (otherwise recent frames from the server are shown)
   // Optional per-camera credentials (overrides global auth)
   credentials?: Credentials;
   // Protocol preference (default: 'auto' for WebRTC → HLS fallback)
   protocol?: StreamingProtocol;
+  // When MediaMTX records the camera (default: 'schedule')
+  recordMode?: RecordMode;
+  recording?: boolean; // Set from the server while MediaMTX is recording the path
+  // Browser-side motion detection on the live stream (off when missing)
+  motion?: MotionSettings;
+  // Pan/tilt/zoom through the camera's ONVIF service (called by the web server)
+  onvif?: OnvifSettings;
+}
+
+/**
+ * ONVIF connection of a camera (PTZ control)
+ */
+export interface OnvifSettings {
+  url: string; // device service, e.g., "http://192.168.1.101/onvif/device_service"
+  credentials?: Credentials; // ONVIF user of the camera (not sent to non-admins)
+  profileToken?: string; // media profile to move (the first one with PTZ when missing)
 }
 
 /**
@@ -34,6 +52,48 @@ export type CameraStatus = 'online' | 'offline' | 'unknown' | 'connecting';
  */
 export type StreamingProtocol = 'webrtc' | 'hls' | 'auto';
 
+/**
+ * Recording policy of a camera: always on, always off, or on schedule
+ * (cameras on schedule can also be started and stopped from the viewer)
+ */
+export type RecordMode = 'always' | 'never' | 'schedule';
+
+/**
+ * Motion detection of a camera, run by the browsers that play it
+ */
+export interface MotionSettings {
+  enabled: boolean;
+  sensitivity: number; // 1 (only large changes) - 100 (the slightest change)
+  zones: MotionZone[]; // where motion counts (the whole picture when there are no "include" zones)
+}
+
+/**
+ * Include zones are watched (with their own sensitivity if set); exclude zones are ignored,
+ * e.g. a tree or a busy road
+ */
+export type MotionZoneMode = 'include' | 'exclude';
+
+/**
+ * Polygon on the picture in normalized coordinates (0-1 from the top-left corner)
+ */
+export interface MotionZone {
+  id: string;
+  name: string;
+  mode: MotionZoneMode;
+  sensitivity?: number; // include zones only - overrides the camera's sensitivity
+  points: MotionPoint[];
+}
+
+export interface MotionPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Which stream of a camera to play: full resolution or its sub-stream (falls back to main)
+ */
+export type StreamQuality = 'main' | 'sub';
+
 /**
  * WebRTC player connection states
  */
@@ -77,6 +137,14 @@ export interface RTCIceServer {
   credential?: string;
 }
 
+/**
+ * MediaMTX Control API connection (used on the server, e.g. for camera discovery)
+ */
+export interface MediaMtxApiConfig {
+  url: string; // e.g., "http://192.168.1.100:9997"
+  credentials?: Credentials; // MediaMTX user allowed to use the API
+}
+
 /**
  * Application configuration
  */
@@ -84,6 +152,7 @@ export interface AppConfig {
   serverUrl: string;
   iceServers?: RTCIceServer[];
   defaultCredentials?: Credentials;
+  mediamtxApi?: MediaMtxApiConfig;
   cameras: Camera[];
   // Playback preferences
   autoPlay: boolean;
@@ -111,6 +180,16 @@ export interface WhepSession {
   lastError?: string;
 }
 
+/**
+ * WHIP publishing session (e.g., microphone audio for talkback)
+ */
+export interface WhipSession {
+  peerConnection: RTCPeerConnection;
+  resourceUrl?: string; // session resource from the Location header, deleted to stop publishing
+  isActive: boolean;
+  lastError?: string;
+}
+
 /**
  * Error types for different failure scenarios
  */
@@ -4,6 +4,7 @@
  */
 
 import { chromium } from 'playwright';
+import { resetSiteAccounts } from '../helpers/auth-helpers.mjs';
 
 const BASE_URL = 'http://localhost:3000';
 const TEST_TIMEOUT = 30000;
@@ -239,7 +240,8 @@ async function runTests() {
     // Check for security warning about default credentials
     const securityWarning = await page.locator('text=default credentials').isVisible();
     
-    // Fill in new password
+    // Fill in current and new password
+    await page.fill('#current-password', 'changeme');
     await page.fill('#new-username', 'newadmin');
     await page.fill('#new-password', 'newpassword123');
     await page.fill('#confirm-password', 'newpassword123');
@@ -251,6 +253,9 @@ async function runTests() {
     // Check for success message
     const successToast = await page.locator('text=successfully').isVisible();
     
+    // Accounts are stored on the server - remove them so the default login works for the following tests
+    await resetSiteAccounts();
+    
     if (securityWarning && successToast) {
       console.log('✅ PASSED: Password change flow works correctly\n');
       testResults.passed++;
@@ -257,6 +257,48 @@ async function runTests() {
     }
   }, results);
 
+  // Test 11: Forged session cookies are rejected
+  await runTest('Forged or tampered session cookies are rejected', async () => {
+    const { browser, context, page } = await setupBrowser(TEST_CONFIG.browser);
+    
+    try {
+      await clearStorage(context, page, baseUrl);
+      
+      // The unsigned cookies accepted by older versions
+      await context.addCookies([
+        { name: 'site_session', value: 'authenticated', url: baseUrl },
+        {
+          name: 'site_session_data',
+          value: encodeURIComponent(JSON.stringify({ username: 'admin', expiresAt: Date.now() + 3600000 })),
+          url: baseUrl
+        }
+      ]);
+      await page.goto(`${baseUrl}/settings`);
+      await waitForNetworkIdle(page);
+      const forgedRejected = page.url().includes('/login');
+      
+      // A real token with its payload swapped for a different user
+      await performLogin(page, baseUrl, defaultCredentials.username, defaultCredentials.password);
+      const cookies = await context.cookies();
+      const session = cookies.find(cookie => cookie.name === 'site_session');
+      const [version, payload, signature] = session.value.split('.');
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      const tamperedPayload = Buffer.from(JSON.stringify({ ...claims, username: 'attacker' })).toString('base64url');
+      
+      await context.clearCookies();
+      await context.addCookies([
+        { name: 'site_session', value: `${version}.${tamperedPayload}.${signature}`, url: baseUrl }
+      ]);
+      await page.goto(`${baseUrl}/settings`);
+      await waitForNetworkIdle(page);
+      const tamperedRejected = page.url().includes('/login');
+      
+      return forgedRejected && tamperedRejected;
+    } finally {
+      await browser.close();
+    }
+  }, results);
+
   // Print results
   const success = printTestResults('Session Management Tests', results);
   process.exit(success ? 0 : 1);
@@ -2,6 +2,9 @@
  * Authentication helper functions
  */
 
+import { rm } from 'fs/promises';
+import path from 'path';
+
 /**
  * Login with provided credentials
  */
@@ -47,12 +50,13 @@ export async function isAuthenticated(page, baseUrl) {
 /**
  * Update website credentials in settings
  */
-export async function updateWebsiteCredentials(page, newUsername, newPassword) {
+export async function updateWebsiteCredentials(page, newUsername, newPassword, currentPassword = 'changeme') {
   // Navigate to Account tab
   await page.getByRole('tab', { name: 'Account' }).click();
   await page.waitForTimeout(500);
   
-  // Fill in new credentials
+  // Fill in current and new credentials
+  await page.fill('#current-password', currentPassword);
   await page.fill('#new-username', newUsername);
   await page.fill('#new-password', newPassword);
   await page.fill('#confirm-password', newPassword);
@@ -90,3 +94,13 @@ export async function updateCameraCredentials(page, username, password, remember
   const successVisible = await page.locator('text=successfully').isVisible();
   return successVisible;
 }
+
+/**
+ * Remove all stored site accounts so the default admin/changeme login works again
+ * The dev server must share this data directory (CAMSUITE_DATA_DIR or ./data)
+ */
+export async function resetSiteAccounts() {
+  const dataDir = path.resolve(process.env.CAMSUITE_DATA_DIR || path.join(process.cwd(), 'data'));
+  await rm(path.join(dataDir, 'users.json'), { force: true });
+  await rm(path.join(dataDir, 'site-credentials.json'), { force: true });
+}
@@ -0,0 +1,116 @@
+/**
+ * In-process MQTT broker
+ * Speaks just enough MQTT 3.1.1 for publishers: CONNECT with optional username/password,
+ * PUBLISH at QoS 0 and 1 (answered with PUBACK) and DISCONNECT
+ */
+
+import net from 'net';
+
+function readString(buffer, offset) {
+  const length = buffer.readUInt16BE(offset);
+  return { value: buffer.toString('utf8', offset + 2, offset + 2 + length), next: offset + 2 + length };
+}
+
+// Split complete packets off the front of a buffer
+function readPackets(buffer) {
+  const packets = [];
+  let offset = 0;
+  while (offset + 2 <= buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let index = offset + 1;
+    let byte;
+    do {
+      if (index >= buffer.length) return { packets, rest: buffer.subarray(offset) };
+      byte = buffer[index++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    if (index + length > buffer.length) break;
+    packets.push({ header: buffer[offset], body: buffer.subarray(index, index + length) });
+    offset = index + length;
+  }
+  return { packets, rest: buffer.subarray(offset) };
+}
+
+function parseConnect(body) {
+  const protocol = readString(body, 0);
+  const flags = body[protocol.next + 1];
+  let cursor = protocol.next + 4; // level, flags, keep alive
+  const clientId = readString(body, cursor);
+  cursor = clientId.next;
+  let username;
+  let password;
+  if (flags & 0x80) {
+    ({ value: username, next: cursor } = readString(body, cursor));
+  }
+  if (flags & 0x40) {
+    ({ value: password, next: cursor } = readString(body, cursor));
+  }
+  return { protocol: protocol.value, clientId: clientId.value, username, password };
+}
+
+/**
+ * Start the broker on a random local port
+ * With `username`, clients must sign in with it and `password`; `messages` records every PUBLISH
+ * Set `refuse` to a CONNACK return code to turn every client away, or `truncate` to 'connack' or 'puback'
+ * to answer with that packet cut short
+ */
+export async function startMockMqttBroker({ username, password } = {}) {
+  const messages = [];
+  const connections = [];
+  const sockets = new Set();
+  const broker = { refuse: 0, truncate: null };
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => undefined);
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      const { packets, rest } = readPackets(Buffer.concat([buffer, chunk]));
+      buffer = rest;
+
+      for (const { header, body } of packets) {
+        const type = header & 0xf0;
+        if (type === 0x10) {
+          const connect = parseConnect(body);
+          connections.push(connect);
+          const badLogin = username !== undefined && (connect.username !== username || connect.password !== password);
+          const code = broker.refuse || (badLogin ? 4 : 0);
+          socket.write(broker.truncate === 'connack' ? Buffer.from([0x20, 1, 0]) : Buffer.from([0x20, 2, 0, code]));
+          if (code !== 0) socket.end();
+        } else if (type === 0x30) {
+          const qos = (header >> 1) & 0x03;
+          const topic = readString(body, 0);
+          let payloadStart = topic.next;
+          if (qos > 0) {
+            const packetId = body.readUInt16BE(payloadStart);
+            payloadStart += 2;
+            socket.write(
+              broker.truncate === 'puback' ? Buffer.from([0x40, 0]) : Buffer.from([0x40, 2, packetId >> 8, packetId & 0xff])
+            );
+          }
+          messages.push({ topic: topic.value, payload: body.toString('utf8', payloadStart), qos });
+        } else if (type === 0xe0) {
+          socket.end();
+        }
+      }
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    url: `mqtt://127.0.0.1:${port}`,
+    broker,
+    messages,
+    connections,
+    close: () => new Promise(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(resolve);
+    }),
+  };
+}
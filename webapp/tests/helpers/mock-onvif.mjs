@@ -0,0 +1,193 @@
+/**
+ * Mock ONVIF camera
+ * Answers the device, media and PTZ SOAP calls the webapp uses, checks WS-Security password digests
+ * against its own clock, and reports its services on a host other than the one it listens on
+ */
+
+import http from 'http';
+import { createHash } from 'crypto';
+
+const SOAP_NAMESPACES =
+  'xmlns:s="http://www.w3.org/2003/05/soap-envelope" xmlns:ter="http://www.onvif.org/ver10/error" ' +
+  'xmlns:tds="http://www.onvif.org/ver10/device/wsdl" xmlns:trt="http://www.onvif.org/ver10/media/wsdl" ' +
+  'xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl" xmlns:tt="http://www.onvif.org/ver10/schema"';
+
+// Services as the camera sees itself, e.g., behind port forwarding
+const ADVERTISED_HOST = 'http://10.0.0.5';
+
+/**
+ * A camera with a sub-stream profile without PTZ and a main profile with it
+ */
+export function createMockOnvifState() {
+  return {
+    clockOffset: 0, // camera clock minus real time, in ms
+    profiles: [
+      { token: 'sub', name: 'Sub stream', ptz: false },
+      { token: 'main', name: 'Main stream', ptz: true },
+    ],
+    presets: [
+      { token: '1', name: 'Gate' },
+      { token: '2', name: 'Driveway' },
+    ],
+    ptz: true,
+  };
+}
+
+function envelope(body) {
+  return `<?xml version="1.0" encoding="UTF-8"?><s:Envelope ${SOAP_NAMESPACES}><s:Body>${body}</s:Body></s:Envelope>`;
+}
+
+function fault(subcode, reason) {
+  return envelope(
+    '<s:Fault><s:Code><s:Value>s:Sender</s:Value>' +
+    `<s:Subcode><s:Value>${subcode}</s:Value></s:Subcode></s:Code>` +
+    `<s:Reason><s:Text xml:lang="en">${reason}</s:Text></s:Reason></s:Fault>`
+  );
+}
+
+const textOf = (xml, name) => xml.match(new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${name}>`))?.[1];
+const attributeOf = (xml, element, attribute) =>
+  xml.match(new RegExp(`<(?:\\w+:)?${element}\\s[^>]*\\b${attribute}="([^"]*)"`))?.[1];
+
+/**
+ * Check the UsernameToken in a request; returns an error message or null
+ */
+function checkSecurity(xml, username, password, now) {
+  const user = textOf(xml, 'Username');
+  const digest = textOf(xml, 'Password');
+  const nonce = textOf(xml, 'Nonce');
+  const created = textOf(xml, 'Created');
+  if (!user || !digest || !nonce || !created) return 'missing security header';
+  if (user !== username) return 'unknown user';
+
+  const expected = createHash('sha1')
+    .update(Buffer.concat([Buffer.from(nonce, 'base64'), Buffer.from(created + password)]))
+    .digest('base64');
+  if (digest !== expected) return 'wrong password digest';
+  if (Math.abs(Date.parse(created) - now) > 10 * 1000) return 'timestamp out of range';
+  return null;
+}
+
+function dateTimeXml(date) {
+  return (
+    '<tt:UTCDateTime>' +
+    `<tt:Time><tt:Hour>${date.getUTCHours()}</tt:Hour><tt:Minute>${date.getUTCMinutes()}</tt:Minute><tt:Second>${date.getUTCSeconds()}</tt:Second></tt:Time>` +
+    `<tt:Date><tt:Year>${date.getUTCFullYear()}</tt:Year><tt:Month>${date.getUTCMonth() + 1}</tt:Month><tt:Day>${date.getUTCDate()}</tt:Day></tt:Date>` +
+    '</tt:UTCDateTime>'
+  );
+}
+
+/**
+ * Start the mock on a random local port
+ * `state` can be changed by tests while the server runs; `calls` records every operation that got through
+ */
+export async function startMockOnvif({ username = 'onvif', password = 'onvifpass', state = createMockOnvifState() } = {}) {
+  const calls = [];
+
+  const server = http.createServer((req, res) => {
+    let xml = '';
+    req.on('data', chunk => (xml += chunk));
+    req.on('end', () => {
+      const send = (status, body) => {
+        res.writeHead(status, { 'Content-Type': 'application/soap+xml; charset=utf-8' });
+        res.end(body);
+      };
+
+      const operation = xml.match(/<(?:\w+:)?Body[^>]*>\s*<(?:\w+:)?(\w+)/)?.[1];
+      const service = new URL(req.url, 'http://localhost').pathname;
+      const now = Date.now() + state.clockOffset;
+
+      if (service === '/onvif/device_service' && operation === 'GetSystemDateAndTime') {
+        send(200, envelope(
+          '<tds:GetSystemDateAndTimeResponse><tds:SystemDateAndTime>' +
+          `<tt:DateTimeType>NTP</tt:DateTimeType>${dateTimeXml(new Date(now))}` +
+          '</tds:SystemDateAndTime></tds:GetSystemDateAndTimeResponse>'
+        ));
+        return;
+      }
+
+      const securityError = checkSecurity(xml, username, password, now);
+      if (securityError) {
+        send(400, fault('ter:NotAuthorized', `Sender not authorized (${securityError})`));
+        return;
+      }
+      calls.push({ service, operation, xml });
+
+      const profileToken = textOf(xml, 'ProfileToken');
+      const ptzProfile = state.profiles.find(profile => profile.token === profileToken && profile.ptz);
+
+      switch (`${service} ${operation}`) {
+        case '/onvif/device_service GetCapabilities':
+          send(200, envelope(
+            '<tds:GetCapabilitiesResponse><tds:Capabilities>' +
+            `<tt:Device><tt:XAddr>${ADVERTISED_HOST}/onvif/device_service</tt:XAddr></tt:Device>` +
+            `<tt:Media><tt:XAddr>${ADVERTISED_HOST}/onvif/media_service</tt:XAddr></tt:Media>` +
+            (state.ptz ? `<tt:PTZ><tt:XAddr>${ADVERTISED_HOST}/onvif/ptz_service</tt:XAddr></tt:PTZ>` : '') +
+            '</tds:Capabilities></tds:GetCapabilitiesResponse>'
+          ));
+          return;
+
+        case '/onvif/media_service GetProfiles':
+          send(200, envelope(
+            '<trt:GetProfilesResponse>' +
+            state.profiles.map(profile =>
+              `<trt:Profiles token="${profile.token}" fixed="true"><tt:Name>${profile.name}</tt:Name>` +
+              (profile.ptz ? '<tt:PTZConfiguration token="ptz0"><tt:Name>PTZ</tt:Name></tt:PTZConfiguration>' : '') +
+              '</trt:Profiles>'
+            ).join('') +
+            '</trt:GetProfilesResponse>'
+          ));
+          return;
+
+        case '/onvif/ptz_service GetPresets':
+        case '/onvif/ptz_service ContinuousMove':
+        case '/onvif/ptz_service Stop':
+        case '/onvif/ptz_service GotoPreset':
+        case '/onvif/ptz_service SetPreset':
+          break;
+
+        default:
+          send(400, fault('ter:ActionNotSupported', `${operation} is not supported`));
+          return;
+      }
+
+      if (!ptzProfile) {
+        send(400, fault('ter:NoProfile', 'The requested profile token does not exist'));
+        return;
+      }
+
+      if (operation === 'GetPresets') {
+        send(200, envelope(
+          '<tptz:GetPresetsResponse>' +
+          state.presets.map(preset => `<tptz:Preset token="${preset.token}"><tt:Name>${preset.name}</tt:Name></tptz:Preset>`).join('') +
+          '</tptz:GetPresetsResponse>'
+        ));
+      } else if (operation === 'GotoPreset') {
+        if (!state.presets.some(preset => preset.token === textOf(xml, 'PresetToken'))) {
+          send(400, fault('ter:NoToken', 'The requested preset token does not exist'));
+          return;
+        }
+        send(200, envelope('<tptz:GotoPresetResponse/>'));
+      } else if (operation === 'SetPreset') {
+        const token = String(state.presets.length + 1);
+        state.presets.push({ token, name: textOf(xml, 'PresetName') });
+        send(200, envelope(`<tptz:SetPresetResponse><tptz:PresetToken>${token}</tptz:PresetToken></tptz:SetPresetResponse>`));
+      } else {
+        send(200, envelope(`<tptz:${operation}Response/>`));
+      }
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    url: `http://127.0.0.1:${port}/onvif/device_service`,
+    credentials: { username, password },
+    state,
+    calls,
+    textOf,
+    attributeOf,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
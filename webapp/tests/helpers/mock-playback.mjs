@@ -0,0 +1,95 @@
+/**
+ * Mock MediaMTX playback server
+ * Serves /list and /get for recorded paths, with Basic auth like the real server
+ */
+
+import http from 'http';
+
+/**
+ * Sample recordings: camera1 has two segments with a gap, camera2 has none
+ */
+export function createMockPlaybackState() {
+  return {
+    recordings: {
+      camera1: [
+        { start: '2024-01-15T10:00:00Z', duration: 3600 },
+        { start: '2024-01-15T12:30:00Z', duration: 1800 },
+      ],
+    },
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function overlaps(segment, start, end) {
+  const segmentStart = new Date(segment.start).getTime();
+  return segmentStart < end && segmentStart + segment.duration * 1000 > start;
+}
+
+/**
+ * Start the mock on a random local port
+ * `state` can be changed by tests while the server runs; `requests` records every call
+ */
+export async function startMockPlayback({ username = 'admin', password = 'changeme', state = createMockPlaybackState() } = {}) {
+  const requests = [];
+  const expectedAuth = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const params = Object.fromEntries(url.searchParams);
+    requests.push({ method: req.method, path: url.pathname, params });
+
+    if (req.headers.authorization !== expectedAuth) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="mediamtx"');
+      sendJson(res, 401, { error: 'authentication error' });
+      return;
+    }
+
+    const segments = state.recordings[params.path];
+    if (!segments) {
+      sendJson(res, 404, { error: 'no recordings found' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/list') {
+      const start = params.start ? new Date(params.start).getTime() : -Infinity;
+      const end = params.end ? new Date(params.end).getTime() : Infinity;
+      const items = segments
+        .filter(segment => overlaps(segment, start, end))
+        .map(segment => ({ ...segment, url: `/get?path=${params.path}&start=${segment.start}` }))
+        .reverse(); // unsorted on purpose, the client sorts
+      sendJson(res, 200, items);
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/get') {
+      const start = new Date(params.start).getTime();
+      const end = start + Number(params.duration) * 1000;
+      if (!segments.some(segment => overlaps(segment, start, end))) {
+        sendJson(res, 404, { error: 'no recordings found' });
+        return;
+      }
+      // Stand-in for an MP4 file: the header box and the requested range
+      const body = Buffer.from(`\0\0\0\x18ftypmp42 ${params.path} ${params.start} ${params.duration}`);
+      res.writeHead(200, { 'Content-Type': 'video/mp4', 'Content-Length': body.length });
+      res.end(body);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not found' });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    credentials: { username, password },
+    state,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
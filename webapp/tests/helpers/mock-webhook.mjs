@@ -0,0 +1,37 @@
+/**
+ * Local webhook receiver
+ * Records every request and answers with the queued status codes (200 once the queue is empty)
+ * Also stands in for browser push services, which get binary bodies (kept in `raw`)
+ */
+
+import http from 'http';
+
+/**
+ * Start the receiver on a random local port
+ * Push status codes onto `statuses` to make the next requests fail
+ */
+export async function startMockWebhook() {
+  const requests = [];
+  const statuses = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks);
+      requests.push({ method: req.method, path: req.url, headers: req.headers, body: raw.toString('utf8'), raw });
+      res.writeHead(statuses.shift() || 200);
+      res.end();
+    });
+  });
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    url: `http://127.0.0.1:${port}/hook`,
+    requests,
+    statuses,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+
+/**
+ * Run Unit Tests
+ * Executes unit test suites (no browser or dev server needed)
+ * TypeScript sources are loaded through tsx
+ */
+
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const TEST_SUITES = [
+  'unit/session-token.test.mjs',
+  'unit/rate-limit.test.mjs',
+  'unit/user-store.test.mjs',
+  'unit/totp.test.mjs',
+  'unit/config-store.test.mjs',
+  'unit/mediamtx-api.test.mjs',
+  'unit/camera-health.test.mjs',
+  'unit/thumbnails.test.mjs',
+  'unit/wall-layout.test.mjs',
+  'unit/recordings.test.mjs',
+  'unit/recording-schedule.test.mjs',
+  'unit/clips.test.mjs',
+  'unit/snapshots.test.mjs',
+  'unit/motion.test.mjs',
+  'unit/events.test.mjs',
+  'unit/notifications.test.mjs',
+  'unit/push.test.mjs',
+  'unit/pwa.test.mjs',
+  'unit/whip.test.mjs',
+  'unit/onvif.test.mjs'
+];
+
+const results = {
+  passed: [],
+  failed: [],
+  total: TEST_SUITES.length
+};
+
+function runTest(testFile) {
+  return new Promise((resolve) => {
+    console.log(`\n${'='.repeat(70)}`);
+    console.log(`🧪 Running: ${testFile}`);
+    console.log('='.repeat(70));
+
+    const testPath = join(__dirname, testFile);
+    const child = spawn('node', ['--import', 'tsx', testPath], {
+      stdio: 'inherit',
+      env: { ...process.env }
+    });
+
+    child.on('exit', (code) => {
+      if (code === 0) {
+        results.passed.push(testFile);
+      } else {
+        results.failed.push(testFile);
+      }
+      resolve(code);
+    });
+
+    child.on('error', (error) => {
+      console.error(`Error running ${testFile}:`, error);
+      results.failed.push(testFile);
+      resolve(1);
+    });
+  });
+}
+
+async function runAllTests() {
+  console.log('🚀 Starting Unit Test Suite');
+  console.log('===========================\n');
+
+  for (const testFile of TEST_SUITES) {
+    await runTest(testFile);
+  }
+
+  console.log('\n' + '='.repeat(70));
+  console.log('📊 UNIT TEST RESULTS');
+  console.log('='.repeat(70));
+  console.log(`Total Suites: ${results.total}`);
+  console.log(`✅ Passed: ${results.passed.length}`);
+  console.log(`❌ Failed: ${results.failed.length}`);
+  console.log('='.repeat(70));
+
+  if (results.failed.length > 0) {
+    console.log('\n❌ Failed Suites:');
+    results.failed.forEach(suite => console.log(`  - ${suite}`));
+  }
+
+  console.log('');
+
+  process.exit(results.failed.length > 0 ? 1 : 0);
+}
+
+runAllTests().catch(error => {
+  console.error('❌ Test runner crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,201 @@
+/**
+ * Camera Health Tests
+ * Polls cameras against the mock MediaMTX Control API with a controlled clock
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import { startMockMediaMtx } from '../helpers/mock-mediamtx.mjs';
+
+// Isolate the config store in a temporary data directory before it is imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-health-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const { parseAppConfig, saveStoredConfig } = await import('../../src/config/config-store.ts');
+const {
+  getCameraHealth,
+  getNextCheckDelay,
+  pollCameraHealth,
+  recheckCameraHealth,
+  subscribeCameraHealth,
+} = await import('../../src/lib/camera-health/health-service.ts');
+const { applyCameraHealth, mergeCameraHealth } = await import('../../src/lib/camera-health/index.ts');
+const { queryEvents } = await import('../../src/lib/events/event-store.ts');
+const { withProcessLock } = await import('../../src/lib/storage/process-state.ts');
+
+const CAMERAS = [
+  { id: 'cam-1', name: 'Camera 1', path: 'camera1', status: 'unknown' },
+  { id: 'cam-2', name: 'Camera 2', path: 'camera2', status: 'unknown' },
+];
+
+async function saveConfig(overrides) {
+  const { config, error } = parseAppConfig({
+    serverUrl: 'http://127.0.0.1:8889',
+    iceServers: [],
+    cameras: CAMERAS,
+    autoPlay: true,
+    startMuted: true,
+    rememberCredentials: false,
+    ...overrides,
+  });
+  if (error) throw new Error(error);
+  await saveStoredConfig(config, null, 'test');
+}
+
+function find(cameraId) {
+  return getCameraHealth().find(health => health.cameraId === cameraId);
+}
+
+async function runTests() {
+  console.log('🧪 Starting Camera Health Tests...\n');
+  const results = createTestResults();
+
+  const mock = await startMockMediaMtx();
+  await saveConfig({ mediamtxApi: { url: mock.url, credentials: mock.credentials } });
+
+  const start = Date.parse('2024-01-15T12:00:00Z');
+
+  await runTest('Path readiness from the MediaMTX API drives the status', async () => {
+    const changes = await pollCameraHealth(start);
+    const camera1 = find('cam-1');
+    const camera2 = find('cam-2');
+    return (
+      changes.length === 2 &&
+      camera1.status === 'online' &&
+      camera1.lastSeen === '2024-01-15T12:00:00.000Z' &&
+      camera2.status === 'offline' &&
+      camera2.lastSeen === null
+    );
+  }, results);
+
+  await runTest('Cameras are not probed again before they are due', async () => {
+    mock.requests.length = 0;
+    const changes = await pollCameraHealth(start + 5000);
+    return changes.length === 0 && mock.requests.length === 0;
+  }, results);
+
+  await runTest('Offline cameras back off exponentially up to a limit', async () => {
+    return (
+      getNextCheckDelay('online', 0) === 15000 &&
+      getNextCheckDelay('unknown', 0) === 15000 &&
+      getNextCheckDelay('offline', 1) === 15000 &&
+      getNextCheckDelay('offline', 2) === 30000 &&
+      getNextCheckDelay('offline', 3) === 60000 &&
+      getNextCheckDelay('offline', 20) === 5 * 60 * 1000
+    );
+  }, results);
+
+  await runTest('Only due cameras are probed while another backs off', async () => {
+    // Second offline probe at +15s schedules camera2 30s later, camera1 stays at 15s
+    await pollCameraHealth(start + 15000);
+    await pollCameraHealth(start + 30000);
+    const camera1 = find('cam-1');
+    const camera2 = find('cam-2');
+    return (
+      camera1.checkedAt === '2024-01-15T12:00:30.000Z' &&
+      camera2.checkedAt === '2024-01-15T12:00:15.000Z'
+    );
+  }, results);
+
+  await runTest('Listeners are told about status changes only', async () => {
+    const received = [];
+    const unsubscribe = subscribeCameraHealth(changes => received.push(...changes));
+
+    const camera2 = mock.state.paths.find(item => item.name === 'camera2');
+    camera2.ready = true;
+    await pollCameraHealth(start + 45000);
+    await pollCameraHealth(start + 60000);
+    unsubscribe();
+    camera2.ready = false;
+
+    return (
+      received.length === 1 &&
+      received[0].cameraId === 'cam-2' &&
+      received[0].status === 'online' &&
+      received[0].lastSeen === '2024-01-15T12:00:45.000Z'
+    );
+  }, results);
+
+  await runTest('Recording state follows the path configuration', async () => {
+    const received = [];
+    const unsubscribe = subscribeCameraHealth(changes => received.push(...changes));
+
+    const camera1Config = mock.state.pathConfigs.find(item => item.name === 'camera1');
+    camera1Config.record = true;
+    await recheckCameraHealth(['cam-1'], start + 55000);
+    const recording = find('cam-1').recording;
+    camera1Config.record = false;
+    await recheckCameraHealth(['cam-1'], start + 60000);
+    unsubscribe();
+
+    return (
+      recording === true &&
+      find('cam-1').recording === false &&
+      find('cam-2').recording === false &&
+      received.length === 2 &&
+      received.every(health => health.cameraId === 'cam-1')
+    );
+  }, results);
+
+  await runTest('Changes after the first probe are logged as events', async () => {
+    // Events are written in the background - wait for the queue to drain
+    await withProcessLock('events', async () => undefined);
+    const { events } = await queryEvents({});
+    return (
+      events.map(event => event.type).join() === 'recording-stopped,recording-started,camera-online' &&
+      events[2].cameraId === 'cam-2' &&
+      events[2].message === 'Camera 2 is online' &&
+      events[2].time === '2024-01-15T12:00:45.000Z'
+    );
+  }, results);
+
+  await runTest('Removed cameras are forgotten', async () => {
+    await saveConfig({
+      cameras: [CAMERAS[0]],
+      mediamtxApi: { url: mock.url, credentials: mock.credentials },
+    });
+    await pollCameraHealth(start + 75000);
+    return getCameraHealth().length === 1 && !find('cam-2');
+  }, results);
+
+  await runTest('Without the API, unreachable streams are offline', async () => {
+    await saveConfig({ mediamtxApi: { url: '' } });
+    // Nothing serves HLS for 127.0.0.1 here, so every manifest probe fails
+    await pollCameraHealth(start + 10 * 60 * 1000);
+    return find('cam-1').status === 'offline' && find('cam-1').lastSeen === '2024-01-15T12:01:15.000Z';
+  }, results);
+
+  await runTest('Health is applied to cameras on the client', async () => {
+    const health = mergeCameraHealth({}, [
+      {
+        cameraId: 'cam-1',
+        status: 'online',
+        recording: true,
+        lastSeen: '2024-01-15T12:00:00.000Z',
+        checkedAt: '2024-01-15T12:00:00.000Z',
+      },
+    ]);
+    const [camera1, camera2] = applyCameraHealth(CAMERAS, health);
+    return (
+      camera1.status === 'online' &&
+      camera1.recording === true &&
+      camera2.recording === undefined &&
+      camera1.lastSeen instanceof Date &&
+      camera2.status === 'unknown' &&
+      camera2.lastSeen === undefined
+    );
+  }, results);
+
+  await mock.close();
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Camera Health Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
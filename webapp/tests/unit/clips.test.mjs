@@ -0,0 +1,144 @@
+/**
+ * Video Clip Tests
+ * Clip formats and names, and pre-roll recording with a stand-in MediaRecorder
+ */
+
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+const {
+  createClipRecorder,
+  formatClipDuration,
+  formatFileSize,
+  getClipFileName,
+  pickClipMimeType,
+} = await import('../../src/lib/clips/index.ts');
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Records which recorders exist; each one emits a chunk named after it when it stops
+ */
+function createFakeRecorders() {
+  const recorders = [];
+  const createRecorder = (stream, options) => {
+    const recorder = {
+      id: recorders.length,
+      state: 'inactive',
+      mimeType: options.mimeType || 'video/webm',
+      ondataavailable: null,
+      onstop: null,
+      start() {
+        recorder.state = 'recording';
+        recorder.ondataavailable?.({ data: new Blob([`header-${recorder.id};`]) });
+      },
+      stop() {
+        recorder.state = 'inactive';
+        recorder.ondataavailable?.({ data: new Blob([`end-${recorder.id}`]) });
+        recorder.onstop?.();
+      },
+    };
+    recorders.push(recorder);
+    return recorder;
+  };
+  return { recorders, createRecorder };
+}
+
+async function runTests() {
+  console.log('🧪 Starting Video Clip Tests...\n');
+  const results = createTestResults();
+
+  await runTest('The first format the browser records is picked', async () => {
+    return (
+      pickClipMimeType(() => true) === 'video/webm;codecs=vp9,opus' &&
+      pickClipMimeType(type => type.startsWith('video/mp4')) === 'video/mp4' &&
+      pickClipMimeType(type => type === 'video/webm') === 'video/webm' &&
+      pickClipMimeType(() => false) === ''
+    );
+  }, results);
+
+  await runTest('Clip names, durations and sizes', async () => {
+    const startedAt = new Date(2024, 0, 15, 22, 30, 5);
+    return (
+      getClipFileName({ cameraName: 'Front Door!', startedAt, mimeType: 'video/webm;codecs=vp8' }) === 'front-door-20240115-223005.webm' &&
+      getClipFileName({ cameraName: '***', startedAt, mimeType: 'video/mp4' }) === 'camera-20240115-223005.mp4' &&
+      formatClipDuration(4.6) === '0:05' &&
+      formatClipDuration(125) === '2:05' &&
+      formatFileSize(100) === '1 KB' &&
+      formatFileSize(2.5 * 1024 * 1024) === '2.5 MB'
+    );
+  }, results);
+
+  await runTest('Without pre-roll a recorder starts with the clip', async () => {
+    const { recorders, createRecorder } = createFakeRecorders();
+    let time = 1000;
+    const clips = createClipRecorder({}, { mimeType: 'video/webm', createRecorder, now: () => time });
+    const idle = recorders.length;
+
+    clips.startClip();
+    time += 4000;
+    const clip = await clips.stopClip();
+    const text = await clip.blob.text();
+    clips.dispose();
+
+    return (
+      idle === 0 &&
+      recorders.length === 1 &&
+      text === 'header-0;end-0' &&
+      clip.blob.type === 'video/webm' &&
+      clip.startedAt === 1000 &&
+      clip.duration === 4 &&
+      !clips.isRecording
+    );
+  }, results);
+
+  await runTest('Pre-roll keeps the oldest of two rotating recorders', async () => {
+    const { recorders, createRecorder } = createFakeRecorders();
+    const clips = createClipRecorder({}, { preRollSeconds: 0.1, createRecorder });
+
+    // Recorders start every 100 ms; only the two newest keep running
+    await sleep(250);
+    const running = recorders.filter(recorder => recorder.state === 'recording').map(recorder => recorder.id);
+    clips.startClip();
+    const afterStart = recorders.filter(recorder => recorder.state === 'recording').map(recorder => recorder.id);
+    await sleep(150);
+    const noRotationWhileRecording = recorders.length === 3;
+
+    const clip = await clips.stopClip();
+    const text = await clip.blob.text();
+    // Pre-roll is armed again for the next clip
+    const rearmed = recorders.length === 4 && recorders[3].state === 'recording';
+    clips.dispose();
+
+    return (
+      running.join() === '1,2' &&
+      recorders[0].state === 'inactive' &&
+      afterStart.join() === '1' &&
+      noRotationWhileRecording &&
+      text === 'header-1;end-1' &&
+      rearmed &&
+      recorders.every(recorder => recorder.state === 'inactive')
+    );
+  }, results);
+
+  await runTest('Stopping without a clip fails and disposing stops everything', async () => {
+    const { recorders, createRecorder } = createFakeRecorders();
+    const clips = createClipRecorder({}, { preRollSeconds: 5, createRecorder });
+    const error = await clips.stopClip().catch(err => err.message);
+    clips.dispose();
+    clips.startClip();
+    return (
+      error === 'No clip is being recorded' &&
+      recorders.length === 1 &&
+      recorders[0].state === 'inactive' &&
+      !clips.isRecording
+    );
+  }, results);
+
+  const success = printTestResults('Video Clip Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,344 @@
+/**
+ * Config Store Tests
+ * Verifies the shared server-side configuration: validation, versioning and conflict detection
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+// Isolate the store in a temporary data directory before it is imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-config-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const {
+  getConfigETag,
+  getStoredConfig,
+  parseAppConfig,
+  parseIfMatchVersion,
+  saveStoredConfig,
+} = await import('../../src/config/config-store.ts');
+const { fetchSharedConfig, getStreamPath, loadConfig } = await import('../../src/config/index.ts');
+
+const VALID_CONFIG = {
+  serverUrl: 'http://192.168.1.10:8889',
+  iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+  cameras: [
+    { id: 'camera-1', name: 'Front Door', path: 'front', status: 'online', lastSeen: '2024-01-01T00:00:00.000Z', recording: true },
+    { id: 'camera-2', name: 'Garage', path: '/garage', status: 'unknown', protocol: 'hls' },
+  ],
+  autoPlay: true,
+  startMuted: false,
+  rememberCredentials: false,
+};
+
+/**
+ * Browser globals for the shared config client, answering /api/config with `respond`
+ */
+function useBrowser(respond) {
+  const items = new Map();
+  const originalFetch = globalThis.fetch;
+  const browser = {
+    assigned: null,
+    restore: () => {
+      globalThis.fetch = originalFetch;
+      delete globalThis.window;
+      delete globalThis.localStorage;
+    },
+  };
+  globalThis.localStorage = {
+    getItem: key => (items.has(key) ? items.get(key) : null),
+    setItem: (key, value) => items.set(key, String(value)),
+    removeItem: key => items.delete(key),
+  };
+  globalThis.window = {
+    location: { pathname: '/wall', search: '?layout=2x2', assign: url => (browser.assigned = url) },
+  };
+  globalThis.fetch = async url => (url === '/api/config' ? respond() : originalFetch(url));
+  return browser;
+}
+
+async function runTests() {
+  console.log('🧪 Starting Config Store Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Defaults are served at version 0 before the first save', async () => {
+    const stored = await getStoredConfig();
+    return stored.version === 0 && stored.updatedBy === null && Array.isArray(stored.config.cameras);
+  }, results);
+
+  await runTest('Valid config is normalized and runtime status is dropped', async () => {
+    const { config, error } = parseAppConfig(VALID_CONFIG);
+    return (
+      !error &&
+      config.cameras[0].status === 'unknown' &&
+      config.cameras[0].lastSeen === undefined &&
+      config.cameras[0].recording === undefined &&
+      config.cameras[1].path === 'garage' &&
+      config.cameras[1].protocol === 'hls' &&
+      config.startMuted === false
+    );
+  }, results);
+
+  await runTest('Invalid configs are rejected', async () => {
+    const badUrl = parseAppConfig({ ...VALID_CONFIG, serverUrl: 'ftp://example' });
+    const missingPath = parseAppConfig({ ...VALID_CONFIG, cameras: [{ id: 'a', name: 'A', path: ' ' }] });
+    const duplicatePath = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [{ id: 'a', name: 'A', path: 'cam' }, { id: 'b', name: 'B', path: 'cam' }],
+    });
+    const badProtocol = parseAppConfig({ ...VALID_CONFIG, cameras: [{ id: 'a', name: 'A', path: 'a', protocol: 'rtsp' }] });
+    const badRecordMode = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [{ id: 'a', name: 'A', path: 'a', recordMode: 'sometimes' }],
+    });
+    const badIce = parseAppConfig({ ...VALID_CONFIG, iceServers: [{ urls: 42 }] });
+    return (
+      !badUrl.config &&
+      missingPath.error === 'Camera 1: Path is required' &&
+      duplicatePath.error?.includes('Duplicate path') &&
+      !badProtocol.config &&
+      badRecordMode.error === 'Camera 1: Invalid recording mode' &&
+      !badIce.config &&
+      !parseAppConfig(null).config
+    );
+  }, results);
+
+  await runTest('MediaMTX API settings are validated', async () => {
+    const withApi = parseAppConfig({
+      ...VALID_CONFIG,
+      mediamtxApi: { url: 'http://127.0.0.1:9997', credentials: { username: 'api', password: 'secret' } },
+    });
+    const disabled = parseAppConfig({ ...VALID_CONFIG, mediamtxApi: { url: '' } });
+    const invalid = parseAppConfig({ ...VALID_CONFIG, mediamtxApi: { url: 'localhost:9997' } });
+    return (
+      withApi.config?.mediamtxApi?.credentials?.username === 'api' &&
+      disabled.config && disabled.config.mediamtxApi === undefined &&
+      invalid.error === 'Invalid MediaMTX API URL format'
+    );
+  }, results);
+
+  await runTest('Sub-stream paths are normalized and validated', async () => {
+    const withSub = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [{ id: 'a', name: 'A', path: 'cam1', subPath: '/cam1_sub' }, { id: 'b', name: 'B', path: 'cam2', subPath: ' ' }],
+    });
+    const samePath = parseAppConfig({ ...VALID_CONFIG, cameras: [{ id: 'a', name: 'A', path: 'cam1', subPath: 'cam1' }] });
+    const [cam1, cam2] = withSub.config.cameras;
+    return (
+      cam1.subPath === 'cam1_sub' &&
+      !('subPath' in cam2) &&
+      samePath.error === 'Camera 1: Sub-stream path must differ from the stream path' &&
+      getStreamPath(cam1, 'sub') === 'cam1_sub' &&
+      getStreamPath(cam1, 'main') === 'cam1' &&
+      getStreamPath(cam2, 'sub') === 'cam2'
+    );
+  }, results);
+
+  await runTest('Talkback paths are normalized and validated', async () => {
+    const withTalkback = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [{ id: 'a', name: 'A', path: 'cam1', talkbackPath: ' /cam1_talk ' }, { id: 'b', name: 'B', path: 'cam2', talkbackPath: '' }],
+    });
+    const samePath = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [{ id: 'a', name: 'A', path: 'cam1', subPath: 'cam1_sub', talkbackPath: 'cam1_sub' }],
+    });
+    const invalid = parseAppConfig({ ...VALID_CONFIG, cameras: [{ id: 'a', name: 'A', path: 'cam1', talkbackPath: 5 }] });
+    const [cam1, cam2] = withTalkback.config.cameras;
+    return (
+      cam1.talkbackPath === 'cam1_talk' &&
+      !('talkbackPath' in cam2) &&
+      samePath.error === 'Camera 1: Talkback path must differ from the stream paths' &&
+      invalid.error === 'Camera 1: Invalid talkback path'
+    );
+  }, results);
+
+  await runTest('ONVIF settings are validated and dropped without a URL', async () => {
+    const camera = (onvif, index = 1) => ({ id: `c${index}`, name: `C${index}`, path: `cam${index}`, onvif });
+    const valid = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [
+        camera({ url: ' http://192.168.1.101/onvif/device_service ', credentials: { username: 'onvif', password: 'secret' }, profileToken: ' ' }),
+        camera({ url: '', credentials: { username: 'onvif', password: 'secret' } }, 2),
+        camera({ url: 'http://192.168.1.102/onvif/device_service', credentials: { username: '', password: '' }, profileToken: 'main' }, 3),
+      ],
+    });
+    const invalidUrl = parseAppConfig({ ...VALID_CONFIG, cameras: [camera({ url: 'rtsp://192.168.1.101' })] });
+    const invalidToken = parseAppConfig({ ...VALID_CONFIG, cameras: [camera({ url: 'http://192.168.1.101', profileToken: 1 })] });
+    const [withCredentials, withoutUrl, withToken] = valid.config.cameras;
+    return (
+      withCredentials.onvif.url === 'http://192.168.1.101/onvif/device_service' &&
+      withCredentials.onvif.credentials.username === 'onvif' &&
+      !('profileToken' in withCredentials.onvif) &&
+      !('onvif' in withoutUrl) &&
+      withToken.onvif.profileToken === 'main' &&
+      !('credentials' in withToken.onvif) &&
+      invalidUrl.error === 'Camera 1: Invalid ONVIF URL format' &&
+      invalidToken.error === 'Camera 1: Invalid ONVIF profile token'
+    );
+  }, results);
+
+  await runTest('Motion detection settings and zones are validated', async () => {
+    const camera = motion => ({ id: 'a', name: 'A', path: 'cam1', motion });
+    const points = [{ x: 0, y: 0 }, { x: 0.5, y: 0 }, { x: 0.5, y: 0.5, extra: true }];
+    const valid = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [camera({
+        enabled: true,
+        sensitivity: 70,
+        zones: [
+          { id: 'z1', name: ' Driveway ', mode: 'include', sensitivity: 90, points },
+          { id: 'z2', name: 'Tree', mode: 'exclude', sensitivity: 10, points },
+        ],
+      })],
+    });
+    const tooSensitive = parseAppConfig({ ...VALID_CONFIG, cameras: [camera({ enabled: true, sensitivity: 101, zones: [] })] });
+    const badZone = parseAppConfig({
+      ...VALID_CONFIG,
+      cameras: [camera({ enabled: true, sensitivity: 50, zones: [{ id: 'z1', name: 'Road', mode: 'exclude', points: points.slice(1) }] })],
+    });
+    const [driveway, tree] = valid.config.cameras[0].motion.zones;
+    return (
+      valid.config.cameras[0].motion.sensitivity === 70 &&
+      driveway.name === 'Driveway' &&
+      driveway.sensitivity === 90 &&
+      !('extra' in driveway.points[2]) &&
+      !('sensitivity' in tree) && // ignore zones are not watched
+      tooSensitive.error === 'Camera 1: Invalid motion detection settings' &&
+      badZone.error === 'Camera 1: Zone "Road": Needs at least 3 points'
+    );
+  }, results);
+
+  await runTest('Saving bumps the version', async () => {
+    const { config } = parseAppConfig(VALID_CONFIG);
+    const first = await saveStoredConfig(config, 0, 'owner');
+    const second = await saveStoredConfig(config, 1, 'owner');
+    const stored = await getStoredConfig();
+    return (
+      first.success &&
+      first.stored.version === 1 &&
+      second.success &&
+      stored.version === 2 &&
+      stored.updatedBy === 'owner' &&
+      stored.config.cameras.length === 2
+    );
+  }, results);
+
+  await runTest('Saving from a stale version is a conflict', async () => {
+    const { config } = parseAppConfig({ ...VALID_CONFIG, serverUrl: 'http://other:8889' });
+    const result = await saveStoredConfig(config, 1, 'someone-else');
+    const stored = await getStoredConfig();
+    return (
+      !result.success &&
+      result.reason === 'conflict' &&
+      result.stored.version === 2 &&
+      stored.config.serverUrl === 'http://192.168.1.10:8889'
+    );
+  }, results);
+
+  await runTest('Concurrent saves from the same version: only one wins', async () => {
+    const { config } = parseAppConfig(VALID_CONFIG);
+    const outcomes = await Promise.all([
+      saveStoredConfig(config, 2, 'a'),
+      saveStoredConfig(config, 2, 'b'),
+    ]);
+    return outcomes.filter(outcome => outcome.success).length === 1 && (await getStoredConfig()).version === 3;
+  }, results);
+
+  await runTest('Forced save (If-Match: *) ignores the version', async () => {
+    const { config } = parseAppConfig(VALID_CONFIG);
+    const result = await saveStoredConfig(config, null, 'owner');
+    return result.success && result.stored.version === 4;
+  }, results);
+
+  await runTest('Each save reports the config it replaced', async () => {
+    const { config } = parseAppConfig(VALID_CONFIG);
+    const { config: other } = parseAppConfig({ ...VALID_CONFIG, serverUrl: 'http://other:8889' });
+    // Forced saves queued together each see the one before them
+    const [first, second] = await Promise.all([
+      saveStoredConfig(other, null, 'a'),
+      saveStoredConfig(config, null, 'b'),
+    ]);
+    return (
+      first.success && second.success &&
+      first.previous.version === 4 &&
+      second.previous.version === 5 &&
+      second.previous.config.serverUrl === 'http://other:8889'
+    );
+  }, results);
+
+  await runTest('ETag and If-Match parsing', async () => {
+    return (
+      getConfigETag(7) === '"7"' &&
+      parseIfMatchVersion('"7"') === 7 &&
+      parseIfMatchVersion('W/"7"') === 7 &&
+      parseIfMatchVersion('*') === null &&
+      parseIfMatchVersion(null) === undefined &&
+      parseIfMatchVersion('seven') === undefined
+    );
+  }, results);
+
+  await runTest('The browser cache of an admin\'s config has no secrets', async () => {
+    const config = {
+      ...VALID_CONFIG,
+      defaultCredentials: { username: 'viewer', password: 'secret' },
+      mediamtxApi: { url: 'http://127.0.0.1:9997', credentials: { username: 'api', password: 'secret' } },
+      cameras: [
+        { id: 'a', name: 'A', path: 'cam1', onvif: { url: 'http://192.168.1.101', credentials: { username: 'onvif', password: 'secret' } } },
+        { id: 'b', name: 'B', path: 'cam2', credentials: { username: 'cam2', password: 'secret' } },
+      ],
+    };
+    const browser = useBrowser(() => Response.json({ success: true, config, version: 3 }));
+    const shared = await fetchSharedConfig();
+    const cachedJson = localStorage.getItem('camsuite_config');
+    const cached = loadConfig();
+    browser.restore();
+    return (
+      shared.config.mediamtxApi.credentials.password === 'secret' && // the admin still edits them
+      shared.config.cameras[1].credentials.password === 'secret' &&
+      !cachedJson.includes('secret') &&
+      cached.mediamtxApi.url === 'http://127.0.0.1:9997' &&
+      cached.cameras[0].onvif.url === 'http://192.168.1.101' &&
+      cached.cameras[1].path === 'cam2' &&
+      !('credentials' in cached.cameras[1])
+    );
+  }, results);
+
+  await runTest('The cache is only used when the server is unreachable or failing', async () => {
+    const cachedConfig = { ...VALID_CONFIG, cameras: [{ id: 'a', name: 'Cached', path: 'cam1' }] };
+    let status = 500;
+    const browser = useBrowser(() => {
+      if (status === 0) throw new TypeError('fetch failed');
+      return Response.json({ success: false }, { status });
+    });
+    localStorage.setItem('camsuite_config', JSON.stringify(cachedConfig));
+    localStorage.setItem('camsuite_config_version', '2');
+
+    const serverError = await fetchSharedConfig();
+    status = 0;
+    const unreachable = await fetchSharedConfig();
+    status = 401;
+    const signedOut = await fetchSharedConfig();
+    const cacheAfter = localStorage.getItem('camsuite_config');
+    browser.restore();
+    return (
+      serverError.offline && serverError.config.cameras[0].name === 'Cached' && serverError.version === 2 &&
+      unreachable.offline && unreachable.config.cameras[0].name === 'Cached' &&
+      signedOut.config.cameras.every(camera => camera.name !== 'Cached') &&
+      cacheAfter === null &&
+      browser.assigned === '/login?redirectTo=%2Fwall%3Flayout%3D2x2'
+    );
+  }, results);
+
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Config Store Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
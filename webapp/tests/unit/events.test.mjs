@@ -0,0 +1,117 @@
+/**
+ * Event Log Tests
+ * Appends events to the server-side log and pages through them with filters
+ */
+
+import { appendFile, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+// Isolate the log in a temporary data directory before it is imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-events-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const { appendEvent, MAX_LOG_SIZE, queryEvents } = await import('../../src/lib/events/event-store.ts');
+
+const at = minutes => new Date(Date.UTC(2024, 0, 15, 12, minutes));
+
+async function runTests() {
+  console.log('🧪 Starting Event Log Tests...\n');
+  const results = createTestResults();
+
+  await runTest('An empty log has no events', async () => {
+    const page = await queryEvents({});
+    return page.events.length === 0 && page.nextCursor === null;
+  }, results);
+
+  await runTest('Events are listed newest first', async () => {
+    await appendEvent({ type: 'camera-offline', cameraId: 'cam-1', cameraName: 'Front Door', message: 'Front Door went offline', time: at(0) });
+    await appendEvent({ type: 'login', username: 'admin', message: 'admin signed in', time: at(1) });
+    await appendEvent({ type: 'camera-online', cameraId: 'cam-1', cameraName: 'Front Door', message: 'Front Door is online', time: at(2) });
+    await appendEvent({ type: 'motion', cameraId: 'cam-2', cameraName: 'Garage', message: 'Motion on Garage', time: at(3) });
+    const { events } = await queryEvents({});
+    return (
+      events.length === 4 &&
+      events[0].type === 'motion' &&
+      events[3].type === 'camera-offline' &&
+      events[3].time === at(0).toISOString() &&
+      typeof events[0].id === 'string'
+    );
+  }, results);
+
+  await runTest('Filters by camera, type and time range', async () => {
+    const camera = await queryEvents({ cameraId: 'cam-1' });
+    const types = await queryEvents({ types: ['login', 'motion'] });
+    const range = await queryEvents({ from: at(1).toISOString(), to: at(3).toISOString() });
+    return (
+      camera.events.length === 2 &&
+      camera.events.every(event => event.cameraId === 'cam-1') &&
+      types.events.map(event => event.type).join() === 'motion,login' &&
+      range.events.map(event => event.type).join() === 'camera-online,login'
+    );
+  }, results);
+
+  await runTest('Pages follow the cursor until the last one', async () => {
+    const first = await queryEvents({ limit: 3 });
+    const second = await queryEvents({ limit: 3, cursor: first.nextCursor });
+    const gone = await queryEvents({ cursor: 'no-such-event' });
+    return (
+      first.events.length === 3 &&
+      first.nextCursor === first.events[2].id &&
+      second.events.length === 1 &&
+      second.nextCursor === null &&
+      second.events[0].type === 'camera-offline' &&
+      gone.events.length === 0
+    );
+  }, results);
+
+  await runTest('Hidden events do not count towards a page', async () => {
+    const page = await queryEvents({ limit: 2 }, event => !!event.cameraId);
+    return (
+      page.events.length === 2 &&
+      page.events.every(event => event.type !== 'login') &&
+      page.nextCursor !== null
+    );
+  }, results);
+
+  await runTest('The quiet period drops repeated events of a camera', async () => {
+    const first = await appendEvent({ type: 'stream-failed', cameraId: 'cam-3', message: 'failed', time: at(10) }, 30000);
+    const repeated = await appendEvent({ type: 'stream-failed', cameraId: 'cam-3', message: 'failed', time: at(10) }, 30000);
+    const otherCamera = await appendEvent({ type: 'stream-failed', cameraId: 'cam-4', message: 'failed', time: at(10) }, 30000);
+    const later = await appendEvent({ type: 'stream-failed', cameraId: 'cam-3', message: 'failed', time: at(11) }, 30000);
+    return first !== null && repeated === null && otherCamera !== null && later !== null;
+  }, results);
+
+  await runTest('Broken lines are skipped', async () => {
+    const before = (await queryEvents({ limit: 200 })).events.length;
+    await appendFile(path.join(dataDir, 'events.jsonl'), '{"type":"motion","id":\nnot json\n');
+    await appendEvent({ type: 'logout', username: 'admin', message: 'admin signed out', time: at(20) });
+    const after = (await queryEvents({ limit: 200 })).events;
+    return after.length === before + 1 && after[0].type === 'logout';
+  }, results);
+
+  await runTest('A full log is moved aside and still listed', async () => {
+    const before = (await queryEvents({ limit: 200 })).events.length;
+    await appendFile(path.join(dataDir, 'events.jsonl'), `${' '.repeat(MAX_LOG_SIZE)}\n`);
+    await appendEvent({ type: 'login', username: 'viewer', message: 'viewer signed in', time: at(30) });
+    const after = (await queryEvents({ limit: 200 })).events;
+    return after.length === before + 1 && after[0].username === 'viewer' && after[after.length - 1].type === 'camera-offline';
+  }, results);
+
+  await runTest('Messages are cut to length', async () => {
+    await writeFile(path.join(dataDir, 'events.jsonl'), '');
+    const event = await appendEvent({ type: 'stream-failed', cameraId: 'cam-5', message: 'x'.repeat(500) });
+    return event.message.length === 200;
+  }, results);
+
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Event Log Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
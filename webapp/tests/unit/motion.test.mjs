@@ -0,0 +1,222 @@
+/**
+ * Motion Detection Tests
+ * Feeds synthetic frames to the detector and folds its results into motion events
+ */
+
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+const {
+  buildMotionAreaMap,
+  createMotionDetector,
+  getAreaThreshold,
+  getMotionSettings,
+  getPixelThreshold,
+} = await import('../../src/lib/motion/detector.ts');
+const {
+  applyMotionResult,
+  isCameraInMotion,
+  MOTION_HOLD_TIME,
+} = await import('../../src/lib/motion/events.ts');
+const { isPointInPolygon, validateMotionZones } = await import('../../src/lib/motion/zones.ts');
+
+const WIDTH = 40;
+const HEIGHT = 20;
+
+// Grey RGBA frame with an optional white box (in pixels)
+function frame(box) {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(100);
+  if (box) {
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        data.fill(255, (y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3);
+      }
+    }
+  }
+  return data;
+}
+
+function detector(overrides) {
+  return createMotionDetector({ width: WIDTH, height: HEIGHT, sensitivity: 50, zones: [], ...overrides });
+}
+
+// Rectangular zone over part of the picture (normalized)
+function zone(mode, x, y, width, height, extra) {
+  return {
+    id: `${mode}-${x}-${y}`,
+    name: `${mode} zone`,
+    mode,
+    points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }],
+    ...extra,
+  };
+}
+
+// Result once a box (in pixels) has appeared and moved one box width to the right
+function moveBox(motion, box) {
+  motion.process(frame());
+  motion.process(frame(box));
+  return motion.process(frame({ ...box, x: box.x + box.width }));
+}
+
+const CAMERA = { id: 'cam-1', name: 'Front Door' };
+const at = seconds => new Date(Date.UTC(2024, 0, 15, 12, 0, seconds));
+
+async function runTests() {
+  console.log('🧪 Starting Motion Detection Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Defaults and sensitivity thresholds', async () => {
+    const defaults = getMotionSettings(undefined);
+    return (
+      defaults.enabled === false &&
+      defaults.sensitivity === 50 &&
+      defaults.zones.length === 0 &&
+      getMotionSettings({ enabled: true, sensitivity: 80, zones: [] }).sensitivity === 80 &&
+      getPixelThreshold(50) === 25 &&
+      getPixelThreshold(100) === 10 &&
+      getAreaThreshold(100) < getAreaThreshold(50) &&
+      getAreaThreshold(50) < getAreaThreshold(1)
+    );
+  }, results);
+
+  await runTest('A moving box is motion on the second changed frame', async () => {
+    const motion = detector();
+    const first = motion.process(frame());
+    const still = motion.process(frame());
+    const changed = motion.process(frame({ x: 0, y: 0, width: 10, height: 10 }));
+    const moved = motion.process(frame({ x: 10, y: 0, width: 10, height: 10 }));
+    return (
+      !first.motion && first.score === 0 &&
+      !still.motion && still.score === 0 &&
+      !changed.motion && changed.score === 0.125 &&
+      moved.motion
+    );
+  }, results);
+
+  await runTest('Small changes only count at high sensitivity', async () => {
+    const run = sensitivity => {
+      const motion = detector({ sensitivity });
+      motion.process(frame());
+      motion.process(frame({ x: 0, y: 0, width: 2, height: 2 }));
+      return motion.process(frame({ x: 4, y: 0, width: 2, height: 2 })).motion;
+    };
+    return run(100) && !run(50);
+  }, results);
+
+  await runTest('Points inside polygons', async () => {
+    const triangle = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }];
+    return (
+      isPointInPolygon({ x: 0.2, y: 0.2 }, triangle) &&
+      !isPointInPolygon({ x: 0.8, y: 0.8 }, triangle) &&
+      !isPointInPolygon({ x: 1.5, y: 0.1 }, triangle)
+    );
+  }, results);
+
+  await runTest('Exclude zones are ignored', async () => {
+    const ignoreLeft = [zone('exclude', 0, 0, 0.5, 1)];
+    const { map, areas } = buildMotionAreaMap(WIDTH, HEIGHT, 50, ignoreLeft);
+    const masked = moveBox(detector({ zones: ignoreLeft }), { x: 0, y: 0, width: 10, height: 10 });
+    const watched = moveBox(detector({ zones: ignoreLeft }), { x: 20, y: 0, width: 10, height: 10 });
+    return (
+      map[0] === 0 &&
+      map[WIDTH - 1] === 1 &&
+      areas[0].pixels === WIDTH * HEIGHT / 2 &&
+      !masked.motion && masked.score === 0 &&
+      watched.motion
+    );
+  }, results);
+
+  await runTest('Include zones limit detection to where they are', async () => {
+    const watchRight = [zone('include', 0.5, 0, 0.5, 1)];
+    const outside = moveBox(detector({ zones: watchRight }), { x: 0, y: 0, width: 10, height: 10 });
+    const inside = moveBox(detector({ zones: watchRight }), { x: 20, y: 0, width: 10, height: 10 });
+    const { areas } = buildMotionAreaMap(WIDTH, HEIGHT, 50, [...watchRight, zone('include', 0, 0, 0.25, 1, { sensitivity: 90 })]);
+    return (
+      !outside.motion && outside.score === 0 &&
+      inside.motion &&
+      areas.length === 2 &&
+      areas[0].sensitivity === 50 && // the camera's
+      areas[1].sensitivity === 90
+    );
+  }, results);
+
+  await runTest('Each include zone uses its own sensitivity', async () => {
+    // 8 of the 400 pixels in the left half change: 2% of the zone
+    const zones = sensitivity => [zone('include', 0, 0, 0.5, 1, { sensitivity }), zone('include', 0.5, 0, 0.5, 1)];
+    const box = { x: 0, y: 0, width: 2, height: 2 };
+    return moveBox(detector({ zones: zones(100) }), box).motion && !moveBox(detector({ zones: zones(50) }), box).motion;
+  }, results);
+
+  await runTest('Zone validation', async () => {
+    const valid = validateMotionZones([zone('include', 0, 0, 0.5, 0.5, { sensitivity: 70 }), zone('exclude', 0.5, 0.5, 0.5, 0.5)]);
+    const errors = validateMotionZones([
+      { ...zone('exclude', 0, 0, 0.5, 0.5), name: ' ' },
+      { ...zone('include', 0, 0, 0.5, 0.5), name: 'Driveway', points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] },
+      zone('include', 0, 0, 0.5, 0.5, { sensitivity: 0 }),
+      { ...zone('exclude', 0, 0, 0.5, 0.5), points: [{ x: 0, y: 0 }, { x: 1.2, y: 0 }, { x: 0, y: 1 }] },
+    ]);
+    return (
+      valid.length === 0 &&
+      errors.length === 4 &&
+      errors[0] === 'Zone 1: Name is required' &&
+      errors[1] === 'Zone "Driveway": Needs at least 3 points' &&
+      errors[2] === 'Zone "include zone": Sensitivity must be between 1 and 100' &&
+      errors[3] === 'Zone "exclude zone": Points must lie on the picture'
+    );
+  }, results);
+
+  await runTest('Lighting changes across the whole picture are not motion', async () => {
+    const motion = detector();
+    motion.process(frame());
+    motion.process(frame({ x: 0, y: 0, width: WIDTH, height: HEIGHT }));
+    const dark = motion.process(frame());
+    return dark.score === 1 && !dark.motion;
+  }, results);
+
+  await runTest('Motion opens an event that is extended, then ended', async () => {
+    const started = applyMotionResult([], CAMERA, { score: 0.1, motion: true }, at(0));
+    const extended = applyMotionResult(started, CAMERA, { score: 0.3, motion: true }, at(5));
+    const quiet = applyMotionResult(extended, CAMERA, { score: 0, motion: false }, at(8));
+    const ended = applyMotionResult(quiet, CAMERA, { score: 0, motion: false }, at(5 + MOTION_HOLD_TIME / 1000));
+    const [event] = ended;
+    return (
+      started.length === 1 &&
+      isCameraInMotion(extended, CAMERA.id, at(6).getTime()) &&
+      quiet === extended &&
+      ended.length === 1 &&
+      event.startedAt === at(0).toISOString() &&
+      event.endedAt === at(5).toISOString() &&
+      event.peak === 0.3 &&
+      !isCameraInMotion(ended, CAMERA.id, at(20).getTime())
+    );
+  }, results);
+
+  await runTest('Motion after the hold time starts a new event', async () => {
+    const first = applyMotionResult([], CAMERA, { score: 0.1, motion: true }, at(0));
+    const other = applyMotionResult(first, { id: 'cam-2', name: 'Garage' }, { score: 0.2, motion: true }, at(1));
+    const second = applyMotionResult(other, CAMERA, { score: 0.2, motion: true }, at(30));
+    return (
+      second.length === 3 &&
+      second[0].cameraId === CAMERA.id &&
+      second[0].endedAt === null &&
+      second[2].endedAt === at(0).toISOString() &&
+      second[1].endedAt === null // other cameras are left alone
+    );
+  }, results);
+
+  await runTest('Open events of a closed tab stop counting as motion', async () => {
+    const events = applyMotionResult([], CAMERA, { score: 0.1, motion: true }, at(0));
+    return (
+      events[0].endedAt === null &&
+      isCameraInMotion(events, CAMERA.id, at(9).getTime()) &&
+      !isCameraInMotion(events, CAMERA.id, at(10).getTime())
+    );
+  }, results);
+
+  const success = printTestResults('Motion Detection Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,284 @@
+/**
+ * Notification Tests
+ * Sends events to a local webhook receiver and an in-process MQTT broker
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import net from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import { startMockWebhook } from '../helpers/mock-webhook.mjs';
+import { startMockMqttBroker } from '../helpers/mock-mqtt.mjs';
+
+// Isolate the stores in a temporary data directory before they are imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-notifications-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const { channelMatchesEvent, createNotificationChannel, getMqttTopic } = await import('../../src/lib/notifications/index.ts');
+const {
+  parseNotificationChannel,
+  parseNotificationChannels,
+  saveStoredNotificationChannels,
+} = await import('../../src/lib/notifications/notification-store.ts');
+const { createTestEvent, sendNotification, startNotifications } = await import('../../src/lib/notifications/notifier.ts');
+const { signWebhookPayload } = await import('../../src/lib/notifications/webhook.ts');
+const { buildPublishPacket, readPackets } = await import('../../src/lib/notifications/mqtt-client.ts');
+const { appendEvent } = await import('../../src/lib/events/event-store.ts');
+
+const FAST_RETRIES = [10, 10, 10];
+
+const EVENT = {
+  id: 'event-1',
+  type: 'camera-offline',
+  time: '2024-01-15T12:00:00.000Z',
+  cameraId: 'cam-1',
+  cameraName: 'Front Door',
+  message: 'Front Door went offline',
+};
+
+function webhook(url, extra) {
+  return { ...createNotificationChannel('webhook', 'hook-1'), name: 'Hook', url, ...extra };
+}
+
+function mqtt(url, extra) {
+  return { ...createNotificationChannel('mqtt', 'mqtt-1'), name: 'Broker', url, ...extra };
+}
+
+// A local port nothing listens on
+async function getClosedPort() {
+  const server = net.createServer();
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+async function waitFor(check, timeout = 2000) {
+  const until = Date.now() + timeout;
+  while (!check() && Date.now() < until) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return check();
+}
+
+async function runTests() {
+  console.log('🧪 Starting Notification Tests...\n');
+  const results = createTestResults();
+
+  const receiver = await startMockWebhook();
+  const broker = await startMockMqttBroker({ username: 'camsuite', password: 'secret' });
+  const closedPort = await getClosedPort();
+
+  await runTest('Channels are validated and normalized', async () => {
+    const { channels } = parseNotificationChannels([
+      { type: 'webhook', name: ' Hook ', url: 'https://example.com/hook', eventTypes: ['motion', 'motion'] },
+      { type: 'mqtt', name: 'Broker', url: 'mqtt://broker.local', topic: '/home/cameras/', eventTypes: ['camera-offline'], qos: 1 },
+    ]);
+    const [hook, broker] = channels;
+    return (
+      hook.name === 'Hook' &&
+      hook.enabled === true &&
+      hook.secret === '' &&
+      hook.eventTypes.length === 1 &&
+      hook.cameraIds.length === 0 &&
+      typeof hook.id === 'string' &&
+      broker.topic === 'home/cameras' &&
+      broker.qos === 1 &&
+      broker.username === ''
+    );
+  }, results);
+
+  await runTest('Invalid channels are rejected', async () => {
+    const base = { name: 'A', eventTypes: ['motion'] };
+    return (
+      parseNotificationChannels([{ ...base, type: 'webhook', url: 'ftp://example.com' }]).error ===
+        'Channel 1: Webhook URL must start with http:// or https://' &&
+      parseNotificationChannels([{ ...base, type: 'mqtt', url: 'http://broker' }]).error ===
+        'Channel 1: Broker URL must start with mqtt:// or mqtts://' &&
+      parseNotificationChannels([{ ...base, type: 'mqtt', url: 'mqtt://broker', topic: 'cams/#' }]).error ===
+        'Channel 1: Topic must not be empty or contain + or #' &&
+      parseNotificationChannels([{ ...base, type: 'webhook', url: 'http://a', eventTypes: ['nothing'] }]).error ===
+        'Channel 1: Pick at least one event' &&
+      parseNotificationChannels([{ ...base, type: 'sms' }]).error === 'Channel 1: Invalid channel type' &&
+      parseNotificationChannel({ ...base, name: ' ', type: 'webhook' }).error === 'Name is required' &&
+      !parseNotificationChannels(null).channels
+    );
+  }, results);
+
+  await runTest('Channels only get the events and cameras they picked', async () => {
+    const channel = webhook('http://a', { eventTypes: ['camera-offline', 'login'], cameraIds: ['cam-2'] });
+    return (
+      !channelMatchesEvent(channel, EVENT) &&
+      channelMatchesEvent(channel, { ...EVENT, cameraId: 'cam-2' }) &&
+      channelMatchesEvent(channel, { type: 'login' }) && // not a camera event
+      !channelMatchesEvent(channel, { ...EVENT, type: 'motion', cameraId: 'cam-2' }) &&
+      !channelMatchesEvent({ ...channel, enabled: false }, { ...EVENT, cameraId: 'cam-2' }) &&
+      getMqttTopic('camsuite', EVENT) === 'camsuite/cam-1/camera-offline' &&
+      getMqttTopic('camsuite', { type: 'login' }) === 'camsuite/site/login'
+    );
+  }, results);
+
+  await runTest('Webhooks get the event as signed JSON', async () => {
+    receiver.requests.length = 0;
+    const result = await sendNotification(webhook(receiver.url, { secret: 'hmac-secret' }), EVENT);
+    const [request] = receiver.requests;
+    const timestamp = Number(request.headers['x-camsuite-timestamp']);
+    return (
+      result.success &&
+      result.attempts === 1 &&
+      request.method === 'POST' &&
+      request.path === '/hook' &&
+      request.headers['content-type'] === 'application/json' &&
+      request.headers['x-camsuite-event'] === 'camera-offline' &&
+      request.headers['x-camsuite-delivery'] === 'event-1' &&
+      request.headers['x-camsuite-signature'] === signWebhookPayload('hmac-secret', timestamp, request.body) &&
+      JSON.parse(request.body).event.message === 'Front Door went offline' &&
+      JSON.parse(request.body).test === false
+    );
+  }, results);
+
+  await runTest('Webhooks without a secret are not signed', async () => {
+    receiver.requests.length = 0;
+    await sendNotification(webhook(receiver.url), EVENT);
+    return receiver.requests.length === 1 && !('x-camsuite-signature' in receiver.requests[0].headers);
+  }, results);
+
+  await runTest('Failed webhooks are retried until they get through', async () => {
+    receiver.requests.length = 0;
+    receiver.statuses.push(500, 503);
+    const result = await sendNotification(webhook(receiver.url), EVENT, { retryDelays: FAST_RETRIES });
+    const deliveries = new Set(receiver.requests.map(request => request.headers['x-camsuite-delivery']));
+    return result.success && result.attempts === 3 && receiver.requests.length === 3 && deliveries.size === 1;
+  }, results);
+
+  await runTest('Client errors are not retried, outages are until retries run out', async () => {
+    receiver.requests.length = 0;
+    receiver.statuses.push(404);
+    const rejected = await sendNotification(webhook(receiver.url), EVENT, { retryDelays: FAST_RETRIES });
+    const unreachable = await sendNotification(webhook(`http://127.0.0.1:${closedPort}/hook`), EVENT, {
+      retryDelays: FAST_RETRIES,
+    });
+    return (
+      !rejected.success &&
+      rejected.attempts === 1 &&
+      rejected.error === 'Webhook answered 404' &&
+      !unreachable.success &&
+      unreachable.attempts === 4 &&
+      unreachable.error === 'Webhook is unreachable'
+    );
+  }, results);
+
+  await runTest('MQTT packets survive being split', async () => {
+    const publish = buildPublishPacket('a/b', 'x'.repeat(200), 1);
+    const partial = readPackets(publish.subarray(0, 2));
+    const { packets, rest } = readPackets(Buffer.concat([publish, publish.subarray(0, 5)]));
+    return (
+      publish[1] & 0x80 && // two-byte remaining length
+      partial.packets.length === 0 &&
+      packets.length === 1 &&
+      packets[0].type === 0x30 &&
+      packets[0].body.length === 2 + 3 + 2 + 200 &&
+      rest.length === 5
+    );
+  }, results);
+
+  await runTest('MQTT channels publish to the broker', async () => {
+    const qos1 = await sendNotification(mqtt(broker.url, { username: 'camsuite', password: 'secret', qos: 1 }), EVENT);
+    const qos0 = await sendNotification(
+      mqtt(broker.url, { username: 'camsuite', password: 'secret', topic: 'home' }),
+      { ...EVENT, type: 'login', cameraId: undefined, cameraName: undefined }
+    );
+    await waitFor(() => broker.messages.length === 2);
+    const [first, second] = broker.messages;
+    return (
+      qos1.success &&
+      qos0.success &&
+      first.topic === 'camsuite/cam-1/camera-offline' &&
+      first.qos === 1 &&
+      JSON.parse(first.payload).message === 'Front Door went offline' &&
+      second.topic === 'home/site/login' &&
+      second.qos === 0 &&
+      broker.connections[0].protocol === 'MQTT' &&
+      broker.connections[0].username === 'camsuite'
+    );
+  }, results);
+
+  await runTest('MQTT login failures are not retried, an unavailable broker is', async () => {
+    const connections = broker.connections.length;
+    const badLogin = await sendNotification(mqtt(broker.url, { username: 'camsuite', password: 'wrong' }), EVENT, {
+      retryDelays: FAST_RETRIES,
+    });
+    broker.broker.refuse = 3;
+    const unavailable = await sendNotification(mqtt(broker.url, { username: 'camsuite', password: 'secret' }), EVENT, {
+      retryDelays: FAST_RETRIES,
+    });
+    broker.broker.refuse = 0;
+    return (
+      !badLogin.success &&
+      badLogin.attempts === 1 &&
+      badLogin.error === 'Broker rejected the username or password' &&
+      !unavailable.success &&
+      unavailable.attempts === 4 &&
+      broker.connections.length === connections + 5
+    );
+  }, results);
+
+  await runTest('Truncated MQTT acknowledgements fail the publish', async () => {
+    const channel = mqtt(broker.url, { username: 'camsuite', password: 'secret', qos: 1 });
+    broker.broker.truncate = 'connack';
+    const connack = await sendNotification(channel, EVENT, { retryDelays: [] });
+    broker.broker.truncate = 'puback';
+    const puback = await sendNotification(channel, EVENT, { retryDelays: [] });
+    broker.broker.truncate = null;
+    return (
+      connack.error === 'Broker sent a malformed packet' &&
+      puback.error === 'Broker sent a malformed packet'
+    );
+  }, results);
+
+  await runTest('Test events are marked as tests', async () => {
+    receiver.requests.length = 0;
+    const channel = webhook(receiver.url, { eventTypes: ['motion'] });
+    const event = createTestEvent(channel);
+    const result = await sendNotification(channel, event, { test: true, retryDelays: [] });
+    const body = JSON.parse(receiver.requests[0].body);
+    return result.success && body.test === true && body.event.type === 'motion' && !body.event.cameraId;
+  }, results);
+
+  await runTest('Logged events reach the channels that want them', async () => {
+    receiver.requests.length = 0;
+    broker.messages.length = 0;
+    await saveStoredNotificationChannels([
+      webhook(receiver.url, { eventTypes: ['motion'], cameraIds: ['cam-1'] }),
+      mqtt(broker.url, { id: 'mqtt-2', username: 'camsuite', password: 'secret', eventTypes: ['motion', 'login'] }),
+      webhook(receiver.url, { id: 'hook-off', enabled: false, eventTypes: ['motion'] }),
+    ], 'admin');
+    await startNotifications();
+
+    await appendEvent({ type: 'motion', cameraId: 'cam-1', cameraName: 'Front Door', message: 'Motion on Front Door' });
+    await appendEvent({ type: 'motion', cameraId: 'cam-2', cameraName: 'Garage', message: 'Motion on Garage' });
+    await appendEvent({ type: 'logout', username: 'admin', message: 'admin signed out' });
+    await waitFor(() => receiver.requests.length >= 1 && broker.messages.length >= 2);
+    await new Promise(resolve => setTimeout(resolve, 100)); // nothing else arrives
+
+    return (
+      receiver.requests.length === 1 &&
+      JSON.parse(receiver.requests[0].body).event.cameraId === 'cam-1' &&
+      broker.messages.length === 2 &&
+      broker.messages.map(message => message.topic).sort().join() === 'camsuite/cam-1/motion,camsuite/cam-2/motion'
+    );
+  }, results);
+
+  await receiver.close();
+  await broker.close();
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Notification Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
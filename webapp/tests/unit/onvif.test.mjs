@@ -0,0 +1,187 @@
+/**
+ * ONVIF PTZ Tests
+ * Runs the SOAP client against the mock ONVIF camera: discovery, password digests, moves and presets
+ */
+
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import { startMockOnvif } from '../helpers/mock-onvif.mjs';
+
+const { findElement, findText, parseXml } = await import('../../src/lib/onvif/soap.ts');
+const { getPtzPresets, gotoPtzPreset, movePtz, savePtzPreset, stopPtz } = await import('../../src/lib/onvif/onvif-client.ts');
+const { hasPtz, normalizePtzSpeed } = await import('../../src/lib/onvif/index.ts');
+
+let cameraCount = 0;
+
+/**
+ * A camera with its own connection cache entry
+ */
+function createCamera(onvif) {
+  cameraCount++;
+  return { id: `camera-${cameraCount}`, name: `Camera ${cameraCount}`, path: `cam${cameraCount}`, status: 'online', onvif };
+}
+
+async function runTests() {
+  console.log('🧪 Starting ONVIF PTZ Tests...\n');
+  const results = createTestResults();
+
+  const mock = await startMockOnvif();
+  const onvif = { url: mock.url, credentials: mock.credentials };
+  const operations = () => mock.calls.map(call => call.operation);
+
+  await runTest('XML is read by local name with entities decoded', async () => {
+    const document = parseXml(
+      '<?xml version="1.0"?><s:Envelope xmlns:s="x"><s:Body><a:Item a:token="t&amp;1">' +
+      '<a:Name>Gate &lt;1&gt; &#65;</a:Name><a:Note><![CDATA[<raw>]]></a:Note><a:Empty/></a:Item></s:Body></s:Envelope>'
+    );
+    const item = findElement(document, 'Item');
+    return (
+      item.attributes.token === 't&1' &&
+      findText(item, 'Name') === 'Gate <1> A' &&
+      findText(item, 'Note') === '<raw>' &&
+      findElement(item, 'Empty')?.children.length === 0
+    );
+  }, results);
+
+  await runTest('Speeds are clamped to -1..1 in steps of 0.1', async () => {
+    return (
+      normalizePtzSpeed(0.44) === 0.4 &&
+      normalizePtzSpeed(-3) === -1 &&
+      normalizePtzSpeed(0.04) === 0 &&
+      Object.is(normalizePtzSpeed(-0.01), 0) &&
+      normalizePtzSpeed('1') === 0 &&
+      normalizePtzSpeed(NaN) === 0 &&
+      hasPtz({ onvif: { url: mock.url } }) &&
+      !hasPtz({})
+    );
+  }, results);
+
+  await runTest('Presets are listed for the first profile with PTZ', async () => {
+    mock.calls.length = 0;
+    const { data, error } = await getPtzPresets(createCamera(onvif));
+    const presetsCall = mock.calls.find(call => call.operation === 'GetPresets');
+    return (
+      !error &&
+      data.map(preset => `${preset.token}:${preset.name}`).join() === '1:Gate,2:Driveway' &&
+      operations().join() === 'GetCapabilities,GetProfiles,GetPresets' &&
+      // Services advertised on another host are called on the configured one
+      mock.calls[1].service === '/onvif/media_service' &&
+      presetsCall.service === '/onvif/ptz_service' &&
+      mock.textOf(presetsCall.xml, 'ProfileToken') === 'main'
+    );
+  }, results);
+
+  await runTest('Connections are reused until a request fails', async () => {
+    const camera = createCamera(onvif);
+    await movePtz(camera, { pan: 0.5, tilt: 0, zoom: 0 });
+    mock.calls.length = 0;
+    await movePtz(camera, { pan: 0.6, tilt: 0, zoom: 0 });
+    const reused = operations().join() === 'ContinuousMove';
+
+    mock.calls.length = 0;
+    const failed = await gotoPtzPreset(camera, 'missing');
+    await stopPtz(camera);
+    return (
+      reused &&
+      failed.error?.message === 'Camera error: The requested preset token does not exist' &&
+      operations().join() === 'GotoPreset,GetCapabilities,GetProfiles,Stop'
+    );
+  }, results);
+
+  await runTest('Moves send only the moving axes with a timeout', async () => {
+    const camera = createCamera(onvif);
+    mock.calls.length = 0;
+    const panTilt = await movePtz(camera, { pan: 0.5, tilt: -0.3, zoom: 0 });
+    const zoom = await movePtz(camera, { pan: 0, tilt: 0, zoom: 1 });
+    const [, , panTiltCall, zoomCall] = mock.calls;
+    return (
+      !panTilt.error &&
+      !zoom.error &&
+      mock.attributeOf(panTiltCall.xml, 'PanTilt', 'x') === '0.5' &&
+      mock.attributeOf(panTiltCall.xml, 'PanTilt', 'y') === '-0.3' &&
+      !panTiltCall.xml.includes('Zoom') &&
+      mock.textOf(panTiltCall.xml, 'Timeout') === 'PT3S' &&
+      mock.attributeOf(zoomCall.xml, 'Zoom', 'x') === '1' &&
+      !zoomCall.xml.includes('PanTilt')
+    );
+  }, results);
+
+  await runTest('A zero velocity stops the camera', async () => {
+    const camera = createCamera(onvif);
+    mock.calls.length = 0;
+    const { error } = await movePtz(camera, { pan: 0, tilt: 0, zoom: 0 });
+    const stop = mock.calls.find(call => call.operation === 'Stop');
+    return (
+      !error &&
+      !operations().includes('ContinuousMove') &&
+      mock.textOf(stop.xml, 'PanTilt') === 'true' &&
+      mock.textOf(stop.xml, 'Zoom') === 'true'
+    );
+  }, results);
+
+  await runTest('Presets are saved and gone to', async () => {
+    const camera = createCamera(onvif);
+    const saved = await savePtzPreset(camera, 'Front & back');
+    mock.calls.length = 0;
+    const gone = await gotoPtzPreset(camera, saved.data?.token);
+    return (
+      saved.data?.token === '3' &&
+      saved.data.name === 'Front & back' &&
+      mock.state.presets[2].name === 'Front &amp; back' && // escaped in the request
+      !gone.error &&
+      mock.textOf(mock.calls[0].xml, 'PresetToken') === '3'
+    );
+  }, results);
+
+  await runTest('A configured profile token is used', async () => {
+    mock.state.profiles.push({ token: 'third', name: 'Third', ptz: true });
+    mock.calls.length = 0;
+    const { error } = await getPtzPresets(createCamera({ ...onvif, profileToken: 'third' }));
+    const missing = await getPtzPresets(createCamera({ ...onvif, profileToken: 'other' }));
+    mock.state.profiles.pop();
+    return (
+      !error &&
+      mock.textOf(mock.calls.find(call => call.operation === 'GetPresets').xml, 'ProfileToken') === 'third' &&
+      missing.error?.message === 'The camera has no media profile "other"'
+    );
+  }, results);
+
+  await runTest('Security timestamps follow the camera clock', async () => {
+    mock.state.clockOffset = 60 * 60 * 1000;
+    const { error } = await getPtzPresets(createCamera(onvif));
+    mock.state.clockOffset = 0;
+    return !error;
+  }, results);
+
+  await runTest('Wrong credentials are reported', async () => {
+    const { error } = await getPtzPresets(createCamera({ ...onvif, credentials: { username: 'onvif', password: 'wrong' } }));
+    return error?.message === 'The camera rejected the ONVIF credentials';
+  }, results);
+
+  await runTest('Cameras without PTZ or ONVIF are refused', async () => {
+    mock.state.ptz = false;
+    const withoutPtz = await movePtz(createCamera(onvif), { pan: 1, tilt: 0, zoom: 0 });
+    mock.state.ptz = true;
+    const withoutOnvif = await stopPtz(createCamera(undefined));
+    return (
+      withoutPtz.error?.message === 'The camera does not support PTZ' &&
+      withoutOnvif.error?.message === 'ONVIF is not set up for this camera'
+    );
+  }, results);
+
+  await runTest('Unreachable cameras are reported', async () => {
+    const offline = await startMockOnvif();
+    await offline.close();
+    const { error } = await getPtzPresets(createCamera({ url: offline.url, credentials: offline.credentials }));
+    return error?.message === 'Cannot reach the camera\'s ONVIF service';
+  }, results);
+
+  await mock.close();
+
+  const success = printTestResults('ONVIF PTZ Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+/**
+ * Web Push Tests
+ * Encrypts and signs pushes like a browser's push service expects, decrypts them like the browser would
+ * and checks who is told about which events (push service stood in for by helpers/mock-webhook.mjs)
+ */
+
+import { createDecipheriv, createECDH, createHmac, createPublicKey, randomBytes, verify } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import { startMockWebhook } from '../helpers/mock-webhook.mjs';
+
+// Isolate the stores in a temporary data directory before they are imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-push-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+process.env.CAMSUITE_PUSH_CONTACT = 'mailto:ops@example.com';
+
+const { getPushMessage } = await import('../../src/lib/push/index.ts');
+const {
+  addStoredPushSubscription,
+  getStoredPushEventTypes,
+  getVapidKeys,
+  listStoredPushSubscriptions,
+  parsePushEventTypes,
+  parsePushSubscription,
+  saveStoredPushEventTypes,
+} = await import('../../src/lib/push/push-store.ts');
+const { createVapidAuthorization, encryptPushPayload, sendPush } = await import('../../src/lib/push/web-push.ts');
+const { pushEvent, pushTestMessage } = await import('../../src/lib/push/push-sender.ts');
+const { rememberDevice } = await import('../../src/lib/site-auth/known-devices.ts');
+const { createUser, setupSiteCredentials } = await import('../../src/lib/site-auth/user-store.ts');
+
+/**
+ * A browser's side of a subscription: its key pair and auth secret
+ */
+function createBrowser(endpoint) {
+  const ecdh = createECDH('prime256v1');
+  const publicKey = ecdh.generateKeys();
+  const auth = randomBytes(16);
+  return {
+    ecdh,
+    subscription: {
+      endpoint,
+      keys: { p256dh: publicKey.toString('base64url'), auth: auth.toString('base64url') },
+    },
+  };
+}
+
+function hmac(key, data) {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Decrypt an aes128gcm push body with the browser's keys (RFC 8291)
+ */
+function decrypt(browser, body) {
+  const salt = body.subarray(0, 16);
+  const keyLength = body[20];
+  const serverKey = body.subarray(21, 21 + keyLength);
+  const record = body.subarray(21 + keyLength);
+  const userAgentKey = Buffer.from(browser.subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(browser.subscription.keys.auth, 'base64url');
+
+  const prkKey = hmac(authSecret, browser.ecdh.computeSecret(serverKey));
+  const inputKey = hmac(prkKey, Buffer.concat([Buffer.from('WebPush: info\0'), userAgentKey, serverKey, Buffer.from([1])]));
+  const prk = hmac(salt, inputKey);
+  const contentKey = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12);
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(-16));
+  const plain = Buffer.concat([decipher.update(record.subarray(0, -16)), decipher.final()]);
+  return { text: plain.subarray(0, -1).toString('utf8'), delimiter: plain[plain.length - 1], recordSize: body.readUInt32BE(16) };
+}
+
+async function runTests() {
+  console.log('🧪 Starting Web Push Tests...\n');
+  const results = createTestResults();
+
+  const service = await startMockWebhook();
+  const endpoint = name => service.url.replace('/hook', `/push/${name}`);
+  const received = name => service.requests.filter(request => request.path === `/push/${name}`);
+
+  await runTest('Subscriptions and event types are validated', async () => {
+    const browser = createBrowser('https://push.example.com/send/abc');
+    const { subscription } = parsePushSubscription(browser.subscription);
+    return (
+      subscription?.endpoint === 'https://push.example.com/send/abc' &&
+      parsePushSubscription({ ...browser.subscription, endpoint: 'http://push.example.com/send' }).error ===
+        'Push endpoint must be an HTTPS URL' &&
+      parsePushSubscription({ ...browser.subscription, keys: { p256dh: 'short', auth: 'short' } }).error ===
+        'Invalid push subscription keys' &&
+      parsePushSubscription(null).error === 'Invalid push subscription' &&
+      parsePushEventTypes(['motion', 'logout', 'camera-offline']).join() === 'camera-offline,motion' &&
+      parsePushEventTypes('motion') === null
+    );
+  }, results);
+
+  await runTest('The VAPID key pair is created once', async () => {
+    const first = await getVapidKeys();
+    const second = await getVapidKeys();
+    const publicKey = Buffer.from(first.publicKey, 'base64url');
+    return publicKey.length === 65 && publicKey[0] === 0x04 && second.publicKey === first.publicKey;
+  }, results);
+
+  await runTest('Pushes decrypt with the browser keys', async () => {
+    const browser = createBrowser('https://push.example.com/send/abc');
+    const body = encryptPushPayload(Buffer.from('{"title":"Front Door"}'), browser.subscription.keys);
+    const again = encryptPushPayload(Buffer.from('{"title":"Front Door"}'), browser.subscription.keys);
+    const { text, delimiter, recordSize } = decrypt(browser, body);
+    return text === '{"title":"Front Door"}' && delimiter === 2 && recordSize === 4096 && !body.equals(again);
+  }, results);
+
+  await runTest('Push requests are signed for the push service origin', async () => {
+    const keys = await getVapidKeys();
+    const header = createVapidAuthorization('https://push.example.com/send/abc?x=1', keys);
+    const [, token, publicKey] = header.match(/^vapid t=([^,]+), k=(.+)$/);
+    const [head, claims, signature] = token.split('.');
+    const payload = JSON.parse(Buffer.from(claims, 'base64url').toString());
+    const spki = Buffer.concat([Buffer.from('3059301306072a8648ce3d020106082a8648ce3d030107034200', 'hex'), Buffer.from(publicKey, 'base64url')]);
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${head}.${claims}`),
+      { key: createPublicKey({ key: spki, format: 'der', type: 'spki' }), dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    );
+    return (
+      valid &&
+      publicKey === keys.publicKey &&
+      payload.aud === 'https://push.example.com' &&
+      payload.sub === 'mailto:ops@example.com' &&
+      payload.exp > Date.now() / 1000 &&
+      payload.exp <= Date.now() / 1000 + 24 * 60 * 60
+    );
+  }, results);
+
+  await runTest('Pushes reach the push service with the right headers', async () => {
+    const browser = createBrowser(endpoint('headers'));
+    const message = getPushMessage({ type: 'camera-offline', cameraId: 'cam-1', cameraName: 'Front Door', message: 'Front Door went offline' });
+    const result = await sendPush(browser.subscription, message, await getVapidKeys(), 'high');
+    const [request] = received('headers');
+    return (
+      !result.error &&
+      request.headers['content-encoding'] === 'aes128gcm' &&
+      request.headers['content-type'] === 'application/octet-stream' &&
+      request.headers.ttl === '86400' &&
+      request.headers.urgency === 'high' &&
+      request.headers.authorization.startsWith('vapid t=') &&
+      JSON.parse(decrypt(browser, request.raw).text).url === '/viewer/cam-1'
+    );
+  }, results);
+
+  await runTest('Messages link to the camera or the account page', async () => {
+    const camera = getPushMessage({ type: 'motion', cameraId: 'back yard', cameraName: 'Back Yard', message: 'Motion' });
+    const signIn = getPushMessage({ type: 'login-new-device', message: 'alice signed in from a new device' });
+    return (
+      camera.url === '/viewer/back%20yard' &&
+      camera.title === 'Back Yard' &&
+      camera.tag === 'motion:back yard' &&
+      signIn.url === '/account' &&
+      signIn.tag === 'login-new-device'
+    );
+  }, results);
+
+  await runTest('Sign-ins are from a new device until the device is known', async () => {
+    const first = await rememberDevice('user-a', null);
+    const again = await rememberDevice('user-a', first.deviceId);
+    const otherUser = await rememberDevice('user-b', first.deviceId);
+    return first.isNew && first.deviceId.length >= 16 && !again.isNew && again.deviceId === first.deviceId && otherUser.isNew;
+  }, results);
+
+  // Users: an admin, a viewer of cam-1 only
+  const admin = await setupSiteCredentials({ username: 'owner', password: 'owner-password' });
+  const { user: viewer } = await createUser({ username: 'alice', password: 'alice-password', role: 'viewer', cameraIds: ['cam-1'] });
+  const adminBrowser = createBrowser(endpoint('admin'));
+  const viewerBrowser = createBrowser(endpoint('viewer'));
+  await addStoredPushSubscription(admin.id, adminBrowser.subscription, 'Firefox');
+  await addStoredPushSubscription(viewer.id, viewerBrowser.subscription, 'Safari');
+
+  await runTest('Users get the events they picked for cameras they can view', async () => {
+    service.requests.length = 0;
+    await saveStoredPushEventTypes(viewer.id, ['camera-offline', 'motion']);
+    const defaults = await getStoredPushEventTypes(admin.id);
+
+    await pushEvent({ id: '1', type: 'motion', time: '', cameraId: 'cam-1', cameraName: 'Front', message: 'Motion on Front' });
+    await pushEvent({ id: '2', type: 'camera-offline', time: '', cameraId: 'cam-2', cameraName: 'Garage', message: 'Garage went offline' });
+    await pushEvent({ id: '3', type: 'logout', time: '', username: 'owner', message: 'owner signed out' });
+
+    const viewerMessages = received('viewer').map(request => JSON.parse(decrypt(viewerBrowser, request.raw).text));
+    const adminMessages = received('admin').map(request => JSON.parse(decrypt(adminBrowser, request.raw).text));
+    return (
+      defaults.join() === 'camera-offline,login-new-device' &&
+      viewerMessages.length === 1 &&
+      viewerMessages[0].body === 'Motion on Front' &&
+      received('viewer')[0].headers.urgency === 'normal' &&
+      adminMessages.length === 1 && // no motion by default, garage yes
+      adminMessages[0].title === 'Garage'
+    );
+  }, results);
+
+  await runTest('New-device sign-ins go to the account owner and admins', async () => {
+    service.requests.length = 0;
+    await saveStoredPushEventTypes(viewer.id, ['login-new-device']);
+    await pushEvent({ id: '4', type: 'login-new-device', time: '', username: 'alice', message: 'alice signed in from a new device' });
+    await pushEvent({ id: '5', type: 'login-new-device', time: '', username: 'owner', message: 'owner signed in from a new device' });
+    return received('viewer').length === 1 && received('admin').length === 2;
+  }, results);
+
+  await runTest('Subscriptions the push service no longer knows are dropped', async () => {
+    service.requests.length = 0;
+    service.statuses.push(410);
+    const first = await pushTestMessage(viewer.id);
+    const subscriptions = await listStoredPushSubscriptions();
+    const second = await pushTestMessage(viewer.id);
+    return (
+      first.sent === 0 &&
+      first.error === 'Push service answered 410' &&
+      subscriptions.length === 1 &&
+      subscriptions[0].userId === admin.id &&
+      second.sent === 0 &&
+      !second.error &&
+      service.requests.length === 1
+    );
+  }, results);
+
+  await service.close();
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Web Push Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,291 @@
+/**
+ * Installable App Tests
+ * Web manifest and icons, the service worker's offline app shell (run against stand-in caches and fetch),
+ * the server connection watcher and the last known cameras, statuses and user kept for offline use
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import vm from 'vm';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+const publicDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '../../public');
+const ORIGIN = 'https://cams.example.com';
+
+// Browser stand-ins for the client modules
+function createStorage() {
+  const items = new Map();
+  return {
+    getItem: key => (items.has(key) ? items.get(key) : null),
+    setItem: (key, value) => items.set(key, String(value)),
+    removeItem: key => items.delete(key),
+  };
+}
+globalThis.window = new EventTarget();
+globalThis.document = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+Object.defineProperty(globalThis, 'navigator', { value: { onLine: true }, configurable: true, writable: true });
+globalThis.localStorage = createStorage();
+globalThis.sessionStorage = createStorage();
+
+const { PROBE_URL, probeServer, watchServerConnection } = await import('../../src/lib/pwa/index.ts');
+const { loadCachedCameraHealth, saveCachedCameraHealth } = await import('../../src/lib/camera-health/index.ts');
+const { clearSiteAuth, getSiteSession, loadLastSiteUser } = await import('../../src/lib/site-auth/index.ts');
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Width and height from a PNG's IHDR chunk
+ */
+async function readPngSize(file) {
+  const data = await readFile(path.join(publicDir, file));
+  return data.subarray(1, 4).toString() === 'PNG' ? `${data.readUInt32BE(16)}x${data.readUInt32BE(20)}` : null;
+}
+
+/**
+ * Run public/sw.js with stand-in caches and network
+ * `network.routes` maps paths to responses (or functions returning them); `online = false` makes every fetch fail
+ */
+async function loadServiceWorker() {
+  const listeners = {};
+  const stores = new Map();
+  const network = { online: true, routes: {} };
+
+  const keyOf = (request, ignoreSearch = false) => {
+    const url = new URL(typeof request === 'string' ? request : request.url, ORIGIN);
+    return ignoreSearch ? `${url.origin}${url.pathname}` : url.href;
+  };
+  const openStore = name => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const entries = stores.get(name);
+    return {
+      match: async (request, options = {}) => {
+        const key = keyOf(request, options.ignoreSearch);
+        for (const [url, response] of entries) {
+          if (keyOf(url, options.ignoreSearch) === key) return response.clone();
+        }
+        return undefined;
+      },
+      put: async (request, response) => entries.set(keyOf(request), response),
+      addAll: async urls => {
+        for (const url of urls) entries.set(keyOf(url), await fakeFetch(url));
+      },
+    };
+  };
+  const caches = {
+    open: async name => openStore(name),
+    keys: async () => [...stores.keys()],
+    delete: async name => stores.delete(name),
+    match: async request => {
+      for (const name of stores.keys()) {
+        const found = await openStore(name).match(request);
+        if (found) return found;
+      }
+      return undefined;
+    },
+  };
+  const fakeFetch = async request => {
+    const url = new URL(typeof request === 'string' ? request : request.url, ORIGIN);
+    if (!network.online) throw new TypeError('Failed to fetch');
+    const route = network.routes[url.pathname];
+    if (typeof route === 'function') return route();
+    return route ? route.clone() : new Response('ok', { status: 200 });
+  };
+
+  const self = {
+    location: new URL(ORIGIN),
+    addEventListener: (type, listener) => (listeners[type] = listener),
+    skipWaiting: async () => undefined,
+    clients: { claim: async () => undefined },
+  };
+  const context = vm.createContext({ self, caches, fetch: fakeFetch, URL, Response, Promise, console });
+  vm.runInContext(await readFile(path.join(publicDir, 'sw.js'), 'utf8'), context);
+
+  /**
+   * Dispatch an event; resolves with the response passed to respondWith (undefined if not handled)
+   */
+  const dispatch = async (type, init = {}) => {
+    const pending = [];
+    let response;
+    listeners[type]({ ...init, waitUntil: promise => pending.push(promise), respondWith: value => (response = value) });
+    await Promise.all(pending);
+    return response ? await response : undefined;
+  };
+  const request = (pathname, init = {}) => ({ url: `${ORIGIN}${pathname}`, method: 'GET', mode: 'cors', ...init });
+
+  return { dispatch, request, network, stores };
+}
+
+async function runTests() {
+  console.log('🧪 Starting Installable App Tests...\n');
+  const results = createTestResults();
+
+  await runTest('The manifest makes the app installable', async () => {
+    const manifest = JSON.parse(await readFile(path.join(publicDir, 'manifest.json'), 'utf8'));
+    const pngIcons = manifest.icons.filter(icon => icon.type === 'image/png');
+    const sizes = await Promise.all(pngIcons.map(icon => readPngSize(icon.src.slice(1))));
+    return (
+      manifest.display === 'standalone' &&
+      manifest.start_url === '/' &&
+      manifest.scope === '/' &&
+      pngIcons.every((icon, index) => sizes[index] === icon.sizes) &&
+      pngIcons.some(icon => icon.sizes === '192x192' && icon.purpose === 'any') &&
+      pngIcons.some(icon => icon.sizes === '512x512' && icon.purpose === 'any') &&
+      pngIcons.some(icon => icon.purpose === 'maskable') &&
+      (await readPngSize('apple-touch-icon.png')) === '180x180'
+    );
+  }, results);
+
+  await runTest('Installing caches the offline page and icons', async () => {
+    const sw = await loadServiceWorker();
+    await sw.dispatch('install');
+    const shell = [...sw.stores.values()][0];
+    return (
+      sw.stores.size === 1 &&
+      shell.has(`${ORIGIN}/offline.html`) &&
+      shell.has(`${ORIGIN}/manifest.json`) &&
+      shell.has(`${ORIGIN}/icon-512x512.png`)
+    );
+  }, results);
+
+  await runTest('Pages opened before are served from the cache while offline', async () => {
+    const sw = await loadServiceWorker();
+    sw.network.routes['/'] = new Response('<html>home</html>', { status: 200 });
+    sw.network.routes['/offline.html'] = new Response('<html>offline</html>', { status: 200 });
+    await sw.dispatch('install');
+
+    const online = await sw.dispatch('fetch', { request: sw.request('/', { mode: 'navigate' }) });
+    sw.network.online = false;
+    const cached = await sw.dispatch('fetch', { request: sw.request('/?view=grid', { mode: 'navigate' }) });
+    const neverOpened = await sw.dispatch('fetch', { request: sw.request('/events', { mode: 'navigate' }) });
+    return (
+      (await online.text()) === '<html>home</html>' &&
+      (await cached.text()) === '<html>home</html>' &&
+      (await neverOpened.text()) === '<html>offline</html>'
+    );
+  }, results);
+
+  await runTest('Redirected pages are not cached', async () => {
+    const sw = await loadServiceWorker();
+    sw.network.routes['/settings'] = () => {
+      const response = new Response('<html>login</html>', { status: 200 });
+      Object.defineProperty(response, 'redirected', { value: true });
+      return response;
+    };
+    await sw.dispatch('fetch', { request: sw.request('/settings', { mode: 'navigate' }) });
+    const pages = [...sw.stores.entries()].find(([name]) => name.includes('pages'));
+    return !pages || pages[1].size === 0;
+  }, results);
+
+  await runTest('Only immutable build assets are cached', async () => {
+    const sw = await loadServiceWorker();
+    sw.network.routes['/_next/static/chunks/app.js'] = new Response('app', {
+      headers: { 'Cache-Control': 'public, max-age=31536000, immutable' },
+    });
+    sw.network.routes['/_next/static/chunks/dev.js'] = new Response('dev', { headers: { 'Cache-Control': 'no-store' } });
+    await sw.dispatch('fetch', { request: sw.request('/_next/static/chunks/app.js') });
+    await sw.dispatch('fetch', { request: sw.request('/_next/static/chunks/dev.js') });
+
+    sw.network.online = false;
+    const app = await sw.dispatch('fetch', { request: sw.request('/_next/static/chunks/app.js') });
+    const dev = await sw.dispatch('fetch', { request: sw.request('/_next/static/chunks/dev.js') }).catch(() => null);
+    return (await app.text()) === 'app' && dev === null;
+  }, results);
+
+  await runTest('API requests are left alone and signing out clears cached pages', async () => {
+    const sw = await loadServiceWorker();
+    await sw.dispatch('fetch', { request: sw.request('/', { mode: 'navigate' }) });
+    const api = await sw.dispatch('fetch', { request: sw.request('/api/config') });
+    const crossOrigin = await sw.dispatch('fetch', { request: { url: 'https://cdn.example.com/x.js', method: 'GET', mode: 'cors' } });
+    const before = [...sw.stores.keys()].some(name => name.includes('pages'));
+    await sw.dispatch('fetch', { request: sw.request('/api/auth/logout', { method: 'POST' }) });
+    const after = [...sw.stores.keys()].some(name => name.includes('pages'));
+    return api === undefined && crossOrigin === undefined && before && !after;
+  }, results);
+
+  await runTest('The server counts as reachable when it answers', async () => {
+    const probed = [];
+    const answer = status => async url => {
+      probed.push(url);
+      return new Response('{}', { status });
+    };
+    return (
+      (await probeServer(answer(200))) &&
+      probed[0] === PROBE_URL &&
+      new URL(PROBE_URL, 'http://localhost').searchParams.get('renew') === 'false' &&
+      (await probeServer(answer(401))) &&
+      !(await probeServer(answer(502))) &&
+      !(await probeServer(async () => { throw new TypeError('Failed to fetch'); }))
+    );
+  }, results);
+
+  await runTest('Connection changes are reported once and retried while unreachable', async () => {
+    const changes = [];
+    let up = false;
+    let probes = 0;
+    const stop = watchServerConnection(reachable => changes.push(reachable), {
+      probe: async () => {
+        probes++;
+        return up;
+      },
+      retryInterval: 20,
+    });
+    await sleep(70);
+    const probesWhileDown = probes;
+    up = true;
+    await sleep(40);
+    const probesAfterUp = probes;
+    await sleep(60);
+
+    navigator.onLine = false;
+    window.dispatchEvent(new Event('offline'));
+    await sleep(5);
+    const probesOffline = probes;
+    stop();
+    navigator.onLine = true;
+
+    return (
+      changes.join() === 'false,true,false' &&
+      probesWhileDown >= 3 &&
+      probes === probesAfterUp && // no polling while reachable
+      probesOffline === probesAfterUp // the browser knows it is offline
+    );
+  }, results);
+
+  await runTest('Last known statuses are kept in the browser', async () => {
+    const empty = loadCachedCameraHealth();
+    saveCachedCameraHealth({
+      'cam-1': { cameraId: 'cam-1', status: 'online', recording: true, lastSeen: '2024-01-15T12:00:00.000Z', checkedAt: null },
+    });
+    const health = loadCachedCameraHealth();
+    localStorage.setItem('camsuite_camera_health', '{broken');
+    return Object.keys(empty).length === 0 && health['cam-1'].recording === true && Object.keys(loadCachedCameraHealth()).length === 0;
+  }, results);
+
+  await runTest('The last signed-in user is kept until they sign out', async () => {
+    const user = { id: 'u1', username: 'alice', role: 'viewer', cameraIds: ['cam-1'] };
+    globalThis.fetch = async () => new Response(JSON.stringify({ authenticated: true, user }));
+    const online = await getSiteSession();
+    globalThis.fetch = async () => { throw new TypeError('Failed to fetch'); };
+    const offline = await getSiteSession();
+    const remembered = loadLastSiteUser();
+    globalThis.fetch = async () => new Response('{}');
+    await clearSiteAuth();
+    return (
+      online.authenticated &&
+      !online.offline &&
+      offline.offline === true &&
+      !offline.authenticated &&
+      remembered?.username === 'alice' &&
+      loadLastSiteUser() === null
+    );
+  }, results);
+
+  const success = printTestResults('Installable App Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
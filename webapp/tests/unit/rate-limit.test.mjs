@@ -0,0 +1,199 @@
+/**
+ * Login Rate Limit Tests
+ * Verifies the server-side limiter keyed by client IP and username
+ */
+
+import http from 'http';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import {
+  checkLoginLockout,
+  recordFailedLogin,
+  resetRateLimit,
+  getLockedOutSources,
+  unlockSource,
+  getLockoutDuration,
+  getClientIp,
+  shouldLogFailedLogin,
+  MAX_FAILED_LOGIN_EVENTS_PER_HOUR,
+  MAX_ATTEMPTS_PER_USERNAME,
+  MAX_ATTEMPTS_PER_IP,
+} from '../../src/lib/site-auth/rate-limit.ts';
+import { CONNECTION_ADDRESS_HEADER, recordConnectionAddresses } from '../../src/lib/site-auth/connection-address.ts';
+
+const MINUTE = 60 * 1000;
+
+// Controllable clock for window and lockout expiry
+const realNow = Date.now;
+let clockOffset = 0;
+Date.now = () => realNow() + clockOffset;
+
+function advanceClock(ms) {
+  clockOffset += ms;
+}
+
+async function failTimes(ip, username, count) {
+  let result;
+  for (let i = 0; i < count; i++) {
+    result = await recordFailedLogin(ip, username);
+  }
+  return result;
+}
+
+async function runTests() {
+  console.log('🧪 Starting Login Rate Limit Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Remaining attempts count down per username', async () => {
+    const first = await recordFailedLogin('10.0.0.1', 'alice');
+    const second = await recordFailedLogin('10.0.0.1', 'alice');
+    return (
+      !first.isLocked &&
+      first.remainingAttempts === MAX_ATTEMPTS_PER_USERNAME - 1 &&
+      second.remainingAttempts === MAX_ATTEMPTS_PER_USERNAME - 2
+    );
+  }, results);
+
+  await runTest('Username is locked out after max failures from different IPs', async () => {
+    let result;
+    for (let i = 0; i < MAX_ATTEMPTS_PER_USERNAME; i++) {
+      result = await recordFailedLogin(`10.0.1.${i}`, 'bob');
+    }
+    const lockout = await checkLoginLockout('10.0.1.99', 'bob');
+    return result.isLocked && result.source === 'username' && lockout.isLocked;
+  }, results);
+
+  await runTest('Usernames are matched case-insensitively', async () => {
+    const lockout = await checkLoginLockout('10.0.1.100', '  BOB ');
+    return lockout.isLocked;
+  }, results);
+
+  await runTest('IP is locked out after spraying many usernames', async () => {
+    let result;
+    for (let i = 0; i < MAX_ATTEMPTS_PER_IP; i++) {
+      result = await recordFailedLogin('10.0.2.1', `user-${i}`);
+    }
+    const lockout = await checkLoginLockout('10.0.2.1', 'someone-else');
+    return result.isLocked && lockout.isLocked && lockout.source === 'ip';
+  }, results);
+
+  await runTest('Failures outside the sliding window are forgotten', async () => {
+    await failTimes('10.0.3.1', 'carol', MAX_ATTEMPTS_PER_USERNAME - 1);
+    advanceClock(16 * MINUTE);
+    const result = await recordFailedLogin('10.0.3.1', 'carol');
+    return !result.isLocked && result.remainingAttempts === MAX_ATTEMPTS_PER_USERNAME - 1;
+  }, results);
+
+  await runTest('Lockout expires after its duration', async () => {
+    await failTimes('10.0.4.1', 'dave', MAX_ATTEMPTS_PER_USERNAME);
+    advanceClock(getLockoutDuration(1) + 1000);
+    const lockout = await checkLoginLockout('10.0.4.1', 'dave');
+    return !lockout.isLocked;
+  }, results);
+
+  await runTest('Repeat lockouts get progressively longer', async () => {
+    const first = await failTimes('10.0.5.1', 'erin', MAX_ATTEMPTS_PER_USERNAME);
+    advanceClock(first.remainingTime + 1000);
+    const second = await failTimes('10.0.5.2', 'erin', MAX_ATTEMPTS_PER_USERNAME);
+    return (
+      first.remainingTime === getLockoutDuration(1) &&
+      second.remainingTime === getLockoutDuration(2) &&
+      getLockoutDuration(2) === 2 * getLockoutDuration(1) &&
+      getLockoutDuration(50) === 24 * 60 * MINUTE
+    );
+  }, results);
+
+  await runTest('Successful login resets counters for IP and username', async () => {
+    await failTimes('10.0.6.1', 'frank', MAX_ATTEMPTS_PER_USERNAME - 1);
+    await resetRateLimit('10.0.6.1', 'frank');
+    const result = await recordFailedLogin('10.0.6.1', 'frank');
+    return result.remainingAttempts === MAX_ATTEMPTS_PER_USERNAME - 1;
+  }, results);
+
+  await runTest('Locked-out sources are listed and can be unlocked', async () => {
+    await failTimes('10.0.7.1', 'grace', MAX_ATTEMPTS_PER_USERNAME);
+    const sources = await getLockedOutSources();
+    const source = sources.find(item => item.key === 'username:grace');
+    if (!source || source.type !== 'username' || source.value !== 'grace') {
+      return false;
+    }
+    const unlocked = await unlockSource(source.key);
+    const lockout = await checkLoginLockout('10.0.7.2', 'grace');
+    return unlocked && !lockout.isLocked && !(await unlockSource(source.key));
+  }, results);
+
+  await runTest('Client IP is the hop the trusted proxy appended', async () => {
+    // A client-supplied address followed by what two proxies appended
+    const forwarded = new Headers({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.1' });
+    process.env.CAMSUITE_TRUSTED_PROXY_HOPS = '1';
+    const oneProxy = getClientIp(forwarded);
+    process.env.CAMSUITE_TRUSTED_PROXY_HOPS = '2';
+    const twoProxies = getClientIp(forwarded);
+    process.env.CAMSUITE_TRUSTED_PROXY_HOPS = '5';
+    const shortChain = getClientIp(forwarded);
+    delete process.env.CAMSUITE_TRUSTED_PROXY_HOPS;
+    return (
+      oneProxy === '10.0.0.1' &&
+      twoProxies === '203.0.113.7' &&
+      shortChain === '1.2.3.4'
+    );
+  }, results);
+
+  await runTest('Without a proxy forwarding headers are ignored', async () => {
+    const spoofed = new Headers({
+      'x-real-ip': '198.51.100.2',
+      'x-forwarded-for': '1.2.3.4',
+      [CONNECTION_ADDRESS_HEADER]: '192.168.1.50',
+    });
+    return (
+      getClientIp(spoofed) === '192.168.1.50' &&
+      getClientIp(new Headers({ 'x-forwarded-for': '1.2.3.4' })) === 'unknown'
+    );
+  }, results);
+
+  await runTest('Requests are stamped with the address they arrived from', async () => {
+    recordConnectionAddresses();
+    recordConnectionAddresses(); // once per process
+    const server = http.createServer((req, res) => res.end(getClientIp(new Headers(req.headers))));
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const response = await fetch(`http://127.0.0.1:${server.address().port}/`, {
+      headers: { 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '1.2.3.4', [CONNECTION_ADDRESS_HEADER]: '1.2.3.4' },
+    });
+    const clientIp = await response.text();
+    await new Promise(resolve => server.close(resolve));
+    return clientIp === '127.0.0.1';
+  }, results);
+
+  await runTest('Repeated failed logins are logged once per window and on lockout', async () => {
+    const failed = { isLocked: false, attempts: 2, remainingAttempts: 3 };
+    const locked = { isLocked: true, remainingTime: 5 * MINUTE, attempts: 5, remainingAttempts: 0 };
+    const first = shouldLogFailedLogin('10.0.9.1', 'heidi', failed);
+    const repeat = shouldLogFailedLogin('10.0.9.1', ' Heidi ', failed);
+    const otherIp = shouldLogFailedLogin('10.0.9.2', 'heidi', failed);
+    const lockout = shouldLogFailedLogin('10.0.9.1', 'heidi', locked);
+    advanceClock(16 * MINUTE);
+    const nextWindow = shouldLogFailedLogin('10.0.9.1', 'heidi', failed);
+    return first && !repeat && otherIp && lockout && nextWindow;
+  }, results);
+
+  await runTest('Failed login events are capped per hour', async () => {
+    advanceClock(61 * MINUTE);
+    const failed = { isLocked: false, attempts: 1, remainingAttempts: 4 };
+    const logged = Array.from({ length: MAX_FAILED_LOGIN_EVENTS_PER_HOUR + 5 }, (_, index) =>
+      shouldLogFailedLogin(`10.1.0.${index}`, `spray${index}`, failed)
+    ).filter(Boolean).length;
+    const locked = shouldLogFailedLogin('10.1.1.1', 'ivan', { isLocked: true, remainingTime: MINUTE, attempts: 5, remainingAttempts: 0 });
+    advanceClock(61 * MINUTE);
+    const afterAnHour = shouldLogFailedLogin('10.1.1.1', 'ivan', failed);
+    return logged === MAX_FAILED_LOGIN_EVENTS_PER_HOUR && !locked && afterAnHour;
+  }, results);
+
+  Date.now = realNow;
+
+  const success = printTestResults('Login Rate Limit Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
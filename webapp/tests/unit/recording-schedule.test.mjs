@@ -0,0 +1,253 @@
+/**
+ * Recording Schedule Tests
+ * Rule windows, rule validation and the scheduler against the mock MediaMTX Control API
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import { startMockMediaMtx } from '../helpers/mock-mediamtx.mjs';
+
+// Isolate the stores in a temporary data directory before they are imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-schedule-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const { parseAppConfig, saveStoredConfig } = await import('../../src/config/config-store.ts');
+const {
+  describeRuleTrigger,
+  getWeeklyCoverage,
+  isRuleActive,
+} = await import('../../src/lib/recordings/schedule.ts');
+const {
+  getRecordingSchedule,
+  parseRecordingRules,
+  saveRecordingRules,
+  setAwayMode,
+} = await import('../../src/lib/recordings/schedule-store.ts');
+const { getScheduleStatus, runRecordingSchedule } = await import('../../src/lib/recordings/scheduler.ts');
+
+const WEEKNIGHTS = {
+  id: 'weeknights',
+  name: 'Weeknights',
+  enabled: true,
+  cameraIds: [],
+  trigger: { type: 'weekly', days: [1, 2, 3, 4, 5], start: '22:00', end: '06:00' },
+};
+
+const AWAY = {
+  id: 'away',
+  name: 'Away',
+  enabled: true,
+  cameraIds: ['cam-2'],
+  trigger: { type: 'away' },
+};
+
+// Local times, as the schedule uses the server's clock (2024-01-15 is a Monday)
+const at = (day, hours, minutes = 0) => new Date(2024, 0, 14 + day, hours, minutes);
+
+function recordOf(mock, name) {
+  return mock.state.pathConfigs.find(item => item.name === name).record;
+}
+
+function patches(mock) {
+  return mock.requests.filter(request => request.method === 'PATCH').map(request => request.path);
+}
+
+async function runTests() {
+  console.log('🧪 Starting Recording Schedule Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Overnight windows run past midnight', async () => {
+    return (
+      isRuleActive(WEEKNIGHTS, at(1, 23), false) &&
+      isRuleActive(WEEKNIGHTS, at(2, 5, 59), false) &&
+      !isRuleActive(WEEKNIGHTS, at(2, 6), false) &&
+      !isRuleActive(WEEKNIGHTS, at(1, 21, 59), false) &&
+      // Friday night carries into Saturday morning, Sunday night does not start
+      isRuleActive(WEEKNIGHTS, at(6, 3), false) &&
+      !isRuleActive(WEEKNIGHTS, at(0, 23), false) &&
+      !isRuleActive({ ...WEEKNIGHTS, enabled: false }, at(1, 23), false)
+    );
+  }, results);
+
+  await runTest('Day windows, all-day windows and away rules', async () => {
+    const office = { ...WEEKNIGHTS, trigger: { type: 'weekly', days: [6], start: '09:00', end: '17:30' } };
+    const allDay = { ...WEEKNIGHTS, trigger: { type: 'weekly', days: [0], start: '00:00', end: '00:00' } };
+    return (
+      isRuleActive(office, at(6, 9), false) &&
+      !isRuleActive(office, at(6, 17, 30), false) &&
+      isRuleActive(allDay, at(0, 12), false) &&
+      !isRuleActive(allDay, at(1, 0), false) &&
+      isRuleActive(AWAY, at(3, 12), true) &&
+      !isRuleActive(AWAY, at(3, 12), false)
+    );
+  }, results);
+
+  await runTest('Week coverage and descriptions', async () => {
+    const coverage = getWeeklyCoverage([WEEKNIGHTS, AWAY], undefined, 60);
+    const forCamera = getWeeklyCoverage([{ ...WEEKNIGHTS, cameraIds: ['cam-1'] }], 'cam-2', 60);
+    return (
+      coverage.length === 7 &&
+      coverage[1].length === 24 &&
+      coverage[1][22] && coverage[1][23] &&
+      coverage[2][0] && coverage[2][5] && !coverage[2][6] &&
+      !coverage[0][0] && coverage[6][0] &&
+      forCamera.every(day => day.every(slot => !slot)) &&
+      describeRuleTrigger(WEEKNIGHTS.trigger) === 'Mon-Fri 22:00-06:00' &&
+      describeRuleTrigger({ type: 'weekly', days: [0, 6], start: '08:00', end: '08:00' }) === 'Sun, Sat all day' &&
+      describeRuleTrigger(AWAY.trigger) === 'While everyone is away'
+    );
+  }, results);
+
+  await runTest('Rules are validated and new rules get an ID', async () => {
+    const { rules } = parseRecordingRules([
+      { name: '  Nights ', trigger: { type: 'weekly', days: [5, 1, 1], start: '22:00', end: '06:00' } },
+    ]);
+    const rule = rules?.[0];
+    const errorOf = value => parseRecordingRules(value).error;
+    const weekly = trigger => [{ name: 'Rule', trigger: { type: 'weekly', days: [1], start: '08:00', end: '09:00', ...trigger } }];
+    return (
+      rule?.name === 'Nights' &&
+      typeof rule.id === 'string' && rule.id.length > 0 &&
+      rule.enabled === true &&
+      rule.cameraIds.length === 0 &&
+      rule.trigger.days.join(',') === '1,5' &&
+      errorOf({}) === 'Rules must be a list' &&
+      errorOf([{ name: ' ', trigger: { type: 'away' } }]) === 'Rule 1: Name is required' &&
+      errorOf([{ name: 'Rule' }]) === 'Rule 1: When to record is required' &&
+      errorOf([{ name: 'Rule', trigger: { type: 'sunset' } }]) === 'Rule 1: Invalid trigger' &&
+      errorOf(weekly({ days: [] })) === 'Rule 1: Pick at least one day' &&
+      errorOf(weekly({ days: [7] })) === 'Rule 1: Pick at least one day' &&
+      errorOf(weekly({ start: '24:00' })) === 'Rule 1: Start time must be HH:MM' &&
+      errorOf(weekly({ end: '9:00' })) === 'Rule 1: End time must be HH:MM' &&
+      errorOf([{ name: 'Rule', cameraIds: 'cam-1', trigger: { type: 'away' } }]) === 'Rule 1: Invalid cameras' &&
+      errorOf([AWAY, { ...AWAY }]) === 'Rule 2: Duplicate rule'
+    );
+  }, results);
+
+  const mock = await startMockMediaMtx();
+  const { config, error } = parseAppConfig({
+    serverUrl: 'http://127.0.0.1:8889',
+    iceServers: [],
+    cameras: [
+      { id: 'cam-1', name: 'Camera 1', path: 'camera1', status: 'unknown' },
+      { id: 'cam-2', name: 'Camera 2', path: 'camera2', status: 'unknown', recordMode: 'schedule' },
+      { id: 'cam-3', name: 'Phone', path: 'phone', status: 'unknown', recordMode: 'never' },
+    ],
+    autoPlay: true,
+    startMuted: true,
+    rememberCredentials: false,
+    mediamtxApi: { url: mock.url, credentials: mock.credentials },
+  });
+  if (error) throw new Error(error);
+  await saveStoredConfig(config, null, 'test');
+
+  await runTest('Without rules the scheduler leaves cameras alone', async () => {
+    mock.requests.length = 0;
+    const run = await runRecordingSchedule(at(1, 23));
+    return run.changes.length === 0 && patches(mock).length === 0;
+  }, results);
+
+  await runTest('Rules switch cameras on schedule only when the state changes', async () => {
+    await saveRecordingRules([WEEKNIGHTS], 'test');
+    mock.requests.length = 0;
+
+    const night = await runRecordingSchedule(at(1, 23));
+    const recordingAtNight = recordOf(mock, 'camera1') && recordOf(mock, 'camera2') && !recordOf(mock, 'phone');
+    const again = await runRecordingSchedule(at(1, 23, 1));
+    const morning = await runRecordingSchedule(at(2, 6));
+
+    return (
+      night.activeRuleIds.join(',') === 'weeknights' &&
+      night.changes.length === 2 &&
+      night.changes.every(change => change.record && !change.error) &&
+      recordingAtNight &&
+      again.changes.length === 0 &&
+      morning.activeRuleIds.length === 0 &&
+      morning.changes.length === 2 &&
+      !recordOf(mock, 'camera1') &&
+      !recordOf(mock, 'camera2') &&
+      patches(mock).length === 4
+    );
+  }, results);
+
+  await runTest('Away rules follow away mode', async () => {
+    await saveRecordingRules([WEEKNIGHTS, AWAY], 'test');
+    mock.requests.length = 0;
+
+    const schedule = await setAwayMode(true, 'operator');
+    const away = await runRecordingSchedule(at(3, 12));
+    const status = getScheduleStatus(schedule, away);
+    await setAwayMode(false, 'operator');
+    const home = await runRecordingSchedule(at(3, 12, 1));
+
+    return (
+      schedule.away === true &&
+      schedule.updatedBy === 'operator' &&
+      away.activeRuleIds.join(',') === 'away' &&
+      away.changes.length === 1 &&
+      away.changes[0].cameraId === 'cam-2' &&
+      status.activeRuleIds.includes('away') &&
+      status.warnings === undefined &&
+      home.changes.length === 1 &&
+      home.changes[0].record === false &&
+      !recordOf(mock, 'camera2') &&
+      (await getRecordingSchedule()).away === false
+    );
+  }, results);
+
+  await runTest('Reapply resends the state and failures are retried', async () => {
+    mock.requests.length = 0;
+    const reapplied = await runRecordingSchedule(at(3, 12, 2), { reapply: true });
+    const reapplyPatches = patches(mock).length;
+
+    // camera1 disappears from MediaMTX, so switching it on fails until it is back
+    const camera1 = mock.state.pathConfigs.find(item => item.name === 'camera1');
+    mock.state.pathConfigs = mock.state.pathConfigs.filter(item => item !== camera1);
+    const failed = await runRecordingSchedule(at(3, 23));
+    const status = getScheduleStatus(await getRecordingSchedule(), failed);
+    mock.state.pathConfigs.push(camera1);
+    const retried = await runRecordingSchedule(at(3, 23, 1));
+
+    return (
+      reapplied.changes.length === 2 &&
+      reapplyPatches === 2 &&
+      failed.changes.find(change => change.cameraId === 'cam-1')?.error?.includes('"camera1" is not configured') &&
+      status.warnings?.length === 1 &&
+      status.warnings[0].startsWith('Camera 1: ') &&
+      retried.changes.length === 1 &&
+      retried.changes[0].cameraId === 'cam-1' &&
+      recordOf(mock, 'camera1') === true
+    );
+  }, results);
+
+  await runTest('Deleting a rule during its window stops the recording it started', async () => {
+    // Both cameras record under Weeknights; camera1 is covered by no other rule
+    mock.requests.length = 0;
+    await saveRecordingRules([AWAY], 'test');
+    const deleted = await runRecordingSchedule(at(3, 23, 2));
+    const again = await runRecordingSchedule(at(3, 23, 3));
+
+    return (
+      deleted.changes.length === 2 &&
+      deleted.changes.every(change => change.record === false && !change.error) &&
+      deleted.changes.some(change => change.cameraId === 'cam-1' && change.cameraName === 'Camera 1') &&
+      !recordOf(mock, 'camera1') &&
+      !recordOf(mock, 'camera2') &&
+      again.changes.length === 0 &&
+      patches(mock).length === 2
+    );
+  }, results);
+
+  await mock.close();
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Recording Schedule Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
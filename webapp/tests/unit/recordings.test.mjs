@@ -0,0 +1,131 @@
+/**
+ * Recordings Tests
+ * Runs the playback client against the mock MediaMTX playback server and checks the timeline helpers
+ */
+
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import { startMockPlayback } from '../helpers/mock-playback.mjs';
+
+const { fetchRecording, getPlaybackUrl, listRecordings } = await import('../../src/lib/recordings/playback-client.ts');
+const {
+  getPlaybackRange,
+  getTimeAtPosition,
+  getTimelinePosition,
+  getTimelineRange,
+} = await import('../../src/lib/recordings/index.ts');
+
+const DAY = { start: new Date('2024-01-15T00:00:00Z'), end: new Date('2024-01-16T00:00:00Z') };
+
+async function runTests() {
+  console.log('🧪 Starting Recordings Tests...\n');
+  const results = createTestResults();
+
+  const mock = await startMockPlayback();
+
+  await runTest('Playback server defaults to port 9996 of the MediaMTX host', async () => {
+    delete process.env.CAMSUITE_PLAYBACK_URL;
+    const derived = getPlaybackUrl('http://192.168.1.50:8889');
+    process.env.CAMSUITE_PLAYBACK_URL = 'https://nvr.example.com/playback/';
+    const configured = getPlaybackUrl('http://192.168.1.50:8889');
+    delete process.env.CAMSUITE_PLAYBACK_URL;
+    return derived === 'http://192.168.1.50:9996' && configured === 'https://nvr.example.com/playback';
+  }, results);
+
+  await runTest('Segments are listed in order for the requested range', async () => {
+    const { data, error } = await listRecordings(mock.url, 'camera1', DAY, mock.credentials);
+    const request = mock.requests.at(-1);
+    return (
+      !error &&
+      data.length === 2 &&
+      data[0].start === '2024-01-15T10:00:00.000Z' &&
+      data[0].duration === 3600 &&
+      data[1].start === '2024-01-15T12:30:00.000Z' &&
+      request.path === '/list' &&
+      request.params.start === DAY.start.toISOString() &&
+      request.params.end === DAY.end.toISOString()
+    );
+  }, results);
+
+  await runTest('A path without recordings is an empty list', async () => {
+    const { data, error } = await listRecordings(mock.url, 'camera2', DAY, mock.credentials);
+    return !error && Array.isArray(data) && data.length === 0;
+  }, results);
+
+  await runTest('A recorded range is fetched as MP4', async () => {
+    const start = new Date('2024-01-15T10:15:00Z');
+    const { data, error } = await fetchRecording(mock.url, 'camera1', start, 120, mock.credentials);
+    const body = data ? await data.text() : '';
+    return (
+      !error &&
+      data.headers.get('content-type') === 'video/mp4' &&
+      body.includes('ftyp') &&
+      body.includes(`camera1 ${start.toISOString()} 120`) &&
+      mock.requests.at(-1).params.format === 'mp4'
+    );
+  }, results);
+
+  await runTest('Gaps, bad credentials and an unreachable server are errors', async () => {
+    const gap = await fetchRecording(mock.url, 'camera1', new Date('2024-01-15T11:30:00Z'), 60, mock.credentials);
+    const denied = await listRecordings(mock.url, 'camera1', DAY, { username: 'admin', password: 'wrong' });
+    const unreachable = await listRecordings('http://127.0.0.1:1', 'camera1', DAY, mock.credentials);
+    return (
+      gap.error?.status === 404 &&
+      gap.error.message === 'No recording in the selected range' &&
+      denied.error?.status === 401 &&
+      denied.error.message.includes('credentials') &&
+      unreachable.error?.message.includes('Cannot reach')
+    );
+  }, results);
+
+  await runTest('Timeline ranges cover a local day or one hour of it', async () => {
+    const day = getTimelineRange(new Date(2024, 0, 15, 17, 42), 'day');
+    const hour = getTimelineRange(new Date(2024, 0, 15, 17, 42), 'hour', 9);
+    return (
+      day.start.getTime() === new Date(2024, 0, 15).getTime() &&
+      day.end.getTime() === new Date(2024, 0, 16).getTime() &&
+      hour.start.getTime() === new Date(2024, 0, 15, 9).getTime() &&
+      hour.end.getTime() === new Date(2024, 0, 15, 10).getTime()
+    );
+  }, results);
+
+  await runTest('Timeline positions and times convert both ways', async () => {
+    const noon = new Date('2024-01-15T12:00:00Z');
+    return (
+      getTimelinePosition(noon, DAY) === 0.5 &&
+      getTimelinePosition(new Date('2024-01-14T23:00:00Z'), DAY) === 0 &&
+      getTimelinePosition(new Date('2024-01-17T00:00:00Z'), DAY) === 1 &&
+      getTimeAtPosition(0.5, DAY).getTime() === noon.getTime() &&
+      getTimeAtPosition(2, DAY).getTime() === DAY.end.getTime()
+    );
+  }, results);
+
+  await runTest('Clicks and drags become ranges inside the recording', async () => {
+    const { data: segments } = await listRecordings(mock.url, 'camera1', DAY, mock.credentials);
+    const click = getPlaybackRange(segments, new Date('2024-01-15T10:10:00Z'));
+    const nearEnd = getPlaybackRange(segments, new Date('2024-01-15T10:58:00Z'));
+    const dragIntoSegment = getPlaybackRange(
+      segments,
+      new Date('2024-01-15T13:30:00Z'),
+      new Date('2024-01-15T12:00:00Z')
+    );
+    const inGap = getPlaybackRange(segments, new Date('2024-01-15T11:30:00Z'));
+    return (
+      click.start.toISOString() === '2024-01-15T10:10:00.000Z' &&
+      click.end.toISOString() === '2024-01-15T10:15:00.000Z' &&
+      nearEnd.end.toISOString() === '2024-01-15T11:00:00.000Z' &&
+      dragIntoSegment.start.toISOString() === '2024-01-15T12:30:00.000Z' &&
+      dragIntoSegment.end.toISOString() === '2024-01-15T13:00:00.000Z' &&
+      inGap === null
+    );
+  }, results);
+
+  await mock.close();
+
+  const success = printTestResults('Recordings Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+/**
+ * Session Token Tests
+ * Verifies signed session tokens and that forged or tampered cookies are rejected
+ */
+
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+import {
+  signSessionToken,
+  verifySessionToken,
+  generateSessionId,
+} from '../../src/lib/site-auth/session-token.ts';
+
+const SECRET = 'unit-test-secret-that-is-at-least-32-characters';
+const OTHER_SECRET = 'another-unit-test-secret-of-at-least-32-chars';
+
+function createClaims(overrides = {}) {
+  const now = Date.now();
+  return {
+    sessionId: generateSessionId(),
+    userId: 'user-1',
+    username: 'admin',
+    role: 'admin',
+    issuedAt: now,
+    expiresAt: now + 30 * 60 * 1000,
+    ...overrides,
+  };
+}
+
+// Re-encode a token payload without re-signing it
+function replacePayload(token, claims) {
+  const [version, , signature] = token.split('.');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${version}.${payload}.${signature}`;
+}
+
+async function runTests() {
+  console.log('🧪 Starting Session Token Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Valid token round-trips its claims', async () => {
+    const claims = createClaims();
+    const token = await signSessionToken(claims, SECRET);
+    const verified = await verifySessionToken(token, SECRET);
+    return JSON.stringify(verified) === JSON.stringify(claims);
+  }, results);
+
+  await runTest('Legacy literal "authenticated" cookie is rejected', async () => {
+    return (await verifySessionToken('authenticated', SECRET)) === null;
+  }, results);
+
+  await runTest('Tampered payload (changed username) is rejected', async () => {
+    const claims = createClaims();
+    const token = await signSessionToken(claims, SECRET);
+    const forged = replacePayload(token, { ...claims, username: 'attacker' });
+    return (await verifySessionToken(forged, SECRET)) === null;
+  }, results);
+
+  await runTest('Tampered payload (extended expiry) is rejected', async () => {
+    const claims = createClaims();
+    const token = await signSessionToken(claims, SECRET);
+    const forged = replacePayload(token, { ...claims, expiresAt: claims.expiresAt + 24 * 60 * 60 * 1000 });
+    return (await verifySessionToken(forged, SECRET)) === null;
+  }, results);
+
+  await runTest('Tampered payload (escalated role) is rejected', async () => {
+    const claims = createClaims({ role: 'viewer' });
+    const token = await signSessionToken(claims, SECRET);
+    const forged = replacePayload(token, { ...claims, role: 'admin' });
+    return (await verifySessionToken(forged, SECRET)) === null;
+  }, results);
+
+  await runTest('Token without a role (older format) is rejected', async () => {
+    const { sessionId, username, issuedAt, expiresAt } = createClaims();
+    const token = await signSessionToken({ sessionId, username, issuedAt, expiresAt }, SECRET);
+    return (await verifySessionToken(token, SECRET)) === null;
+  }, results);
+
+  await runTest('Tampered signature is rejected', async () => {
+    const token = await signSessionToken(createClaims(), SECRET);
+    // Flip a character well inside the signature (the last one may only hold padding bits)
+    const index = token.length - 10;
+    const forged = token.slice(0, index) + (token[index] === 'A' ? 'B' : 'A') + token.slice(index + 1);
+    return (await verifySessionToken(forged, SECRET)) === null;
+  }, results);
+
+  await runTest('Token signed with a different secret is rejected', async () => {
+    const token = await signSessionToken(createClaims(), OTHER_SECRET);
+    return (await verifySessionToken(token, SECRET)) === null;
+  }, results);
+
+  await runTest('Expired token is rejected', async () => {
+    const now = Date.now();
+    const token = await signSessionToken(
+      createClaims({ issuedAt: now - 60 * 60 * 1000, expiresAt: now - 1000 }),
+      SECRET
+    );
+    return (await verifySessionToken(token, SECRET)) === null;
+  }, results);
+
+  await runTest('Malformed tokens are rejected', async () => {
+    const candidates = [undefined, '', 'v1', 'v1.abc', 'v2.abc.def', 'v1.!!!.###', 'a.b.c.d'];
+    for (const candidate of candidates) {
+      if ((await verifySessionToken(candidate, SECRET)) !== null) {
+        return false;
+      }
+    }
+    return true;
+  }, results);
+
+  await runTest('Session IDs are unique', async () => {
+    const ids = new Set(Array.from({ length: 100 }, () => generateSessionId()));
+    return ids.size === 100;
+  }, results);
+
+  const success = printTestResults('Session Token Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
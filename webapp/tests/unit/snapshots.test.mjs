@@ -0,0 +1,132 @@
+/**
+ * Snapshot Gallery Tests
+ * Stores stills in a temporary data directory and checks names and formats
+ */
+
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+// Isolate the gallery in a temporary data directory before it is imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-snapshots-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const { getSnapshotFileName, getSnapshotFormat } = await import('../../src/lib/snapshots/index.ts');
+const {
+  addSnapshot,
+  deleteStoredSnapshot,
+  getStoredSnapshot,
+  listStoredSnapshots,
+  STILL_CONTENT_TYPES,
+} = await import('../../src/lib/snapshots/snapshot-store.ts');
+const { exceedsContentLength, readBodyWithLimit } = await import('../../src/lib/http/read-body.ts');
+
+function details(overrides) {
+  return {
+    cameraId: 'cam-1',
+    cameraName: 'Front Door',
+    takenAt: '2024-01-15T12:00:00.000Z',
+    contentType: 'image/png',
+    createdBy: 'admin',
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  console.log('🧪 Starting Snapshot Gallery Tests...\n');
+  const results = createTestResults();
+
+  await runTest('PNG and JPEG stills with download names', async () => {
+    const takenAt = new Date(2024, 0, 15, 22, 30, 5);
+    return (
+      STILL_CONTENT_TYPES.join() === 'image/png,image/jpeg' &&
+      getSnapshotFormat('image/jpeg') === 'jpeg' &&
+      getSnapshotFormat('image/png') === 'png' &&
+      getSnapshotFileName('Front Door', takenAt, 'png') === 'front-door-20240115-223005.png' &&
+      getSnapshotFileName('Back Yard', takenAt, 'jpeg') === 'back-yard-20240115-223005.jpg'
+    );
+  }, results);
+
+  await runTest('Stills are stored with their image, newest first', async () => {
+    const { snapshot: older } = await addSnapshot(details(), Buffer.from('png-data'));
+    const { snapshot: newer } = await addSnapshot(
+      details({ cameraId: 'cam-2', cameraName: 'Garage', takenAt: '2024-01-15T13:00:00.000Z', contentType: 'image/jpeg' }),
+      Buffer.from('jpeg')
+    );
+    const list = await listStoredSnapshots();
+    const stored = await getStoredSnapshot(older.id);
+    const files = (await readdir(path.join(dataDir, 'snapshots'))).sort();
+
+    return (
+      list.length === 2 &&
+      list[0].id === newer.id &&
+      list[1].id === older.id &&
+      older.size === 8 &&
+      older.createdBy === 'admin' &&
+      stored.data.toString() === 'png-data' &&
+      stored.snapshot.cameraName === 'Front Door' &&
+      files.join() === [`${newer.id}.jpg`, `${older.id}.png`].sort().join()
+    );
+  }, results);
+
+  await runTest('Unknown IDs are not looked up on disk', async () => {
+    return (
+      (await getStoredSnapshot('../snapshots.json')) === null &&
+      (await getStoredSnapshot('missing')) === null &&
+      (await deleteStoredSnapshot('missing')) === false
+    );
+  }, results);
+
+  await runTest('Deleting removes the still and its image', async () => {
+    const [first] = await listStoredSnapshots();
+    const deleted = await deleteStoredSnapshot(first.id);
+    const files = await readdir(path.join(dataDir, 'snapshots'));
+    return (
+      deleted &&
+      (await getStoredSnapshot(first.id)) === null &&
+      (await listStoredSnapshots()).length === 1 &&
+      files.length === 1 &&
+      !files.some(file => file.startsWith(first.id))
+    );
+  }, results);
+
+  await runTest('Uploads are refused by Content-Length and cut off at the limit', async () => {
+    let pulled = 0;
+    let cancelled = false;
+    const endless = new ReadableStream({
+      pull: controller => {
+        pulled++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+    const upload = body => new Request('http://localhost/api/snapshots', { method: 'POST', body, duplex: 'half' });
+
+    const tooLong = await readBodyWithLimit(upload(endless), 4096);
+    const fits = await readBodyWithLimit(upload('still'), 4096);
+    const empty = await readBodyWithLimit(upload(''), 4096);
+    const announced = new Request('http://localhost/api/snapshots', { headers: { 'content-length': '4097' } });
+    return (
+      tooLong === null &&
+      cancelled &&
+      pulled <= 6 &&
+      fits?.toString() === 'still' &&
+      empty === null &&
+      exceedsContentLength(announced, 4096) &&
+      !exceedsContentLength(upload('still'), 4096)
+    );
+  }, results);
+
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('Snapshot Gallery Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
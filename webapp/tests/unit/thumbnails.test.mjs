@@ -0,0 +1,126 @@
+/**
+ * Camera Thumbnail Tests
+ * Verifies the frame cache TTL and grabbing frames from a stand-in HLS server through a stand-in ffmpeg
+ */
+
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+const workDir = await mkdtemp(path.join(tmpdir(), 'camsuite-thumbnails-'));
+process.env.CAMSUITE_SNAPSHOT_TTL = '2';
+
+// Stand-in for ffmpeg: records its arguments and input and prints a fake JPEG
+const fakeFfmpeg = path.join(workDir, 'ffmpeg');
+const argsFile = path.join(workDir, 'args.txt');
+const inputFile = path.join(workDir, 'input.bin');
+await writeFile(fakeFfmpeg, `#!/bin/sh\ncat > "${inputFile}"\necho "$@" > "${argsFile}"\nprintf 'fake-jpeg'\n`);
+await chmod(fakeFfmpeg, 0o755);
+
+// Stand-in for MediaMTX's HLS server: a multivariant playlist, an fMP4 media playlist and its files
+const HLS_FILES = {
+  'index.m3u8': '#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=1000000\nvideo1_stream.m3u8\n',
+  'video1_stream.m3u8':
+    '#EXTM3U\n#EXT-X-MAP:URI="video1_init.mp4"\n#EXTINF:1.0,\nvideo1_seg1.mp4\n' +
+    '#EXTINF:1.0,\nvideo1_seg2.mp4\n#EXT-X-PART:DURATION=0.2,URI="video1_part0.mp4"\n',
+  'video1_init.mp4': 'init|',
+  'video1_seg1.mp4': 'segment-1',
+  'video1_seg2.mp4': 'segment-2',
+};
+const hlsRequests = [];
+globalThis.fetch = async (url, init) => {
+  hlsRequests.push({ url, authorization: init?.headers?.Authorization });
+  const file = HLS_FILES[String(url).split('/').pop()];
+  return file === undefined ? new Response('not found', { status: 404 }) : new Response(file);
+};
+
+const {
+  fetchLatestSegment,
+  getCameraSnapshot,
+  getFreshSnapshot,
+  getSnapshotTtl,
+  storeSnapshot,
+} = await import('../../src/lib/thumbnails/thumbnail-cache.ts');
+
+const CAMERA = { id: 'cam-1', name: 'Front Door', path: 'front', status: 'online' };
+const SERVER_URL = 'http://192.168.1.10:8889';
+
+async function runTests() {
+  console.log('🧪 Starting Camera Thumbnail Tests...\n');
+  const results = createTestResults();
+
+  await runTest('TTL comes from CAMSUITE_SNAPSHOT_TTL', async () => {
+    return getSnapshotTtl() === 2000;
+  }, results);
+
+  await runTest('Stored frames are fresh until the TTL passes', async () => {
+    const now = Date.now();
+    storeSnapshot('cam-2', Buffer.from('frame'), 'image/png', 'player', now);
+    const fresh = getFreshSnapshot('cam-2', now + 1999);
+    return (
+      fresh?.contentType === 'image/png' &&
+      fresh.source === 'player' &&
+      getFreshSnapshot('cam-2', now + 2000) === null &&
+      getFreshSnapshot('unknown') === null
+    );
+  }, results);
+
+  await runTest('The newest segment is downloaded with its init section', async () => {
+    const segment = await fetchLatestSegment('http://192.168.1.10:8888/front/index.m3u8');
+    const missing = await fetchLatestSegment('http://192.168.1.10:8888/front/missing.m3u8');
+    return segment?.toString() === 'init|segment-2' && missing === null;
+  }, results);
+
+  await runTest('Missing frames are grabbed from the HLS stream', async () => {
+    process.env.CAMSUITE_FFMPEG_PATH = fakeFfmpeg;
+    hlsRequests.length = 0;
+    const snapshot = await getCameraSnapshot(CAMERA, SERVER_URL, { username: 'viewer', password: 'secret' });
+    const args = await readFile(argsFile, 'utf8');
+    const input = await readFile(inputFile, 'utf8');
+    const authorization = `Basic ${Buffer.from('viewer:secret').toString('base64')}`;
+    return (
+      snapshot?.data.toString() === 'fake-jpeg' &&
+      snapshot.source === 'stream' &&
+      snapshot.contentType === 'image/jpeg' &&
+      hlsRequests[0].url === 'http://192.168.1.10:8888/front/index.m3u8' &&
+      hlsRequests.every(request => request.authorization === authorization) &&
+      input === 'init|segment-2' &&
+      // The credentials stay out of ffmpeg's command line
+      args.includes('pipe:0') &&
+      !args.includes('Authorization') &&
+      !args.includes(Buffer.from('viewer:secret').toString('base64'))
+    );
+  }, results);
+
+  await runTest('Fresh frames are served without grabbing again', async () => {
+    await rm(argsFile);
+    const snapshot = await getCameraSnapshot(CAMERA, SERVER_URL);
+    const grabbed = await readFile(argsFile).then(() => true, () => false);
+    return snapshot?.data.toString() === 'fake-jpeg' && !grabbed;
+  }, results);
+
+  await runTest('Frames from players replace grabbed ones', async () => {
+    storeSnapshot('cam-1', Buffer.from('player-frame'), 'image/jpeg', 'player');
+    const snapshot = await getCameraSnapshot(CAMERA, SERVER_URL);
+    return snapshot?.data.toString() === 'player-frame' && snapshot.source === 'player';
+  }, results);
+
+  await runTest('Without ffmpeg the last frame is kept', async () => {
+    process.env.CAMSUITE_FFMPEG_PATH = path.join(workDir, 'missing-ffmpeg');
+    storeSnapshot('cam-1', Buffer.from('old-frame'), 'image/jpeg', 'player', Date.now() - 5000);
+    const stale = await getCameraSnapshot(CAMERA, SERVER_URL);
+    const none = await getCameraSnapshot({ ...CAMERA, id: 'cam-3', path: 'back' }, SERVER_URL);
+    return stale?.data.toString() === 'old-frame' && none === null;
+  }, results);
+
+  await rm(workDir, { recursive: true, force: true });
+
+  const success = printTestResults('Camera Thumbnail Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
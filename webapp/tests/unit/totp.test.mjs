@@ -0,0 +1,217 @@
+/**
+ * TOTP Two-Factor Tests
+ * Verifies HOTP/TOTP against the RFC 4226 and RFC 6238 test vectors,
+ * plus enrollment, replay protection, recovery codes and login challenges
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+// Isolate the user store in a temporary data directory before it is imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-totp-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateHotp,
+  generateRecoveryCodes,
+  generateTotp,
+  normalizeRecoveryCode,
+  verifyTotp,
+} = await import('../../src/lib/site-auth/totp.ts');
+const {
+  beginTwoFactorEnrollment,
+  claimLoginChallenge,
+  completeLoginChallenge,
+  confirmTwoFactorEnrollment,
+  createLoginChallenge,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  verifySecondFactor,
+} = await import('../../src/lib/site-auth/two-factor.ts');
+const {
+  createUser,
+  getStoredUser,
+  setupSiteCredentials,
+  getUserById,
+  updateUser,
+  DEFAULT_ADMIN_ID,
+} = await import('../../src/lib/site-auth/user-store.ts');
+
+// RFC 6238 appendix B - secrets are the ASCII seeds, codes are 8 digits with a 30 second step
+const RFC6238_SECRETS = {
+  sha1: Buffer.from('12345678901234567890'),
+  sha256: Buffer.from('12345678901234567890123456789012'),
+  sha512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+};
+
+const RFC6238_VECTORS = [
+  { time: 59, sha1: '94287082', sha256: '46119246', sha512: '90693936' },
+  { time: 1111111109, sha1: '07081804', sha256: '68084774', sha512: '25091201' },
+  { time: 1111111111, sha1: '14050471', sha256: '67062674', sha512: '99943326' },
+  { time: 1234567890, sha1: '89005924', sha256: '91819424', sha512: '93441116' },
+  { time: 2000000000, sha1: '69279037', sha256: '90698825', sha512: '38618901' },
+  { time: 20000000000, sha1: '65353130', sha256: '77737706', sha512: '47863826' },
+];
+
+// RFC 4226 appendix D - counters 0 to 9
+const RFC4226_CODES = [
+  '755224', '287082', '359152', '969429', '338314',
+  '254676', '287922', '162583', '399871', '520489',
+];
+
+async function runTests() {
+  console.log('🧪 Starting TOTP Two-Factor Tests...\n');
+  const results = createTestResults();
+
+  await runTest('HOTP matches the RFC 4226 test vectors', async () => {
+    return RFC4226_CODES.every((code, counter) => generateHotp(RFC6238_SECRETS.sha1, counter) === code);
+  }, results);
+
+  for (const algorithm of ['sha1', 'sha256', 'sha512']) {
+    await runTest(`TOTP matches the RFC 6238 test vectors (${algorithm.toUpperCase()})`, async () => {
+      return RFC6238_VECTORS.every(vector =>
+        generateTotp(RFC6238_SECRETS[algorithm], vector.time * 1000, { digits: 8, algorithm }) === vector[algorithm]
+      );
+    }, results);
+  }
+
+  await runTest('Base32 round trip', async () => {
+    const bytes = Buffer.from('12345678901234567890');
+    const encoded = base32Encode(bytes);
+    return (
+      encoded === 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ' &&
+      base32Decode(encoded.toLowerCase()).equals(bytes) &&
+      base32Decode('GEZD GNBV GY3T QOJQ GEZD GNBV GY3T QOJQ').equals(bytes)
+    );
+  }, results);
+
+  await runTest('verifyTotp allows one step of drift and rejects malformed codes', async () => {
+    const secret = base32Encode(RFC6238_SECRETS.sha1);
+    const now = 1111111111 * 1000;
+    const current = generateTotp(RFC6238_SECRETS.sha1, now);
+    const previous = generateTotp(RFC6238_SECRETS.sha1, now - 30000);
+    const tooOld = generateTotp(RFC6238_SECRETS.sha1, now - 90000);
+    return (
+      verifyTotp(secret, current, { now }) === Math.floor(now / 30000) &&
+      verifyTotp(secret, previous, { now }) === Math.floor(now / 30000) - 1 &&
+      verifyTotp(secret, tooOld, { now }) === null &&
+      verifyTotp(secret, 'abcdef', { now }) === null &&
+      verifyTotp(secret, current.slice(0, 5), { now }) === null
+    );
+  }, results);
+
+  await runTest('Provisioning URI and recovery codes are well formed', async () => {
+    const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'alice', 'Camera Suite');
+    const codes = generateRecoveryCodes(10);
+    return (
+      uri.startsWith('otpauth://totp/Camera%20Suite%3Aalice?') &&
+      uri.includes('secret=JBSWY3DPEHPK3PXP') &&
+      codes.length === 10 &&
+      new Set(codes).size === 10 &&
+      codes.every(code => /^[0-9a-z]{5}-[0-9a-z]{5}$/.test(code)) &&
+      normalizeRecoveryCode(' ABCDE fghjk ') === 'abcde-fghjk'
+    );
+  }, results);
+
+  await setupSiteCredentials({ username: 'owner', password: 'owner-password' });
+  const created = await createUser({ username: 'alice', password: 'alice-password', role: 'viewer', cameraIds: [] });
+  const userId = created.user?.id;
+  let recoveryCodes = [];
+
+  await runTest('Enrollment needs a valid code before two-factor is enabled', async () => {
+    const enrollment = await beginTwoFactorEnrollment(userId);
+    const pendingStatus = await getTwoFactorStatus(userId);
+    const wrongCode = await confirmTwoFactorEnrollment(userId, '000000');
+
+    const code = generateTotp(base32Decode(enrollment.secret), Date.now());
+    recoveryCodes = await confirmTwoFactorEnrollment(userId, code);
+    const user = await getUserById(userId);
+
+    return (
+      enrollment.qrCode.startsWith('data:image/png;base64,') &&
+      enrollment.otpauthUri.includes(enrollment.secret) &&
+      pendingStatus.pending &&
+      !pendingStatus.enabled &&
+      wrongCode === null &&
+      recoveryCodes.length === 10 &&
+      user.twoFactorEnabled === true &&
+      (await beginTwoFactorEnrollment(userId)) === null
+    );
+  }, results);
+
+  await runTest('Built-in default admin cannot enroll', async () => {
+    return (await beginTwoFactorEnrollment(DEFAULT_ADMIN_ID)) === null;
+  }, results);
+
+  await runTest('Authenticator codes cannot be replayed', async () => {
+    // The enrollment code already used the current step, so a future-window code is needed
+    const { secret } = (await getStoredUser(userId)).twoFactor;
+    const nextCode = generateTotp(base32Decode(secret), Date.now() + 30000);
+    const first = await verifySecondFactor(userId, nextCode);
+    const replay = await verifySecondFactor(userId, nextCode);
+    return first.valid && first.method === 'totp' && !replay.valid;
+  }, results);
+
+  await runTest('Recovery codes work once each', async () => {
+    const code = recoveryCodes[0].toUpperCase();
+    const first = await verifySecondFactor(userId, code);
+    const reuse = await verifySecondFactor(userId, code);
+    const status = await getTwoFactorStatus(userId);
+    return (
+      first.valid &&
+      first.method === 'recovery' &&
+      first.recoveryCodesRemaining === 9 &&
+      !reuse.valid &&
+      status.recoveryCodesRemaining === 9
+    );
+  }, results);
+
+  await runTest('Login challenges expire after too many attempts', async () => {
+    const { challengeToken } = createLoginChallenge(userId);
+    const claims = [1, 2, 3, 4, 5, 6].map(() => claimLoginChallenge(challengeToken));
+
+    const second = createLoginChallenge(userId);
+    completeLoginChallenge(second.challengeToken);
+
+    return (
+      claims.slice(0, 5).every(claim => claim === userId) &&
+      claims[5] === null &&
+      claimLoginChallenge(second.challengeToken) === null &&
+      claimLoginChallenge('unknown-token') === null
+    );
+  }, results);
+
+  await runTest('Disabling requires the password; admins can reset', async () => {
+    const wrongPassword = await disableTwoFactor(userId, 'wrong-password');
+    const disabled = await disableTwoFactor(userId, 'alice-password');
+    const afterDisable = await getTwoFactorStatus(userId);
+
+    // Enroll again, then reset through the admin update path
+    const enrollment = await beginTwoFactorEnrollment(userId);
+    await confirmTwoFactorEnrollment(userId, generateTotp(base32Decode(enrollment.secret), Date.now()));
+    const reset = await updateUser(userId, { resetTwoFactor: true });
+
+    return (
+      !wrongPassword &&
+      disabled &&
+      !afterDisable.enabled &&
+      reset.success &&
+      reset.user?.twoFactorEnabled === false
+    );
+  }, results);
+
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('TOTP Two-Factor Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
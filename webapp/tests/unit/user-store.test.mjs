@@ -0,0 +1,159 @@
+/**
+ * User Store Tests
+ * Verifies multi-user accounts, role rules and per-camera permissions
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+// Isolate the store in a temporary data directory before it is imported
+const dataDir = await mkdtemp(path.join(tmpdir(), 'camsuite-users-'));
+process.env.CAMSUITE_DATA_DIR = dataDir;
+
+const {
+  createUser,
+  deleteUser,
+  getCredentialStoreStatus,
+  getUserById,
+  listUsers,
+  parseUserInput,
+  setupSiteCredentials,
+  updateUser,
+  verifySiteCredentials,
+  DEFAULT_ADMIN_ID,
+} = await import('../../src/lib/site-auth/user-store.ts');
+const { hasRole, canViewCamera, filterCamerasForUser } = await import('../../src/lib/site-auth/permissions.ts');
+const { hashPassword } = await import('../../src/lib/site-auth/password.ts');
+
+async function clearStore() {
+  await rm(path.join(dataDir, 'users.json'), { force: true });
+  await rm(path.join(dataDir, 'site-credentials.json'), { force: true });
+}
+
+async function runTests() {
+  console.log('🧪 Starting User Store Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Default admin login works only before setup', async () => {
+    await clearStore();
+    const status = await getCredentialStoreStatus();
+    const verification = await verifySiteCredentials('admin', 'changeme');
+    return (
+      status.isFirstLaunch &&
+      verification.valid &&
+      verification.user?.id === DEFAULT_ADMIN_ID &&
+      verification.user?.role === 'admin'
+    );
+  }, results);
+
+  await runTest('Setup creates the first admin and disables default login', async () => {
+    await clearStore();
+    const admin = await setupSiteCredentials({ username: 'owner', password: 'owner-password' });
+    const second = await setupSiteCredentials({ username: 'other', password: 'other-password' });
+    const defaultLogin = await verifySiteCredentials('admin', 'changeme');
+    const ownerLogin = await verifySiteCredentials('owner', 'owner-password');
+    return (
+      admin?.role === 'admin' &&
+      second === null &&
+      !defaultLogin.valid &&
+      ownerLogin.valid &&
+      ownerLogin.user?.id === admin.id &&
+      (await getUserById(DEFAULT_ADMIN_ID)) === null
+    );
+  }, results);
+
+  await runTest('Users can be created with roles and camera permissions', async () => {
+    const result = await createUser({
+      username: 'kid',
+      password: 'kid-password',
+      role: 'viewer',
+      cameraIds: ['front-door'],
+    });
+    const login = await verifySiteCredentials('KID', 'kid-password');
+    return result.success && login.valid && login.user?.role === 'viewer' &&
+      login.user?.cameraIds.join() === 'front-door';
+  }, results);
+
+  await runTest('Duplicate usernames are rejected (case-insensitive)', async () => {
+    const result = await createUser({ username: 'Kid', password: 'another-pass', role: 'operator', cameraIds: [] });
+    return !result.success && result.reason === 'conflict';
+  }, results);
+
+  await runTest('Listed users never expose password hashes', async () => {
+    const users = await listUsers();
+    return users.length === 2 && users.every(user => !('passwordHash' in user));
+  }, results);
+
+  await runTest('Camera permissions are cleared for non-viewers', async () => {
+    const kid = (await listUsers()).find(user => user.username === 'kid');
+    const result = await updateUser(kid.id, { role: 'operator' });
+    return result.success && result.user.role === 'operator' && result.user.cameraIds.length === 0;
+  }, results);
+
+  await runTest('The last admin cannot be demoted or deleted', async () => {
+    const owner = (await listUsers()).find(user => user.username === 'owner');
+    const demote = await updateUser(owner.id, { role: 'viewer' });
+    const remove = await deleteUser(owner.id);
+    return !demote.success && demote.reason === 'last_admin' && !remove.success && remove.reason === 'last_admin';
+  }, results);
+
+  await runTest('Deleted users can no longer sign in', async () => {
+    const kid = (await listUsers()).find(user => user.username === 'kid');
+    const result = await deleteUser(kid.id);
+    const login = await verifySiteCredentials('kid', 'kid-password');
+    return result.success && !login.valid && (await getUserById(kid.id)) === null;
+  }, results);
+
+  await runTest('Legacy single-account file is migrated to an admin', async () => {
+    await clearStore();
+    await writeFile(path.join(dataDir, 'site-credentials.json'), JSON.stringify({
+      username: 'legacy',
+      passwordHash: await hashPassword('legacy-password'),
+      updatedAt: new Date().toISOString(),
+    }));
+    const login = await verifySiteCredentials('legacy', 'legacy-password');
+    const users = await listUsers();
+    return login.valid && login.user?.role === 'admin' && users.length === 1 &&
+      users[0].id === login.user.id;
+  }, results);
+
+  await runTest('User input is validated', async () => {
+    const invalid = parseUserInput({ username: 'x', password: 'short', role: 'superuser' }, { partial: false });
+    const partial = parseUserInput({ role: 'viewer', cameraIds: ['a', 'a', 'b'] }, { partial: true });
+    return (
+      invalid.errors.length === 3 &&
+      partial.errors.length === 0 &&
+      partial.input.username === undefined &&
+      partial.input.password === undefined &&
+      partial.input.cameraIds.join() === 'a,b'
+    );
+  }, results);
+
+  await runTest('Role and camera permission helpers', async () => {
+    const viewer = { role: 'viewer', cameraIds: ['cam-1'] };
+    const operator = { role: 'operator', cameraIds: [] };
+    const cameras = [{ id: 'cam-1' }, { id: 'cam-2' }];
+    return (
+      hasRole('admin', 'operator') &&
+      !hasRole('viewer', 'operator') &&
+      !hasRole(undefined, 'viewer') &&
+      canViewCamera(viewer, 'cam-1') &&
+      !canViewCamera(viewer, 'cam-2') &&
+      filterCamerasForUser(cameras, operator).length === 2 &&
+      filterCamerasForUser(cameras, viewer).length === 1 &&
+      filterCamerasForUser(cameras, null).length === 0
+    );
+  }, results);
+
+  await rm(dataDir, { recursive: true, force: true });
+
+  const success = printTestResults('User Store Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,63 @@
+/**
+ * Live Wall Layout Tests
+ * Verifies how cameras are placed on tiles when layouts and camera lists change
+ */
+
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+const { fitSlots, getWallLayout, swapSlots, WALL_LAYOUTS } = await import('../../src/lib/wall/index.ts');
+
+const CAMERAS = ['a', 'b', 'c', 'd', 'e'].map(id => ({ id, name: id.toUpperCase(), path: id, status: 'unknown' }));
+
+async function runTests() {
+  console.log('🧪 Starting Live Wall Layout Tests...\n');
+  const results = createTestResults();
+
+  await runTest('Layouts have the expected tile counts', async () => {
+    const tiles = Object.fromEntries(WALL_LAYOUTS.map(layout => [layout.id, layout.tiles]));
+    return (
+      tiles['1x1'] === 1 &&
+      tiles['2x2'] === 4 &&
+      tiles['3x3'] === 9 &&
+      tiles['1+5'] === 6 &&
+      getWallLayout('1+5').featured === true &&
+      getWallLayout('bogus').id === '2x2'
+    );
+  }, results);
+
+  await runTest('An empty wall is filled with cameras in order', async () => {
+    const slots = fitSlots([], getWallLayout('2x2'), CAMERAS);
+    const big = fitSlots([], getWallLayout('3x3'), CAMERAS);
+    return slots.join() === 'a,b,c,d' && big.length === 9 && big.slice(5).every(id => id === null);
+  }, results);
+
+  await runTest('Unknown cameras leave their tile empty', async () => {
+    const slots = fitSlots(['a', 'gone', null, 'c'], getWallLayout('2x2'), CAMERAS);
+    return slots[0] === 'a' && slots[1] === null && slots[2] === null && slots[3] === 'c';
+  }, results);
+
+  await runTest('Shrinking a layout keeps placed cameras in empty tiles', async () => {
+    const slots = fitSlots(['a', null, null, 'd'], getWallLayout('1x1'), CAMERAS);
+    const two = fitSlots(['a', null, 'c', 'd'], { ...getWallLayout('2x2'), tiles: 2 }, CAMERAS);
+    return slots.join() === 'a' && two.join() === 'a,c';
+  }, results);
+
+  await runTest('Growing a layout adds empty tiles', async () => {
+    const slots = fitSlots(['b', 'a'], getWallLayout('2x2'), CAMERAS);
+    return slots.length === 4 && slots[0] === 'b' && slots[1] === 'a' && slots[2] === null;
+  }, results);
+
+  await runTest('Dragging a tile onto another swaps them', async () => {
+    const slots = ['a', 'b', null, 'd'];
+    const swapped = swapSlots(slots, 0, 2);
+    return swapped[0] === null && swapped[2] === 'a' && slots[0] === 'a';
+  }, results);
+
+  const success = printTestResults('Live Wall Layout Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});
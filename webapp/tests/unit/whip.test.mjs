@@ -0,0 +1,311 @@
+/**
+ * WHIP Publishing Tests
+ * Publishing local media to MediaMTX (talkback, browser cameras) against a local WHIP endpoint with a stand-in
+ * RTCPeerConnection, session teardown, user-friendly errors, capture settings and registering published cameras
+ */
+
+import http from 'http';
+import { createTestResults, runTest, printTestResults } from '../helpers/test-runner.mjs';
+
+/**
+ * Records what the WHIP client does with its peer connection
+ */
+class FakePeerConnection {
+  constructor(config) {
+    this.config = config;
+    this.transceivers = [];
+    this.closed = false;
+  }
+
+  addTransceiver(track, init) {
+    const transceiver = {
+      track,
+      init,
+      codecs: null,
+      setCodecPreferences: codecs => (transceiver.codecs = codecs),
+    };
+    this.transceivers.push(transceiver);
+    return transceiver;
+  }
+
+  async createOffer() {
+    return { type: 'offer', sdp: `offer:${this.transceivers.map(({ track, init }) => `${track.kind}/${init.direction}`).join(',')}` };
+  }
+
+  async setLocalDescription(description) {
+    this.localDescription = description;
+  }
+
+  async setRemoteDescription(description) {
+    this.remoteDescription = description;
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+globalThis.RTCPeerConnection = FakePeerConnection;
+globalThis.RTCRtpSender = {
+  getCapabilities: kind => (kind === 'video' ? { codecs: [{ mimeType: 'video/VP8' }, { mimeType: 'video/H264' }, { mimeType: 'video/VP9' }] } : null),
+};
+
+// Browser storage for the publish settings and the config cache
+function createStorage() {
+  const items = new Map();
+  return {
+    getItem: key => (items.has(key) ? items.get(key) : null),
+    setItem: (key, value) => items.set(key, String(value)),
+    removeItem: key => items.delete(key),
+  };
+}
+globalThis.window = globalThis;
+globalThis.localStorage = createStorage();
+
+const { buildWhipUrl } = await import('../../src/config/index.ts');
+const {
+  getPublishConstraints,
+  loadPublishSettings,
+  registerPublishedCamera,
+  savePublishSettings,
+  validatePublishPath,
+} = await import('../../src/lib/publish/index.ts');
+const { createAuthHeader } = await import('../../src/lib/whep/index.ts');
+const {
+  closeWhipSession,
+  createWhipSession,
+  getMediaErrorMessage,
+  getWhipErrorMessage,
+} = await import('../../src/lib/whip/index.ts');
+
+const CREDENTIALS = { username: 'admin', password: 'changeme' };
+const MICROPHONE = { getTracks: () => [{ kind: 'audio' }] };
+const PHONE_CAMERA = { getTracks: () => [{ kind: 'video' }, { kind: 'audio' }] };
+
+/**
+ * A WHIP endpoint like MediaMTX's: paths in `paths` accept publishers with the right Basic auth
+ */
+async function startWhipServer(paths = ['camera1_talk']) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ method: req.method, path: req.url, headers: req.headers, body });
+      const [, pathName, endpoint, sessionId] = req.url.split('/');
+      if (req.headers.authorization !== createAuthHeader(CREDENTIALS)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="mediamtx"' }).end('authentication error');
+      } else if (!paths.includes(pathName) || endpoint !== 'whip') {
+        res.writeHead(404).end('path not found');
+      } else if (req.method === 'POST' && !sessionId) {
+        res.writeHead(201, { 'Content-Type': 'application/sdp', 'Location': `/${pathName}/whip/session-1` }).end(`answer:${body}`);
+      } else if (req.method === 'DELETE' && sessionId) {
+        res.writeHead(200).end();
+      } else {
+        res.writeHead(405).end();
+      }
+    });
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
+
+/**
+ * Stand in for /api/config with If-Match versioning like the real route
+ */
+function useFakeConfigApi(cameras) {
+  const originalFetch = globalThis.fetch;
+  const api = {
+    state: { config: { serverUrl: 'http://localhost:8889', iceServers: [], cameras }, version: 1 },
+    puts: 0,
+    beforeSave: null,
+    restore: () => (globalThis.fetch = originalFetch),
+  };
+  const json = (body, status = 200) => new Response(JSON.stringify(body), { status });
+
+  globalThis.fetch = async (url, init = {}) => {
+    if (url !== '/api/config') return originalFetch(url, init);
+    if (!init.method || init.method === 'GET') {
+      return json({ success: true, ...structuredClone(api.state) });
+    }
+    api.puts++;
+    api.beforeSave?.();
+    if (init.headers['If-Match'] !== `"${api.state.version}"`) {
+      return json({ success: false, conflict: true, message: 'Changed meanwhile', ...structuredClone(api.state) }, 409);
+    }
+    api.state = { config: JSON.parse(init.body), version: api.state.version + 1 };
+    return json({ success: true, ...structuredClone(api.state) });
+  };
+  return api;
+}
+
+async function runTests() {
+  console.log('🧪 Starting WHIP Publishing Tests...\n');
+  const results = createTestResults();
+  const server = await startWhipServer();
+
+  await runTest('WHIP URLs point at the path\'s /whip endpoint', async () => {
+    return (
+      buildWhipUrl('http://192.168.1.10:8889/', '/camera1_talk') === 'http://192.168.1.10:8889/camera1_talk/whip' &&
+      buildWhipUrl('https://cams.example.com', 'phone') === 'https://cams.example.com/phone/whip'
+    );
+  }, results);
+
+  await runTest('Publishing sends the offer with send-only tracks and applies the answer', async () => {
+    const iceServers = [{ urls: 'stun:stun.example.com:3478' }];
+    const session = await createWhipSession(`${server.url}/`, 'camera1_talk', MICROPHONE, CREDENTIALS, iceServers);
+    const request = server.requests.at(-1);
+    const peerConnection = session.peerConnection;
+    return (
+      session.isActive &&
+      !session.lastError &&
+      session.resourceUrl === `${server.url}/camera1_talk/whip/session-1` &&
+      request.method === 'POST' &&
+      request.path === '/camera1_talk/whip' &&
+      request.headers['content-type'] === 'application/sdp' &&
+      request.body === 'offer:audio/sendonly' &&
+      peerConnection.transceivers[0].init.streams[0] === MICROPHONE &&
+      peerConnection.config.iceServers === iceServers &&
+      peerConnection.remoteDescription.type === 'answer' &&
+      peerConnection.remoteDescription.sdp === 'answer:offer:audio/sendonly' &&
+      !peerConnection.closed
+    );
+  }, results);
+
+  await runTest('Closing deletes the session on the server', async () => {
+    const session = await createWhipSession(server.url, 'camera1_talk', MICROPHONE, CREDENTIALS);
+    await closeWhipSession(session, CREDENTIALS);
+    const request = server.requests.at(-1);
+    return (
+      !session.isActive &&
+      session.peerConnection.closed &&
+      request.method === 'DELETE' &&
+      request.path === '/camera1_talk/whip/session-1' &&
+      request.headers.authorization === createAuthHeader(CREDENTIALS)
+    );
+  }, results);
+
+  await runTest('Refused and unknown paths end the session with a clear message', async () => {
+    const refused = await createWhipSession(server.url, 'camera1_talk', MICROPHONE, { username: 'admin', password: 'wrong' });
+    const missing = await createWhipSession(server.url, 'camera9_talk', MICROPHONE, CREDENTIALS);
+    return (
+      !refused.isActive &&
+      refused.peerConnection.closed &&
+      getWhipErrorMessage(refused.lastError).startsWith('Publishing was refused') &&
+      !missing.isActive &&
+      getWhipErrorMessage(missing.lastError).startsWith('Path not found')
+    );
+  }, results);
+
+  await runTest('An unreachable server does not throw', async () => {
+    const unreachable = await startWhipServer();
+    await unreachable.close();
+    const session = await createWhipSession(unreachable.url, 'camera1_talk', MICROPHONE, CREDENTIALS);
+    // Without a resource there is nothing to delete
+    await closeWhipSession(session, CREDENTIALS);
+    return !session.isActive && session.peerConnection.closed && typeof session.lastError === 'string';
+  }, results);
+
+  await runTest('Browser cameras send H264 at the chosen bitrate', async () => {
+    const session = await createWhipSession(server.url, 'camera1_talk', PHONE_CAMERA, CREDENTIALS, undefined, {
+      videoCodec: 'video/H264',
+      videoBitrate: 2500,
+    });
+    const [video, audio] = session.peerConnection.transceivers;
+    await closeWhipSession(session, CREDENTIALS);
+    return (
+      session.isActive === false &&
+      video.init.sendEncodings[0].maxBitrate === 2500000 &&
+      video.codecs.map(codec => codec.mimeType).join() === 'video/H264,video/VP8,video/VP9' &&
+      !('sendEncodings' in audio.init) &&
+      audio.codecs === null
+    );
+  }, results);
+
+  await runTest('Publish paths are validated', async () => {
+    return (
+      validatePublishPath(' /phone_kitchen ') === null &&
+      validatePublishPath('phones/garden-1') === null &&
+      validatePublishPath('  ') === 'Path is required' &&
+      validatePublishPath('phone kitchen') !== null &&
+      validatePublishPath('phone//x') !== null &&
+      validatePublishPath('phone?x=1') !== null
+    );
+  }, results);
+
+  await runTest('Capture settings are remembered and turned into constraints', async () => {
+    const defaults = loadPublishSettings();
+    savePublishSettings({ ...defaults, deviceId: 'cam-2', resolution: '1080p', bitrate: 4000, audio: false });
+    const saved = loadPublishSettings();
+    localStorage.setItem('camsuite_publish', JSON.stringify({ resolution: '8k', bitrate: 123, audio: 'yes' }));
+    const sanitized = loadPublishSettings();
+    const back = getPublishConstraints(defaults);
+    const chosen = getPublishConstraints(saved);
+    return (
+      defaults.path === 'phone' &&
+      saved.resolution === '1080p' && saved.bitrate === 4000 && saved.audio === false &&
+      sanitized.resolution === '720p' && sanitized.bitrate === 1000 && sanitized.audio === true &&
+      back.video.facingMode === 'environment' && back.video.width.ideal === 1280 && back.audio !== false &&
+      chosen.video.deviceId.exact === 'cam-2' && chosen.video.height.ideal === 1080 && chosen.audio === false
+    );
+  }, results);
+
+  await runTest('Microphone errors are explained', async () => {
+    const named = name => new DOMException('failed', name);
+    return (
+      getMediaErrorMessage(named('NotAllowedError')).startsWith('Access to the microphone was blocked') &&
+      getMediaErrorMessage(named('NotFoundError')) === 'No microphone was found.' &&
+      getMediaErrorMessage(named('NotReadableError'), 'camera') === 'The camera is in use by another application.' &&
+      // No navigator.mediaDevices here, as on plain HTTP
+      getMediaErrorMessage(new Error('boom')).includes('needs HTTPS')
+    );
+  }, results);
+
+  await runTest('Published paths are added to the cameras once', async () => {
+    const configServer = useFakeConfigApi([{ id: 'camera-1', name: 'Front Door', path: 'front' }]);
+    const first = await registerPublishedCamera('/phone_kitchen', '');
+    const again = await registerPublishedCamera('phone_kitchen', 'Other Name');
+    configServer.restore();
+    const cameras = configServer.state.config.cameras;
+    return (
+      first.success && first.created &&
+      first.camera.name === 'Phone Kitchen' &&
+      again.success && again.created === false &&
+      again.camera.id === first.camera.id &&
+      cameras.length === 2 &&
+      cameras[1].path === 'phone_kitchen' &&
+      configServer.state.version === 2
+    );
+  }, results);
+
+  await runTest('Registering retries on top of a newer config', async () => {
+    const configServer = useFakeConfigApi([]);
+    // Someone else saves between our read and our write
+    configServer.beforeSave = () => {
+      configServer.state.config.cameras.push({ id: 'camera-9', name: 'Garage', path: 'garage' });
+      configServer.state.version++;
+      configServer.beforeSave = null;
+    };
+    const result = await registerPublishedCamera('phone', 'Nursery');
+    configServer.restore();
+    const cameras = configServer.state.config.cameras;
+    return (
+      result.success && result.created &&
+      cameras.map(camera => camera.path).join() === 'garage,phone' &&
+      cameras[1].name === 'Nursery' &&
+      configServer.puts === 2
+    );
+  }, results);
+
+  await server.close();
+  const success = printTestResults('WHIP Publishing Tests', results);
+  process.exit(success ? 0 : 1);
+}
+
+runTests().catch(error => {
+  console.error('❌ Test suite crashed:', error);
+  process.exit(1);
+});